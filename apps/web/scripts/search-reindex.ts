@@ -0,0 +1,105 @@
+/**
+ * 검색 색인 재생성 스크립트
+ *
+ * 실행: npx tsx scripts/search-reindex.ts [서버 주소]
+ *
+ * 실행 중인 웹 서버의 /api/admin/search/reindex를 INTERNAL_SECRET으로 호출하고
+ * 완료될 때까지 진행 상태를 출력합니다. (관리자 설정 > 검색의 재색인과 동일)
+ * 서버 주소 기본값: SEARCH_REINDEX_URL 또는 http://localhost:${VITE_PORT || 3010}
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+
+// .env 파일 직접 파싱
+async function loadEnv(): Promise<Record<string, string>> {
+    const envPath = path.join(process.cwd(), '.env');
+    try {
+        const content = await fs.readFile(envPath, 'utf-8');
+        const env: Record<string, string> = {};
+        for (const line of content.split('\n')) {
+            const trimmed = line.trim();
+            if (!trimmed || trimmed.startsWith('#')) continue;
+            const eqIndex = trimmed.indexOf('=');
+            if (eqIndex > 0) {
+                const key = trimmed.slice(0, eqIndex);
+                let value = trimmed.slice(eqIndex + 1);
+                // 따옴표 제거
+                if (
+                    (value.startsWith("'") && value.endsWith("'")) ||
+                    (value.startsWith('"') && value.endsWith('"'))
+                ) {
+                    value = value.slice(1, -1);
+                }
+                env[key] = value;
+            }
+        }
+        return env;
+    } catch {
+        return {};
+    }
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+interface ReindexStatus {
+    state: 'idle' | 'running' | 'completed' | 'failed';
+    provider: string | null;
+    boardsDone: number;
+    boardsTotal: number;
+    documents: number;
+    error: string | null;
+}
+
+async function reindex() {
+    const env = { ...(await loadEnv()), ...process.env } as Record<string, string | undefined>;
+    const secret = env.INTERNAL_SECRET;
+    if (!secret) {
+        throw new Error('INTERNAL_SECRET이 설정되지 않았습니다.');
+    }
+
+    const baseUrl = (
+        process.argv[2] ||
+        env.SEARCH_REINDEX_URL ||
+        `http://localhost:${env.VITE_PORT || 3010}`
+    ).replace(/\/$/, '');
+    const endpoint = `${baseUrl}/api/admin/search/reindex`;
+    const headers = { 'x-internal-secret': secret };
+
+    console.log(`🚀 검색 재색인 시작: ${endpoint}\n`);
+
+    const startRes = await fetch(endpoint, { method: 'POST', headers });
+    const startBody = await startRes.json().catch(() => ({}));
+    if (startRes.status !== 409 && !startRes.ok) {
+        throw new Error(startBody.error || `HTTP ${startRes.status}`);
+    }
+    if (startRes.status === 409) {
+        console.log('⏳ 이미 진행 중인 재색인을 이어서 확인합니다.');
+    }
+
+    for (;;) {
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+
+        const res = await fetch(endpoint, { headers });
+        const body = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || `HTTP ${res.status}`);
+
+        const status = body.data as ReindexStatus;
+        console.log(
+            `   ${status.provider}: 게시판 ${status.boardsDone}/${status.boardsTotal}, 문서 ${status.documents}건`
+        );
+
+        if (status.state === 'completed') {
+            console.log(`\n✅ 재색인 완료: 문서 ${status.documents}건`);
+            return;
+        }
+        if (status.state === 'failed') {
+            throw new Error(status.error || '재색인 실패');
+        }
+    }
+}
+
+reindex().catch((error) => {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -1,4 +1,12 @@
-import { redirect, type Handle, type HandleServerError } from '@sveltejs/kit';
+import {
+    isHttpError,
+    isRedirect,
+    redirect,
+    type Handle,
+    type HandleServerError,
+    type ServerInit
+} from '@sveltejs/kit';
+import { sequence } from '@sveltejs/kit/hooks';
 import { dev } from '$app/environment';
 import { env } from '$env/dynamic/private';
 import { getMemberById, updateLoginTimestamp } from '$lib/server/auth/oauth/member.js';
@@ -8,8 +16,20 @@ import { grantLoginPoint } from '$lib/server/auth/point-grant.js';
 import { checkAndPromoteMember } from '$lib/server/auth/auto-promotion.js';
 import { generateAccessToken } from '$lib/server/auth/jwt.js';
 import { setDamoangSSOCookie } from '$lib/server/auth/sso-cookie.js';
-import { checkRateLimit, recordAttempt } from '$lib/server/rate-limit.js';
+import { rateLimitHeaders, tooManyRequestsResponse } from '$lib/server/rate-limit.js';
+import {
+    combineRateLimitResults,
+    enforceRateLimitPolicy,
+    POST_AUTH_RATE_LIMIT_SCOPES,
+    PRE_AUTH_RATE_LIMIT_SCOPES
+} from '$lib/server/rate-limit-policy.js';
 import { mapGnuboardUrl, mapRhymixUrl } from '$lib/server/url-compat.js';
+import { initPluginRuntime } from '$lib/server/plugins/runtime.js';
+import { initAffiliateHooks } from '$lib/hooks/builtin/affiliate.js';
+import { startCacheInvalidationBus } from '$lib/server/cache-bus.js';
+import { startDigestScheduler } from '$lib/server/email-digest/scheduler.js';
+import { startSavedSearchChecker } from '$lib/server/saved-searches/checker.js';
+import { observeHttpRequest } from '$lib/server/metrics.js';
 
 // --- 환경별 접근 제어 (hostname → 환경변수 매핑) ---
 // 각 환경변수가 설정된 경우에만 해당 호스트에서 접근 제어 활성화
@@ -219,18 +239,6 @@ function isSvelteKitDataRequest(event: Parameters<Handle>[0]['event']): boolean
     );
 }
 
-/** Rate limiting 경로 패턴 */
-const RATE_LIMITED_PATHS = [
-    { path: '/api/v1/auth/login', action: 'login', maxAttempts: 10, windowMs: 15 * 60 * 1000 },
-    {
-        path: '/plugin/social/start',
-        action: 'oauth_start',
-        maxAttempts: 20,
-        windowMs: 15 * 60 * 1000
-    },
-    { path: '/api/auth/logout', action: 'logout', maxAttempts: 30, windowMs: 15 * 60 * 1000 }
-];
-
 /** CSRF 검증이 필요한 mutating 메서드 */
 const CSRF_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
 
@@ -257,18 +265,6 @@ function safeGetClientAddress(event: Parameters<Handle>[0]['event']): string | n
     }
 }
 
-function getGlobalApiRateLimitKey(
-    event: Parameters<Handle>[0]['event'],
-    isWrite: boolean
-): string | null {
-    if (isWrite) {
-        const sessionId = event.cookies.get(SESSION_COOKIE_NAME);
-        if (sessionId) return `sid:${sessionId}`;
-    }
-    const clientIp = safeGetClientAddress(event);
-    return clientIp ? `ip:${clientIp}` : null;
-}
-
 /** 타임아웃 래퍼: 지정 시간 내 미완료 시 null 반환 */
 const AUTH_TIMEOUT_MS = 3000;
 function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T | null> {
@@ -450,11 +446,39 @@ const cspHeader = buildCsp();
 /** 개발/내부 전용 경로 — 프로덕션에서 차단 */
 const DEV_ONLY_PATHS = ['/api-test', '/api-docs', '/api-doc', '/install'];
 
-/** 글로벌 API rate limiting (IP당 요청 수) */
-const GLOBAL_API_RATE = { maxRequests: 600, windowMs: 60_000 }; // 분당 600회 (페이지당 ~10 API 호출)
-const WRITE_API_RATE = { maxRequests: 60, windowMs: 60_000 }; // 쓰기 분당 60회
+/**
+ * 서버 시작 시 1회 실행
+ * 플러그인 런타임은 DB/Redis 상태에 따라 느릴 수 있으므로 기다리지 않음
+ */
+export const init: ServerInit = () => {
+    initAffiliateHooks();
+    initPluginRuntime().catch((error) => {
+        console.error('[Plugin Runtime] 초기화 실패:', error);
+    });
+    startCacheInvalidationBus().catch((error) => {
+        console.error('[Cache Bus] 초기화 실패:', error);
+    });
+    startDigestScheduler();
+    startSavedSearchChecker();
+};
+
+/** 요청 처리 시간 메트릭 (라우트 ID별, 훅에서 반환·throw한 응답 포함) */
+const requestMetrics: Handle = async ({ event, resolve }) => {
+    const start = performance.now();
+    let status = 500;
+    try {
+        const response = await resolve(event);
+        status = response.status;
+        return response;
+    } catch (error) {
+        if (isRedirect(error) || isHttpError(error)) status = error.status;
+        throw error;
+    } finally {
+        observeHttpRequest(event.route.id, event.request.method, status, performance.now() - start);
+    }
+};
 
-export const handle: Handle = async ({ event, resolve }) => {
+const handleRequest: Handle = async ({ event, resolve }) => {
     const { pathname } = event.url;
     const isDataRequest = isSvelteKitDataRequest(event);
 
@@ -504,35 +528,6 @@ export const handle: Handle = async ({ event, resolve }) => {
         return new Response('Not Found', { status: 404 });
     }
 
-    // 글로벌 API Rate Limiting (SSR 내부 fetch는 IP 없으므로 건너뜀)
-    if (pathname.startsWith('/api/')) {
-        const isWrite = event.request.method !== 'GET' && event.request.method !== 'HEAD';
-        const rate = isWrite ? WRITE_API_RATE : GLOBAL_API_RATE;
-        const action = isWrite ? 'api_write' : 'api_read';
-        const rateLimitKey = getGlobalApiRateLimitKey(event, isWrite);
-        if (rateLimitKey) {
-            const { allowed, retryAfter } = checkRateLimit(
-                rateLimitKey,
-                action,
-                rate.maxRequests,
-                rate.windowMs
-            );
-            if (!allowed) {
-                return new Response(
-                    JSON.stringify({ error: '요청이 너무 많습니다. 잠시 후 다시 시도해주세요.' }),
-                    {
-                        status: 429,
-                        headers: {
-                            'Content-Type': 'application/json',
-                            'Retry-After': String(retryAfter || 60)
-                        }
-                    }
-                );
-            }
-            recordAttempt(rateLimitKey, action);
-        }
-    }
-
     // 그누보드/라이믹스 URL 호환 리다이렉트 (SEO 보존)
     const rootAliasRedirect = ROOT_ALIAS_REDIRECTS[pathname];
     if (rootAliasRedirect) {
@@ -552,36 +547,34 @@ export const handle: Handle = async ({ event, resolve }) => {
         }
     }
 
-    // Rate limiting: 인증 관련 엔드포인트 보호 (SSR 내부 fetch는 IP 없으므로 건너뜀)
-    const rateLimitRule = RATE_LIMITED_PATHS.find((r) => pathname.startsWith(r.path));
-    if (rateLimitRule) {
-        const clientIp = safeGetClientAddress(event);
-        if (clientIp) {
-            const { allowed, retryAfter } = checkRateLimit(
-                clientIp,
-                rateLimitRule.action,
-                rateLimitRule.maxAttempts,
-                rateLimitRule.windowMs
-            );
-            if (!allowed) {
-                return new Response(
-                    JSON.stringify({ error: '요청이 너무 많습니다. 잠시 후 다시 시도해주세요.' }),
-                    {
-                        status: 429,
-                        headers: {
-                            'Content-Type': 'application/json',
-                            'Retry-After': String(retryAfter || 60)
-                        }
-                    }
-                );
-            }
-            recordAttempt(clientIp, rateLimitRule.action);
-        }
+    // Rate limiting: 관리자 설정 정책 (SSR 내부 fetch 제외)
+    // IP 범위 규칙은 인증 전에 적용해 차단된 클라이언트가 인증 비용을 만들지 못하게 함
+    const rateLimitSubject = {
+        pathname,
+        method: event.request.method,
+        ip: safeGetClientAddress(event)
+    };
+    const ipRateLimit = await enforceRateLimitPolicy(
+        { ...rateLimitSubject, user: null },
+        PRE_AUTH_RATE_LIMIT_SCOPES
+    );
+    if (ipRateLimit && !ipRateLimit.allowed) {
+        return tooManyRequestsResponse(ipRateLimit);
     }
 
     // SSR 인증
     await authenticateSSR(event);
 
+    // 회원/레벨 범위 규칙은 인증 이후
+    const memberRateLimit = await enforceRateLimitPolicy(
+        { ...rateLimitSubject, user: event.locals.user },
+        POST_AUTH_RATE_LIMIT_SCOPES
+    );
+    if (memberRateLimit && !memberRateLimit.allowed) {
+        return tooManyRequestsResponse(memberRateLimit);
+    }
+    const rateLimit = combineRateLimitResults(ipRateLimit, memberRateLimit);
+
     // CSRF 검증: 세션 기반 double-submit cookie
     if (
         event.locals.sessionId &&
@@ -783,6 +776,13 @@ export const handle: Handle = async ({ event, resolve }) => {
         'Content-Type, Authorization, X-CSRF-Token'
     );
 
+    // 표준 RateLimit 헤더 (가장 제한적인 규칙 기준)
+    if (rateLimit) {
+        for (const [name, value] of Object.entries(rateLimitHeaders(rateLimit))) {
+            response.headers.set(name, value);
+        }
+    }
+
     // 보안 헤더
     if (!dev) {
         response.headers.set('Content-Security-Policy', cspHeader);
@@ -826,6 +826,8 @@ export const handle: Handle = async ({ event, resolve }) => {
     return response;
 };
 
+export const handle = sequence(requestMetrics, handleRequest);
+
 /**
  * 서버 에러 핸들러 — 에러 추적 및 사용자 친화적 메시지 반환
  * 404 제외한 모든 에러를 Dantry(ClickHouse 기반)로 fire-and-forget 전송
@@ -921,7 +921,8 @@ export type NotificationType =
     | 'message' // 쪽지
     | 'system' // 시스템 알림
     | 'levelup' // 레벨업
-    | 'point_expiry'; // 포인트 만료 예정
+    | 'point_expiry' // 포인트 만료 예정
+    | 'saved_search'; // 저장한 검색 새 글
 
 export interface Notification {
     id: number;
@@ -1,3 +1,5 @@
 export { default as NotificationDropdown } from './notification-dropdown.svelte';
 export { default as LevelupCelebration } from './levelup-celebration.svelte';
 export { default as XpLevelupToast } from './xp-levelup-toast.svelte';
+export { default as WebPushSettings } from './web-push-settings.svelte';
+export { default as EmailDigestSettings } from './email-digest-settings.svelte';
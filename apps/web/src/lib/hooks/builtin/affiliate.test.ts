@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { hooks } from '@angple/hook-system';
+import type { AffiliateLinkRow } from '$lib/server/affiliate-links';
+
+const { isLinkProcessingPluginEnabled, fetchPostAffiliateLinks } = vi.hoisted(() => ({
+    isLinkProcessingPluginEnabled: vi.fn(async () => true),
+    fetchPostAffiliateLinks: vi.fn(async () => [] as AffiliateLinkRow[])
+}));
+
+vi.mock('$lib/server/db', () => ({ default: {}, pool: {}, readPool: {} }));
+vi.mock('$lib/server/link-processing/runtime', () => ({ isLinkProcessingPluginEnabled }));
+vi.mock('$lib/server/affiliate-links', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('$lib/server/affiliate-links')>()),
+    fetchPostAffiliateLinks
+}));
+
+import {
+    initAffiliateHooks,
+    transformAffiliateCommentContent,
+    transformAffiliateContent
+} from './affiliate';
+
+const html = '<p><a href="https://www.coupang.com/vp/products/1">상품</a></p>';
+
+const convertedRow = {
+    entity_type: 'post_body',
+    status: 'converted',
+    link_index: 1,
+    redirect_id: 'abc123'
+} as AffiliateLinkRow;
+
+describe('affiliate built-in hook', () => {
+    beforeAll(() => initAffiliateHooks());
+
+    afterAll(() => {
+        hooks.removeFilter('post_content', transformAffiliateContent);
+        hooks.removeFilter('comment_content', transformAffiliateCommentContent);
+    });
+
+    beforeEach(() => {
+        isLinkProcessingPluginEnabled.mockClear();
+        fetchPostAffiliateLinks.mockClear();
+    });
+
+    it('post_content 필터가 미리 조회한 제휴 링크로 본문을 변환', async () => {
+        const result = await hooks.applyFiltersAsync('post_content', html, {
+            bo_table: 'free',
+            wr_id: 1,
+            affiliate_enabled: true,
+            affiliate_rows: [convertedRow]
+        });
+
+        expect(result).toContain('href="/go/abc123"');
+        expect(isLinkProcessingPluginEnabled).not.toHaveBeenCalled();
+        expect(fetchPostAffiliateLinks).not.toHaveBeenCalled();
+    });
+
+    it('제휴 링크 플러그인이 꺼져 있으면 본문을 그대로 둠', async () => {
+        const result = await hooks.applyFiltersAsync('post_content', html, {
+            bo_table: 'free',
+            wr_id: 1,
+            affiliate_enabled: false,
+            affiliate_rows: []
+        });
+
+        expect(result).toBe(html);
+    });
+
+    it('컨텍스트에 값이 없으면 필터에서 직접 확인·조회', async () => {
+        fetchPostAffiliateLinks.mockResolvedValueOnce([convertedRow]);
+
+        const result = await hooks.applyFiltersAsync('post_content', html, {
+            bo_table: 'free',
+            wr_id: 1
+        });
+
+        expect(result).toContain('href="/go/abc123"');
+        expect(isLinkProcessingPluginEnabled).toHaveBeenCalledTimes(1);
+        expect(fetchPostAffiliateLinks).toHaveBeenCalledWith('free', 1);
+    });
+});
@@ -1,27 +1,62 @@
+/**
+ * 제휴 링크 Built-in Hook (서버 전용)
+ * 게시글/댓글 본문의 링크를 제휴 링크로 변환
+ */
+import { hooks } from '@angple/hook-system';
+import type { AffiliateLinkRow } from '$lib/server/affiliate-links';
 import {
     processCommentContentLinks,
     processLinkField,
     processPostContentLinks
 } from '$lib/server/link-processing/adapter';
 
+/**
+ * 본문 필터 컨텍스트
+ * affiliate_enabled / affiliate_rows: 호출부에서 미리 확인·조회한 값 (없으면 필터에서 조회)
+ */
+interface AffiliateContentContext {
+    bo_table?: string;
+    wr_id?: number;
+    comment_id?: number;
+    affiliate_enabled?: boolean;
+    affiliate_rows?: AffiliateLinkRow[];
+}
+
+let initialized = false;
+
+/**
+ * 제휴 링크 필터 초기화
+ * 전역 HookManager의 post_content / comment_content 필터에 등록 (applyFiltersAsync로 호출)
+ */
+export function initAffiliateHooks(): void {
+    if (initialized) return;
+    hooks.addFilter('post_content', transformAffiliateContent, 10);
+    hooks.addFilter('comment_content', transformAffiliateCommentContent, 10);
+    initialized = true;
+}
+
 export async function transformAffiliateContent(
     html: string,
-    context?: { bo_table?: string; wr_id?: number }
+    context?: AffiliateContentContext
 ): Promise<string> {
     return processPostContentLinks(html, {
         boardId: context?.bo_table,
-        postId: context?.wr_id
+        postId: context?.wr_id,
+        enabled: context?.affiliate_enabled,
+        rows: context?.affiliate_rows
     });
 }
 
 export async function transformAffiliateCommentContent(
     html: string,
-    context?: { bo_table?: string; wr_id?: number; comment_id?: number }
+    context?: AffiliateContentContext
 ): Promise<string> {
     return processCommentContentLinks(html, {
         boardId: context?.bo_table,
         postId: context?.wr_id,
-        commentId: context?.comment_id
+        commentId: context?.comment_id,
+        enabled: context?.affiliate_enabled,
+        rows: context?.affiliate_rows
     });
 }
 
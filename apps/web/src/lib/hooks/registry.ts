@@ -4,6 +4,7 @@
  * 테마가 코어 기능을 확장할 수 있도록 이벤트 기반 아키텍처를 제공합니다.
  */
 
+import { HookProfiler, type HookProfileEntry } from '@angple/hook-system';
 import { incrementHookVersion } from './hook-state.svelte';
 
 /**
@@ -37,6 +38,7 @@ export interface Hook {
  */
 class HookRegistry {
     private hooks: Map<string, Hook[]> = new Map();
+    private profiler = new HookProfiler();
     private static instance: HookRegistry;
 
     private constructor() {}
@@ -96,9 +98,12 @@ class HookRegistry {
         }
 
         for (const hook of hookList) {
+            const startedAt = this.profiler.start();
             try {
                 await hook.callback(...args);
+                this.profiler.record('action', name, hook.source, startedAt);
             } catch (error) {
+                this.profiler.record('action', name, hook.source, startedAt, { error });
                 console.error('[Hook] Error in action hook:', {
                     name,
                     source: hook.source || 'unknown',
@@ -123,10 +128,13 @@ class HookRegistry {
         let currentValue = value;
 
         for (const hook of hookList) {
+            const startedAt = this.profiler.start();
             try {
                 const result = await hook.callback(currentValue, ...args);
                 currentValue = result !== undefined ? (result as T) : currentValue;
+                this.profiler.record('filter', name, hook.source, startedAt);
             } catch (error) {
+                this.profiler.record('filter', name, hook.source, startedAt, { error });
                 console.error('[Hook] Error in filter hook:', {
                     name,
                     source: hook.source || 'unknown',
@@ -192,6 +200,20 @@ class HookRegistry {
     getHookNames(): string[] {
         return Array.from(this.hooks.keys());
     }
+
+    /**
+     * Hook/소스별 실행 통계 조회
+     */
+    getProfile(): HookProfileEntry[] {
+        return this.profiler.getStats();
+    }
+
+    /**
+     * 실행 통계 초기화
+     */
+    resetProfile(): void {
+        this.profiler.reset();
+    }
 }
 
 // 싱글톤 인스턴스 export
@@ -259,5 +281,19 @@ export function getHookNames(): string[] {
     return hookRegistry.getHookNames();
 }
 
+/**
+ * Hook 실행 통계 조회 (편의 함수)
+ */
+export function getHookProfile(): HookProfileEntry[] {
+    return hookRegistry.getProfile();
+}
+
+/**
+ * Hook 실행 통계 초기화 (편의 함수)
+ */
+export function resetHookProfile(): void {
+    hookRegistry.resetProfile();
+}
+
 // 레지스트리 인스턴스도 export (고급 사용자용)
 export { hookRegistry };
@@ -8,7 +8,11 @@ import { createCache } from '$lib/server/cache';
 import { getAdsServerUrl } from './config';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-const bannerCache = createCache<Record<string, any[]>>({ ttl: 60_000, maxSize: 10 });
+const bannerCache = createCache<Record<string, any[]>>({
+    name: 'ads:banners',
+    ttl: 60_000,
+    maxSize: 10
+});
 const ADS_BANNER_TIMEOUT_MS = 1_200;
 
 /** ads 서버에서 배너 데이터 조회 (60초 캐시, singleflight) */
@@ -7,12 +7,16 @@
 import type { Board } from '$lib/api/types.js';
 import { backendFetch as bFetch } from '$lib/server/backend-fetch.js';
 import { createCache } from '$lib/server/cache.js';
+import {
+    publishCacheInvalidation,
+    registerCacheInvalidationHandler
+} from '$lib/server/cache-bus.js';
 import { safeJson } from '$lib/api/safe-json.js';
 import type { RowDataPacket } from 'mysql2';
 import { readPool } from '$lib/server/db.js';
 
-const boardInfoCache = createCache<Board>({ ttl: 300_000, maxSize: 200 });
-const boardAliasCache = createCache<string>({ ttl: 300_000, maxSize: 400 });
+const boardInfoCache = createCache<Board>({ name: 'board:info', ttl: 300_000, maxSize: 200 });
+const boardAliasCache = createCache<string>({ name: 'board:alias', ttl: 300_000, maxSize: 400 });
 
 export interface BoardResult {
     board: Board | null;
@@ -24,12 +28,30 @@ export interface BoardResult {
  * 게시판 정보 조회 (캐시 우선)
  * board + display_settings 를 병합하여 반환
  */
+const BOARD_CACHE_NAME = 'board-info';
+
+function deleteLocalBoardCache(boardId: string): void {
+    boardInfoCache.delete(boardId);
+    boardAliasCache.delete(boardId.toLowerCase());
+}
+
+registerCacheInvalidationHandler(BOARD_CACHE_NAME, (invalidation) => {
+    if (invalidation.op === 'delete') {
+        invalidation.keys.forEach(deleteLocalBoardCache);
+    } else {
+        boardInfoCache.clear();
+        boardAliasCache.clear();
+    }
+});
+
 /**
- * 보드 캐시 무효화 (관리자가 설정 변경 후 즉시 반영용)
+ * 보드 캐시 무효화 (관리자가 설정 변경 후 즉시 반영용, 모든 Pod에 전파)
  */
 export function invalidateBoardCache(boardId: string): void {
-    boardInfoCache.delete(boardId);
-    boardAliasCache.delete(boardId.toLowerCase());
+    deleteLocalBoardCache(boardId);
+    publishCacheInvalidation({ cache: BOARD_CACHE_NAME, op: 'delete', keys: [boardId] }).catch(
+        () => {}
+    );
 }
 
 interface BoardAliasRow extends RowDataPacket {
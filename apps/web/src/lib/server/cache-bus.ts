@@ -0,0 +1,99 @@
+/**
+ * 캐시 무효화 버스 (Redis pub/sub)
+ *
+ * 각 Pod의 L1(인메모리) 캐시는 로컬에만 있으므로, 한 Pod에서 삭제해도
+ * 다른 Pod는 L1 TTL 동안 이전 데이터를 계속 반환합니다.
+ * 무효화를 이 채널로 전파하면 모든 Pod가 같은 키를 L1에서 제거합니다.
+ *
+ * 메시지를 보낸 Pod는 이미 로컬에서 처리했으므로 자기 메시지는 무시합니다.
+ */
+
+import type Redis from 'ioredis';
+import { randomUUID } from 'node:crypto';
+import { getRedis } from './redis.js';
+
+const CHANNEL = 'angple:cache:invalidate';
+const RESUBSCRIBE_DELAY_MS = 30_000;
+
+/** 무효화 요청 */
+export type CacheInvalidation =
+    | { cache: string; op: 'delete'; keys: string[] }
+    | { cache: string; op: 'prefix'; prefix: string }
+    | { cache: string; op: 'clear' };
+
+interface BusMessage {
+    origin: string;
+    invalidation: CacheInvalidation;
+}
+
+type InvalidationHandler = (invalidation: CacheInvalidation) => void;
+
+/** 이 프로세스 식별자 (자기 메시지 무시용) */
+const instanceId = randomUUID();
+
+/** 캐시 이름 → 로컬 무효화 핸들러 */
+const handlers = new Map<string, InvalidationHandler>();
+
+let subscriber: Redis | null = null;
+
+/**
+ * 캐시 등록: 다른 Pod에서 온 무효화를 로컬 캐시에 적용할 핸들러
+ * 같은 이름으로 다시 등록하면 교체됩니다 (개발 서버 HMR).
+ */
+export function registerCacheInvalidationHandler(
+    cache: string,
+    handler: InvalidationHandler
+): void {
+    handlers.set(cache, handler);
+}
+
+/**
+ * 다른 Pod에 무효화 전파 (로컬 처리는 호출자가 먼저 수행)
+ * Redis 장애 시 전파만 생략 — 다른 Pod는 L1 TTL 후 갱신됩니다.
+ */
+export async function publishCacheInvalidation(invalidation: CacheInvalidation): Promise<void> {
+    const message: BusMessage = { origin: instanceId, invalidation };
+    try {
+        await getRedis().publish(CHANNEL, JSON.stringify(message));
+    } catch (error) {
+        console.error('[Cache Bus] 무효화 전파 실패:', (error as Error).message);
+    }
+}
+
+function handleMessage(channel: string, raw: string): void {
+    if (channel !== CHANNEL) return;
+    try {
+        const message = JSON.parse(raw) as BusMessage;
+        if (message.origin === instanceId) return;
+        handlers.get(message.invalidation.cache)?.(message.invalidation);
+    } catch (error) {
+        console.error('[Cache Bus] 메시지 처리 실패:', error);
+    }
+}
+
+/**
+ * 구독 시작 (서버 시작 시 1회)
+ *
+ * 구독 전용 연결이 필요하므로 공용 클라이언트를 duplicate() 하여 사용합니다.
+ * 첫 구독이 실패하면 일정 시간 후 다시 시도하고, 이후 재연결 시에는 ioredis가 자동 재구독합니다.
+ */
+export async function startCacheInvalidationBus(): Promise<void> {
+    if (subscriber) return;
+
+    subscriber = getRedis().duplicate();
+    subscriber.on('error', (err: Error) => {
+        console.error('[Cache Bus] Redis 구독 연결 오류:', err.message);
+    });
+    subscriber.on('message', handleMessage);
+
+    try {
+        await subscriber.subscribe(CHANNEL);
+    } catch (error) {
+        console.error('[Cache Bus] 구독 실패, 재시도 예정:', (error as Error).message);
+        subscriber.disconnect();
+        subscriber = null;
+        setTimeout(() => {
+            startCacheInvalidationBus().catch(() => {});
+        }, RESUBSCRIBE_DELAY_MS).unref?.();
+    }
+}
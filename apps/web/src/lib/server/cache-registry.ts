@@ -0,0 +1,89 @@
+/**
+ * 캐시 레지스트리 (관측용)
+ *
+ * createCache / TieredCache 인스턴스가 이름으로 등록되며, 각 캐시의
+ * 히트·미스·stale 반환·singleflight 병합·축출 횟수를 집계합니다.
+ * 통계는 프로세스(Pod) 단위입니다.
+ */
+
+import type { CacheKeyInspection, CacheSnapshot, CacheStats } from '$lib/types/admin-cache.js';
+
+export type { CacheKeyInspection, CacheSnapshot, CacheStats };
+
+/** 레지스트리에 등록되는 캐시 */
+export interface RegisteredCache {
+    name: string;
+    kind: 'memory' | 'tiered';
+    maxSize: number;
+    l1TtlMs: number;
+    l2TtlSec?: number;
+    stats: CacheStats;
+    size(): number;
+    inspect(key: string): Promise<CacheKeyInspection>;
+    /** 단일 키 삭제 (모든 Pod에 전파) */
+    purge(key: string): Promise<void>;
+}
+
+const PREVIEW_MAX_LENGTH = 2000;
+
+const registry = new Map<string, RegisteredCache>();
+let anonymousCount = 0;
+
+export function createCacheStats(): CacheStats {
+    return {
+        l1Hits: 0,
+        l2Hits: 0,
+        misses: 0,
+        staleServes: 0,
+        singleflightMerges: 0,
+        evictions: 0
+    };
+}
+
+/** 이름 없는 캐시용 이름 (테스트 등) */
+export function anonymousCacheName(): string {
+    anonymousCount += 1;
+    return `anonymous-${anonymousCount}`;
+}
+
+/**
+ * 캐시 등록 — 같은 이름이면 교체 (개발 서버 HMR로 모듈이 다시 로드되는 경우)
+ */
+export function registerCache(cache: RegisteredCache): void {
+    registry.set(cache.name, cache);
+}
+
+export function getRegisteredCache(name: string): RegisteredCache | undefined {
+    return registry.get(name);
+}
+
+/** 값 미리보기 (JSON 직렬화 후 길이 제한) */
+export function previewCacheValue(value: unknown): string {
+    let text: string;
+    try {
+        text = JSON.stringify(value) ?? 'undefined';
+    } catch {
+        text = String(value);
+    }
+    return text.length > PREVIEW_MAX_LENGTH ? `${text.slice(0, PREVIEW_MAX_LENGTH)}…` : text;
+}
+
+/** 전체 캐시 통계 (이름순) */
+export function listCacheSnapshots(): CacheSnapshot[] {
+    return [...registry.values()]
+        .map((cache) => {
+            const { l1Hits, l2Hits, misses } = cache.stats;
+            const lookups = l1Hits + l2Hits + misses;
+            return {
+                name: cache.name,
+                kind: cache.kind,
+                size: cache.size(),
+                maxSize: cache.maxSize,
+                l1TtlMs: cache.l1TtlMs,
+                l2TtlSec: cache.l2TtlSec,
+                stats: { ...cache.stats },
+                hitRate: lookups > 0 ? (l1Hits + l2Hits) / lookups : null
+            };
+        })
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -1,5 +1,54 @@
-import { describe, it, expect, vi } from 'vitest';
-import { createCache } from './cache';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Redis 대역: 문자열/SET 저장소 + publish 기록
+const { redisStore, published } = vi.hoisted(() => ({
+    redisStore: new Map<string, string | Set<string>>(),
+    published: [] as string[]
+}));
+
+vi.mock('./redis.js', () => {
+    const redis = {
+        get: async (key: string) => (redisStore.get(key) as string | undefined) ?? null,
+        ttl: async (key: string) => (redisStore.has(key) ? 60 : -2),
+        setex: async (key: string, _ttl: number, value: string) => {
+            redisStore.set(key, value);
+        },
+        del: async (...keys: string[]) => {
+            keys.forEach((key) => redisStore.delete(key));
+        },
+        smembers: async (key: string) => [...((redisStore.get(key) as Set<string>) ?? [])],
+        scan: async (_cursor: string, _match: string, pattern: string) => {
+            const prefix = pattern.replace(/\*$/, '');
+            return ['0', [...redisStore.keys()].filter((key) => key.startsWith(prefix))];
+        },
+        publish: async (_channel: string, message: string) => {
+            published.push(message);
+        },
+        multi: () => {
+            const ops: (() => void)[] = [];
+            const chain = {
+                setex: (key: string, _ttl: number, value: string) => {
+                    ops.push(() => redisStore.set(key, value));
+                    return chain;
+                },
+                sadd: (key: string, member: string) => {
+                    ops.push(() => {
+                        const set = (redisStore.get(key) as Set<string>) ?? new Set<string>();
+                        redisStore.set(key, set.add(member));
+                    });
+                    return chain;
+                },
+                expire: () => chain,
+                exec: async () => ops.forEach((op) => op())
+            };
+            return chain;
+        }
+    };
+    return { getRedis: () => redis };
+});
+
+import { createCache, TieredCache, invalidateCacheTags, postCacheTag } from './cache';
+import { getRegisteredCache, listCacheSnapshots } from './cache-registry';
 
 describe('createCache', () => {
     it('set/get 동작', () => {
@@ -51,3 +100,121 @@ describe('createCache', () => {
         expect(cache.size()).toBe(0);
     });
 });
+
+describe('TieredCache 무효화', () => {
+    beforeEach(() => {
+        redisStore.clear();
+        published.length = 0;
+    });
+
+    it('delete는 L2 삭제 후 다른 Pod에 전파', async () => {
+        const cache = new TieredCache<string>('test-del', 60_000, 60);
+        await cache.set('a', 'hello');
+        await cache.delete('a');
+
+        expect(await cache.get('a')).toBeNull();
+        expect(JSON.parse(published[0]).invalidation).toEqual({
+            cache: 'test-del',
+            op: 'delete',
+            keys: ['a']
+        });
+    });
+
+    it('다른 Pod에서 온 무효화는 L1만 제거', async () => {
+        const cache = new TieredCache<string>('test-remote', 60_000, 60);
+        await cache.set('board:1', 'x');
+        await cache.set('board:2', 'y');
+        await cache.set('menu', 'z');
+        // L2를 비워 L1 상태만 확인
+        redisStore.clear();
+
+        cache.applyInvalidation({ cache: 'test-remote', op: 'prefix', prefix: 'board:' });
+        expect(await cache.get('board:1')).toBeNull();
+        expect(await cache.get('menu')).toBe('z');
+
+        cache.applyInvalidation({ cache: 'test-remote', op: 'clear' });
+        expect(await cache.get('menu')).toBeNull();
+    });
+
+    it('태그 무효화는 태그가 달린 모든 캐시 항목 제거', async () => {
+        const feed = new TieredCache<number[]>('test-feed', 60_000, 60);
+        const list = new TieredCache<number[]>('test-list', 60_000, 60);
+        await feed.set('page1', [1, 2], [postCacheTag('free', 1), postCacheTag('free', 2)]);
+        await feed.set('page2', [3], [postCacheTag('free', 3)]);
+        await list.set('free', [1], [postCacheTag('free', 1)]);
+
+        await invalidateCacheTags([postCacheTag('free', 1)]);
+
+        expect(await feed.get('page1')).toBeNull();
+        expect(await list.get('free')).toBeNull();
+        expect(await feed.get('page2')).toEqual([3]);
+        expect(JSON.parse(published[0]).invalidation.keys.sort()).toEqual([
+            'test-feed:page1',
+            'test-list:free'
+        ]);
+    });
+});
+
+describe('캐시 통계', () => {
+    beforeEach(() => {
+        redisStore.clear();
+        published.length = 0;
+    });
+
+    it('createCache 히트/미스/병합/축출 집계', async () => {
+        const cache = createCache<number>({ name: 'test-stats', maxSize: 2 });
+        cache.set('a', 1);
+        cache.get('a');
+        cache.get('missing');
+
+        let resolve!: (value: number) => void;
+        const factory = () => new Promise<number>((r) => (resolve = r));
+        const first = cache.getOrSet('b', factory);
+        const second = cache.getOrSet('b', factory);
+        resolve(2);
+        await Promise.all([first, second]);
+        cache.set('c', 3);
+
+        const snapshot = listCacheSnapshots().find((c) => c.name === 'test-stats');
+        expect(snapshot?.stats).toMatchObject({
+            l1Hits: 1,
+            misses: 3,
+            singleflightMerges: 1,
+            evictions: 1
+        });
+        expect(snapshot?.hitRate).toBe(0.25);
+    });
+
+    it('레지스트리에서 키 조회 후 삭제 전파', async () => {
+        const cache = createCache<{ id: number }>({ name: 'test-inspect' });
+        cache.set('k', { id: 7 });
+
+        const registered = getRegisteredCache('test-inspect');
+        const inspection = await registered?.inspect('k');
+        expect(inspection?.l1.present).toBe(true);
+        expect(inspection?.preview).toBe('{"id":7}');
+
+        await registered?.purge('k');
+        expect(cache.get('k')).toBeUndefined();
+        expect(JSON.parse(published[0]).invalidation).toEqual({
+            cache: 'test-inspect',
+            op: 'delete',
+            keys: ['k']
+        });
+    });
+
+    it('TieredCache L1/L2 히트 구분 및 L2 조회', async () => {
+        const writer = new TieredCache<string>('test-tier', 60_000, 60);
+        await writer.set('x', 'v');
+        expect(await writer.get('x')).toBe('v');
+
+        // 다른 Pod 상황: L1을 비운 뒤 L2에서 조회
+        writer.applyInvalidation({ cache: 'test-tier', op: 'clear' });
+        expect(await writer.get('x')).toBe('v');
+        expect(await writer.get('none')).toBeNull();
+
+        const registered = getRegisteredCache('test-tier');
+        expect(registered?.stats).toMatchObject({ l1Hits: 1, l2Hits: 1, misses: 1 });
+        expect((await registered?.inspect('x'))?.l2).toEqual({ present: true, ttlSeconds: 60 });
+    });
+});
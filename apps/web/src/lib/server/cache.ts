@@ -6,14 +6,30 @@
  *    - L1 히트: 0ms, L2 히트: 1-3ms, 미스: DB/API 호출
  *    - 서버 재시작 시 Redis에서 복구 (cold start 방지)
  *    - 멀티 인스턴스(K8s pods) 간 캐시 공유
+ *    - 삭제/무효화는 cache-bus로 전파되어 모든 Pod의 L1에서 제거
+ *    - 태그: invalidateCacheTags()로 태그가 달린 모든 캐시 항목 일괄 제거
+ *
+ * 모든 캐시는 이름으로 cache-registry에 등록되어 히트율 등 통계가 집계됩니다.
  *
  * @example
  * ```ts
- * const boardCache = createCache<Board>({ ttl: 60_000 }); // 단순 캐시
+ * const boardCache = createCache<Board>({ name: 'board', ttl: 60_000 }); // 단순 캐시
  * const sessionCache = new TieredCache<Session>('sess', 60_000, 300); // 2-tier
  * ```
  */
 import { getRedis } from './redis.js';
+import {
+    publishCacheInvalidation,
+    registerCacheInvalidationHandler,
+    type CacheInvalidation
+} from './cache-bus.js';
+import {
+    anonymousCacheName,
+    createCacheStats,
+    previewCacheValue,
+    registerCache,
+    type CacheKeyInspection
+} from './cache-registry.js';
 
 interface CacheEntry<T> {
     value: T;
@@ -21,6 +37,8 @@ interface CacheEntry<T> {
 }
 
 interface CacheOptions {
+    /** 캐시 이름 (레지스트리 통계·관리자 조회용) */
+    name?: string;
     /** 캐시 유효 시간 (ms). 기본: 60초 */
     ttl: number;
     /** 최대 항목 수. 기본: 500 */
@@ -45,8 +63,10 @@ export interface Cache<T> {
 
 export function createCache<T>(options?: Partial<CacheOptions>): Cache<T> {
     const config = { ...DEFAULT_OPTIONS, ...options };
+    const name = config.name ?? anonymousCacheName();
     const store = new Map<string, CacheEntry<T>>();
     const pending = new Map<string, Promise<T>>();
+    const stats = createCacheStats();
 
     function isExpired(entry: CacheEntry<T>): boolean {
         return Date.now() > entry.expiresAt;
@@ -58,19 +78,25 @@ export function createCache<T>(options?: Partial<CacheOptions>): Cache<T> {
         }
     }
 
-    return {
+    const cache: Cache<T> = {
         get(key: string): T | undefined {
             const entry = store.get(key);
-            if (!entry) return undefined;
+            if (!entry) {
+                stats.misses++;
+                return undefined;
+            }
             if (isExpired(entry)) {
                 store.delete(key);
+                stats.misses++;
                 return undefined;
             }
+            stats.l1Hits++;
             return entry.value;
         },
 
         getStale(key: string): T | undefined {
             const entry = store.get(key);
+            if (entry && isExpired(entry)) stats.staleServes++;
             return entry?.value;
         },
 
@@ -81,7 +107,10 @@ export function createCache<T>(options?: Partial<CacheOptions>): Cache<T> {
                 // 여전히 초과면 가장 오래된 항목 제거
                 if (store.size >= config.maxSize) {
                     const firstKey = store.keys().next().value;
-                    if (firstKey !== undefined) store.delete(firstKey);
+                    if (firstKey !== undefined) {
+                        store.delete(firstKey);
+                        stats.evictions++;
+                    }
                 }
             }
 
@@ -97,7 +126,10 @@ export function createCache<T>(options?: Partial<CacheOptions>): Cache<T> {
 
             // Singleflight: 동일 key에 대한 중복 factory 실행 방지
             const inflight = pending.get(key);
-            if (inflight) return inflight;
+            if (inflight) {
+                stats.singleflightMerges++;
+                return inflight;
+            }
 
             const promise = factory()
                 .then((value) => {
@@ -126,6 +158,36 @@ export function createCache<T>(options?: Partial<CacheOptions>): Cache<T> {
             return store.size;
         }
     };
+
+    registerCache({
+        name,
+        kind: 'memory',
+        maxSize: config.maxSize,
+        l1TtlMs: config.ttl,
+        stats,
+        size: () => store.size,
+        async inspect(key) {
+            const entry = store.get(key);
+            return {
+                key,
+                l1: entry
+                    ? { present: true, expiresAt: entry.expiresAt, expired: isExpired(entry) }
+                    : { present: false },
+                preview: entry ? previewCacheValue(entry.value) : undefined
+            };
+        },
+        async purge(key) {
+            store.delete(key);
+            await publishCacheInvalidation({ cache: name, op: 'delete', keys: [key] });
+        }
+    });
+    // 관리자 단일 키 삭제 전파 수신 (일반 delete는 로컬 전용)
+    registerCacheInvalidationHandler(name, (invalidation) => {
+        if (invalidation.op === 'delete') invalidation.keys.forEach((key) => store.delete(key));
+        else store.clear();
+    });
+
+    return cache;
 }
 
 // --- 2-tier 캐시: L1 (Map) → L2 (Redis) ---
@@ -133,8 +195,17 @@ export function createCache<T>(options?: Partial<CacheOptions>): Cache<T> {
 interface L1Entry<T> {
     data: T;
     expiry: number;
+    tags?: string[];
 }
 
+/** 태그 → L2 키 집합 (Redis SET) */
+const TAG_KEY_PREFIX = 'cache:tag';
+/** 태그 집합 보관 기간 — 가장 긴 L2 TTL(메뉴 7일) 이상 */
+const TAG_TTL_SEC = 604_800;
+
+/** 생성된 TieredCache (prefix → 인스턴스), 태그 무효화 시 L1 정리용 */
+const tieredCaches = new Map<string, TieredCache<unknown>>();
+
 /**
  * 2-tier 캐시: L1(Map, 0ms) → L2(Redis, 1-3ms)
  *
@@ -147,6 +218,7 @@ export class TieredCache<T> {
     private readonly l2TtlSec: number;
     private readonly maxL1Size: number;
     private readonly pending: Map<string, Promise<T>>;
+    private readonly stats = createCacheStats();
 
     constructor(prefix: string, l1TtlMs: number, l2TtlSec: number, maxL1Size = 5000) {
         this.l1 = new Map();
@@ -155,12 +227,34 @@ export class TieredCache<T> {
         this.l1TtlMs = l1TtlMs;
         this.l2TtlSec = l2TtlSec;
         this.maxL1Size = maxL1Size;
+
+        tieredCaches.set(prefix, this as TieredCache<unknown>);
+        registerCacheInvalidationHandler(prefix, (invalidation) =>
+            this.applyInvalidation(invalidation)
+        );
+        registerCache({
+            name: prefix,
+            kind: 'tiered',
+            maxSize: maxL1Size,
+            l1TtlMs,
+            l2TtlSec,
+            stats: this.stats,
+            size: () => this.l1.size,
+            inspect: (key) => this.inspect(key),
+            purge: (key) => this.delete(key)
+        });
+    }
+
+    /** 캐시 이름 (Redis 키 prefix) */
+    get name(): string {
+        return this.prefix;
     }
 
     /** L1 → L2 조회 */
     async get(key: string): Promise<T | null> {
         const l1Entry = this.l1.get(key);
         if (l1Entry && Date.now() < l1Entry.expiry) {
+            this.stats.l1Hits++;
             return l1Entry.data;
         }
 
@@ -169,30 +263,48 @@ export class TieredCache<T> {
             const val = await redis.get(`${this.prefix}:${key}`);
             if (val) {
                 const data = JSON.parse(val) as T;
-                this.setL1(key, data);
+                this.setL1(key, data, l1Entry?.tags);
+                this.stats.l2Hits++;
                 return data;
             }
         } catch {
             // Redis 장애 → stale L1 데이터가 있으면 반환 (graceful degradation)
-            if (l1Entry) return l1Entry.data;
+            if (l1Entry) {
+                this.stats.staleServes++;
+                return l1Entry.data;
+            }
         }
 
+        this.stats.misses++;
         return null;
     }
 
-    /** L1 + L2에 저장 */
-    async set(key: string, data: T): Promise<void> {
-        this.setL1(key, data);
+    /**
+     * L1 + L2에 저장
+     * @param tags - 이 항목이 참조하는 대상 (예: postCacheTag()), invalidateCacheTags()로 일괄 제거
+     */
+    async set(key: string, data: T, tags?: string[]): Promise<void> {
+        this.setL1(key, data, tags);
 
         try {
             const redis = getRedis();
-            await redis.setex(`${this.prefix}:${key}`, this.l2TtlSec, JSON.stringify(data));
+            const redisKey = `${this.prefix}:${key}`;
+            if (tags && tags.length > 0) {
+                const multi = redis.multi().setex(redisKey, this.l2TtlSec, JSON.stringify(data));
+                for (const tag of new Set(tags)) {
+                    const tagKey = `${TAG_KEY_PREFIX}:${tag}`;
+                    multi.sadd(tagKey, redisKey).expire(tagKey, TAG_TTL_SEC);
+                }
+                await multi.exec();
+            } else {
+                await redis.setex(redisKey, this.l2TtlSec, JSON.stringify(data));
+            }
         } catch {
             // Redis 장애 무시 (L1에는 있음)
         }
     }
 
-    /** L1 + L2에서 삭제 */
+    /** L1 + L2에서 삭제 (모든 Pod의 L1에서 제거) */
     async delete(key: string): Promise<void> {
         this.l1.delete(key);
 
@@ -202,20 +314,42 @@ export class TieredCache<T> {
         } catch {
             // Redis 장애 무시
         }
+        await publishCacheInvalidation({ cache: this.prefix, op: 'delete', keys: [key] });
+    }
+
+    /** 키 prefix가 일치하는 항목 모두 삭제 (모든 Pod의 L1에서 제거) */
+    async invalidatePrefix(keyPrefix: string): Promise<void> {
+        this.deleteL1ByPrefix(keyPrefix);
+        await this.deleteL2Matching(`${this.prefix}:${keyPrefix}*`);
+        await publishCacheInvalidation({ cache: this.prefix, op: 'prefix', prefix: keyPrefix });
+    }
+
+    /** 전체 삭제 (모든 Pod의 L1에서 제거) */
+    async clear(): Promise<void> {
+        this.l1.clear();
+        await this.deleteL2Matching(`${this.prefix}:*`);
+        await publishCacheInvalidation({ cache: this.prefix, op: 'clear' });
     }
 
     /** L1 + L2 조회 → 미스 시 factory 실행 후 저장 (singleflight) */
-    async getOrFetch(key: string, factory: () => Promise<T>): Promise<T> {
+    async getOrFetch(
+        key: string,
+        factory: () => Promise<T>,
+        tags?: (data: T) => string[]
+    ): Promise<T> {
         const cached = await this.get(key);
         if (cached !== null) return cached;
 
         // Singleflight: 동일 key에 대한 중복 factory 실행 방지
         const inflight = this.pending.get(key);
-        if (inflight) return inflight;
+        if (inflight) {
+            this.stats.singleflightMerges++;
+            return inflight;
+        }
 
         const promise = factory()
             .then(async (data) => {
-                await this.set(key, data);
+                await this.set(key, data, tags?.(data));
                 this.pending.delete(key);
                 return data;
             })
@@ -238,7 +372,78 @@ export class TieredCache<T> {
         this.l1.clear();
     }
 
-    private setL1(key: string, data: T): void {
+    /** 태그가 달린 L1 항목 삭제 (Redis 장애로 태그 집합을 못 읽을 때) */
+    deleteL1ByTags(tags: Set<string>): void {
+        for (const [key, entry] of this.l1) {
+            if (entry.tags?.some((tag) => tags.has(tag))) this.l1.delete(key);
+        }
+    }
+
+    /** 단일 키 상태 조회 (관리자용) */
+    async inspect(key: string): Promise<CacheKeyInspection> {
+        const l1Entry = this.l1.get(key);
+        const result: CacheKeyInspection = {
+            key,
+            l1: l1Entry
+                ? {
+                      present: true,
+                      expiresAt: l1Entry.expiry,
+                      expired: Date.now() >= l1Entry.expiry,
+                      tags: l1Entry.tags
+                  }
+                : { present: false },
+            preview: l1Entry ? previewCacheValue(l1Entry.data) : undefined
+        };
+
+        try {
+            const redis = getRedis();
+            const redisKey = `${this.prefix}:${key}`;
+            const [val, ttl] = await Promise.all([redis.get(redisKey), redis.ttl(redisKey)]);
+            result.l2 = val !== null ? { present: true, ttlSeconds: ttl } : { present: false };
+            if (val !== null && !result.preview)
+                result.preview = previewCacheValue(JSON.parse(val));
+        } catch {
+            // Redis 장애 → L2 정보 생략
+        }
+        return result;
+    }
+
+    /** 다른 Pod에서 전파된 무효화 적용 (L2는 보낸 쪽에서 이미 처리) */
+    applyInvalidation(invalidation: CacheInvalidation): void {
+        switch (invalidation.op) {
+            case 'delete':
+                for (const key of invalidation.keys) this.l1.delete(key);
+                break;
+            case 'prefix':
+                this.deleteL1ByPrefix(invalidation.prefix);
+                break;
+            case 'clear':
+                this.l1.clear();
+                break;
+        }
+    }
+
+    private deleteL1ByPrefix(keyPrefix: string): void {
+        for (const key of this.l1.keys()) {
+            if (key.startsWith(keyPrefix)) this.l1.delete(key);
+        }
+    }
+
+    private async deleteL2Matching(pattern: string): Promise<void> {
+        try {
+            const redis = getRedis();
+            let cursor = '0';
+            do {
+                const [next, keys] = await redis.scan(cursor, 'MATCH', pattern, 'COUNT', 500);
+                if (keys.length > 0) await redis.del(...keys);
+                cursor = next;
+            } while (cursor !== '0');
+        } catch {
+            // Redis 장애 무시
+        }
+    }
+
+    private setL1(key: string, data: T, tags?: string[]): void {
         if (this.l1.size >= this.maxL1Size) {
             const now = Date.now();
             for (const [k, entry] of this.l1) {
@@ -246,11 +451,76 @@ export class TieredCache<T> {
             }
             if (this.l1.size >= this.maxL1Size) {
                 const keys = Array.from(this.l1.keys());
-                for (const k of keys.slice(0, Math.floor(keys.length / 2))) {
+                const evicted = keys.slice(0, Math.floor(keys.length / 2));
+                for (const k of evicted) {
                     this.l1.delete(k);
                 }
+                this.stats.evictions += evicted.length;
             }
         }
-        this.l1.set(key, { data, expiry: Date.now() + this.l1TtlMs });
+        this.l1.set(key, { data, expiry: Date.now() + this.l1TtlMs, tags });
+    }
+}
+
+// --- 태그 무효화 ---
+
+/** 게시글 태그 — 글 목록/피드 등 해당 글을 포함하는 캐시에 붙임 */
+export function postCacheTag(boardId: string, postId: number | string): string {
+    return `post:${boardId}:${postId}`;
+}
+
+/**
+ * 태그 무효화 전파용 이름 — 키가 L2 키(prefix:key) 그대로이므로,
+ * 받는 Pod가 자신에게 있는 캐시로 직접 해석합니다 (Pod마다 로드된 캐시가 다를 수 있음).
+ */
+const TAGGED_KEYS_CACHE = 'tiered:l2-keys';
+
+/** L2 키(prefix:key) → 해당 캐시의 L1 항목 삭제 (가장 긴 prefix 우선) */
+function deleteL1ByRedisKey(redisKey: string): void {
+    let match: string | null = null;
+    for (const prefix of tieredCaches.keys()) {
+        if (redisKey.startsWith(`${prefix}:`) && (!match || prefix.length > match.length)) {
+            match = prefix;
+        }
+    }
+    if (match) tieredCaches.get(match)?.deleteL1(redisKey.slice(match.length + 1));
+}
+
+registerCacheInvalidationHandler(TAGGED_KEYS_CACHE, (invalidation) => {
+    if (invalidation.op !== 'delete') return;
+    for (const redisKey of invalidation.keys) deleteL1ByRedisKey(redisKey);
+});
+
+/**
+ * 태그가 달린 모든 TieredCache 항목 제거 (모든 Pod의 L1 + L2)
+ *
+ * 태그 → 키 매핑은 Redis에 있으므로, 다른 Pod가 L2에서 읽어 와 태그를 모르는 L1 항목도
+ * 키 단위 무효화 메시지로 함께 제거됩니다.
+ */
+export async function invalidateCacheTags(tags: string[]): Promise<void> {
+    if (tags.length === 0) return;
+
+    const tagSet = new Set(tags);
+    for (const cache of tieredCaches.values()) {
+        cache.deleteL1ByTags(tagSet);
+    }
+
+    let redisKeys: string[];
+    try {
+        const redis = getRedis();
+        const tagKeys = [...tagSet].map((tag) => `${TAG_KEY_PREFIX}:${tag}`);
+        const members = await Promise.all(tagKeys.map((tagKey) => redis.smembers(tagKey)));
+        redisKeys = [...new Set(members.flat())];
+        await redis.del(...tagKeys, ...redisKeys);
+    } catch {
+        // Redis 장애 → 전파도 불가, 로컬 L1만 정리됨
+        return;
+    }
+
+    for (const redisKey of redisKeys) {
+        deleteL1ByRedisKey(redisKey);
+    }
+    if (redisKeys.length > 0) {
+        await publishCacheInvalidation({ cache: TAGGED_KEYS_CACHE, op: 'delete', keys: redisKeys });
     }
 }
@@ -42,7 +42,11 @@ function extractFirstImage(content: string): string | null {
     return null;
 }
 
-const celebrationCache = createCache<CelebrationBanner[]>({ ttl: 60_000, maxSize: 10 });
+const celebrationCache = createCache<CelebrationBanner[]>({
+    name: 'celebration',
+    ttl: 60_000,
+    maxSize: 10
+});
 
 /**
  * 축하메시지 조회
@@ -6,7 +6,10 @@
  *                                                                                   (probe 실패) → OPEN
  */
 
-type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+/** 생성된 모든 breaker (메트릭 수집용) */
+const breakers = new Map<string, CircuitBreaker>();
 
 export class CircuitBreaker {
     private state: CircuitState = 'CLOSED';
@@ -16,11 +19,12 @@ export class CircuitBreaker {
     private readonly resetTimeoutMs: number;
 
     constructor(
-        private readonly name: string,
+        readonly name: string,
         options?: { failureThreshold?: number; resetTimeoutMs?: number }
     ) {
         this.failureThreshold = options?.failureThreshold ?? 5;
         this.resetTimeoutMs = options?.resetTimeoutMs ?? 30_000;
+        breakers.set(name, this);
     }
 
     /** 요청 허용 여부. OPEN 상태에서는 즉시 false 반환. */
@@ -71,6 +75,16 @@ export class CircuitBreaker {
     getState(): CircuitState {
         return this.state;
     }
+
+    /** 연속 실패 횟수 */
+    getFailureCount(): number {
+        return this.failureCount;
+    }
+}
+
+/** 등록된 breaker 목록 (이름순) */
+export function listCircuitBreakers(): CircuitBreaker[] {
+    return [...breakers.values()].sort((a, b) => a.name.localeCompare(b.name));
 }
 
 /** 글로벌 백엔드 Circuit Breaker (싱글톤) */
@@ -0,0 +1,241 @@
+/**
+ * 다이제스트 내용 수집
+ *
+ * - 읽지 않은 알림 (g5_na_noti)
+ * - 내 글에 달린 새 댓글 (g5_board_new — 원글 행의 작성자 기준)
+ * - 구독 게시판 새 글 (g5_board_subscribe)
+ * - 팔로우 회원 새 글 (g5_member_follow)
+ *
+ * 게시판 활동은 새글 인덱스(g5_board_new)에서 찾고, 제목은 게시판 테이블에서 배치로 읽습니다.
+ * 회원 레벨로 읽을 수 없는 게시판과 비밀글은 제외합니다.
+ */
+
+import type { RowDataPacket } from 'mysql2';
+import { readPool } from '../db.js';
+
+/** 섹션별 최대 항목 수 */
+const SECTION_LIMIT = 10;
+/** 구독 게시판별 표시할 새 글 수 */
+const POSTS_PER_BOARD = 3;
+
+export interface DigestNotification {
+    sender: string;
+    message: string;
+    url: string;
+    createdAt: Date;
+}
+
+export interface DigestPost {
+    boTable: string;
+    boardName: string;
+    wrId: number;
+    subject: string;
+    author: string;
+}
+
+export interface DigestCommentedPost extends DigestPost {
+    newComments: number;
+}
+
+export interface DigestBoardActivity {
+    boTable: string;
+    boardName: string;
+    newPosts: number;
+    posts: DigestPost[];
+}
+
+export interface DigestContent {
+    notifications: DigestNotification[];
+    /** 기간 내 읽지 않은 알림 전체 수 (목록은 SECTION_LIMIT까지) */
+    notificationCount: number;
+    commentedPosts: DigestCommentedPost[];
+    boards: DigestBoardActivity[];
+    followedPosts: DigestPost[];
+}
+
+interface PostRef {
+    boTable: string;
+    wrId: number;
+}
+
+interface PostDetail {
+    subject: string;
+    author: string;
+    secret: boolean;
+}
+
+function postKey(boTable: string, wrId: number): string {
+    return `${boTable}:${wrId}`;
+}
+
+/** 게시판 테이블별 IN 쿼리로 제목·작성자 조회 */
+async function fetchPostDetails(refs: PostRef[]): Promise<Map<string, PostDetail>> {
+    const byTable = new Map<string, number[]>();
+    for (const ref of refs) {
+        if (!/^[a-zA-Z0-9_]+$/.test(ref.boTable)) continue;
+        const ids = byTable.get(ref.boTable) ?? [];
+        ids.push(ref.wrId);
+        byTable.set(ref.boTable, ids);
+    }
+
+    const details = new Map<string, PostDetail>();
+    await Promise.all(
+        [...byTable].map(async ([boTable, ids]) => {
+            try {
+                const [rows] = await readPool.query<RowDataPacket[]>(
+                    `SELECT wr_id, wr_subject, wr_name, wr_option
+                     FROM \`g5_write_${boTable}\`
+                     WHERE wr_id IN (?) AND wr_is_comment = 0`,
+                    [ids]
+                );
+                for (const row of rows) {
+                    details.set(postKey(boTable, row.wr_id), {
+                        subject: row.wr_subject,
+                        author: row.wr_name,
+                        secret: String(row.wr_option || '').includes('secret')
+                    });
+                }
+            } catch (error) {
+                console.error(`[Email Digest] 게시글 조회 실패 (${boTable}):`, error);
+            }
+        })
+    );
+    return details;
+}
+
+export async function collectDigest(
+    mbId: string,
+    memberLevel: number,
+    since: Date
+): Promise<DigestContent> {
+    const [notificationRows, countRows, commentRows, boardRows, followRows] = await Promise.all([
+        readPool
+            .query<RowDataPacket[]>(
+                `SELECT rel_mb_nick, rel_msg, rel_url, ph_datetime
+                 FROM g5_na_noti
+                 WHERE mb_id = ? AND ph_readed = 'N' AND ph_datetime >= ?
+                 ORDER BY ph_datetime DESC
+                 LIMIT ?`,
+                [mbId, since, SECTION_LIMIT]
+            )
+            .then(([rows]) => rows),
+        readPool
+            .query<RowDataPacket[]>(
+                `SELECT COUNT(*) AS count FROM g5_na_noti
+                 WHERE mb_id = ? AND ph_readed = 'N' AND ph_datetime >= ?`,
+                [mbId, since]
+            )
+            .then(([rows]) => rows),
+        readPool
+            .query<RowDataPacket[]>(
+                `SELECT c.bo_table, c.wr_parent, b.bo_subject, COUNT(*) AS new_comments
+                 FROM g5_board_new c
+                 JOIN g5_board_new p
+                   ON p.bo_table = c.bo_table AND p.wr_id = c.wr_parent AND p.wr_id = p.wr_parent
+                 JOIN g5_board b ON b.bo_table = c.bo_table
+                 WHERE p.mb_id = ? AND c.mb_id <> ? AND c.wr_id <> c.wr_parent
+                   AND c.bn_datetime >= ? AND b.bo_read_level <= ?
+                 GROUP BY c.bo_table, c.wr_parent, b.bo_subject
+                 ORDER BY new_comments DESC
+                 LIMIT ?`,
+                [mbId, mbId, since, memberLevel, SECTION_LIMIT]
+            )
+            .then(([rows]) => rows),
+        readPool
+            .query<RowDataPacket[]>(
+                `SELECT bn.bo_table, b.bo_subject, COUNT(*) AS new_posts
+                 FROM g5_board_subscribe s
+                 JOIN g5_board_new bn ON bn.bo_table = s.bo_table
+                 JOIN g5_board b ON b.bo_table = s.bo_table
+                 WHERE s.mb_id = ? AND bn.mb_id <> ? AND bn.wr_id = bn.wr_parent
+                   AND bn.bn_datetime >= ? AND b.bo_read_level <= ?
+                 GROUP BY bn.bo_table, b.bo_subject
+                 ORDER BY new_posts DESC
+                 LIMIT ?`,
+                [mbId, mbId, since, memberLevel, SECTION_LIMIT]
+            )
+            .then(([rows]) => rows),
+        readPool
+            .query<RowDataPacket[]>(
+                `SELECT bn.bo_table, bn.wr_id, b.bo_subject
+                 FROM g5_member_follow f
+                 JOIN g5_board_new bn
+                   ON bn.mb_id COLLATE utf8mb4_unicode_ci = f.target_id COLLATE utf8mb4_unicode_ci
+                 JOIN g5_board b ON b.bo_table = bn.bo_table
+                 WHERE f.mb_id = ? AND bn.wr_id = bn.wr_parent
+                   AND bn.bn_datetime >= ? AND b.bo_read_level <= ?
+                 ORDER BY bn.bn_id DESC
+                 LIMIT ?`,
+                [mbId, since, memberLevel, SECTION_LIMIT]
+            )
+            .then(([rows]) => rows)
+    ]);
+
+    // 구독 게시판별 최신 글 (게시판당 POSTS_PER_BOARD개)
+    let boardPostRows: RowDataPacket[] = [];
+    if (boardRows.length > 0) {
+        [boardPostRows] = await readPool.query<RowDataPacket[]>(
+            `SELECT bo_table, wr_id
+             FROM g5_board_new
+             WHERE bo_table IN (?) AND mb_id <> ? AND wr_id = wr_parent AND bn_datetime >= ?
+             ORDER BY bn_id DESC
+             LIMIT ?`,
+            [boardRows.map((r) => r.bo_table), mbId, since, boardRows.length * POSTS_PER_BOARD * 4]
+        );
+    }
+    const postsByBoard = new Map<string, number[]>();
+    for (const row of boardPostRows) {
+        const ids = postsByBoard.get(row.bo_table) ?? [];
+        if (ids.length < POSTS_PER_BOARD) ids.push(row.wr_id);
+        postsByBoard.set(row.bo_table, ids);
+    }
+
+    const details = await fetchPostDetails([
+        ...commentRows.map((r) => ({ boTable: r.bo_table, wrId: r.wr_parent })),
+        ...followRows.map((r) => ({ boTable: r.bo_table, wrId: r.wr_id })),
+        ...[...postsByBoard].flatMap(([boTable, ids]) => ids.map((wrId) => ({ boTable, wrId })))
+    ]);
+
+    /** 다른 회원의 비밀글은 제목도 노출하지 않음 */
+    function toPost(boTable: string, boardName: string, wrId: number, own = false) {
+        const detail = details.get(postKey(boTable, wrId));
+        if (!detail || (detail.secret && !own)) return null;
+        return { boTable, boardName, wrId, subject: detail.subject, author: detail.author };
+    }
+
+    return {
+        notifications: notificationRows.map((row) => ({
+            sender: row.rel_mb_nick,
+            message: row.rel_msg,
+            url: row.rel_url,
+            createdAt: new Date(row.ph_datetime)
+        })),
+        notificationCount: Number(countRows[0]?.count ?? 0),
+        commentedPosts: commentRows.flatMap((row) => {
+            const post = toPost(row.bo_table, row.bo_subject, row.wr_parent, true);
+            return post ? [{ ...post, newComments: Number(row.new_comments) }] : [];
+        }),
+        boards: boardRows.map((row) => ({
+            boTable: row.bo_table,
+            boardName: row.bo_subject,
+            newPosts: Number(row.new_posts),
+            posts: (postsByBoard.get(row.bo_table) ?? []).flatMap((wrId) => {
+                const post = toPost(row.bo_table, row.bo_subject, wrId);
+                return post ? [post] : [];
+            })
+        })),
+        followedPosts: followRows.flatMap((row) => {
+            const post = toPost(row.bo_table, row.bo_subject, row.wr_id);
+            return post ? [post] : [];
+        })
+    };
+}
+
+export function isDigestEmpty(content: DigestContent): boolean {
+    return (
+        content.notificationCount === 0 &&
+        content.commentedPosts.length === 0 &&
+        content.boards.length === 0 &&
+        content.followedPosts.length === 0
+    );
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { renderDigest, type DigestRenderInput } from './render';
+import type { DigestContent } from './collect';
+
+const emptyContent: DigestContent = {
+    notifications: [],
+    notificationCount: 0,
+    commentedPosts: [],
+    boards: [],
+    followedPosts: []
+};
+
+function input(content: Partial<DigestContent>): DigestRenderInput {
+    return {
+        siteName: '다모앙',
+        siteUrl: 'https://damoang.net/',
+        nickname: '앙팡',
+        frequency: 'daily',
+        content: { ...emptyContent, ...content },
+        unsubscribeUrl: 'https://damoang.net/notifications/unsubscribe?token=t',
+        settingsUrl: 'https://damoang.net/member/settings/ui?tab=notification'
+    };
+}
+
+describe('renderDigest', () => {
+    it('섹션별 항목과 절대 URL을 HTML·텍스트에 모두 출력', () => {
+        const rendered = renderDigest(
+            input({
+                notifications: [
+                    {
+                        sender: '철수',
+                        message: '댓글을 남겼습니다',
+                        url: '/free/10#c_11',
+                        createdAt: new Date()
+                    }
+                ],
+                notificationCount: 3,
+                commentedPosts: [
+                    {
+                        boTable: 'free',
+                        boardName: '자유게시판',
+                        wrId: 10,
+                        subject: '내 글',
+                        author: '앙팡',
+                        newComments: 2
+                    }
+                ],
+                boards: [
+                    {
+                        boTable: 'qa',
+                        boardName: '질문',
+                        newPosts: 5,
+                        posts: [
+                            {
+                                boTable: 'qa',
+                                boardName: '질문',
+                                wrId: 7,
+                                subject: '질문 있어요',
+                                author: '영희'
+                            }
+                        ]
+                    }
+                ]
+            })
+        );
+
+        expect(rendered.subject).toBe('[다모앙] 오늘의 다모앙 소식');
+        expect(rendered.html).toContain('href="https://damoang.net/free/10#c_11"');
+        expect(rendered.html).toContain('href="https://damoang.net/qa/7"');
+        expect(rendered.text).toContain('■ 읽지 않은 알림 3개');
+        expect(rendered.text).toContain('외 2개의 알림이 더 있습니다.');
+        expect(rendered.text).toContain('- 내 글 (자유게시판 · 새 댓글 2개)');
+        expect(rendered.text).toContain('외 4개의 새 글이 더 있습니다.');
+        expect(rendered.text).toContain(
+            '수신 거부: https://damoang.net/notifications/unsubscribe?token=t'
+        );
+    });
+
+    it('제목·닉네임의 HTML은 이스케이프', () => {
+        const rendered = renderDigest({
+            ...input({
+                followedPosts: [
+                    {
+                        boTable: 'free',
+                        boardName: '자유',
+                        wrId: 1,
+                        subject: '<script>alert(1)</script>',
+                        author: '"작성자"'
+                    }
+                ]
+            }),
+            nickname: '<b>앙팡</b>'
+        });
+
+        expect(rendered.html).not.toContain('<script>');
+        expect(rendered.html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+        expect(rendered.html).toContain('&lt;b&gt;앙팡&lt;/b&gt;');
+        expect(rendered.html).toContain('&quot;작성자&quot;');
+        expect(rendered.text).toContain('<script>alert(1)</script>');
+    });
+
+    it('주간 다이제스트 제목', () => {
+        const rendered = renderDigest({ ...input({}), frequency: 'weekly' });
+        expect(rendered.subject).toBe('[다모앙] 이번 주 다모앙 소식');
+    });
+});
@@ -0,0 +1,182 @@
+/**
+ * 다이제스트 메일 본문 (HTML + 텍스트)
+ *
+ * 메일 클라이언트 호환을 위해 HTML은 인라인 스타일만 사용합니다.
+ * 사용자 입력(제목·닉네임·알림 메시지)은 모두 이스케이프합니다.
+ */
+
+import type { DigestFrequency } from '$lib/types/email-digest.js';
+import type { DigestContent, DigestPost } from './collect.js';
+
+export interface DigestRenderInput {
+    siteName: string;
+    siteUrl: string;
+    nickname: string;
+    frequency: Exclude<DigestFrequency, 'off'>;
+    content: DigestContent;
+    unsubscribeUrl: string;
+    settingsUrl: string;
+}
+
+export interface RenderedDigest {
+    subject: string;
+    html: string;
+    text: string;
+}
+
+interface DigestItem {
+    label: string;
+    detail?: string;
+    url: string;
+}
+
+interface DigestSection {
+    title: string;
+    items: DigestItem[];
+    /** 목록에 다 담지 못한 항목 수 안내 */
+    footnote?: string;
+}
+
+const PERIOD_LABEL: Record<DigestRenderInput['frequency'], string> = {
+    daily: '오늘의',
+    weekly: '이번 주'
+};
+
+export function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/** 상대 경로 → 사이트 절대 URL */
+function absoluteUrl(siteUrl: string, path: string): string {
+    if (/^https?:\/\//.test(path)) return path;
+    return `${siteUrl.replace(/\/$/, '')}/${path.replace(/^\//, '')}`;
+}
+
+function postUrl(siteUrl: string, post: DigestPost): string {
+    return absoluteUrl(siteUrl, `/${post.boTable}/${post.wrId}`);
+}
+
+function buildSections(input: DigestRenderInput): DigestSection[] {
+    const { content, siteUrl } = input;
+    const sections: DigestSection[] = [];
+
+    if (content.notificationCount > 0) {
+        const rest = content.notificationCount - content.notifications.length;
+        sections.push({
+            title: `읽지 않은 알림 ${content.notificationCount}개`,
+            items: content.notifications.map((n) => ({
+                label: n.message,
+                detail: n.sender,
+                url: absoluteUrl(siteUrl, n.url || '/notifications')
+            })),
+            footnote: rest > 0 ? `외 ${rest}개의 알림이 더 있습니다.` : undefined
+        });
+    }
+
+    if (content.commentedPosts.length > 0) {
+        sections.push({
+            title: '내 글에 달린 새 댓글',
+            items: content.commentedPosts.map((post) => ({
+                label: post.subject,
+                detail: `${post.boardName} · 새 댓글 ${post.newComments}개`,
+                url: postUrl(siteUrl, post)
+            }))
+        });
+    }
+
+    for (const board of content.boards) {
+        const rest = board.newPosts - board.posts.length;
+        sections.push({
+            title: `구독 게시판 · ${board.boardName} 새 글 ${board.newPosts}개`,
+            items: board.posts.map((post) => ({
+                label: post.subject,
+                detail: post.author,
+                url: postUrl(siteUrl, post)
+            })),
+            footnote: rest > 0 ? `외 ${rest}개의 새 글이 더 있습니다.` : undefined
+        });
+    }
+
+    if (content.followedPosts.length > 0) {
+        sections.push({
+            title: '팔로우한 회원의 새 글',
+            items: content.followedPosts.map((post) => ({
+                label: post.subject,
+                detail: `${post.author} · ${post.boardName}`,
+                url: postUrl(siteUrl, post)
+            }))
+        });
+    }
+
+    return sections;
+}
+
+function renderHtml(input: DigestRenderInput, heading: string, sections: DigestSection[]): string {
+    const sectionHtml = sections
+        .map((section) => {
+            const items = section.items
+                .map(
+                    (item) => `
+                    <li style="margin:0 0 10px;">
+                        <a href="${escapeHtml(item.url)}" style="color:#2563eb;text-decoration:none;">${escapeHtml(item.label)}</a>
+                        ${item.detail ? `<div style="color:#888;font-size:12px;">${escapeHtml(item.detail)}</div>` : ''}
+                    </li>`
+                )
+                .join('');
+            const footnote = section.footnote
+                ? `<p style="color:#888;font-size:12px;margin:0;">${escapeHtml(section.footnote)}</p>`
+                : '';
+            return `
+                <h3 style="color:#333;font-size:16px;margin:28px 0 12px;">${escapeHtml(section.title)}</h3>
+                <ul style="padding-left:18px;margin:0 0 8px;">${items}</ul>
+                ${footnote}`;
+        })
+        .join('');
+
+    return `
+        <div style="max-width:600px;margin:0 auto;font-family:sans-serif;">
+            <h2 style="color:#333;">${escapeHtml(heading)}</h2>
+            <p>${escapeHtml(input.nickname)}님, 안녕하세요. 놓친 소식을 모아 보내드립니다.</p>
+            ${sectionHtml}
+            <hr style="border:none;border-top:1px solid #eee;margin:30px 0;" />
+            <p style="color:#999;font-size:12px;">
+                ${escapeHtml(input.siteName)}에서 요청하신 ${input.frequency === 'daily' ? '매일' : '매주'} 다이제스트입니다.<br />
+                <a href="${escapeHtml(input.settingsUrl)}" style="color:#999;">수신 설정 변경</a> ·
+                <a href="${escapeHtml(input.unsubscribeUrl)}" style="color:#999;">수신 거부</a>
+            </p>
+        </div>
+    `;
+}
+
+function renderText(input: DigestRenderInput, heading: string, sections: DigestSection[]): string {
+    const lines = [heading, '', `${input.nickname}님, 안녕하세요. 놓친 소식을 모아 보내드립니다.`];
+    for (const section of sections) {
+        lines.push('', `■ ${section.title}`);
+        for (const item of section.items) {
+            lines.push(`- ${item.label}${item.detail ? ` (${item.detail})` : ''}`, `  ${item.url}`);
+        }
+        if (section.footnote) lines.push(section.footnote);
+    }
+    lines.push(
+        '',
+        '---',
+        `수신 설정 변경: ${input.settingsUrl}`,
+        `수신 거부: ${input.unsubscribeUrl}`
+    );
+    return `${lines.join('\n')}\n`;
+}
+
+export function renderDigest(input: DigestRenderInput): RenderedDigest {
+    const heading = `${PERIOD_LABEL[input.frequency]} ${input.siteName} 소식`;
+    const sections = buildSections(input);
+    return {
+        subject: `[${input.siteName}] ${heading}`,
+        html: renderHtml(input, heading, sections),
+        text: renderText(input, heading, sections)
+    };
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('$env/dynamic/private', () => ({ env: {} }));
+vi.mock('../redis.js', () => ({ getRedis: vi.fn() }));
+vi.mock('../mailer.js', () => ({ sendMail: vi.fn() }));
+vi.mock('./settings.js', () => ({ listDueRecipients: vi.fn(), markDigestSent: vi.fn() }));
+vi.mock('./collect.js', () => ({ collectDigest: vi.fn(), isDigestEmpty: vi.fn() }));
+
+import { dueFrequencies, digestWindowStart } from './scheduler';
+import type { DigestRecipient } from './settings';
+
+function recipient(overrides: Partial<DigestRecipient>): DigestRecipient {
+    return {
+        mbId: 'member',
+        nickname: '회원',
+        email: 'member@example.com',
+        level: 2,
+        frequency: 'daily',
+        lastSentAt: null,
+        ...overrides
+    };
+}
+
+describe('dueFrequencies', () => {
+    it('KST 발송 시각에만 발송 (월요일은 주간 포함)', () => {
+        // 2026-10-19(월) 08:30 KST = 23:30 UTC 전날
+        expect(dueFrequencies(new Date('2026-10-18T23:30:00Z'), 8)).toEqual(['daily', 'weekly']);
+        // 2026-10-20(화) 08:05 KST
+        expect(dueFrequencies(new Date('2026-10-19T23:05:00Z'), 8)).toEqual(['daily']);
+        // 2026-10-20(화) 09:00 KST
+        expect(dueFrequencies(new Date('2026-10-20T00:00:00Z'), 8)).toEqual([]);
+    });
+});
+
+describe('digestWindowStart', () => {
+    const now = new Date('2026-10-19T00:00:00Z');
+
+    it('마지막 발송 이후부터 수집', () => {
+        const lastSentAt = new Date('2026-10-18T12:00:00Z');
+        expect(digestWindowStart(recipient({ lastSentAt }), now)).toEqual(lastSentAt);
+    });
+
+    it('오래 발송하지 않았거나 기록이 없으면 한 주기로 제한', () => {
+        const lastSentAt = new Date('2026-09-01T00:00:00Z');
+        expect(digestWindowStart(recipient({ lastSentAt }), now)).toEqual(
+            new Date('2026-10-18T00:00:00Z')
+        );
+        expect(digestWindowStart(recipient({ frequency: 'weekly' }), now)).toEqual(
+            new Date('2026-10-12T00:00:00Z')
+        );
+    });
+});
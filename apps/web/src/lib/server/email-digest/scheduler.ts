@@ -0,0 +1,143 @@
+/**
+ * 다이제스트 발송 스케줄러
+ *
+ * 각 Pod가 5분마다 확인하고, 발송 시각(KST DIGEST_SEND_HOUR시, 기본 8시)에만 발송합니다.
+ * - daily: 매일 / weekly: 매주 월요일
+ * - Redis 락으로 한 Pod만 발송하며, 회원별 last_sent_at으로 중복 발송을 막습니다.
+ *   (발송 도중 Pod가 내려가도 같은 시간대의 다음 확인에서 남은 회원부터 이어서 발송)
+ */
+
+import { env } from '$env/dynamic/private';
+import { createLockedScheduler, type RedisLock } from '../redis-lock.js';
+import { sendMail } from '../mailer.js';
+import type { DigestFrequency } from '$lib/types/email-digest.js';
+import { collectDigest, isDigestEmpty } from './collect.js';
+import { renderDigest } from './render.js';
+import { listDueRecipients, markDigestSent, type DigestRecipient } from './settings.js';
+import { createUnsubscribeToken } from './token.js';
+
+const SITE_URL = env.SITE_URL || 'https://damoang.net';
+const SITE_NAME = env.VITE_SITE_NAME || 'Angple';
+
+const CHECK_INTERVAL_MS = 5 * 60_000;
+const LOCK_KEY = 'digest:send-lock';
+const LOCK_TTL_SEC = 10 * 60;
+const BATCH_SIZE = 50;
+const KST_OFFSET_MS = 9 * 60 * 60_000;
+/** 주간 다이제스트 발송 요일 (0=일요일) */
+const WEEKLY_DAY = 1;
+
+const PERIOD_MS: Record<Exclude<DigestFrequency, 'off'>, number> = {
+    daily: 24 * 60 * 60_000,
+    weekly: 7 * 24 * 60 * 60_000
+};
+
+function getSendHour(): number {
+    const hour = Number(env.DIGEST_SEND_HOUR ?? 8);
+    return Number.isInteger(hour) && hour >= 0 && hour < 24 ? hour : 8;
+}
+
+/** 지금 발송할 주기 (발송 시각이 아니면 빈 배열) */
+export function dueFrequencies(now: Date, sendHour: number): Exclude<DigestFrequency, 'off'>[] {
+    const kst = new Date(now.getTime() + KST_OFFSET_MS);
+    if (kst.getUTCHours() !== sendHour) return [];
+    return kst.getUTCDay() === WEEKLY_DAY ? ['daily', 'weekly'] : ['daily'];
+}
+
+/** 수집 시작 시각 — 마지막 발송 이후, 단 한 주기를 넘지 않음 */
+export function digestWindowStart(recipient: DigestRecipient, now: Date): Date {
+    const earliest = now.getTime() - PERIOD_MS[recipient.frequency];
+    const lastSent = recipient.lastSentAt?.getTime() ?? earliest;
+    return new Date(Math.max(lastSent, earliest));
+}
+
+async function sendDigest(recipient: DigestRecipient): Promise<boolean> {
+    const since = digestWindowStart(recipient, new Date());
+    const content = await collectDigest(recipient.mbId, recipient.level, since);
+    if (isDigestEmpty(content)) return false;
+
+    const token = encodeURIComponent(createUnsubscribeToken(recipient.mbId));
+    const rendered = renderDigest({
+        siteName: SITE_NAME,
+        siteUrl: SITE_URL,
+        nickname: recipient.nickname,
+        frequency: recipient.frequency,
+        content,
+        unsubscribeUrl: `${SITE_URL}/notifications/unsubscribe?token=${token}`,
+        settingsUrl: `${SITE_URL}/member/settings/ui?tab=notification`
+    });
+
+    await sendMail({
+        to: recipient.email,
+        subject: rendered.subject,
+        html: rendered.html,
+        text: rendered.text,
+        headers: {
+            // RFC 8058 원클릭 수신 거부 (메일 클라이언트가 POST로 호출)
+            'List-Unsubscribe': `<${SITE_URL}/api/notifications/digest/unsubscribe?token=${token}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+        }
+    });
+    return true;
+}
+
+/**
+ * 발송 대상 전체 발송 (배치마다 락을 연장하고, 락을 잃으면 중단)
+ * @returns 발송 / 내용 없음 / 실패 회원 수
+ */
+export async function runDueDigests(
+    frequencies: Exclude<DigestFrequency, 'off'>[],
+    lock: RedisLock
+): Promise<{ sent: number; empty: number; failed: number }> {
+    const stats = { sent: 0, empty: 0, failed: 0 };
+    const failedIds: string[] = [];
+
+    for (;;) {
+        const recipients = await listDueRecipients(frequencies, BATCH_SIZE, failedIds);
+        if (recipients.length === 0) break;
+
+        for (const recipient of recipients) {
+            try {
+                if (await sendDigest(recipient)) stats.sent++;
+                else stats.empty++;
+                await markDigestSent(recipient.mbId);
+            } catch (error) {
+                console.error(`[Email Digest] 발송 실패: ${recipient.mbId}`, error);
+                failedIds.push(recipient.mbId);
+                stats.failed++;
+            }
+        }
+        if (!(await lock.extend())) {
+            console.warn(
+                '[Email Digest] 발송 락을 잃어 중단합니다. 남은 회원은 다음 확인에서 발송'
+            );
+            break;
+        }
+    }
+    return stats;
+}
+
+const scheduler = createLockedScheduler({
+    name: 'Email Digest',
+    lockKey: LOCK_KEY,
+    lockTtlSec: LOCK_TTL_SEC,
+    intervalMs: CHECK_INTERVAL_MS,
+    isDue: () => dueFrequencies(new Date(), getSendHour()).length > 0,
+    run: async (lock) => {
+        const frequencies = dueFrequencies(new Date(), getSendHour());
+        if (frequencies.length === 0) return;
+
+        const stats = await runDueDigests(frequencies, lock);
+        if (stats.sent + stats.empty + stats.failed > 0) {
+            console.log(
+                `[Email Digest] ${frequencies.join(',')} 발송 완료: 발송 ${stats.sent}, 내용 없음 ${stats.empty}, 실패 ${stats.failed}`
+            );
+        }
+    }
+});
+
+/** 서버 시작 시 1회 호출 (hooks.server.ts init) */
+export function startDigestScheduler(): void {
+    if (env.DIGEST_ENABLED === 'false') return;
+    scheduler.start();
+}
@@ -0,0 +1,118 @@
+/**
+ * 다이제스트 수신 설정 (angple_email_digest)
+ *
+ * 알림 수신 설정(g5_noti_preference)은 백엔드 소유 테이블이므로
+ * 발송 주기와 마지막 발송 시각은 웹 서버가 별도 테이블로 관리합니다.
+ * 행이 없으면 'off' — 다이제스트는 회원이 직접 켠 경우에만 발송합니다.
+ */
+
+import type { RowDataPacket } from 'mysql2';
+import pool, { readPool } from '../db.js';
+import type { DigestFrequency } from '$lib/types/email-digest.js';
+
+const DIGEST_TABLE = 'angple_email_digest';
+
+/** 발송 대상 회원 */
+export interface DigestRecipient {
+    mbId: string;
+    nickname: string;
+    email: string;
+    level: number;
+    frequency: Exclude<DigestFrequency, 'off'>;
+    /** 마지막 발송 시각 (켠 뒤 첫 발송 전이면 켠 시각) */
+    lastSentAt: Date | null;
+}
+
+interface FrequencyRow extends RowDataPacket {
+    frequency: DigestFrequency;
+}
+
+interface RecipientRow extends RowDataPacket {
+    mb_id: string;
+    mb_nick: string;
+    mb_email: string;
+    mb_level: number;
+    frequency: Exclude<DigestFrequency, 'off'>;
+    last_sent_at: Date | null;
+}
+
+let tableChecked = false;
+
+async function ensureTable(): Promise<void> {
+    if (tableChecked) return;
+
+    await pool.query(`
+        CREATE TABLE IF NOT EXISTS ${DIGEST_TABLE} (
+            mb_id VARCHAR(20) NOT NULL PRIMARY KEY,
+            frequency VARCHAR(10) NOT NULL DEFAULT 'off',
+            last_sent_at DATETIME DEFAULT NULL,
+            updated_at DATETIME NOT NULL,
+            INDEX idx_frequency (frequency, last_sent_at)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+    tableChecked = true;
+}
+
+export async function getDigestFrequency(mbId: string): Promise<DigestFrequency> {
+    await ensureTable();
+    const [rows] = await readPool.query<FrequencyRow[]>(
+        `SELECT frequency FROM ${DIGEST_TABLE} WHERE mb_id = ?`,
+        [mbId]
+    );
+    return rows[0]?.frequency ?? 'off';
+}
+
+/**
+ * 발송 주기 변경
+ * 처음 켤 때 last_sent_at을 지금으로 잡아, 첫 다이제스트가 켠 이후의 활동만 담도록 합니다.
+ */
+export async function setDigestFrequency(mbId: string, frequency: DigestFrequency): Promise<void> {
+    await ensureTable();
+    await pool.execute(
+        `INSERT INTO ${DIGEST_TABLE} (mb_id, frequency, last_sent_at, updated_at)
+         VALUES (?, ?, NOW(), NOW())
+         ON DUPLICATE KEY UPDATE frequency = VALUES(frequency),
+             last_sent_at = COALESCE(last_sent_at, NOW()), updated_at = NOW()`,
+        [mbId, frequency]
+    );
+}
+
+/**
+ * 발송 대상 조회 (같은 발송 시간대에 두 번 보내지 않도록 12시간 이내 발송분 제외)
+ * 탈퇴·차단 회원과 이메일이 없는 회원은 제외합니다.
+ * @param excludeIds 이번 실행에서 발송에 실패한 회원 (같은 배치 반복 방지)
+ */
+export async function listDueRecipients(
+    frequencies: Exclude<DigestFrequency, 'off'>[],
+    limit: number,
+    excludeIds: string[] = []
+): Promise<DigestRecipient[]> {
+    if (frequencies.length === 0) return [];
+    await ensureTable();
+    const [rows] = await pool.query<RecipientRow[]>(
+        `SELECT d.mb_id, d.frequency, d.last_sent_at, m.mb_nick, m.mb_email, m.mb_level
+         FROM ${DIGEST_TABLE} d
+         JOIN g5_member m
+           ON m.mb_id COLLATE utf8mb4_unicode_ci = d.mb_id
+         WHERE d.frequency IN (?)
+           AND (d.last_sent_at IS NULL OR d.last_sent_at < NOW() - INTERVAL 12 HOUR)
+           AND m.mb_email <> '' AND m.mb_leave_date = '' AND m.mb_intercept_date = ''
+           ${excludeIds.length > 0 ? 'AND d.mb_id NOT IN (?)' : ''}
+         ORDER BY d.last_sent_at
+         LIMIT ?`,
+        excludeIds.length > 0 ? [frequencies, excludeIds, limit] : [frequencies, limit]
+    );
+    return rows.map((row) => ({
+        mbId: row.mb_id,
+        nickname: row.mb_nick,
+        email: row.mb_email,
+        level: Number(row.mb_level),
+        frequency: row.frequency,
+        lastSentAt: row.last_sent_at ? new Date(row.last_sent_at) : null
+    }));
+}
+
+/** 발송 완료 기록 (보낼 내용이 없어 건너뛴 경우 포함) */
+export async function markDigestSent(mbId: string): Promise<void> {
+    await pool.execute(`UPDATE ${DIGEST_TABLE} SET last_sent_at = NOW() WHERE mb_id = ?`, [mbId]);
+}
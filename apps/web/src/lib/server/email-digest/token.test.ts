@@ -0,0 +1,25 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('$env/dynamic/private', () => ({ env: { DIGEST_UNSUBSCRIBE_SECRET: 'test-secret' } }));
+
+import { createUnsubscribeToken, verifyUnsubscribeToken } from './token';
+
+describe('다이제스트 수신 거부 토큰', () => {
+    it('서명한 회원 ID를 그대로 복원', () => {
+        const token = createUnsubscribeToken('member_01');
+        expect(verifyUnsubscribeToken(token)).toBe('member_01');
+    });
+
+    it('회원 ID를 바꾼 토큰은 거부', () => {
+        const [, signature] = createUnsubscribeToken('member_01').split('.');
+        const forged = `${Buffer.from('admin').toString('base64url')}.${signature}`;
+        expect(verifyUnsubscribeToken(forged)).toBeNull();
+    });
+
+    it('형식이 깨진 토큰은 거부', () => {
+        expect(verifyUnsubscribeToken('')).toBeNull();
+        expect(verifyUnsubscribeToken('abc')).toBeNull();
+        expect(verifyUnsubscribeToken(`${createUnsubscribeToken('member_01')}.extra`)).toBeNull();
+        expect(verifyUnsubscribeToken(createUnsubscribeToken('member_01').slice(0, -2))).toBeNull();
+    });
+});
@@ -0,0 +1,42 @@
+/**
+ * 다이제스트 수신 거부 토큰
+ *
+ * 로그인 없이 메일의 링크 한 번으로 수신 거부할 수 있도록 회원 ID를 HMAC으로 서명합니다.
+ * 형식: base64url(mb_id).base64url(HMAC-SHA256)
+ * 만료는 없으며, 서명 키(DIGEST_UNSUBSCRIBE_SECRET, 없으면 JWT_SECRET)를 바꾸면 기존 링크가 모두 무효화됩니다.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { env } from '$env/dynamic/private';
+
+const TOKEN_PURPOSE = 'digest-unsubscribe';
+
+function getSecret(): string {
+    const secret = env.DIGEST_UNSUBSCRIBE_SECRET || env.JWT_SECRET || '';
+    if (!secret) {
+        throw new Error('DIGEST_UNSUBSCRIBE_SECRET 또는 JWT_SECRET이 설정되지 않았습니다.');
+    }
+    return secret;
+}
+
+function sign(mbId: string): Buffer {
+    return createHmac('sha256', getSecret()).update(`${TOKEN_PURPOSE}:${mbId}`).digest();
+}
+
+export function createUnsubscribeToken(mbId: string): string {
+    return `${Buffer.from(mbId).toString('base64url')}.${sign(mbId).toString('base64url')}`;
+}
+
+/** 토큰 검증 → 회원 ID (위조·손상된 토큰이면 null) */
+export function verifyUnsubscribeToken(token: string): string | null {
+    const [encodedId, encodedSignature, ...rest] = token.split('.');
+    if (!encodedId || !encodedSignature || rest.length > 0) return null;
+
+    const mbId = Buffer.from(encodedId, 'base64url').toString();
+    if (!mbId || Buffer.from(mbId).toString('base64url') !== encodedId) return null;
+
+    const expected = sign(mbId);
+    const actual = Buffer.from(encodedSignature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+    return mbId;
+}
@@ -1,5 +1,6 @@
 import {
     applyAffiliateField,
+    type AffiliateLinkRow,
     fetchCommentAffiliateLinks,
     fetchPostAffiliateLinks,
     findAffiliateFieldRow,
@@ -29,27 +30,38 @@ function mapFieldResult(
 
 export async function processPostContentLinks(
     html: string,
-    context?: { boardId?: string; postId?: number }
+    context?: {
+        boardId?: string;
+        postId?: number;
+        enabled?: boolean;
+        rows?: AffiliateLinkRow[];
+    }
 ): Promise<string> {
     if (!html) return html;
-    if (!(await isLinkProcessingPluginEnabled())) return html;
+    if (!(context?.enabled ?? (await isLinkProcessingPluginEnabled()))) return html;
     if (!context?.boardId || !context.postId) return html;
 
-    const rows = await fetchPostAffiliateLinks(context.boardId, context.postId);
+    const rows = context.rows ?? (await fetchPostAffiliateLinks(context.boardId, context.postId));
     return renderAffiliateContent(html, rows, 'post_body');
 }
 
 export async function processCommentContentLinks(
     html: string,
-    context?: { boardId?: string; postId?: number; commentId?: number }
+    context?: {
+        boardId?: string;
+        postId?: number;
+        commentId?: number;
+        enabled?: boolean;
+        rows?: AffiliateLinkRow[];
+    }
 ): Promise<string> {
     if (!html) return html;
-    if (!(await isLinkProcessingPluginEnabled())) return html;
+    if (!(context?.enabled ?? (await isLinkProcessingPluginEnabled()))) return html;
     if (!context?.boardId || !context.postId || !context.commentId) return html;
 
-    const rows = await fetchCommentAffiliateLinks(context.boardId, context.postId, [
-        context.commentId
-    ]);
+    const rows =
+        context.rows ??
+        (await fetchCommentAffiliateLinks(context.boardId, context.postId, [context.commentId]));
     return renderAffiliateContent(html, rows, 'comment_body');
 }
 
@@ -37,7 +37,7 @@ export interface LogoData {
     requestTimeZone: string;
 }
 
-const logoCache = createCache<RawLogoData>({ ttl: 60_000, maxSize: 10 });
+const logoCache = createCache<RawLogoData>({ name: 'logos', ttl: 60_000, maxSize: 10 });
 
 async function fetchLogoData(): Promise<RawLogoData> {
     const backendUrl = (env.BACKEND_URL || 'http://localhost:8090').replace(/\/$/, '');
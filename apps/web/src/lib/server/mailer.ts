@@ -21,11 +21,17 @@ export async function sendMail(options: {
     to: string;
     subject: string;
     html: string;
+    /** 텍스트 본문 (HTML을 표시하지 않는 메일 클라이언트용) */
+    text?: string;
+    /** 추가 헤더 (List-Unsubscribe 등) */
+    headers?: Record<string, string>;
 }): Promise<void> {
     await transporter.sendMail({
         from: `"${FROM_NAME}" <${FROM_ADDRESS}>`,
         to: options.to,
         subject: options.subject,
-        html: options.html
+        html: options.html,
+        text: options.text,
+        headers: options.headers
     });
 }
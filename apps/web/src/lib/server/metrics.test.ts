@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { backendEndpointLabel, Counter, Gauge, Histogram, renderMetrics } from './metrics';
+
+describe('renderMetrics', () => {
+    it('histogram 버킷은 누적값, +Inf/sum/count 포함', () => {
+        const histogram = new Histogram('test_latency_seconds', '테스트', [0.1, 1]);
+        histogram.observe({ route: '/a' }, 0.05);
+        histogram.observe({ route: '/a' }, 0.5);
+        histogram.observe({ route: '/a' }, 3);
+
+        const text = renderMetrics();
+        expect(text).toContain('# TYPE test_latency_seconds histogram');
+        expect(text).toContain('test_latency_seconds_bucket{route="/a",le="0.1"} 1');
+        expect(text).toContain('test_latency_seconds_bucket{route="/a",le="1"} 2');
+        expect(text).toContain('test_latency_seconds_bucket{route="/a",le="+Inf"} 3');
+        expect(text).toContain('test_latency_seconds_sum{route="/a"} 3.55');
+        expect(text).toContain('test_latency_seconds_count{route="/a"} 3');
+        expect(text.endsWith('# EOF\n')).toBe(true);
+    });
+
+    it('counter는 _total 접미사, 라벨 순서와 무관하게 합산', () => {
+        const counter = new Counter('test_errors', '테스트');
+        counter.inc({ a: '1', b: '2' });
+        counter.inc({ b: '2', a: '1' }, 2);
+
+        expect(renderMetrics()).toContain('test_errors_total{a="1",b="2"} 3');
+    });
+
+    it('gauge collect 콜백과 라벨 이스케이프', () => {
+        new Gauge('test_gauge', '테스트', () => [{ labels: { name: 'a"b\\c' }, value: 7 }]);
+
+        expect(renderMetrics()).toContain('test_gauge{name="a\\"b\\\\c"} 7');
+    });
+});
+
+describe('backendEndpointLabel', () => {
+    it('게시판·회원 ID와 숫자 세그먼트를 치환', () => {
+        expect(backendEndpointLabel('boards/free/posts/123/comments')).toBe(
+            'boards/:board/posts/:id/comments'
+        );
+        expect(backendEndpointLabel('members/abc/memo')).toBe('members/:member/memo');
+        expect(backendEndpointLabel('my/favorites')).toBe('my/favorites');
+    });
+
+    it('알 수 없는 최상위 경로는 other, 숫자가 아닌 동적 세그먼트는 :param', () => {
+        expect(backendEndpointLabel('random-a8f3/whatever')).toBe('other');
+        expect(backendEndpointLabel('')).toBe('other');
+        expect(backendEndpointLabel('auth/verify/Ab3xYz_9')).toBe('auth/verify/:param');
+        expect(backendEndpointLabel('notifications/unread-count')).toBe(
+            'notifications/unread-count'
+        );
+    });
+});
@@ -0,0 +1,305 @@
+/**
+ * 웹 서버 메트릭 (OpenMetrics 텍스트 포맷)
+ *
+ * 외부 의존성 없이 counter / gauge / histogram만 구현합니다.
+ * 값은 프로세스(Pod) 단위이며, /metrics 스크레이프 시 renderMetrics()로 출력됩니다.
+ *
+ * gauge는 collect 콜백을 지정하면 스크레이프 시점에 값을 계산합니다
+ * (DB 풀 사용량 등 이미 다른 곳에 있는 상태를 그대로 노출할 때).
+ */
+
+type Labels = Record<string, string>;
+
+interface Sample {
+    labels: Labels;
+    value: number;
+}
+
+interface MetricFamily {
+    name: string;
+    render(): string[];
+}
+
+export const OPENMETRICS_CONTENT_TYPE =
+    'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+/** 이름 → 메트릭 (같은 이름으로 다시 만들면 교체 — 개발 서버 HMR) */
+const families = new Map<string, MetricFamily>();
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) return '';
+    return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+    if (Number.isNaN(value)) return 'NaN';
+    if (value === Infinity) return '+Inf';
+    if (value === -Infinity) return '-Inf';
+    return String(value);
+}
+
+/** 라벨 조합 → 맵 키 (라벨 순서 무관) */
+function labelKey(labels: Labels): string {
+    return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function header(name: string, type: string, help: string, unit?: string): string[] {
+    const lines = [`# TYPE ${name} ${type}`];
+    if (unit) lines.push(`# UNIT ${name} ${unit}`);
+    lines.push(`# HELP ${name} ${help}`);
+    return lines;
+}
+
+export class Counter {
+    private readonly values = new Map<string, Sample>();
+
+    constructor(
+        readonly name: string,
+        private readonly help: string
+    ) {
+        families.set(name, this);
+    }
+
+    inc(labels: Labels = {}, value = 1): void {
+        const key = labelKey(labels);
+        const sample = this.values.get(key);
+        if (sample) sample.value += value;
+        else this.values.set(key, { labels, value });
+    }
+
+    render(): string[] {
+        return [
+            ...header(this.name, 'counter', this.help),
+            ...[...this.values.values()].map(
+                (s) => `${this.name}_total${formatLabels(s.labels)} ${formatValue(s.value)}`
+            )
+        ];
+    }
+}
+
+export class Gauge {
+    private readonly values = new Map<string, Sample>();
+
+    constructor(
+        readonly name: string,
+        private readonly help: string,
+        private readonly collect?: () => Sample[]
+    ) {
+        families.set(name, this);
+    }
+
+    set(labels: Labels, value: number): void {
+        this.values.set(labelKey(labels), { labels, value });
+    }
+
+    render(): string[] {
+        let samples: Sample[];
+        try {
+            samples = this.collect ? this.collect() : [...this.values.values()];
+        } catch (error) {
+            console.error(`[Metrics] ${this.name} 수집 실패:`, error);
+            samples = [];
+        }
+        return [
+            ...header(this.name, 'gauge', this.help),
+            ...samples.map((s) => `${this.name}${formatLabels(s.labels)} ${formatValue(s.value)}`)
+        ];
+    }
+}
+
+interface HistogramSeries {
+    labels: Labels;
+    /** 버킷별 개수 (누적 아님) */
+    counts: number[];
+    sum: number;
+    count: number;
+}
+
+/** 기본 버킷 (초) — 대부분의 요청이 수 ms~수 초 */
+export const DEFAULT_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export class Histogram {
+    private readonly series = new Map<string, HistogramSeries>();
+
+    constructor(
+        readonly name: string,
+        private readonly help: string,
+        private readonly buckets: number[] = DEFAULT_LATENCY_BUCKETS
+    ) {
+        families.set(name, this);
+    }
+
+    observe(labels: Labels, value: number): void {
+        const key = labelKey(labels);
+        let series = this.series.get(key);
+        if (!series) {
+            series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+            this.series.set(key, series);
+        }
+        const index = this.buckets.findIndex((bound) => value <= bound);
+        if (index >= 0) series.counts[index]++;
+        series.sum += value;
+        series.count++;
+    }
+
+    render(): string[] {
+        const lines = header(this.name, 'histogram', this.help, 'seconds');
+        for (const series of this.series.values()) {
+            let cumulative = 0;
+            this.buckets.forEach((bound, i) => {
+                cumulative += series.counts[i];
+                const labels = formatLabels({ ...series.labels, le: formatValue(bound) });
+                lines.push(`${this.name}_bucket${labels} ${cumulative}`);
+            });
+            const infLabels = formatLabels({ ...series.labels, le: '+Inf' });
+            lines.push(`${this.name}_bucket${infLabels} ${series.count}`);
+            lines.push(`${this.name}_sum${formatLabels(series.labels)} ${series.sum}`);
+            lines.push(`${this.name}_count${formatLabels(series.labels)} ${series.count}`);
+        }
+        return lines;
+    }
+}
+
+/** 전체 메트릭 출력 (OpenMetrics는 # EOF로 끝나야 함) */
+export function renderMetrics(): string {
+    const lines: string[] = [];
+    for (const family of [...families.values()].sort((a, b) => a.name.localeCompare(b.name))) {
+        lines.push(...family.render());
+    }
+    lines.push('# EOF');
+    return `${lines.join('\n')}\n`;
+}
+
+// --- 공용 메트릭 ---
+
+const httpRequestDuration = new Histogram(
+    'angple_http_request_duration_seconds',
+    'SvelteKit 요청 처리 시간 (라우트별)'
+);
+
+const backendProxyDuration = new Histogram(
+    'angple_backend_proxy_duration_seconds',
+    '/api/v1 프록시의 백엔드 응답 시간'
+);
+
+const backendProxyErrors = new Counter(
+    'angple_backend_proxy_errors',
+    '/api/v1 프록시 오류 (timeout, network, http_5xx)'
+);
+
+/** 라우트 ID가 없는 요청 (404, 훅에서 처리된 정적 경로 등) */
+const UNMATCHED_ROUTE = 'unmatched';
+
+/** 요청 처리 시간 기록 (hooks.server.ts) */
+export function observeHttpRequest(
+    routeId: string | null,
+    method: string,
+    status: number,
+    durationMs: number
+): void {
+    httpRequestDuration.observe(
+        { route: routeId ?? UNMATCHED_ROUTE, method, status: String(status) },
+        durationMs / 1000
+    );
+}
+
+/** 라벨로 그대로 쓰는 /api/v1 최상위 경로 (그 밖의 경로는 other) */
+const BACKEND_ENDPOINT_ROOTS = new Set([
+    'admin',
+    'auth',
+    'board-groups',
+    'boards',
+    'dantry',
+    'discipline-logs',
+    'events',
+    'install',
+    'logos',
+    'members',
+    'menus',
+    'messages',
+    'my',
+    'notifications',
+    'polls',
+    'posts',
+    'promotion',
+    'recommended',
+    'serve',
+    'track',
+    'trade'
+]);
+
+/** 고정 경로로 보는 세그먼트 (소문자 단어와 하이픈) */
+const STATIC_SEGMENT = /^[a-z]+(?:-[a-z]+)*$/;
+
+const OTHER_ENDPOINT = 'other';
+
+/** endpoint 라벨 최대 종류 수 (초과분은 other로 집계) */
+const MAX_BACKEND_ENDPOINTS = 200;
+
+const backendEndpoints = new Set<string>();
+
+/**
+ * 프록시 경로 → 라벨용 템플릿 (카디널리티 제한)
+ * boards/free/posts/123/comments → boards/:board/posts/:id/comments
+ * 알 수 없는 최상위 경로는 other, 숫자가 아닌 동적 세그먼트(토큰 등)는 :param으로 치환합니다.
+ */
+export function backendEndpointLabel(path: string): string {
+    const segments = path.split('/').filter(Boolean).slice(0, 5);
+    if (!BACKEND_ENDPOINT_ROOTS.has(segments[0])) return OTHER_ENDPOINT;
+
+    return segments
+        .map((segment, i) => {
+            if (/^\d+$/.test(segment)) return ':id';
+            if (i > 0 && segments[i - 1] === 'boards') return ':board';
+            if (i > 0 && segments[i - 1] === 'members') return ':member';
+            if (!STATIC_SEGMENT.test(segment)) return ':param';
+            return segment;
+        })
+        .join('/');
+}
+
+/** 라벨 종류 수 상한을 적용한 endpoint 라벨 */
+function boundedEndpointLabel(path: string): string {
+    const endpoint = backendEndpointLabel(path);
+    if (backendEndpoints.has(endpoint)) return endpoint;
+    if (backendEndpoints.size >= MAX_BACKEND_ENDPOINTS) return OTHER_ENDPOINT;
+    backendEndpoints.add(endpoint);
+    return endpoint;
+}
+
+/** 백엔드 프록시 응답 기록 (5xx는 오류로도 집계) */
+export function observeBackendProxy(
+    path: string,
+    method: string,
+    status: number,
+    durationMs: number
+): void {
+    const endpoint = boundedEndpointLabel(path);
+    backendProxyDuration.observe({ endpoint, method, status: String(status) }, durationMs / 1000);
+    if (status >= 500) {
+        backendProxyErrors.inc({ endpoint, method, reason: 'http_5xx' });
+    }
+}
+
+/** 백엔드 프록시 연결 실패 기록 */
+export function recordBackendProxyError(path: string, method: string, error: unknown): void {
+    const isTimeout = error instanceof DOMException && error.name === 'TimeoutError';
+    backendProxyErrors.inc({
+        endpoint: boundedEndpointLabel(path),
+        method,
+        reason: isTimeout ? 'timeout' : 'network'
+    });
+}
+
+const sseConnections = new Gauge('angple_sse_connections', '열려 있는 SSE 알림 스트림 연결 수');
+sseConnections.set({}, 0);
+
+/** SSE 연결 수 갱신 (알림 스트림 연결/종료 시) */
+export function setSseConnections(count: number): void {
+    sseConnections.set({}, count);
+}
@@ -0,0 +1,76 @@
+/**
+ * 마이그레이션 업로드 파일 (WordPress WXR)
+ *
+ * 업로드 본문을 메모리에 올리지 않고 임시 디렉터리에 바로 스트리밍합니다.
+ * 분석·실행 API는 파일 경로 대신 업로드 ID로 파일을 참조하며,
+ * 24시간이 지난 파일은 다음 업로드 때 정리됩니다.
+ */
+
+import { createWriteStream } from 'node:fs';
+import { mkdir, readdir, stat, unlink } from 'node:fs/promises';
+import { randomUUID } from 'node:crypto';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ReadableStream as WebReadableStream } from 'node:stream/web';
+import { env } from '$env/dynamic/private';
+
+const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+const UPLOAD_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+function uploadDir(): string {
+    return env.MIGRATION_UPLOAD_DIR || join(tmpdir(), 'angple-migration');
+}
+
+/** 오래된 업로드 정리 (실패해도 무시) */
+async function purgeExpiredUploads(dir: string): Promise<void> {
+    const now = Date.now();
+    for (const name of await readdir(dir).catch(() => [] as string[])) {
+        const path = join(dir, name);
+        try {
+            if (now - (await stat(path)).mtimeMs > UPLOAD_TTL_MS) await unlink(path);
+        } catch {
+            // 동시에 삭제된 파일
+        }
+    }
+}
+
+/**
+ * 업로드 본문을 임시 파일로 저장하고 업로드 ID 반환
+ */
+export async function saveMigrationUpload(
+    body: ReadableStream<Uint8Array>
+): Promise<{ uploadId: string; size: number }> {
+    const dir = uploadDir();
+    await mkdir(dir, { recursive: true });
+    await purgeExpiredUploads(dir);
+
+    const uploadId = randomUUID();
+    const path = join(dir, `${uploadId}.xml`);
+    try {
+        await pipeline(
+            Readable.fromWeb(body as WebReadableStream<Uint8Array>),
+            createWriteStream(path)
+        );
+    } catch (error) {
+        await unlink(path).catch(() => {});
+        throw error;
+    }
+
+    return { uploadId, size: (await stat(path)).size };
+}
+
+/**
+ * 업로드 ID → 파일 경로 (없거나 만료되면 null)
+ */
+export async function resolveMigrationUpload(uploadId: unknown): Promise<string | null> {
+    if (typeof uploadId !== 'string' || !UPLOAD_ID_PATTERN.test(uploadId)) return null;
+    const path = join(uploadDir(), `${uploadId}.xml`);
+    try {
+        await stat(path);
+        return path;
+    } catch {
+        return null;
+    }
+}
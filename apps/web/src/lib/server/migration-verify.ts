@@ -0,0 +1,121 @@
+/**
+ * 마이그레이션 검증 작업
+ *
+ * 검증은 소스/대상 DB 전체를 비교할 수 있어 오래 걸리므로, 요청을 받은 Pod에서 백그라운드로 실행합니다.
+ * Redis 락으로 동시에 하나만 실행하고, 진행 상태와 보고서는 Redis에 기록해 어느 Pod에서든 조회할 수 있습니다.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { verifyGnuboardMigration, type VerificationOptions } from '@angple/migration';
+import { getRedis } from './redis.js';
+import { acquireRedisLock, type RedisLock } from './redis-lock.js';
+
+const LOCK_KEY = 'migration:verify:lock';
+const LOCK_TTL_SEC = 10 * 60;
+const STATUS_KEY_PREFIX = 'migration:verify:status:';
+const REPORT_KEY_PREFIX = 'migration:verify:';
+/** 상태·보고서 보관 기간 */
+const RESULT_TTL_SEC = 86_400;
+
+export const VERIFY_JOB_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+/** 검증 작업 상태 (보고서 ID = 작업 ID) */
+export interface MigrationVerifyStatus {
+    id: string;
+    state: 'running' | 'completed' | 'failed';
+    /** 진행 메시지 (예: "게시글 검증 중") */
+    message: string;
+    percent: number;
+    startedAt: number;
+    finishedAt: number | null;
+    error: string | null;
+}
+
+async function saveStatus(status: MigrationVerifyStatus): Promise<void> {
+    await getRedis().set(
+        STATUS_KEY_PREFIX + status.id,
+        JSON.stringify(status),
+        'EX',
+        RESULT_TTL_SEC
+    );
+}
+
+/** 검증 작업 상태 (없거나 보관 기간이 지났으면 null) */
+export async function getMigrationVerifyStatus(id: string): Promise<MigrationVerifyStatus | null> {
+    const raw = await getRedis().get(STATUS_KEY_PREFIX + id);
+    if (!raw) return null;
+    try {
+        return JSON.parse(raw) as MigrationVerifyStatus;
+    } catch {
+        return null;
+    }
+}
+
+/** 완료된 검증 보고서 원문 (JSON) */
+export async function getMigrationVerifyReport(id: string): Promise<string | null> {
+    return getRedis().get(REPORT_KEY_PREFIX + id);
+}
+
+async function runVerification(
+    status: MigrationVerifyStatus,
+    options: VerificationOptions,
+    lock: RedisLock
+): Promise<void> {
+    let lastSavedAt = 0;
+    try {
+        const report = await verifyGnuboardMigration({
+            ...options,
+            onProgress: (progress) => {
+                status.message = progress.message;
+                status.percent = progress.percent;
+                // 진행 상태는 최대 1초에 한 번 기록하고 락을 연장
+                const now = Date.now();
+                if (now - lastSavedAt < 1000) return;
+                lastSavedAt = now;
+                saveStatus(status).catch(() => {});
+                lock.extend().catch(() => {});
+            }
+        });
+
+        await getRedis().set(
+            REPORT_KEY_PREFIX + status.id,
+            JSON.stringify(report),
+            'EX',
+            RESULT_TTL_SEC
+        );
+        status.state = 'completed';
+        status.percent = 100;
+    } catch (error) {
+        console.error('[Migration] 검증 실패:', error);
+        status.state = 'failed';
+        status.error = error instanceof Error ? error.message : String(error);
+    } finally {
+        status.finishedAt = Date.now();
+        await saveStatus(status).catch(() => {});
+        await lock.release().catch(() => {});
+    }
+}
+
+/**
+ * 검증 시작 (완료를 기다리지 않음)
+ * @returns 시작한 작업 상태, 이미 실행 중이면 null
+ */
+export async function startMigrationVerification(
+    options: VerificationOptions
+): Promise<MigrationVerifyStatus | null> {
+    const lock = await acquireRedisLock(LOCK_KEY, LOCK_TTL_SEC);
+    if (!lock) return null;
+
+    const status: MigrationVerifyStatus = {
+        id: randomUUID(),
+        state: 'running',
+        message: '검증 준비 중',
+        percent: 0,
+        startedAt: Date.now(),
+        finishedAt: null,
+        error: null
+    };
+    await saveStatus(status);
+    void runVerification(status, options, lock);
+    return status;
+}
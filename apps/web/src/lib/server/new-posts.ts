@@ -4,7 +4,7 @@
  */
 import { readPool } from '$lib/server/db.js';
 import type { RowDataPacket } from 'mysql2';
-import { TieredCache } from '$lib/server/cache.js';
+import { TieredCache, postCacheTag } from '$lib/server/cache.js';
 
 export interface NewPostItem {
     bn_id: number;
@@ -254,8 +254,9 @@ export async function getNewPosts(
 
     const result: NewPostsResult = { items, total, nextCursor };
 
-    // 결과 캐시 저장 (fire-and-forget)
-    feedCache.set(feedCacheKey, result).catch(() => {});
+    // 결과 캐시 저장 (fire-and-forget) — 글 수정/삭제 시 태그로 무효화
+    const tags = items.map((item) => postCacheTag(item.bo_table, item.wr_parent));
+    feedCache.set(feedCacheKey, result, tags).catch(() => {});
 
     return result;
 }
@@ -0,0 +1,25 @@
+/**
+ * 알림 실시간 전달 (SSE + 웹 푸시)
+ *
+ * 알림을 DB에 저장한 뒤 호출합니다. 열려 있는 탭에는 SSE로,
+ * 구독한 기기에는 웹 푸시로 전달하며 어느 쪽이 실패해도 서로 영향을 주지 않습니다.
+ */
+
+import { pushNotification, type StreamNotification } from './notification-stream.js';
+import { sendPushToMember } from './push-subscriptions.js';
+
+export async function deliverNotification(
+    mbId: string,
+    notification: StreamNotification
+): Promise<void> {
+    const [stream, push] = await Promise.allSettled([
+        pushNotification(mbId, notification),
+        sendPushToMember(mbId, notification)
+    ]);
+    if (stream.status === 'rejected') {
+        console.error('[Notification] SSE 전달 실패:', stream.reason);
+    }
+    if (push.status === 'rejected') {
+        console.error('[Notification] 웹 푸시 전달 실패:', push.reason);
+    }
+}
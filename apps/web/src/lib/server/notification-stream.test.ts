@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Redis 대역: Stream(XADD/XREAD) + sorted set + pub/sub 기록
+const { streams, presence, published, subscriberHandlers } = vi.hoisted(() => ({
+    streams: new Map<string, [string, string[]][]>(),
+    presence: new Map<string, number>(),
+    published: [] as string[],
+    subscriberHandlers: [] as ((channel: string, raw: string) => void)[]
+}));
+
+vi.mock('./redis.js', () => {
+    let seq = 0;
+    const compare = (a: string, b: string) => {
+        const [am, as] = a.split('-').map(Number);
+        const [bm, bs] = b.split('-').map(Number);
+        return am === bm ? as - bs : am - bm;
+    };
+    const redis = {
+        xadd: async (key: string, ...args: (string | number)[]) => {
+            const id = `1000-${seq++}`;
+            const entries = streams.get(key) ?? [];
+            entries.push([id, args.slice(-2).map(String)]);
+            streams.set(key, entries);
+            return id;
+        },
+        xread: async (...args: (string | number)[]) => {
+            const [key, lastId] = args.slice(-2).map(String);
+            const entries = (streams.get(key) ?? []).filter(([id]) => compare(id, lastId) > 0);
+            return entries.length > 0 ? [[key, entries]] : null;
+        },
+        expire: async () => 1,
+        zadd: async (_key: string, ...args: (string | number)[]) => {
+            for (let i = 0; i < args.length; i += 2) presence.set(String(args[i + 1]), 1);
+        },
+        zrem: async (_key: string, member: string) => presence.delete(member),
+        zremrangebyscore: async () => 0,
+        zcard: async () => presence.size,
+        publish: async (_channel: string, message: string) => {
+            published.push(message);
+        },
+        duplicate: () => ({
+            on: (event: string, handler: (channel: string, raw: string) => void) => {
+                if (event === 'message') subscriberHandlers.push(handler);
+            },
+            subscribe: async () => 1
+        })
+    };
+    return { getRedis: () => redis };
+});
+
+import { openNotificationStream, pushNotification } from './notification-stream';
+
+const decoder = new TextDecoder();
+
+/** 스트림에서 현재까지 받은 이벤트 문자열 수집 */
+function collect(stream: ReadableStream<Uint8Array>) {
+    const reader = stream.getReader();
+    const chunks: string[] = [];
+    (async () => {
+        for (;;) {
+            const { value, done } = await reader.read();
+            if (done) return;
+            chunks.push(decoder.decode(value));
+        }
+    })().catch(() => {});
+    return { chunks, close: () => reader.cancel() };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const notification = { type: 'mention', title: '알림', content: '내용' };
+
+describe('notification stream', () => {
+    beforeEach(() => {
+        streams.clear();
+        presence.clear();
+        published.length = 0;
+    });
+
+    it('같은 회원의 모든 연결에 이벤트 ID와 함께 전달', async () => {
+        const tab1 = collect(openNotificationStream('user1', null));
+        const tab2 = collect(openNotificationStream('user1', null));
+        const other = collect(openNotificationStream('user2', null));
+
+        await pushNotification('user1', notification);
+        await flush();
+
+        for (const tab of [tab1, tab2]) {
+            expect(tab.chunks.join('')).toContain('id: 1000-0\nevent: notification');
+        }
+        expect(other.chunks.join('')).not.toContain('event: notification');
+        const sent = published.map((raw) => JSON.parse(raw)).find((m) => m.type === 'notification');
+        expect(sent).toMatchObject({
+            type: 'notification',
+            userId: 'user1',
+            eventId: '1000-0'
+        });
+
+        await Promise.all([tab1.close(), tab2.close(), other.close()]);
+    });
+
+    it('다른 Pod에서 온 알림을 로컬 연결에 전달', async () => {
+        const tab = collect(openNotificationStream('user3', null));
+        await flush();
+
+        const message = {
+            origin: 'other-pod',
+            type: 'notification',
+            userId: 'user3',
+            eventId: '2000-0',
+            data: notification
+        };
+        subscriberHandlers.forEach((handler) =>
+            handler('angple:sse:events', JSON.stringify(message))
+        );
+        await flush();
+
+        expect(tab.chunks.join('')).toContain('id: 2000-0\nevent: notification');
+        await tab.close();
+    });
+
+    it('Last-Event-ID 이후 알림 재전송', async () => {
+        await pushNotification('user4', { ...notification, title: '첫 번째' });
+        await pushNotification('user4', { ...notification, title: '두 번째' });
+        const [firstId] = streams.get('sse:notifications:user4')![0];
+
+        const tab = collect(openNotificationStream('user4', firstId));
+        await flush();
+        await flush();
+
+        const text = tab.chunks.join('');
+        expect(text).toContain('두 번째');
+        expect(text).not.toContain('첫 번째');
+        await tab.close();
+    });
+
+    it('회원은 탭 수와 무관하게 1명, 비회원은 연결마다 집계', async () => {
+        const tabs = [
+            collect(openNotificationStream('user5', null)),
+            collect(openNotificationStream('user5', null)),
+            collect(openNotificationStream(null, null))
+        ];
+        await flush();
+
+        expect(presence.size).toBe(2);
+        await Promise.all(tabs.map((tab) => tab.close()));
+        await flush();
+        expect(presence.size).toBe(0);
+    });
+});
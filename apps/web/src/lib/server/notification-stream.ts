@@ -0,0 +1,384 @@
+/**
+ * SSE 알림 스트림 허브 (Pod 간 fan-out)
+ *
+ * - 연결마다 고유 ID를 부여하여 같은 회원의 여러 탭/기기를 모두 유지
+ * - 알림은 Redis pub/sub으로 모든 Pod에 전파 → 회원이 어느 Pod에 연결되어 있어도 전달
+ * - 회원별 알림을 Redis Stream에 보관 → 재연결 시 Last-Event-ID 이후 알림 재전송
+ * - 접속자 수는 Redis sorted set(회원/비회원 연결 → 마지막 확인 시각)으로 클러스터 전체 집계
+ *
+ * Redis 장애 시 같은 Pod의 연결에만 전달하고 접속자 수도 Pod 기준으로 표시합니다.
+ */
+
+import type Redis from 'ioredis';
+import { randomUUID } from 'node:crypto';
+import { getRedis } from './redis.js';
+import { setSseConnections } from './metrics.js';
+
+/** 알림 이벤트 데이터 */
+export interface StreamNotification {
+    type: string;
+    title: string;
+    content: string;
+    url?: string;
+}
+
+interface StreamConnection {
+    id: string;
+    /** 접속자 집계 키 (회원: u:<id>, 비회원: a:<연결 ID>) */
+    presenceKey: string;
+    userId: string | null;
+    controller: ReadableStreamDefaultController<Uint8Array>;
+    /** 재전송 중 도착한 실시간 알림 (재전송이 끝나면 순서대로 전송) */
+    buffered: { eventId: string | null; data: StreamNotification }[] | null;
+    /** 재전송으로 보낸 마지막 이벤트 ID (중복 전송 방지) */
+    replayedUntil: string | null;
+}
+
+type BusMessage =
+    | {
+          origin: string;
+          type: 'notification';
+          userId: string;
+          eventId: string | null;
+          data: StreamNotification;
+      }
+    | { origin: string; type: 'presence' };
+
+const CHANNEL = 'angple:sse:events';
+const STREAM_KEY_PREFIX = 'sse:notifications:';
+const PRESENCE_KEY = 'sse:online';
+/** 회원별 보관 알림 수 / 보관 기간 */
+const REPLAY_MAX_LENGTH = 100;
+const REPLAY_TTL_SEC = 86_400;
+/** heartbeat 및 접속자 갱신 주기 — presence 만료는 주기의 2배 이상 */
+const HEARTBEAT_INTERVAL_MS = 25_000;
+const PRESENCE_EXPIRE_MS = 60_000;
+/** 다른 Pod의 접속 변화 알림을 모아서 한 번만 재집계 */
+const PRESENCE_RECOUNT_DELAY_MS = 1_000;
+const RESUBSCRIBE_DELAY_MS = 30_000;
+const EVENT_ID_PATTERN = /^\d+-\d+$/;
+
+const encoder = new TextEncoder();
+const instanceId = randomUUID();
+
+const connections = new Map<string, StreamConnection>();
+/** 회원 ID → 이 Pod의 연결 ID 목록 */
+const userConnections = new Map<string, Set<string>>();
+
+let subscriber: Redis | null = null;
+let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+let recountTimer: ReturnType<typeof setTimeout> | null = null;
+let onlineCount = 0;
+
+function streamKey(userId: string): string {
+    return `${STREAM_KEY_PREFIX}${userId}`;
+}
+
+/** Redis Stream ID 비교 (<ms>-<seq>) */
+export function compareEventIds(a: string, b: string): number {
+    const [aMs, aSeq] = a.split('-').map(Number);
+    const [bMs, bSeq] = b.split('-').map(Number);
+    return aMs === bMs ? aSeq - bSeq : aMs - bMs;
+}
+
+/** Last-Event-ID 헤더 값 검증 (형식이 다르면 재전송하지 않음) */
+export function parseLastEventId(value: string | null | undefined): string | null {
+    const trimmed = value?.trim();
+    return trimmed && EVENT_ID_PATTERN.test(trimmed) ? trimmed : null;
+}
+
+function send(connection: StreamConnection, chunk: string): void {
+    try {
+        connection.controller.enqueue(encoder.encode(chunk));
+    } catch {
+        removeConnection(connection.id);
+    }
+}
+
+function notificationChunk(eventId: string | null, data: StreamNotification): string {
+    const idLine = eventId ? `id: ${eventId}\n` : '';
+    return `${idLine}event: notification\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function deliverToConnection(
+    connection: StreamConnection,
+    eventId: string | null,
+    data: StreamNotification
+): void {
+    if (connection.buffered) {
+        connection.buffered.push({ eventId, data });
+        return;
+    }
+    if (
+        eventId &&
+        connection.replayedUntil &&
+        compareEventIds(eventId, connection.replayedUntil) <= 0
+    ) {
+        return;
+    }
+    send(connection, notificationChunk(eventId, data));
+}
+
+/** 이 Pod에 연결된 해당 회원의 모든 탭/기기에 전달 */
+function deliverLocal(userId: string, eventId: string | null, data: StreamNotification): void {
+    for (const connectionId of userConnections.get(userId) ?? []) {
+        const connection = connections.get(connectionId);
+        if (connection) deliverToConnection(connection, eventId, data);
+    }
+}
+
+function broadcastOnlineCount(): void {
+    const chunk = `event: online_count\ndata: ${onlineCount}\n\n`;
+    for (const connection of [...connections.values()]) {
+        send(connection, chunk);
+    }
+}
+
+/** Redis 장애 시 접속자 수: 이 Pod의 회원 수 + 비회원 연결 수 */
+function localOnlineCount(): number {
+    return new Set([...connections.values()].map((c) => c.presenceKey)).size;
+}
+
+/** 클러스터 접속자 수 재집계 후 변경되었으면 broadcast */
+async function recountOnline(): Promise<void> {
+    let count: number;
+    try {
+        const redis = getRedis();
+        await redis.zremrangebyscore(PRESENCE_KEY, '-inf', Date.now() - PRESENCE_EXPIRE_MS);
+        count = await redis.zcard(PRESENCE_KEY);
+    } catch {
+        count = localOnlineCount();
+    }
+    if (count !== onlineCount) {
+        onlineCount = count;
+        broadcastOnlineCount();
+    }
+}
+
+function scheduleRecount(): void {
+    if (recountTimer) return;
+    recountTimer = setTimeout(() => {
+        recountTimer = null;
+        recountOnline().catch(() => {});
+    }, PRESENCE_RECOUNT_DELAY_MS);
+    recountTimer.unref?.();
+}
+
+async function publish(message: BusMessage): Promise<void> {
+    try {
+        await getRedis().publish(CHANNEL, JSON.stringify(message));
+    } catch (error) {
+        console.error('[SSE] 이벤트 전파 실패:', (error as Error).message);
+    }
+}
+
+function handleMessage(channel: string, raw: string): void {
+    if (channel !== CHANNEL) return;
+    try {
+        const message = JSON.parse(raw) as BusMessage;
+        if (message.origin === instanceId) return;
+        if (message.type === 'notification') {
+            deliverLocal(message.userId, message.eventId, message.data);
+        } else {
+            scheduleRecount();
+        }
+    } catch (error) {
+        console.error('[SSE] 메시지 처리 실패:', error);
+    }
+}
+
+/** 구독 시작 (첫 연결 시) — 실패하면 일정 시간 후 재시도 */
+async function ensureSubscriber(): Promise<void> {
+    if (subscriber) return;
+
+    subscriber = getRedis().duplicate();
+    subscriber.on('error', (err: Error) => {
+        console.error('[SSE] Redis 구독 연결 오류:', err.message);
+    });
+    subscriber.on('message', handleMessage);
+
+    try {
+        await subscriber.subscribe(CHANNEL);
+    } catch (error) {
+        console.error('[SSE] 구독 실패, 재시도 예정:', (error as Error).message);
+        subscriber.disconnect();
+        subscriber = null;
+        setTimeout(() => {
+            ensureSubscriber().catch(() => {});
+        }, RESUBSCRIBE_DELAY_MS).unref?.();
+    }
+}
+
+/** heartbeat 전송 + 이 Pod의 접속자 갱신 (연결이 있는 동안만 실행) */
+async function tick(): Promise<void> {
+    const now = Date.now();
+    for (const connection of [...connections.values()]) {
+        send(connection, `event: heartbeat\ndata: ${now}\n\n`);
+    }
+
+    const keys = [...new Set([...connections.values()].map((c) => c.presenceKey))];
+    if (keys.length > 0) {
+        try {
+            await getRedis().zadd(PRESENCE_KEY, ...keys.flatMap((key) => [now, key]));
+        } catch {
+            // Redis 장애 시 recountOnline에서 Pod 기준으로 집계
+        }
+    }
+    await recountOnline();
+}
+
+function updateHeartbeat(): void {
+    if (connections.size > 0 && !heartbeatTimer) {
+        heartbeatTimer = setInterval(() => {
+            tick().catch(() => {});
+        }, HEARTBEAT_INTERVAL_MS);
+        heartbeatTimer.unref?.();
+    } else if (connections.size === 0 && heartbeatTimer) {
+        clearInterval(heartbeatTimer);
+        heartbeatTimer = null;
+    }
+}
+
+/** 접속 변화 반영: Redis presence 갱신 → 재집계 → 다른 Pod에 알림 */
+async function updatePresence(key: string, present: boolean): Promise<void> {
+    try {
+        const redis = getRedis();
+        if (present) await redis.zadd(PRESENCE_KEY, Date.now(), key);
+        else await redis.zrem(PRESENCE_KEY, key);
+    } catch {
+        // Redis 장애 시 Pod 기준 집계
+    }
+    await recountOnline();
+    await publish({ origin: instanceId, type: 'presence' });
+}
+
+function removeConnection(connectionId: string): void {
+    const connection = connections.get(connectionId);
+    if (!connection) return;
+
+    connections.delete(connectionId);
+    setSseConnections(connections.size);
+    updateHeartbeat();
+
+    let lastForKey = true;
+    if (connection.userId) {
+        const ids = userConnections.get(connection.userId);
+        ids?.delete(connectionId);
+        if (ids && ids.size > 0) lastForKey = false;
+        else userConnections.delete(connection.userId);
+    }
+    // 같은 회원의 다른 탭이 남아 있으면 접속자 수는 그대로
+    // (다른 Pod에 남은 연결은 그 Pod의 다음 heartbeat에서 다시 집계됨)
+    if (lastForKey) {
+        updatePresence(connection.presenceKey, false).catch(() => {});
+    }
+}
+
+/** Last-Event-ID 이후 보관된 알림 재전송 */
+async function replay(connection: StreamConnection, lastEventId: string): Promise<void> {
+    try {
+        const result = await getRedis().xread(
+            'COUNT',
+            REPLAY_MAX_LENGTH,
+            'STREAMS',
+            streamKey(connection.userId!),
+            lastEventId
+        );
+        for (const [, entries] of result ?? []) {
+            for (const [eventId, fields] of entries) {
+                const index = fields.indexOf('data');
+                if (index < 0) continue;
+                send(connection, notificationChunk(eventId, JSON.parse(fields[index + 1])));
+                connection.replayedUntil = eventId;
+            }
+        }
+    } catch (error) {
+        console.error('[SSE] 알림 재전송 실패:', (error as Error).message);
+    }
+
+    const buffered = connection.buffered ?? [];
+    connection.buffered = null;
+    for (const { eventId, data } of buffered) {
+        deliverToConnection(connection, eventId, data);
+    }
+}
+
+/**
+ * 알림 스트림 열기
+ *
+ * @param userId 회원 ID (비회원은 null — 알림 없이 접속자 수만 수신)
+ * @param lastEventId 재연결 시 마지막으로 받은 이벤트 ID (회원만 재전송)
+ */
+export function openNotificationStream(
+    userId: string | null,
+    lastEventId: string | null
+): ReadableStream<Uint8Array> {
+    const connectionId = randomUUID();
+    const replayFrom = userId ? parseLastEventId(lastEventId) : null;
+
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            const connection: StreamConnection = {
+                id: connectionId,
+                presenceKey: userId ? `u:${userId}` : `a:${connectionId}`,
+                userId,
+                controller,
+                buffered: replayFrom ? [] : null,
+                replayedUntil: null
+            };
+            connections.set(connectionId, connection);
+            if (userId) {
+                const ids = userConnections.get(userId) ?? new Set<string>();
+                userConnections.set(userId, ids.add(connectionId));
+            }
+            setSseConnections(connections.size);
+            updateHeartbeat();
+            ensureSubscriber().catch(() => {});
+
+            // 초기 접속자 수 (집계 전 값) 후 재집계 결과 broadcast
+            send(connection, `event: online_count\ndata: ${onlineCount}\n\n`);
+            updatePresence(connection.presenceKey, true).catch(() => {});
+
+            if (replayFrom) {
+                replay(connection, replayFrom).catch(() => {});
+            }
+        },
+        cancel() {
+            removeConnection(connectionId);
+        }
+    });
+}
+
+/**
+ * 회원에게 알림 전송 (모든 Pod의 모든 탭/기기)
+ *
+ * Redis Stream에 먼저 기록하여 이벤트 ID를 받고, 그 ID로 전달합니다.
+ * 기록에 실패하면 ID 없이 전달만 합니다 (재연결 시 재전송 불가).
+ */
+export async function pushNotification(userId: string, data: StreamNotification): Promise<void> {
+    let eventId: string | null = null;
+    try {
+        const redis = getRedis();
+        const key = streamKey(userId);
+        eventId = await redis.xadd(
+            key,
+            'MAXLEN',
+            '~',
+            REPLAY_MAX_LENGTH,
+            '*',
+            'data',
+            JSON.stringify(data)
+        );
+        await redis.expire(key, REPLAY_TTL_SEC);
+    } catch (error) {
+        console.error('[SSE] 알림 보관 실패:', (error as Error).message);
+    }
+
+    deliverLocal(userId, eventId, data);
+    await publish({ origin: instanceId, type: 'notification', userId, eventId, data });
+}
+
+/** 접속자 수 (클러스터 전체, 마지막 집계 값) */
+export function getOnlineCount(): number {
+    return onlineCount;
+}
@@ -0,0 +1,308 @@
+/**
+ * 플러그인 권한 감사 로그
+ *
+ * PermissionManager의 감사 기록(플러그인·권한·동작·허용 여부)을 MySQL에 영속화합니다.
+ * - 쓰기: 메모리 버퍼에 모았다가 일정 주기/건수마다 일괄 INSERT (권한 검사 경로 지연 방지)
+ * - 보존: PLUGIN_AUDIT_RETENTION_DAYS(기본 90일)가 지난 기록은 주기적으로 삭제
+ * - 알림: 같은 플러그인·권한의 거부가 짧은 시간에 반복되면 관리자에게 알림
+ */
+
+import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import type { AuditEntry } from '@angple/plugin-engine';
+import { env } from '$env/dynamic/private';
+import { pool, readPool } from '../db';
+import { getRedis } from '../redis';
+
+const AUDIT_TABLE = 'angple_plugin_audit_log';
+
+/** 일괄 INSERT 주기 (ms) / 버퍼 최대 건수 */
+const FLUSH_INTERVAL_MS = 2000;
+const FLUSH_BATCH_SIZE = 100;
+
+/** DB 장애 시 메모리에 보관할 최대 건수 (초과분은 오래된 것부터 버림) */
+const MAX_BUFFER_SIZE = 5000;
+
+/** 보존 기간 정리 주기 (ms) / 1회 삭제 건수 */
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const PURGE_BATCH_SIZE = 10_000;
+
+/** 반복 거부 감지: 집계 구간(초) 안에 임계치 이상 거부되면 알림, 이후 쿨다운(초) 동안 재알림 없음 */
+const DENIAL_WINDOW_SECONDS = 600;
+const DENIAL_ALERT_THRESHOLD = 5;
+const DENIAL_ALERT_COOLDOWN_SECONDS = 3600;
+const DENIAL_KEY_PREFIX = 'plugins:audit:denied:';
+
+export interface PluginAuditFilter {
+    pluginId?: string;
+    permission?: string;
+    deniedOnly?: boolean;
+    page?: number;
+    limit?: number;
+}
+
+export interface PluginAuditRecord {
+    id: number;
+    pluginId: string;
+    permission: string;
+    action: string;
+    granted: boolean;
+    createdAt: string;
+}
+
+export interface PluginAuditPage {
+    items: PluginAuditRecord[];
+    total: number;
+    page: number;
+    limit: number;
+    /** 필터 선택지 */
+    plugins: string[];
+    permissions: string[];
+}
+
+interface AuditRow extends RowDataPacket {
+    id: number;
+    plugin_id: string;
+    permission: string;
+    action: string;
+    granted: number;
+    created_at: Date;
+}
+
+let tableChecked = false;
+let buffer: AuditEntry[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing: Promise<void> | null = null;
+let lastPurgeAt = 0;
+
+/**
+ * 테이블 존재 확인 및 생성
+ */
+async function ensureTable(): Promise<void> {
+    if (tableChecked) return;
+
+    await pool.query(`
+        CREATE TABLE IF NOT EXISTS ${AUDIT_TABLE} (
+            id BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+            plugin_id VARCHAR(100) NOT NULL,
+            permission VARCHAR(50) NOT NULL,
+            action VARCHAR(255) NOT NULL,
+            granted TINYINT(1) NOT NULL,
+            created_at DATETIME(3) NOT NULL,
+            INDEX idx_plugin_created (plugin_id, created_at),
+            INDEX idx_granted_created (granted, created_at),
+            INDEX idx_created (created_at)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+    tableChecked = true;
+}
+
+function getRetentionDays(): number {
+    const days = Number(env.PLUGIN_AUDIT_RETENTION_DAYS);
+    return Number.isFinite(days) && days > 0 ? Math.floor(days) : 90;
+}
+
+/**
+ * 감사 기록 추가 (PermissionManager.onAudit 리스너)
+ */
+export function recordPluginAudit(entry: AuditEntry): void {
+    buffer.push(entry);
+    if (buffer.length > MAX_BUFFER_SIZE) {
+        buffer = buffer.slice(-MAX_BUFFER_SIZE);
+    }
+
+    if (!entry.granted) {
+        trackDenial(entry).catch((error) => {
+            console.error('[Plugin Audit] 반복 거부 감지 실패:', error);
+        });
+    }
+
+    if (buffer.length >= FLUSH_BATCH_SIZE) {
+        void flushPluginAuditLog();
+    } else if (!flushTimer) {
+        flushTimer = setTimeout(() => {
+            flushTimer = null;
+            void flushPluginAuditLog();
+        }, FLUSH_INTERVAL_MS);
+        flushTimer.unref?.();
+    }
+}
+
+/**
+ * 버퍼에 쌓인 감사 기록을 DB에 저장
+ */
+export function flushPluginAuditLog(): Promise<void> {
+    if (!flushing) {
+        flushing = (async () => {
+            try {
+                while (buffer.length > 0) {
+                    const batch = buffer.slice(0, FLUSH_BATCH_SIZE);
+                    await insertBatch(batch);
+                    buffer = buffer.slice(batch.length);
+                }
+                await purgeExpired();
+            } catch (error) {
+                // 버퍼는 유지하고 다음 주기에 재시도
+                console.error('[Plugin Audit] 감사 로그 저장 실패:', error);
+            } finally {
+                flushing = null;
+            }
+        })();
+    }
+    return flushing;
+}
+
+async function insertBatch(batch: AuditEntry[]): Promise<void> {
+    await ensureTable();
+    await pool.query<ResultSetHeader>(
+        `INSERT INTO ${AUDIT_TABLE} (plugin_id, permission, action, granted, created_at) VALUES ?`,
+        [
+            batch.map((entry) => [
+                entry.pluginId.slice(0, 100),
+                entry.permission.slice(0, 50),
+                entry.action.slice(0, 255),
+                entry.granted ? 1 : 0,
+                entry.timestamp
+            ])
+        ]
+    );
+}
+
+/**
+ * 보존 기간이 지난 기록 삭제 (인스턴스당 최대 1시간에 1번)
+ */
+async function purgeExpired(): Promise<void> {
+    const now = Date.now();
+    if (now - lastPurgeAt < PURGE_INTERVAL_MS) return;
+    lastPurgeAt = now;
+
+    const [result] = await pool.query<ResultSetHeader>(
+        `DELETE FROM ${AUDIT_TABLE} WHERE created_at < DATE_SUB(NOW(), INTERVAL ? DAY) LIMIT ${PURGE_BATCH_SIZE}`,
+        [getRetentionDays()]
+    );
+    if (result.affectedRows > 0) {
+        console.log(`[Plugin Audit] 만료된 감사 로그 ${result.affectedRows}건 삭제`);
+    }
+}
+
+/**
+ * 거부 횟수 집계 후 임계치 도달 시 관리자 알림
+ *
+ * 카운터와 쿨다운을 Redis에 두어 여러 인스턴스에서 발생한 거부도 함께 집계하고
+ * 알림은 한 번만 보냅니다.
+ */
+async function trackDenial(entry: AuditEntry): Promise<void> {
+    const redis = getRedis();
+    const key = `${DENIAL_KEY_PREFIX}${entry.pluginId}:${entry.permission}`;
+
+    const count = await redis.incr(key);
+    if (count === 1) {
+        await redis.expire(key, DENIAL_WINDOW_SECONDS);
+    }
+    if (count < DENIAL_ALERT_THRESHOLD) return;
+
+    const acquired = await redis.set(
+        `${key}:alerted`,
+        '1',
+        'EX',
+        DENIAL_ALERT_COOLDOWN_SECONDS,
+        'NX'
+    );
+    if (acquired !== 'OK') return;
+
+    await notifyAdmins(entry, count);
+}
+
+async function notifyAdmins(entry: AuditEntry, count: number): Promise<void> {
+    const [admins] = await readPool.query<RowDataPacket[]>(
+        `SELECT mb_id FROM g5_member WHERE mb_level >= 10 AND mb_leave_date = ''`
+    );
+    if (admins.length === 0) return;
+
+    const minutes = DENIAL_WINDOW_SECONDS / 60;
+    const message = `플러그인 '${entry.pluginId}'의 ${entry.permission} 권한 요청이 ${minutes}분 동안 ${count}회 거부되었습니다. (${entry.action})`;
+    const url = `/admin/plugins/audit?plugin=${encodeURIComponent(entry.pluginId)}&permission=${encodeURIComponent(entry.permission)}&denied=1`;
+
+    for (const admin of admins) {
+        try {
+            await pool.execute(
+                `INSERT INTO g5_na_noti (ph_to_case, ph_from_case, bo_table, wr_id, mb_id, rel_mb_id, rel_mb_nick, rel_msg, rel_url, ph_readed, ph_datetime, parent_subject, wr_parent)
+                 VALUES ('admin', 'plugin_audit', '', 0, ?, '', ?, ?, ?, 'N', NOW(), ?, 0)`,
+                [admin.mb_id, entry.pluginId, message.slice(0, 255), url, '플러그인 권한 거부 반복']
+            );
+        } catch (error) {
+            console.error('[Plugin Audit] 관리자 알림 INSERT 실패 (%s):', admin.mb_id, error);
+        }
+    }
+}
+
+/**
+ * 조회 필터 → WHERE 절
+ */
+export function buildAuditWhere(filter: PluginAuditFilter): { clause: string; params: string[] } {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (filter.pluginId) {
+        conditions.push('plugin_id = ?');
+        params.push(filter.pluginId);
+    }
+    if (filter.permission) {
+        conditions.push('permission = ?');
+        params.push(filter.permission);
+    }
+    if (filter.deniedOnly) {
+        conditions.push('granted = 0');
+    }
+
+    return {
+        clause: conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '',
+        params
+    };
+}
+
+/**
+ * 감사 로그 조회 (최신순, 페이지네이션)
+ */
+export async function queryPluginAuditLog(filter: PluginAuditFilter): Promise<PluginAuditPage> {
+    await ensureTable();
+    // 방금 기록된 항목도 보이도록 버퍼를 먼저 저장
+    await flushPluginAuditLog();
+
+    const page = Math.max(1, Math.floor(Number(filter.page) || 1));
+    const limit = Math.min(Math.max(1, Math.floor(Number(filter.limit) || 50)), 200);
+    const { clause, params } = buildAuditWhere(filter);
+
+    const [[rows], [countRows], [pluginRows], [permissionRows]] = await Promise.all([
+        readPool.query<AuditRow[]>(
+            `SELECT id, plugin_id, permission, action, granted, created_at FROM ${AUDIT_TABLE}${clause}
+             ORDER BY created_at DESC, id DESC LIMIT ${limit} OFFSET ${(page - 1) * limit}`,
+            params
+        ),
+        readPool.query<RowDataPacket[]>(
+            `SELECT COUNT(*) AS total FROM ${AUDIT_TABLE}${clause}`,
+            params
+        ),
+        readPool.query<RowDataPacket[]>(
+            `SELECT DISTINCT plugin_id FROM ${AUDIT_TABLE} ORDER BY plugin_id`
+        ),
+        readPool.query<RowDataPacket[]>(
+            `SELECT DISTINCT permission FROM ${AUDIT_TABLE} ORDER BY permission`
+        )
+    ]);
+
+    return {
+        items: rows.map((row) => ({
+            id: Number(row.id),
+            pluginId: row.plugin_id,
+            permission: row.permission,
+            action: row.action,
+            granted: Boolean(row.granted),
+            createdAt: new Date(row.created_at).toISOString()
+        })),
+        total: Number(countRows[0]?.total ?? 0),
+        page,
+        limit,
+        plugins: pluginRows.map((row) => row.plugin_id as string),
+        permissions: permissionRows.map((row) => row.permission as string)
+    };
+}
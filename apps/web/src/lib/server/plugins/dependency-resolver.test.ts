@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import type { ExtensionManifest } from '@angple/types';
+import { checkPluginConstraints, resolveActivationOrder } from './dependency-resolver';
+
+function manifest(
+    id: string,
+    version: string,
+    extra: Pick<ExtensionManifest, 'engines' | 'pluginDependencies'> = {}
+): ExtensionManifest {
+    return {
+        id,
+        name: id,
+        version,
+        author: { name: 'test' },
+        license: 'MIT',
+        category: 'plugin',
+        main: 'index.ts',
+        ...extra
+    } as ExtensionManifest;
+}
+
+function manifestMap(...list: ExtensionManifest[]): Map<string, ExtensionManifest> {
+    return new Map(list.map((m) => [m.id, m]));
+}
+
+describe('plugin dependency resolver', () => {
+    it('orders dependencies before dependents', () => {
+        const manifests = manifestMap(
+            manifest('shop', '1.0.0', { pluginDependencies: { payments: '^1.2.0' } }),
+            manifest('payments', '1.3.0', { pluginDependencies: { core: '*' } }),
+            manifest('core', '2.0.0'),
+            manifest('banner', '0.1.0')
+        );
+
+        const plan = resolveActivationOrder(manifests, ['shop', 'banner', 'payments', 'core']);
+
+        expect(plan.order).toEqual(['banner', 'core', 'payments', 'shop']);
+        expect(plan.blocked.size).toBe(0);
+    });
+
+    it('blocks plugins whose angple engine range is not satisfied', () => {
+        const manifests = manifestMap(
+            manifest('future', '1.0.0', { engines: { angple: '>=0.3.0' } })
+        );
+
+        const plan = resolveActivationOrder(manifests, ['future'], '0.1.0');
+
+        expect(plan.order).toEqual([]);
+        expect(plan.blocked.get('future')?.[0]).toMatchObject({ type: 'engine' });
+        expect(resolveActivationOrder(manifests, ['future'], '0.3.1').order).toEqual(['future']);
+    });
+
+    it('blocks dependents transitively when a dependency is blocked', () => {
+        const manifests = manifestMap(
+            manifest('a', '1.0.0', { pluginDependencies: { b: '^1.0.0' } }),
+            manifest('b', '1.0.0', { pluginDependencies: { c: '^2.0.0' } }),
+            manifest('c', '1.5.0')
+        );
+
+        const plan = resolveActivationOrder(manifests, ['a', 'b', 'c']);
+
+        expect(plan.order).toEqual(['c']);
+        expect(plan.blocked.get('b')?.[0]).toMatchObject({ type: 'version', dependencyId: 'c' });
+        expect(plan.blocked.get('a')?.[0]).toMatchObject({ type: 'inactive', dependencyId: 'b' });
+    });
+
+    it('blocks dependency cycles', () => {
+        const manifests = manifestMap(
+            manifest('a', '1.0.0', { pluginDependencies: { b: '*' } }),
+            manifest('b', '1.0.0', { pluginDependencies: { a: '*' } }),
+            manifest('c', '1.0.0')
+        );
+
+        const plan = resolveActivationOrder(manifests, ['a', 'b', 'c']);
+
+        expect(plan.order).toEqual(['c']);
+        expect(plan.blocked.get('a')?.[0].type).toBe('cycle');
+        expect(plan.blocked.get('b')?.[0].type).toBe('cycle');
+    });
+
+    it('reports missing and inactive dependencies for a single plugin', () => {
+        const manifests = manifestMap(
+            manifest('shop', '1.0.0', { pluginDependencies: { payments: '^1.0.0', auth: '*' } }),
+            manifest('payments', '1.0.0')
+        );
+
+        const issues = checkPluginConstraints(manifests.get('shop')!, manifests, {
+            activeIds: []
+        });
+
+        expect(issues.map((issue) => issue.type)).toEqual(['inactive', 'missing']);
+    });
+});
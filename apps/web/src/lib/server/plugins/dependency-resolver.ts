@@ -0,0 +1,170 @@
+/**
+ * 플러그인 의존성/버전 제약 해석
+ *
+ * 매니페스트의 engines.angple, pluginDependencies(플러그인 ID → semver 범위)를 검사하여
+ * - 제약을 만족하지 않는 플러그인을 활성화 대상에서 제외하고
+ * - 의존 플러그인이 먼저 활성화되도록 위상 정렬된 순서를 계산합니다.
+ */
+
+import semver from 'semver';
+import type { ExtensionManifest } from '@angple/types';
+import rootPackage from '../../../../../../package.json';
+
+/** 현재 Angple 버전 (루트 package.json) */
+export const ANGPLE_VERSION: string = rootPackage.version;
+
+/**
+ * 플러그인 제약 위반 사유
+ */
+export interface PluginConstraintIssue {
+    /** engine: Angple 버전 불일치, missing: 의존 플러그인 미설치, version: 의존 플러그인 버전 불일치,
+     *  inactive: 의존 플러그인 비활성/차단, cycle: 순환 의존 */
+    type: 'engine' | 'missing' | 'version' | 'inactive' | 'cycle';
+    /** 관리자 화면에 표시할 사유 */
+    message: string;
+    /** 관련 의존 플러그인 ID */
+    dependencyId?: string;
+}
+
+/**
+ * 활성화 계획
+ */
+export interface PluginActivationPlan {
+    /** 활성화 순서 (의존 플러그인이 먼저) */
+    order: string[];
+    /** 제약 위반으로 활성화하지 않을 플러그인과 사유 */
+    blocked: Map<string, PluginConstraintIssue[]>;
+}
+
+function satisfies(version: string, range: string): boolean {
+    const coerced = semver.valid(version) ?? semver.coerce(version)?.version;
+    if (!coerced) return false;
+    return semver.satisfies(coerced, range, { includePrerelease: true });
+}
+
+/**
+ * 단일 플러그인의 정적 제약 검사 (Angple 버전, 의존 플러그인 설치/버전)
+ *
+ * @param activeIds - 주어지면 의존 플러그인의 활성 여부까지 검사
+ */
+export function checkPluginConstraints(
+    manifest: ExtensionManifest,
+    manifests: Map<string, ExtensionManifest>,
+    options: { activeIds?: Iterable<string>; angpleVersion?: string } = {}
+): PluginConstraintIssue[] {
+    const issues: PluginConstraintIssue[] = [];
+    const angpleVersion = options.angpleVersion ?? ANGPLE_VERSION;
+    const activeIds = options.activeIds ? new Set(options.activeIds) : null;
+
+    const engineRange = manifest.engines?.angple;
+    if (engineRange && !satisfies(angpleVersion, engineRange)) {
+        issues.push({
+            type: 'engine',
+            message: `Angple ${engineRange} 필요 (현재 ${angpleVersion})`
+        });
+    }
+
+    for (const [depId, range] of Object.entries(manifest.pluginDependencies ?? {})) {
+        const dep = manifests.get(depId);
+        if (!dep) {
+            issues.push({
+                type: 'missing',
+                dependencyId: depId,
+                message: `의존 플러그인 ${depId}@${range} 미설치`
+            });
+            continue;
+        }
+        if (!satisfies(dep.version, range)) {
+            issues.push({
+                type: 'version',
+                dependencyId: depId,
+                message: `의존 플러그인 ${depId}@${range} 필요 (설치됨 ${dep.version})`
+            });
+            continue;
+        }
+        if (activeIds && !activeIds.has(depId)) {
+            issues.push({
+                type: 'inactive',
+                dependencyId: depId,
+                message: `의존 플러그인 ${depId}이(가) 활성화되어 있지 않음`
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * 활성 플러그인의 활성화 순서 계산
+ *
+ * 1. 각 플러그인의 제약 검사 (미설치 플러그인은 무시)
+ * 2. 차단된 플러그인에 의존하는 플러그인도 연쇄 차단
+ * 3. 남은 플러그인을 위상 정렬 (순환 의존은 차단)
+ *
+ * 같은 단계의 플러그인은 activeIds 순서를 유지합니다.
+ */
+export function resolveActivationOrder(
+    manifests: Map<string, ExtensionManifest>,
+    activeIds: string[],
+    angpleVersion: string = ANGPLE_VERSION
+): PluginActivationPlan {
+    const blocked = new Map<string, PluginConstraintIssue[]>();
+    const candidates = activeIds.filter(
+        (id, i) => manifests.has(id) && activeIds.indexOf(id) === i
+    );
+
+    for (const id of candidates) {
+        const issues = checkPluginConstraints(manifests.get(id)!, manifests, {
+            activeIds: candidates,
+            angpleVersion
+        });
+        if (issues.length > 0) blocked.set(id, issues);
+    }
+
+    // 차단된 의존 플러그인 전파 (고정점까지 반복)
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (const id of candidates) {
+            if (blocked.has(id)) continue;
+            const deps = Object.keys(manifests.get(id)!.pluginDependencies ?? {});
+            const blockedDep = deps.find((depId) => blocked.has(depId));
+            if (blockedDep) {
+                blocked.set(id, [
+                    {
+                        type: 'inactive',
+                        dependencyId: blockedDep,
+                        message: `의존 플러그인 ${blockedDep}이(가) 제약 위반으로 비활성 상태`
+                    }
+                ]);
+                changed = true;
+            }
+        }
+    }
+
+    // Kahn 위상 정렬
+    const remaining = candidates.filter((id) => !blocked.has(id));
+    const order: string[] = [];
+    const placed = new Set<string>();
+
+    while (order.length < remaining.length) {
+        const next = remaining.find(
+            (id) =>
+                !placed.has(id) &&
+                Object.keys(manifests.get(id)!.pluginDependencies ?? {}).every((depId) =>
+                    placed.has(depId)
+                )
+        );
+        if (!next) break;
+        order.push(next);
+        placed.add(next);
+    }
+
+    for (const id of remaining) {
+        if (!placed.has(id)) {
+            blocked.set(id, [{ type: 'cycle', message: '순환 의존성으로 활성화할 수 없음' }]);
+        }
+    }
+
+    return { order, blocked };
+}
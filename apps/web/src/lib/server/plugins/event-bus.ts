@@ -0,0 +1,47 @@
+/**
+ * 플러그인 생명주기 이벤트 버스 (Redis pub/sub)
+ *
+ * 한 인스턴스에서 플러그인을 활성화/비활성화/업데이트하면
+ * 같은 Redis를 쓰는 모든 인스턴스(K8s pods)가 리로드하도록 전파합니다.
+ */
+
+import type Redis from 'ioredis';
+import type { PluginEventBus, PluginLifecycleEvent } from '@angple/plugin-engine';
+import { getRedis } from '../redis';
+
+const CHANNEL = 'angple:plugins:lifecycle';
+
+/**
+ * Redis 기반 PluginEventBus 생성
+ *
+ * 구독 전용 연결이 필요하므로 공용 클라이언트를 duplicate() 하여 사용합니다.
+ */
+export function createRedisPluginEventBus(): PluginEventBus {
+    let subscriber: Redis | null = null;
+
+    return {
+        async publish(event: PluginLifecycleEvent): Promise<void> {
+            await getRedis().publish(CHANNEL, JSON.stringify(event));
+        },
+
+        async subscribe(handler: (event: PluginLifecycleEvent) => void): Promise<void> {
+            if (!subscriber) {
+                subscriber = getRedis().duplicate();
+                subscriber.on('error', (err: Error) => {
+                    console.error('[Plugin EventBus] Redis 구독 연결 오류:', err.message);
+                });
+            }
+
+            subscriber.on('message', (channel: string, message: string) => {
+                if (channel !== CHANNEL) return;
+                try {
+                    handler(JSON.parse(message) as PluginLifecycleEvent);
+                } catch (error) {
+                    console.error('[Plugin EventBus] 이벤트 파싱 실패:', error);
+                }
+            });
+
+            await subscriber.subscribe(CHANNEL);
+        }
+    };
+}
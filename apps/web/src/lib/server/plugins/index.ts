@@ -14,9 +14,12 @@ import {
     getPluginManifest,
     getPluginPath,
     isPluginInstalled,
-    isCustomPlugin
+    isCustomPlugin,
+    resolvePluginActivation,
+    getPluginConstraintIssues
 } from './scanner';
 import { pluginSettingsProvider } from '../settings/plugin-settings-provider';
+import { reloadPluginRuntime, disablePluginRuntime } from './runtime';
 import { TieredCache } from '$lib/server/cache';
 import type { ExtensionManifest } from '@angple/types';
 
@@ -38,6 +41,9 @@ export interface InstalledPlugin {
 
     /** 플러그인 출처 (official: Git 추적, custom: 사용자 업로드) */
     source: 'official' | 'custom';
+
+    /** 만족하지 못한 engines/pluginDependencies 제약 (있으면 활성화 불가 또는 로드 제외) */
+    constraintIssues?: string[];
 }
 
 /**
@@ -54,16 +60,24 @@ export async function getInstalledPlugins(): Promise<Map<string, InstalledPlugin
     // 2. 활성 플러그인 ID 목록 조회
     const activePluginIds = await pluginSettingsProvider.getActivePlugins();
 
-    // 3. 각 플러그인에 대해 InstalledPlugin 객체 생성
+    // 3. 의존성/버전 제약 검사
+    const { blocked } = await resolvePluginActivation(activePluginIds, manifests);
+
+    // 4. 각 플러그인에 대해 InstalledPlugin 객체 생성
     for (const [pluginId, manifest] of manifests) {
         const currentSettings = await pluginSettingsProvider.getPluginSettings(pluginId);
+        const isActive = activePluginIds.includes(pluginId);
+        const issues = isActive
+            ? (blocked.get(pluginId) ?? [])
+            : await getPluginConstraintIssues(pluginId, activePluginIds, manifests);
 
         plugins.set(pluginId, {
             manifest,
             currentSettings,
             path: await getPluginPath(pluginId),
-            isActive: activePluginIds.includes(pluginId),
-            source: (await isCustomPlugin(pluginId)) ? 'custom' : 'official'
+            isActive,
+            source: (await isCustomPlugin(pluginId)) ? 'custom' : 'official',
+            constraintIssues: issues.length > 0 ? issues.map((issue) => issue.message) : undefined
         });
     }
 
@@ -105,13 +119,16 @@ const activePluginsTieredCache = new TieredCache<InstalledPlugin[]>(
 
 /**
  * 활성화된 모든 플러그인 가져오기 (TieredCache: L1 30초, L2 5분)
+ *
+ * 의존 플러그인이 먼저 오도록 정렬되며, 제약을 만족하지 않는 플러그인은 제외됩니다.
  */
 export async function getActivePlugins(): Promise<InstalledPlugin[]> {
     return activePluginsTieredCache.getOrFetch('list', async () => {
         const activePluginIds = await pluginSettingsProvider.getActivePlugins();
+        const { order } = await resolvePluginActivation(activePluginIds);
         const activePlugins: InstalledPlugin[] = [];
 
-        for (const pluginId of activePluginIds) {
+        for (const pluginId of order) {
             const plugin = await getPluginById(pluginId);
             if (plugin) {
                 activePlugins.push(plugin);
@@ -127,10 +144,22 @@ export async function invalidateActivePluginsCache(): Promise<void> {
     await activePluginsTieredCache.delete('list');
 }
 
+/**
+ * 플러그인 활성화 전 제약 검사
+ *
+ * @returns 만족하지 못한 engines/pluginDependencies 제약 사유 (비어 있으면 활성화 가능)
+ */
+export async function getPluginActivationIssues(pluginId: string): Promise<string[]> {
+    const activePluginIds = await pluginSettingsProvider.getActivePlugins();
+    const issues = await getPluginConstraintIssues(pluginId, activePluginIds);
+    return issues.map((issue) => issue.message);
+}
+
 /**
  * 플러그인 활성화
  *
  * settings.json의 activePlugins 배열에 플러그인 ID를 추가합니다.
+ * engines/pluginDependencies 제약을 만족하지 않으면 활성화를 거부합니다.
  */
 export async function activatePlugin(pluginId: string): Promise<boolean> {
     // 플러그인이 설치되어 있는지 확인
@@ -139,10 +168,19 @@ export async function activatePlugin(pluginId: string): Promise<boolean> {
         return false;
     }
 
+    const issues = await getPluginActivationIssues(pluginId);
+    if (issues.length > 0) {
+        console.error(`[Plugin API] 플러그인 제약 불충족: ${pluginId}`, issues);
+        return false;
+    }
+
     // Provider를 통해 플러그인 활성화
     await pluginSettingsProvider.activatePlugin(pluginId);
     await invalidateActivePluginsCache();
 
+    // 서버 재시작 없이 훅/슬롯 반영 (다른 인스턴스에도 전파)
+    await reloadPluginRuntime(pluginId);
+
     return true;
 }
 
@@ -156,6 +194,16 @@ export async function deactivatePlugin(pluginId: string): Promise<boolean> {
     await pluginSettingsProvider.deactivatePlugin(pluginId);
     await invalidateActivePluginsCache();
 
+    // 등록된 훅/슬롯 즉시 제거 (다른 인스턴스에도 전파)
+    await disablePluginRuntime(pluginId);
+
+    // 이 플러그인에 의존하던 활성 플러그인도 언로드
+    const activePluginIds = await pluginSettingsProvider.getActivePlugins();
+    const { blocked } = await resolvePluginActivation(activePluginIds);
+    for (const dependentId of blocked.keys()) {
+        await disablePluginRuntime(dependentId);
+    }
+
     return true;
 }
 
@@ -169,14 +217,33 @@ export async function updatePluginSettings(
     // Provider를 통해 플러그인 설정 업데이트
     await pluginSettingsProvider.setPluginSettings(pluginId, newSettings);
 
+    // 활성 플러그인이면 새 설정으로 activate 재실행
+    await reloadPluginIfActive(pluginId);
+
     return true;
 }
 
+/**
+ * 활성 플러그인이면 런타임 리로드 (코드 업데이트·설정 변경 후 호출)
+ */
+export async function reloadPluginIfActive(pluginId: string): Promise<void> {
+    const activePluginIds = await pluginSettingsProvider.getActivePlugins();
+    if (!activePluginIds.includes(pluginId)) return;
+
+    await invalidateActivePluginsCache();
+    await reloadPluginRuntime(pluginId);
+}
+
+// Re-export runtime functions
+export { initPluginRuntime, getPluginRuntime } from './runtime';
+
 // Re-export scanner functions
 export {
     getPluginManifest,
     getPluginPath,
     isPluginInstalled,
     scanPlugins,
-    isCustomPlugin
+    isCustomPlugin,
+    resolvePluginActivation
 } from './scanner';
+export type { PluginConstraintIssue, PluginActivationPlan } from './dependency-resolver';
@@ -0,0 +1,207 @@
+/**
+ * 서버 플러그인 런타임
+ *
+ * 활성 플러그인의 엔트리(main)를 로드하여 전역 HookManager에 연결하고,
+ * 활성화/비활성화/업데이트 시 서버 재시작 없이 리로드합니다.
+ * 변경 사항은 Redis pub/sub으로 다른 인스턴스에도 전파됩니다.
+ *
+ * 커스텀/마켓플레이스 플러그인은 기본적으로 Worker 샌드박스에서 실행됩니다 (PLUGIN_SANDBOX).
+ * 권한 검사 결과는 감사 로그(audit-log.ts)로 저장됩니다.
+ */
+
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { existsSync } from 'fs';
+import { resolve, sep } from 'path';
+import { pathToFileURL } from 'url';
+import { env } from '$env/dynamic/private';
+import { hooks } from '@angple/hook-system';
+import {
+    PluginRegistry,
+    createSandboxedModule,
+    importPluginModule,
+    type PluginEventBus,
+    type PluginManifestInfo,
+    type PluginModule
+} from '@angple/plugin-engine';
+import type { ExtensionManifest } from '@angple/types';
+import {
+    getPluginManifest,
+    getPluginPath,
+    isCustomPlugin,
+    resolvePluginActivation
+} from './scanner';
+import { sandboxCapabilities } from './sandbox-capabilities';
+import { recordPluginAudit } from './audit-log';
+import { createRedisPluginEventBus } from './event-bus';
+import { pluginSettingsProvider } from '../settings/plugin-settings-provider';
+
+/** 이 프로세스의 인스턴스 ID (자기 자신이 보낸 이벤트 무시용) */
+const INSTANCE_ID = `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+
+/**
+ * ExtensionManifest → plugin-engine 매니페스트 변환
+ */
+function toManifestInfo(manifest: ExtensionManifest): PluginManifestInfo {
+    return {
+        id: manifest.id,
+        name: manifest.name,
+        version: manifest.version,
+        description: manifest.description,
+        permissions: manifest.permissions as PluginManifestInfo['permissions'],
+        settings: manifest.settings as PluginManifestInfo['settings'],
+        pluginDependencies: manifest.pluginDependencies
+    };
+}
+
+/**
+ * 플러그인 엔트리 모듈 로드 (cacheKey로 ESM 캐시 우회)
+ *
+ * 엔트리 파일이 없으면 서버 코드가 없는 플러그인으로 보고 빈 모듈을 반환합니다.
+ */
+async function loadPluginModule(pluginId: string, cacheKey: string): Promise<PluginModule> {
+    const manifest = await getPluginManifest(pluginId);
+    if (!manifest) {
+        throw new Error(`플러그인 매니페스트를 찾을 수 없습니다: ${pluginId}`);
+    }
+
+    const pluginDir = await getPluginPath(pluginId);
+    // manifest.main은 외부 입력이므로 플러그인 디렉터리 밖을 가리키지 못하게 검증
+    const entryPath = resolve(pluginDir, manifest.main);
+    if (!entryPath.startsWith(pluginDir + sep)) {
+        throw new Error(`잘못된 플러그인 엔트리 경로입니다: ${manifest.main}`);
+    }
+    if (!existsSync(entryPath)) {
+        return {};
+    }
+
+    if (await shouldSandbox(pluginId)) {
+        // Worker는 TypeScript를 변환하지 않으므로 빌드된 ESM 엔트리만 실행
+        if (!/\.(m?js)$/.test(entryPath)) {
+            throw new Error(`샌드박스 플러그인은 .js/.mjs 엔트리가 필요합니다: ${manifest.main}`);
+        }
+        return createSandboxedModule({
+            entryUrl: pathToFileURL(entryPath).href,
+            allowedRoot: pathToFileURL(pluginDir + sep).href,
+            capabilities: sandboxCapabilities,
+            limits: {
+                maxMemoryMb: Number(env.PLUGIN_SANDBOX_MEMORY_MB) || undefined,
+                cpuTimeLimitMs: Number(env.PLUGIN_SANDBOX_CPU_MS) || undefined
+            },
+            onTerminated: (id, reason) => {
+                console.error(`[Plugin Runtime] 샌드박스 플러그인 강제 종료: ${id} (${reason})`);
+            }
+        });
+    }
+
+    return importPluginModule(pathToFileURL(entryPath).href, cacheKey);
+}
+
+/**
+ * 샌드박스 실행 여부
+ *
+ * PLUGIN_SANDBOX: custom(기본, 커스텀/마켓플레이스 플러그인만) | all | off
+ */
+async function shouldSandbox(pluginId: string): Promise<boolean> {
+    const mode = env.PLUGIN_SANDBOX || 'custom';
+    if (mode === 'off') return false;
+    if (mode === 'all') return true;
+    return isCustomPlugin(pluginId);
+}
+
+/**
+ * 리로드 시점의 최신 매니페스트/설정 조회
+ */
+async function resolvePluginManifest(pluginId: string) {
+    const manifest = await getPluginManifest(pluginId);
+    if (!manifest) return null;
+
+    const settings = await pluginSettingsProvider.getPluginSettings(pluginId);
+    return { manifest: toManifestInfo(manifest), settings };
+}
+
+/**
+ * 원격 이벤트 수신 시 로컬 활성 플러그인 캐시(L1)도 비워 목록 API가 바로 수렴하도록 함
+ */
+function withCacheInvalidation(bus: PluginEventBus): PluginEventBus {
+    return {
+        publish: (event) => bus.publish(event),
+        subscribe: (handler) =>
+            bus.subscribe((event) => {
+                if (event.origin !== INSTANCE_ID) {
+                    import('./index')
+                        .then(({ invalidateActivePluginsCache }) => invalidateActivePluginsCache())
+                        .catch(() => {});
+                }
+                handler(event);
+            })
+    };
+}
+
+const pluginRuntime = new PluginRegistry(hooks, {
+    loadModule: loadPluginModule,
+    resolveManifest: resolvePluginManifest,
+    eventBus: withCacheInvalidation(createRedisPluginEventBus()),
+    instanceId: INSTANCE_ID
+});
+
+// 권한 검사 결과를 DB 감사 로그로 영속화
+pluginRuntime.getPermissionManager().onAudit(recordPluginAudit);
+
+let initPromise: Promise<void> | null = null;
+
+/**
+ * 플러그인 런타임 초기화 (프로세스당 1회)
+ *
+ * 이벤트 버스를 구독하고, 현재 활성 플러그인을 모두 로드합니다.
+ * 시작 시 로드는 이미 각 인스턴스가 수행하므로 전파하지 않습니다.
+ */
+export function initPluginRuntime(): Promise<void> {
+    if (!initPromise) {
+        initPromise = (async () => {
+            try {
+                await pluginRuntime.connectEventBus();
+            } catch (error) {
+                // Redis 장애 시에도 로컬 리로드는 동작
+                console.error('[Plugin Runtime] 이벤트 버스 연결 실패:', error);
+            }
+
+            // 의존 플러그인이 먼저 로드되도록 위상 정렬된 순서로 리로드
+            const activePluginIds = await pluginSettingsProvider.getActivePlugins();
+            const { order, blocked } = await resolvePluginActivation(activePluginIds);
+            for (const [pluginId, issues] of blocked) {
+                console.warn(
+                    `[Plugin Runtime] 제약 위반으로 로드하지 않음: ${pluginId}`,
+                    issues.map((issue) => issue.message)
+                );
+            }
+            for (const pluginId of order) {
+                await pluginRuntime.reload(pluginId, { broadcast: false });
+            }
+        })();
+    }
+    return initPromise;
+}
+
+/**
+ * 플러그인 리로드 (활성화·설정 변경·업데이트 후 호출)
+ */
+export async function reloadPluginRuntime(pluginId: string): Promise<boolean> {
+    await initPluginRuntime();
+    return (await pluginRuntime.reload(pluginId)) !== null;
+}
+
+/**
+ * 플러그인 언로드 (비활성화·삭제 후 호출)
+ */
+export async function disablePluginRuntime(pluginId: string): Promise<void> {
+    await initPluginRuntime();
+    await pluginRuntime.disable(pluginId);
+}
+
+/**
+ * 런타임 레지스트리 접근 (슬롯 조회, 디버깅용)
+ */
+export function getPluginRuntime(): PluginRegistry {
+    return pluginRuntime;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+
+const { lookup } = vi.hoisted(() => ({ lookup: vi.fn() }));
+
+vi.mock('node:dns/promises', () => ({ lookup }));
+vi.mock('../db', () => ({ pool: {}, readPool: {} }));
+
+import { isPrivateHost, resolvePublicAddress } from './sandbox-capabilities';
+
+describe('isPrivateHost', () => {
+    it('루프백·사설망·메타데이터·멀티캐스트 주소', () => {
+        for (const host of [
+            'localhost',
+            'metadata.google.internal',
+            '127.0.0.1',
+            '10.1.2.3',
+            '169.254.169.254',
+            '192.168.0.1',
+            '224.0.0.1',
+            '[::1]',
+            '::ffff:7f00:1',
+            'fd00::1',
+            'fe80::1'
+        ]) {
+            expect(isPrivateHost(host), host).toBe(true);
+        }
+    });
+
+    it('공개 주소는 통과', () => {
+        expect(isPrivateHost('93.184.216.34')).toBe(false);
+        expect(isPrivateHost('2606:4700::1111')).toBe(false);
+        expect(isPrivateHost('example.com')).toBe(false);
+    });
+});
+
+describe('resolvePublicAddress', () => {
+    it('조회된 주소 중 하나라도 내부 주소면 거부', async () => {
+        lookup.mockResolvedValueOnce([
+            { address: '93.184.216.34', family: 4 },
+            { address: '169.254.169.254', family: 4 }
+        ]);
+        await expect(resolvePublicAddress('rebind.example')).rejects.toThrow('169.254.169.254');
+    });
+
+    it('공개 주소만 나오면 첫 주소로 연결', async () => {
+        lookup.mockResolvedValueOnce([{ address: '93.184.216.34', family: 4 }]);
+        await expect(resolvePublicAddress('example.com')).resolves.toEqual({
+            address: '93.184.216.34',
+            family: 4
+        });
+    });
+
+    it('IP 리터럴은 조회 없이 검사', async () => {
+        lookup.mockClear();
+        await expect(resolvePublicAddress('[::1]')).rejects.toThrow('내부 주소');
+        await expect(resolvePublicAddress('8.8.8.8')).resolves.toEqual({
+            address: '8.8.8.8',
+            family: 4
+        });
+        expect(lookup).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,287 @@
+/**
+ * 샌드박스 플러그인에 제공하는 호스트 기능
+ *
+ * - DB: 플러그인 전용 테이블(plugin_<id>_<name>)만 접근 가능한 테이블 단위 API
+ * - fetch: 내부망/메타데이터 주소로의 요청 차단 (DNS 조회 결과 검사 후 그 주소로 연결 고정)
+ *
+ * 권한(database:read/write, network:fetch) 검사는 plugin-engine 샌드박스에서 먼저 수행됩니다.
+ */
+
+import { lookup } from 'node:dns/promises';
+import http from 'node:http';
+import https from 'node:https';
+import { isIP, type LookupFunction } from 'node:net';
+import type { LookupAddress } from 'node:dns';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import type { PluginSandboxCapabilities, PluginSandboxWhere } from '@angple/plugin-engine';
+import { pool, readPool } from '../db';
+
+const IDENTIFIER = /^[a-zA-Z_][a-zA-Z0-9_]{0,63}$/;
+
+/** 조회 결과 최대 행 수 */
+const MAX_SELECT_LIMIT = 1000;
+
+/** fetch 응답 본문 최대 크기 */
+const MAX_FETCH_RESPONSE_BYTES = 5 * 1024 * 1024;
+
+/** 본문이 없는 응답 상태 코드 */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+function assertIdentifier(name: string, kind: string): void {
+    if (!IDENTIFIER.test(name)) {
+        throw new Error(`잘못된 ${kind} 이름입니다: ${name}`);
+    }
+}
+
+/**
+ * 플러그인 네임스페이스 테이블명 (plugin_<id>_<table>)
+ */
+export function getPluginTableName(pluginId: string, table: string): string {
+    assertIdentifier(table, '테이블');
+    const name = `plugin_${pluginId.replace(/[^a-zA-Z0-9]/g, '_')}_${table}`;
+    assertIdentifier(name, '테이블');
+    return name;
+}
+
+function buildWhere(where: PluginSandboxWhere): { clause: string; params: unknown[] } {
+    const keys = Object.keys(where);
+    if (keys.length === 0) return { clause: '', params: [] };
+
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    for (const key of keys) {
+        assertIdentifier(key, '컬럼');
+        if (where[key] === null) {
+            conditions.push(`\`${key}\` IS NULL`);
+        } else {
+            conditions.push(`\`${key}\` = ?`);
+            params.push(where[key]);
+        }
+    }
+    return { clause: ` WHERE ${conditions.join(' AND ')}`, params };
+}
+
+function buildAssignments(values: Record<string, unknown>): {
+    columns: string[];
+    params: unknown[];
+} {
+    const columns = Object.keys(values);
+    if (columns.length === 0) {
+        throw new Error('저장할 값이 없습니다.');
+    }
+    columns.forEach((column) => assertIdentifier(column, '컬럼'));
+    return { columns, params: columns.map((column) => values[column]) };
+}
+
+export const sandboxCapabilities: PluginSandboxCapabilities = {
+    db: {
+        async select(pluginId, table, where, options) {
+            const tableName = getPluginTableName(pluginId, table);
+            const columns = options.columns?.length
+                ? options.columns
+                      .map((column) => {
+                          assertIdentifier(column, '컬럼');
+                          return `\`${column}\``;
+                      })
+                      .join(', ')
+                : '*';
+            const { clause, params } = buildWhere(where);
+
+            let sql = `SELECT ${columns} FROM \`${tableName}\`${clause}`;
+            if (options.orderBy) {
+                assertIdentifier(options.orderBy, '컬럼');
+                sql += ` ORDER BY \`${options.orderBy}\` ${options.desc ? 'DESC' : 'ASC'}`;
+            }
+            const limit = Math.min(Math.max(1, Number(options.limit) || 100), MAX_SELECT_LIMIT);
+            sql += ` LIMIT ${limit}`;
+
+            const [rows] = await readPool.query<RowDataPacket[]>(sql, params);
+            return rows.map((row) => ({ ...row }));
+        },
+
+        async insert(pluginId, table, values) {
+            const tableName = getPluginTableName(pluginId, table);
+            const { columns, params } = buildAssignments(values);
+            const [result] = await pool.query<ResultSetHeader>(
+                `INSERT INTO \`${tableName}\` (${columns.map((c) => `\`${c}\``).join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+                params
+            );
+            return { insertId: result.insertId };
+        },
+
+        async update(pluginId, table, values, where) {
+            const tableName = getPluginTableName(pluginId, table);
+            const { columns, params } = buildAssignments(values);
+            const condition = buildWhere(where);
+            if (!condition.clause) {
+                throw new Error('조건 없는 UPDATE는 허용되지 않습니다.');
+            }
+            const [result] = await pool.query<ResultSetHeader>(
+                `UPDATE \`${tableName}\` SET ${columns.map((c) => `\`${c}\` = ?`).join(', ')}${condition.clause}`,
+                [...params, ...condition.params]
+            );
+            return { affectedRows: result.affectedRows };
+        },
+
+        async delete(pluginId, table, where) {
+            const tableName = getPluginTableName(pluginId, table);
+            const condition = buildWhere(where);
+            if (!condition.clause) {
+                throw new Error('조건 없는 DELETE는 허용되지 않습니다.');
+            }
+            const [result] = await pool.query<ResultSetHeader>(
+                `DELETE FROM \`${tableName}\`${condition.clause}`,
+                condition.params
+            );
+            return { affectedRows: result.affectedRows };
+        }
+    },
+
+    async fetch(url, init) {
+        const target = new URL(url);
+        if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+            throw new Error(`허용되지 않은 프로토콜: ${target.protocol}`);
+        }
+        const address = await resolvePublicAddress(target.hostname);
+        return pinnedFetch(target, init, address);
+    }
+};
+
+/**
+ * 호스트 이름을 조회해 연결할 공개 주소 반환
+ *
+ * 조회된 주소 중 하나라도 내부 주소면 거부합니다.
+ * (공개 도메인이 127.0.0.1, 169.254.169.254 등으로 풀리는 우회 차단)
+ */
+export async function resolvePublicAddress(hostname: string): Promise<LookupAddress> {
+    const host = hostname.replace(/^\[|\]$/g, '');
+    if (isPrivateHost(host)) {
+        throw new Error(`내부 주소로의 요청은 허용되지 않습니다: ${hostname}`);
+    }
+
+    const family = isIP(host);
+    const addresses = family
+        ? [{ address: host, family }]
+        : await lookup(host, { all: true, verbatim: true });
+    if (addresses.length === 0) {
+        throw new Error(`주소를 찾을 수 없습니다: ${hostname}`);
+    }
+
+    const blocked = addresses.find((entry) => isPrivateHost(entry.address));
+    if (blocked) {
+        throw new Error(`내부 주소로의 요청은 허용되지 않습니다: ${hostname} (${blocked.address})`);
+    }
+    return addresses[0];
+}
+
+function toRequestBody(body: RequestInit['body']): Buffer | undefined {
+    if (body === null || body === undefined) return undefined;
+    if (typeof body === 'string') return Buffer.from(body);
+    if (body instanceof ArrayBuffer) return Buffer.from(body);
+    if (ArrayBuffer.isView(body)) return Buffer.from(body.buffer, body.byteOffset, body.byteLength);
+    throw new Error('지원하지 않는 요청 본문 형식입니다.');
+}
+
+/**
+ * 검사한 주소로 연결을 고정한 fetch
+ *
+ * 검사 뒤 DNS 응답이 바뀌어도(DNS rebinding) 다시 조회하지 않고 같은 주소로만 연결합니다.
+ * Host 헤더와 TLS 인증서 검증(SNI)은 원래 호스트 이름을 사용하며, 리다이렉트는 따라가지 않습니다.
+ */
+function pinnedFetch(target: URL, init: RequestInit, address: LookupAddress): Promise<Response> {
+    const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+        if (options.all) callback(null, [address]);
+        else callback(null, address.address, address.family);
+    };
+
+    const method = (init.method ?? 'GET').toUpperCase();
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((value, key) => {
+        headers[key] = value;
+    });
+    const body = toRequestBody(init.body);
+    const client = target.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+        const request = client.request(
+            target,
+            { method, headers, lookup: pinnedLookup, signal: init.signal ?? undefined },
+            (response) => {
+                const status = response.statusCode ?? 502;
+                const responseHeaders = new Headers();
+                for (const [key, value] of Object.entries(response.headers)) {
+                    if (value === undefined) continue;
+                    for (const item of Array.isArray(value) ? value : [value]) {
+                        responseHeaders.append(key, item);
+                    }
+                }
+
+                const chunks: Buffer[] = [];
+                let size = 0;
+                response.on('data', (chunk: Buffer) => {
+                    size += chunk.length;
+                    if (size > MAX_FETCH_RESPONSE_BYTES) {
+                        response.destroy(new Error('응답 본문이 너무 큽니다.'));
+                        return;
+                    }
+                    chunks.push(chunk);
+                });
+                response.on('error', reject);
+                response.on('end', () => {
+                    const hasBody = method !== 'HEAD' && !NULL_BODY_STATUSES.has(status);
+                    resolve(
+                        new Response(hasBody ? Buffer.concat(chunks) : null, {
+                            status,
+                            statusText: response.statusMessage,
+                            headers: responseHeaders
+                        })
+                    );
+                });
+            }
+        );
+        request.on('error', reject);
+        request.end(body);
+    });
+}
+
+/**
+ * 루프백·사설망·링크로컬(클라우드 메타데이터)·멀티캐스트 주소 여부
+ *
+ * 호스트 이름 문자열만 봅니다. 도메인은 resolvePublicAddress에서 조회 결과로 다시 검사합니다.
+ */
+export function isPrivateHost(hostname: string): boolean {
+    const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) {
+        return true;
+    }
+
+    const ipv4 = host.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+    if (ipv4) {
+        const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+        return (
+            a === 0 ||
+            a === 10 ||
+            a === 127 ||
+            (a === 100 && b >= 64 && b <= 127) ||
+            (a === 169 && b === 254) ||
+            (a === 172 && b >= 16 && b <= 31) ||
+            (a === 192 && b === 0 && Number(ipv4[3]) === 0) ||
+            (a === 192 && b === 168) ||
+            (a === 198 && (b === 18 || b === 19)) ||
+            a >= 224
+        );
+    }
+
+    if (host.includes(':')) {
+        // ::/96 (::1, IPv4 매핑·호환 주소 포함), 고유 로컬 fc00::/7, 링크로컬 fe80::/10, 멀티캐스트 ff00::/8
+        return (
+            host.startsWith('::') ||
+            /^f[cd]/.test(host) ||
+            /^fe[89ab]/.test(host) ||
+            host.startsWith('ff') ||
+            host.startsWith('64:ff9b:')
+        );
+    }
+
+    return false;
+}
@@ -16,6 +16,12 @@ import { join, resolve } from 'path';
 import type { ExtensionManifest } from '@angple/types';
 import { safeValidateExtensionManifest } from '@angple/types';
 import { sanitizePath } from '../path-utils';
+import {
+    checkPluginConstraints,
+    resolveActivationOrder,
+    type PluginActivationPlan,
+    type PluginConstraintIssue
+} from './dependency-resolver';
 
 async function fileExists(path: string): Promise<boolean> {
     try {
@@ -204,6 +210,40 @@ export async function scanPlugins(): Promise<Map<string, ExtensionManifest>> {
     return plugins;
 }
 
+/**
+ * 활성 플러그인의 활성화 계획 계산
+ *
+ * 설치된 매니페스트의 engines/pluginDependencies를 검사하여 의존 플러그인이 먼저 오도록
+ * 위상 정렬된 순서와, 제약 위반으로 활성화하지 않을 플러그인 목록을 반환합니다.
+ *
+ * @param activePluginIds settings.json의 activePlugins 순서
+ */
+export async function resolvePluginActivation(
+    activePluginIds: string[],
+    manifests?: Map<string, ExtensionManifest>
+): Promise<PluginActivationPlan> {
+    return resolveActivationOrder(manifests ?? (await scanPlugins()), activePluginIds);
+}
+
+/**
+ * 플러그인을 새로 활성화할 때 만족하지 못하는 제약 조회
+ *
+ * @returns 위반 사유 목록 (비어 있으면 활성화 가능)
+ */
+export async function getPluginConstraintIssues(
+    pluginId: string,
+    activePluginIds: string[],
+    manifests?: Map<string, ExtensionManifest>
+): Promise<PluginConstraintIssue[]> {
+    const installed = manifests ?? (await scanPlugins());
+    const manifest = installed.get(pluginId);
+    if (!manifest) return [];
+
+    // 의존 플러그인은 활성 상태이면서 자신의 제약도 만족해야 함
+    const plan = resolveActivationOrder(installed, activePluginIds);
+    return checkPluginConstraints(manifest, installed, { activeIds: plan.order });
+}
+
 /**
  * 플러그인이 어느 디렉터리에 있는지 찾기
  * @returns [baseDir, isCustom] 튜플 또는 null
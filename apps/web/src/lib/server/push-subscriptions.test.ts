@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const { sendWebPush } = vi.hoisted(() => ({ sendWebPush: vi.fn() }));
+
+vi.mock('$env/dynamic/private', () => ({ env: {} }));
+vi.mock('./db.js', () => ({
+    default: { query: async () => [[]] },
+    readPool: {
+        query: async (sql: string) =>
+            sql.includes('g5_noti_preference')
+                ? [[]]
+                : [
+                      [
+                          {
+                              id: 1,
+                              endpoint: 'https://fcm.googleapis.com/fcm/send/abc',
+                              p256dh: 'p',
+                              auth: 'a'
+                          }
+                      ]
+                  ]
+    }
+}));
+vi.mock('./web-push.js', () => ({
+    getVapidKeys: () => ({
+        publicKey: 'pub',
+        privateKey: 'priv',
+        subject: 'mailto:admin@example.com'
+    }),
+    sendWebPush
+}));
+
+import {
+    isPushServiceEndpoint,
+    parsePushSubscription,
+    sendPushToMember
+} from './push-subscriptions';
+
+const keys = { p256dh: 'BNc...', auth: 'tBH...' };
+
+describe('isPushServiceEndpoint', () => {
+    it('브라우저 벤더 푸시 서비스 허용', () => {
+        for (const endpoint of [
+            'https://fcm.googleapis.com/fcm/send/abc',
+            'https://updates.push.services.mozilla.com/wpush/v2/abc',
+            'https://wns2-par02p.notify.windows.com/w/?token=abc',
+            'https://web.push.apple.com/QGuQ'
+        ]) {
+            expect(isPushServiceEndpoint(endpoint), endpoint).toBe(true);
+        }
+    });
+
+    it('내부망·임의 호스트·포트 지정·http 거부', () => {
+        for (const endpoint of [
+            'https://169.254.169.254/latest/meta-data',
+            'https://localhost/push',
+            'https://example.com/push',
+            'https://fcm.googleapis.com.evil.example/push',
+            'https://evilpush.services.mozilla.com.example/push',
+            'https://fcm.googleapis.com:8443/fcm/send/abc',
+            'https://user@fcm.googleapis.com/fcm/send/abc',
+            'http://fcm.googleapis.com/fcm/send/abc',
+            'not a url'
+        ]) {
+            expect(isPushServiceEndpoint(endpoint), endpoint).toBe(false);
+        }
+    });
+});
+
+describe('parsePushSubscription', () => {
+    it('허용된 endpoint만 구독으로 인정', () => {
+        expect(
+            parsePushSubscription({ endpoint: 'https://fcm.googleapis.com/fcm/send/abc', keys })
+        ).toEqual({ endpoint: 'https://fcm.googleapis.com/fcm/send/abc', keys });
+        expect(parsePushSubscription({ endpoint: 'https://10.0.0.5/internal', keys })).toBeNull();
+        expect(parsePushSubscription({ endpoint: 'https://fcm.googleapis.com/x' })).toBeNull();
+    });
+});
+
+describe('sendPushToMember', () => {
+    it('topic 없이 보내 오프라인 동안 쌓인 같은 종류 알림이 합쳐지지 않음', async () => {
+        sendWebPush.mockResolvedValue({ status: 201, expired: false });
+
+        await sendPushToMember('user1', { type: 'like', title: '추천 1', content: '' });
+        await sendPushToMember('user1', { type: 'like', title: '추천 2', content: '' });
+
+        expect(sendWebPush).toHaveBeenCalledTimes(2);
+        for (const call of sendWebPush.mock.calls) {
+            expect(call[3]?.topic).toBeUndefined();
+        }
+    });
+});
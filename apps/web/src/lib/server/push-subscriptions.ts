@@ -0,0 +1,297 @@
+/**
+ * 웹 푸시 구독 저장소 + 회원 단위 발송
+ *
+ * 구독은 회원 × 기기(브라우저)별로 저장하며 endpoint가 기기를 식별합니다.
+ * 같은 브라우저에서 다른 회원으로 로그인해 다시 구독하면 소유 회원이 바뀝니다.
+ * 발송 시 알림 설정(g5_noti_preference)을 확인하고, 푸시 서비스가 404/410을
+ * 반환한 구독은 즉시 삭제합니다.
+ */
+
+import { createHash } from 'node:crypto';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+import type { NotificationPreferences } from '$lib/api/types.js';
+import pool, { readPool } from './db.js';
+import { getVapidKeys, sendWebPush, type PushSubscriptionKeys } from './web-push.js';
+
+const PUSH_TABLE = 'angple_push_subscriptions';
+
+/** 회원당 최대 구독 기기 수 (초과 시 가장 오래 사용하지 않은 기기부터 삭제) */
+const MAX_SUBSCRIPTIONS_PER_MEMBER = 10;
+
+/**
+ * 허용하는 푸시 서비스 호스트 (브라우저 벤더 푸시 서버)
+ * 발송 시 서버가 endpoint로 직접 요청하므로 임의 주소(내부망 등)는 저장하지 않습니다.
+ */
+const PUSH_SERVICE_HOSTS = ['fcm.googleapis.com', 'android.googleapis.com', 'web.push.apple.com'];
+
+/** 허용하는 푸시 서비스 도메인 (하위 호스트 포함) */
+const PUSH_SERVICE_DOMAINS = ['.push.services.mozilla.com', '.notify.windows.com'];
+
+/** 발송할 알림 */
+export interface PushNotificationPayload {
+    /** 알림 종류 (comment, reply, mention, like, follow …) */
+    type: string;
+    title: string;
+    content: string;
+    url?: string;
+}
+
+/** 설정 화면용 기기 정보 */
+export interface PushDevice {
+    id: number;
+    device: string;
+    createdAt: string;
+    lastUsedAt: string | null;
+}
+
+interface SubscriptionRow extends RowDataPacket {
+    id: number;
+    endpoint: string;
+    p256dh: string;
+    auth: string;
+}
+
+interface DeviceRow extends RowDataPacket {
+    id: number;
+    device: string;
+    created_at: Date;
+    last_used_at: Date | null;
+}
+
+/** 알림 종류 → 수신 설정 항목 (목록에 없는 종류는 항상 발송) */
+const PREFERENCE_BY_TYPE: Record<string, keyof NotificationPreferences> = {
+    comment: 'noti_comment',
+    reply: 'noti_reply',
+    mention: 'noti_mention',
+    like: 'noti_like',
+    follow: 'noti_follow'
+};
+
+let tableChecked = false;
+
+async function ensureTable(): Promise<void> {
+    if (tableChecked) return;
+
+    await pool.query(`
+        CREATE TABLE IF NOT EXISTS ${PUSH_TABLE} (
+            id BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+            mb_id VARCHAR(20) NOT NULL,
+            endpoint_hash CHAR(64) NOT NULL,
+            endpoint VARCHAR(1024) NOT NULL,
+            p256dh VARCHAR(255) NOT NULL,
+            auth VARCHAR(255) NOT NULL,
+            device VARCHAR(100) NOT NULL DEFAULT '',
+            created_at DATETIME NOT NULL,
+            last_used_at DATETIME DEFAULT NULL,
+            UNIQUE KEY uk_endpoint_hash (endpoint_hash),
+            INDEX idx_mb_id (mb_id)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+    tableChecked = true;
+}
+
+function endpointHash(endpoint: string): string {
+    return createHash('sha256').update(endpoint).digest('hex');
+}
+
+/** User-Agent → "Chrome · Android" 형태의 기기 표시명 */
+export function describeDevice(userAgent: string): string {
+    const browser = /Edg\//.test(userAgent)
+        ? 'Edge'
+        : /SamsungBrowser\//.test(userAgent)
+          ? 'Samsung Internet'
+          : /Firefox\//.test(userAgent)
+            ? 'Firefox'
+            : /Chrome\//.test(userAgent)
+              ? 'Chrome'
+              : /Safari\//.test(userAgent)
+                ? 'Safari'
+                : '브라우저';
+    const os = /Android/.test(userAgent)
+        ? 'Android'
+        : /iPhone|iPad|iPod/.test(userAgent)
+          ? 'iOS'
+          : /Windows/.test(userAgent)
+            ? 'Windows'
+            : /Mac OS X/.test(userAgent)
+              ? 'macOS'
+              : /Linux/.test(userAgent)
+                ? 'Linux'
+                : '';
+    return os ? `${browser} · ${os}` : browser;
+}
+
+/** 알려진 푸시 서비스 endpoint 여부 (https, 기본 포트, 계정 정보 없음) */
+export function isPushServiceEndpoint(endpoint: string): boolean {
+    let url: URL;
+    try {
+        url = new URL(endpoint);
+    } catch {
+        return false;
+    }
+    if (url.protocol !== 'https:' || url.port !== '' || url.username || url.password) {
+        return false;
+    }
+    const host = url.hostname.toLowerCase();
+    return (
+        PUSH_SERVICE_HOSTS.includes(host) ||
+        PUSH_SERVICE_DOMAINS.some((domain) => host.endsWith(domain))
+    );
+}
+
+/** 구독 형식 검증 (브라우저가 보낸 PushSubscription JSON, 알려진 푸시 서비스만 허용) */
+export function parsePushSubscription(input: unknown): PushSubscriptionKeys | null {
+    const value = input as Partial<PushSubscriptionKeys> | null;
+    const endpoint = value?.endpoint;
+    const p256dh = value?.keys?.p256dh;
+    const auth = value?.keys?.auth;
+    if (typeof endpoint !== 'string' || typeof p256dh !== 'string' || typeof auth !== 'string') {
+        return null;
+    }
+    if (!isPushServiceEndpoint(endpoint)) return null;
+    if (endpoint.length > 1024 || p256dh.length > 255 || auth.length > 255) return null;
+    return { endpoint, keys: { p256dh, auth } };
+}
+
+/** 구독 저장 (같은 endpoint면 키·소유 회원 갱신) */
+export async function savePushSubscription(
+    mbId: string,
+    subscription: PushSubscriptionKeys,
+    userAgent: string
+): Promise<void> {
+    await ensureTable();
+    await pool.execute(
+        `INSERT INTO ${PUSH_TABLE} (mb_id, endpoint_hash, endpoint, p256dh, auth, device, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, NOW())
+         ON DUPLICATE KEY UPDATE mb_id = VALUES(mb_id), p256dh = VALUES(p256dh),
+             auth = VALUES(auth), device = VALUES(device)`,
+        [
+            mbId,
+            endpointHash(subscription.endpoint),
+            subscription.endpoint,
+            subscription.keys.p256dh,
+            subscription.keys.auth,
+            describeDevice(userAgent).slice(0, 100)
+        ]
+    );
+
+    // 기기 수 제한: 가장 오래 사용하지 않은 구독부터 정리
+    const [rows] = await pool.query<RowDataPacket[]>(
+        `SELECT id FROM ${PUSH_TABLE} WHERE mb_id = ?
+         ORDER BY COALESCE(last_used_at, created_at) DESC, id DESC`,
+        [mbId]
+    );
+    const stale = rows.slice(MAX_SUBSCRIPTIONS_PER_MEMBER).map((r) => r.id);
+    if (stale.length > 0) {
+        await pool.query(`DELETE FROM ${PUSH_TABLE} WHERE id IN (?)`, [stale]);
+    }
+}
+
+/** 회원의 구독 기기 목록 */
+export async function listPushDevices(mbId: string): Promise<PushDevice[]> {
+    await ensureTable();
+    const [rows] = await readPool.query<DeviceRow[]>(
+        `SELECT id, device, created_at, last_used_at FROM ${PUSH_TABLE}
+         WHERE mb_id = ? ORDER BY created_at DESC`,
+        [mbId]
+    );
+    return rows.map((row) => ({
+        id: row.id,
+        device: row.device,
+        createdAt: new Date(row.created_at).toISOString(),
+        lastUsedAt: row.last_used_at ? new Date(row.last_used_at).toISOString() : null
+    }));
+}
+
+/** 구독 삭제 (id 또는 endpoint, 본인 구독만) */
+export async function deletePushSubscription(
+    mbId: string,
+    target: { id: number } | { endpoint: string }
+): Promise<boolean> {
+    await ensureTable();
+    const [result] =
+        'id' in target
+            ? await pool.execute<ResultSetHeader>(
+                  `DELETE FROM ${PUSH_TABLE} WHERE mb_id = ? AND id = ?`,
+                  [mbId, target.id]
+              )
+            : await pool.execute<ResultSetHeader>(
+                  `DELETE FROM ${PUSH_TABLE} WHERE mb_id = ? AND endpoint_hash = ?`,
+                  [mbId, endpointHash(target.endpoint)]
+              );
+    return result.affectedRows > 0;
+}
+
+/** 알림 종류별 수신 설정 확인 (설정이 없으면 수신) */
+async function isNotificationEnabled(mbId: string, type: string): Promise<boolean> {
+    const column = PREFERENCE_BY_TYPE[type];
+    if (!column) return true;
+    const [rows] = await readPool.query<RowDataPacket[]>(
+        `SELECT ?? AS enabled FROM g5_noti_preference WHERE mb_id = ?`,
+        [column, mbId]
+    );
+    return rows.length === 0 || Boolean(rows[0].enabled);
+}
+
+/**
+ * 회원의 모든 구독 기기로 푸시 발송
+ * @returns 전송에 성공한 기기 수
+ */
+export async function sendPushToMember(
+    mbId: string,
+    notification: PushNotificationPayload
+): Promise<number> {
+    const keys = getVapidKeys();
+    if (!keys) return 0;
+
+    await ensureTable();
+    if (!(await isNotificationEnabled(mbId, notification.type))) return 0;
+
+    const [subscriptions] = await readPool.query<SubscriptionRow[]>(
+        `SELECT id, endpoint, p256dh, auth FROM ${PUSH_TABLE} WHERE mb_id = ?`,
+        [mbId]
+    );
+    if (subscriptions.length === 0) return 0;
+
+    const payload = JSON.stringify({
+        title: notification.title,
+        content: notification.content,
+        url: notification.url || '/',
+        tag: `angple-${notification.type}`
+    });
+
+    const delivered: number[] = [];
+    const expired: number[] = [];
+    await Promise.all(
+        subscriptions.map(async (row) => {
+            // 허용 목록 도입 전에 저장된 임의 endpoint는 요청하지 않고 정리
+            if (!isPushServiceEndpoint(row.endpoint)) {
+                expired.push(row.id);
+                return;
+            }
+            try {
+                // topic은 지정하지 않음 — 같은 topic이면 기기가 오프라인인 동안 쌓인 알림이 마지막 하나로 합쳐짐
+                const result = await sendWebPush(
+                    { endpoint: row.endpoint, keys: { p256dh: row.p256dh, auth: row.auth } },
+                    payload,
+                    keys
+                );
+                if (result.expired) expired.push(row.id);
+                else if (result.status < 400) delivered.push(row.id);
+                else console.warn(`[Web Push] 전송 실패 (${result.status}): 구독 ${row.id}`);
+            } catch (error) {
+                console.error(`[Web Push] 전송 오류: 구독 ${row.id}`, (error as Error).message);
+            }
+        })
+    );
+
+    if (expired.length > 0) {
+        await pool.query(`DELETE FROM ${PUSH_TABLE} WHERE id IN (?)`, [expired]);
+    }
+    if (delivered.length > 0) {
+        await pool.query(`UPDATE ${PUSH_TABLE} SET last_used_at = NOW() WHERE id IN (?)`, [
+            delivered
+        ]);
+    }
+    return delivered.length;
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+    combineRateLimitResults,
+    isIpInList,
+    matchRateLimitRules,
+    normalizeRateLimitSettings,
+    rateLimitKey
+} from './rate-limit-policy';
+import { DEFAULT_SITE_SETTINGS, type RateLimitRule } from '$lib/types/admin-settings.js';
+
+const rules = DEFAULT_SITE_SETTINGS.rateLimits.rules;
+
+function ids(matched: RateLimitRule[]): string[] {
+    return matched.map((rule) => rule.id);
+}
+
+describe('matchRateLimitRules', () => {
+    it('경로 패턴과 READ/WRITE 메서드로 규칙 선택', () => {
+        expect(ids(matchRateLimitRules(rules, '/api/boards/free', 'GET'))).toEqual([
+            'api-read',
+            'api-read-ip'
+        ]);
+        expect(ids(matchRateLimitRules(rules, '/api/boards/free', 'POST'))).toEqual([
+            'api-write',
+            'api-write-ip'
+        ]);
+        expect(ids(matchRateLimitRules(rules, '/plugin/social/start/google', 'GET'))).toEqual([
+            'oauth-start'
+        ]);
+        expect(matchRateLimitRules(rules, '/free/123', 'GET')).toEqual([]);
+    });
+
+    it('인증 규칙은 하위 경로까지 적용', () => {
+        expect(ids(matchRateLimitRules(rules, '/api/v1/auth/login', 'POST'))).toEqual([
+            'auth-login',
+            'api-write',
+            'api-write-ip'
+        ]);
+        expect(ids(matchRateLimitRules(rules, '/api/v1/auth/login/2fa', 'POST'))).toContain(
+            'auth-login'
+        );
+        expect(ids(matchRateLimitRules(rules, '/api/auth/logout/all', 'POST'))).toContain(
+            'auth-logout'
+        );
+    });
+
+    it('비활성 규칙 제외', () => {
+        const disabled = rules.map((rule) => ({ ...rule, enabled: rule.id !== 'api-read' }));
+        expect(ids(matchRateLimitRules(disabled, '/api/boards', 'GET'))).toEqual(['api-read-ip']);
+    });
+});
+
+describe('isIpInList', () => {
+    it('단일 IP와 IPv4 CIDR', () => {
+        const list = ['203.0.113.5', '10.0.0.0/8'];
+        expect(isIpInList('203.0.113.5', list)).toBe(true);
+        expect(isIpInList('10.20.30.40', list)).toBe(true);
+        expect(isIpInList('::ffff:10.1.1.1', list)).toBe(true);
+        expect(isIpInList('11.0.0.1', list)).toBe(false);
+        expect(isIpInList('2001:db8::1', list)).toBe(false);
+    });
+});
+
+describe('rateLimitKey', () => {
+    const levelRule: RateLimitRule = { ...rules[0], scope: 'level', levels: [2, 3] };
+    const subject = (user: { id?: string; level: number } | null) => ({
+        pathname: '/api/boards',
+        method: 'GET',
+        ip: '203.0.113.5',
+        user
+    });
+
+    it('level 범위는 대상 레벨 회원마다 따로 카운트', () => {
+        expect(rateLimitKey(levelRule, subject({ id: 'alice', level: 2 }))).toBe(
+            'level:2:user:alice'
+        );
+        expect(rateLimitKey(levelRule, subject({ id: 'bob', level: 2 }))).toBe('level:2:user:bob');
+    });
+
+    it('대상 레벨이 아니거나 비로그인이면 적용 안 함', () => {
+        expect(rateLimitKey(levelRule, subject({ id: 'carol', level: 5 }))).toBeNull();
+        expect(rateLimitKey(levelRule, subject(null))).toBeNull();
+        expect(rateLimitKey({ ...levelRule, levels: [] }, subject({ id: 'carol', level: 5 }))).toBe(
+            'level:5:user:carol'
+        );
+    });
+});
+
+describe('combineRateLimitResults', () => {
+    it('IP·회원 단계 중 남은 횟수가 적은 결과, 둘 다 없으면 null', () => {
+        const ip = { allowed: true, limit: 100, remaining: 40, reset: 60, windowMs: 60_000 };
+        const member = { allowed: true, limit: 10, remaining: 3, reset: 60, windowMs: 60_000 };
+        expect(combineRateLimitResults(ip, member)).toBe(member);
+        expect(combineRateLimitResults(ip, null)).toBe(ip);
+        expect(combineRateLimitResults(null, null)).toBeNull();
+    });
+});
+
+describe('normalizeRateLimitSettings', () => {
+    it('숫자 정규화 및 예외 목록 정리', () => {
+        const result = normalizeRateLimitSettings({
+            rules: [{ ...rules[0], limit: '5', windowSeconds: 30.7 }],
+            exemptLevels: [10, 'x', 99],
+            exemptIps: [' 10.0.0.1 ', '']
+        });
+        expect(result.rules[0]).toMatchObject({ limit: 5, windowSeconds: 30 });
+        expect(result.exemptLevels).toEqual([10]);
+        expect(result.exemptIps).toEqual(['10.0.0.1']);
+    });
+
+    it('잘못된 규칙 거부', () => {
+        expect(() => normalizeRateLimitSettings({ rules: [{ ...rules[0], path: 'api' }] })).toThrow(
+            '경로'
+        );
+        expect(() => normalizeRateLimitSettings({ rules: [rules[0], rules[0]] })).toThrow('중복');
+        expect(() => normalizeRateLimitSettings({})).toThrow();
+    });
+});
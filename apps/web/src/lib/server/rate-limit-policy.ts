@@ -0,0 +1,264 @@
+/**
+ * Rate limit 정책 (관리자 설정 → 요청별 적용)
+ *
+ * 규칙은 사이트 설정(rateLimits 섹션)에서 읽으며, 10초 캐시 후 다시 읽으므로
+ * 관리자 화면에서 저장하면 재배포 없이 반영됩니다. 같은 Pod는 저장 즉시 반영됩니다.
+ */
+
+import { siteSettingsProvider } from './settings/site-settings-provider.js';
+import { createCache } from './cache.js';
+import { consumeRateLimit, type RateLimitResult } from './rate-limit.js';
+import {
+    DEFAULT_SITE_SETTINGS,
+    RATE_LIMIT_METHODS,
+    RATE_LIMIT_SCOPE_LABELS,
+    type RateLimitRule,
+    type RateLimitScope,
+    type RateLimitSettings
+} from '$lib/types/admin-settings.js';
+
+const POLICY_CACHE_KEY = 'rate-limit-policy';
+const policyCache = createCache<RateLimitSettings>({
+    name: 'rate-limit-policy',
+    ttl: 10_000,
+    maxSize: 1
+});
+
+/** 정책 적용 대상 요청 */
+export interface RateLimitSubject {
+    pathname: string;
+    method: string;
+    /** 클라이언트 IP (SSR 내부 fetch는 null → 적용 안 함) */
+    ip: string | null;
+    user: { id?: string; level: number } | null;
+}
+
+/**
+ * 현재 정책 조회 (설정 로드 실패 시 직전 값 또는 기본 정책)
+ */
+export async function getRateLimitPolicy(): Promise<RateLimitSettings> {
+    try {
+        return await policyCache.getOrSet(POLICY_CACHE_KEY, () =>
+            siteSettingsProvider.get('rateLimits')
+        );
+    } catch (error) {
+        console.error('[RateLimit] 정책 로드 실패:', error);
+        return policyCache.getStale(POLICY_CACHE_KEY) ?? DEFAULT_SITE_SETTINGS.rateLimits;
+    }
+}
+
+/** 정책 캐시 무효화 (설정 저장 후 호출) */
+export function invalidateRateLimitPolicy(): void {
+    policyCache.delete(POLICY_CACHE_KEY);
+}
+
+/** 레벨 목록 정리 (1~10 정수만) */
+function normalizeLevels(value: unknown): number[] {
+    return (Array.isArray(value) ? value : [])
+        .map(Number)
+        .filter((level) => Number.isInteger(level) && level >= 1 && level <= 10);
+}
+
+/**
+ * 관리자 입력 검증 (저장 전)
+ * @throws Error 규칙 형식이 잘못된 경우
+ */
+export function normalizeRateLimitSettings(input: unknown): RateLimitSettings {
+    const raw = (input ?? {}) as Partial<RateLimitSettings>;
+    if (!Array.isArray(raw.rules)) {
+        throw new Error('rate limit 규칙 목록이 올바르지 않습니다.');
+    }
+
+    const ids = new Set<string>();
+    const rules = raw.rules.map((rule, index): RateLimitRule => {
+        const label = `규칙 ${index + 1}`;
+        const id = String(rule?.id ?? '').trim();
+        if (!/^[a-z0-9_-]{1,40}$/i.test(id)) throw new Error(`${label}: ID가 올바르지 않습니다.`);
+        if (ids.has(id)) throw new Error(`${label}: 중복된 ID입니다. (${id})`);
+        ids.add(id);
+
+        const path = String(rule.path ?? '').trim();
+        if (!path.startsWith('/')) throw new Error(`${label}: 경로는 /로 시작해야 합니다.`);
+        if (!RATE_LIMIT_METHODS.includes(rule.method)) {
+            throw new Error(`${label}: 메서드가 올바르지 않습니다.`);
+        }
+        if (!(rule.scope in RATE_LIMIT_SCOPE_LABELS)) {
+            throw new Error(`${label}: 범위가 올바르지 않습니다.`);
+        }
+        const limit = Math.floor(Number(rule.limit));
+        const windowSeconds = Math.floor(Number(rule.windowSeconds));
+        if (!(limit >= 1) || !(windowSeconds >= 1 && windowSeconds <= 86_400)) {
+            throw new Error(`${label}: 한도는 1 이상, 윈도우는 1초~1일이어야 합니다.`);
+        }
+
+        return {
+            id,
+            enabled: rule.enabled !== false,
+            path,
+            method: rule.method,
+            limit,
+            windowSeconds,
+            scope: rule.scope as RateLimitScope,
+            ...(rule.scope === 'level' ? { levels: normalizeLevels(rule.levels) } : {}),
+            description: String(rule.description ?? '').trim()
+        };
+    });
+
+    return {
+        rules,
+        exemptLevels: normalizeLevels(raw.exemptLevels),
+        exemptIps: (Array.isArray(raw.exemptIps) ? raw.exemptIps : [])
+            .map((ip) => String(ip).trim())
+            .filter(Boolean)
+    };
+}
+
+function pathPatternToRegExp(pattern: string): RegExp {
+    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    return new RegExp(`^${escaped}$`);
+}
+
+function matchesMethod(rule: RateLimitRule, method: string): boolean {
+    const isRead = method === 'GET' || method === 'HEAD';
+    switch (rule.method) {
+        case 'ALL':
+            return true;
+        case 'READ':
+            return isRead;
+        case 'WRITE':
+            return !isRead;
+        default:
+            return rule.method === method;
+    }
+}
+
+/**
+ * 요청에 해당하는 활성 규칙 목록
+ */
+export function matchRateLimitRules(
+    rules: RateLimitRule[],
+    pathname: string,
+    method: string
+): RateLimitRule[] {
+    return rules.filter(
+        (rule) =>
+            rule.enabled &&
+            rule.limit > 0 &&
+            rule.windowSeconds > 0 &&
+            matchesMethod(rule, method) &&
+            pathPatternToRegExp(rule.path).test(pathname)
+    );
+}
+
+function ipv4ToNumber(ip: string): number | null {
+    const parts = ip.split('.');
+    if (parts.length !== 4) return null;
+    let value = 0;
+    for (const part of parts) {
+        const n = Number(part);
+        if (!/^\d{1,3}$/.test(part) || n > 255) return null;
+        value = value * 256 + n;
+    }
+    return value;
+}
+
+/**
+ * IP가 예외 목록(단일 IP 또는 IPv4 CIDR)에 포함되는지
+ */
+export function isIpInList(ip: string, list: string[]): boolean {
+    const normalized = ip.startsWith('::ffff:') ? ip.slice(7) : ip;
+    const ipNumber = ipv4ToNumber(normalized);
+
+    return list.some((item) => {
+        const entry = item.trim();
+        if (!entry) return false;
+        if (!entry.includes('/')) return entry === normalized || entry === ip;
+
+        const [base, bitsText] = entry.split('/');
+        const baseNumber = ipv4ToNumber(base);
+        const bits = Number(bitsText);
+        if (ipNumber === null || baseNumber === null || !(bits >= 0 && bits <= 32)) {
+            return false;
+        }
+        const size = 2 ** (32 - bits);
+        return Math.floor(ipNumber / size) === Math.floor(baseNumber / size);
+    });
+}
+
+/**
+ * 규칙 범위별 카운터 키 (적용 대상이 아니면 null)
+ * level 범위는 레벨로 적용 여부만 정하고, 카운터는 회원마다 따로 셉니다.
+ */
+export function rateLimitKey(rule: RateLimitRule, subject: RateLimitSubject): string | null {
+    const ip = subject.ip as string;
+    switch (rule.scope) {
+        case 'user':
+            return subject.user?.id ? `user:${subject.user.id}` : `ip:${ip}`;
+        case 'level': {
+            if (!subject.user?.id) return null;
+            const { id, level } = subject.user;
+            if (rule.levels?.length && !rule.levels.includes(level)) return null;
+            return `level:${level}:user:${id}`;
+        }
+        case 'ip':
+        default:
+            return `ip:${ip}`;
+    }
+}
+
+/**
+ * 인증 전에 적용하는 범위 (IP 규칙은 인증 비용을 들이기 전에 먼저 차단)
+ * 이 단계에서는 회원 레벨을 모르므로 예외 레벨은 적용되지 않고 예외 IP만 적용됩니다.
+ */
+export const PRE_AUTH_RATE_LIMIT_SCOPES: RateLimitScope[] = ['ip'];
+
+/** 인증 후에 적용하는 범위 (회원·레벨) */
+export const POST_AUTH_RATE_LIMIT_SCOPES: RateLimitScope[] = ['user', 'level'];
+
+/** 여러 규칙 결과 중 가장 제한적인 것 (차단 우선, 그다음 남은 횟수가 적은 것) */
+function mostRestrictive(results: RateLimitResult[]): RateLimitResult {
+    return results.reduce((a, b) => {
+        if (a.allowed !== b.allowed) return a.allowed ? b : a;
+        if (!a.allowed) return (a.retryAfter ?? 0) >= (b.retryAfter ?? 0) ? a : b;
+        return a.remaining <= b.remaining ? a : b;
+    });
+}
+
+/**
+ * 단계별 정책 결과 합치기 (응답 헤더용)
+ */
+export function combineRateLimitResults(
+    ...results: (RateLimitResult | null)[]
+): RateLimitResult | null {
+    const applied = results.filter((result): result is RateLimitResult => result !== null);
+    return applied.length > 0 ? mostRestrictive(applied) : null;
+}
+
+/**
+ * 정책 적용: 해당 범위의 규칙마다 카운터를 하나씩 소비하고 가장 제한적인 결과 반환
+ * @param scopes 이번 단계에서 적용할 규칙 범위
+ * @returns 적용할 규칙이 없거나 예외 대상이면 null
+ */
+export async function enforceRateLimitPolicy(
+    subject: RateLimitSubject,
+    scopes: RateLimitScope[]
+): Promise<RateLimitResult | null> {
+    if (!subject.ip) return null;
+
+    const policy = await getRateLimitPolicy();
+    if (subject.user && policy.exemptLevels.includes(subject.user.level)) return null;
+    if (isIpInList(subject.ip, policy.exemptIps)) return null;
+
+    const checks = matchRateLimitRules(policy.rules, subject.pathname, subject.method)
+        .filter((rule) => scopes.includes(rule.scope))
+        .map((rule) => ({ rule, key: rateLimitKey(rule, subject) }))
+        .filter((check): check is { rule: RateLimitRule; key: string } => check.key !== null);
+    if (checks.length === 0) return null;
+
+    const results = await Promise.all(
+        checks.map(({ rule, key }) =>
+            consumeRateLimit(key, `policy_${rule.id}`, rule.limit, rule.windowSeconds * 1000)
+        )
+    );
+    return mostRestrictive(results);
+}
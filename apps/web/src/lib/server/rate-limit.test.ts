@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+// Redis 장애 상황: 모든 명령 실패 → 메모리 저장소로 처리
+vi.mock('./redis.js', () => {
+    const fail = () => Promise.reject(new Error('ECONNREFUSED'));
+    return {
+        getRedis: () => ({
+            eval: fail,
+            set: fail,
+            del: fail,
+            scan: fail,
+            mget: fail
+        })
+    };
+});
+
+import {
+    checkRateLimit,
+    consumeRateLimit,
+    evaluateSlidingWindow,
+    listThrottledClients,
+    rateLimitHeaders,
+    resetAttempts
+} from './rate-limit';
+
+describe('evaluateSlidingWindow', () => {
+    it('직전 윈도우 카운트를 남은 비율만큼 반영', () => {
+        // 윈도우 절반 경과: 직전 10 × 0.5 + 현재 3 = 8
+        const result = evaluateSlidingWindow(3, 10, 30_000, 20, 60_000, true);
+        expect(result.remaining).toBe(12);
+        expect(result.reset).toBe(30);
+    });
+
+    it('차단 시 retryAfter 계산', () => {
+        const result = evaluateSlidingWindow(10, 0, 0, 10, 60_000, false);
+        expect(result.allowed).toBe(false);
+        expect(result.remaining).toBe(0);
+        expect(result.retryAfter).toBeGreaterThan(0);
+    });
+});
+
+describe('rate limit (메모리 저장소)', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('한도까지 허용 후 차단', async () => {
+        vi.useFakeTimers({ now: 0 });
+        for (let i = 0; i < 3; i++) {
+            expect((await consumeRateLimit('ip:1', 'test_limit', 3, 60_000)).allowed).toBe(true);
+        }
+        const blocked = await consumeRateLimit('ip:1', 'test_limit', 3, 60_000);
+        expect(blocked.allowed).toBe(false);
+        expect(blocked.retryAfter).toBeGreaterThan(0);
+
+        // 조회는 카운트를 늘리지 않음
+        expect((await checkRateLimit('ip:2', 'test_limit', 3, 60_000)).remaining).toBe(3);
+    });
+
+    it('윈도우가 지나면 점진적으로 회복', async () => {
+        vi.useFakeTimers({ now: 0 });
+        for (let i = 0; i < 4; i++) {
+            await consumeRateLimit('ip:1', 'test_slide', 4, 60_000);
+        }
+        expect((await checkRateLimit('ip:1', 'test_slide', 4, 60_000)).allowed).toBe(false);
+
+        // 다음 윈도우 절반 경과: 직전 4 × 0.5 = 2 → 2회 남음
+        vi.setSystemTime(90_000);
+        expect((await checkRateLimit('ip:1', 'test_slide', 4, 60_000)).remaining).toBe(2);
+    });
+
+    it('resetAttempts 후 다시 허용', async () => {
+        vi.useFakeTimers({ now: 0 });
+        await consumeRateLimit('ip:1', 'test_reset', 1, 60_000);
+        await consumeRateLimit('ip:1', 'test_reset', 1, 60_000);
+        expect((await checkRateLimit('ip:1', 'test_reset', 1, 60_000)).allowed).toBe(false);
+        expect(
+            (await listThrottledClients()).some(
+                (c) => c.action === 'test_reset' && c.key === 'ip:1'
+            )
+        ).toBe(true);
+
+        await resetAttempts('ip:1', 'test_reset', 60_000);
+        expect((await checkRateLimit('ip:1', 'test_reset', 1, 60_000)).allowed).toBe(true);
+        expect((await listThrottledClients()).some((c) => c.action === 'test_reset')).toBe(false);
+    });
+
+    it('표준 RateLimit 헤더', async () => {
+        vi.useFakeTimers({ now: 0 });
+        const result = await consumeRateLimit('ip:1', 'test_headers', 10, 60_000);
+        expect(rateLimitHeaders(result)).toEqual({
+            'RateLimit-Limit': '10',
+            'RateLimit-Remaining': '9',
+            'RateLimit-Reset': '60',
+            'RateLimit-Policy': '10;w=60'
+        });
+    });
+});
@@ -1,80 +1,393 @@
 /**
- * IP 기반 Rate Limiting (메모리 기반)
+ * 분산 Rate Limiting (Redis 슬라이딩 윈도우)
  *
- * 서버 재시작 시 초기화됨 — 단일 프로세스 환경에서 충분
+ * 여러 Pod가 Redis 카운터를 공유하므로 한도가 Pod 수만큼 늘어나지 않습니다.
+ * 슬라이딩 윈도우 카운터: 현재 고정 윈도우 카운트 + 직전 윈도우 카운트 × 남은 비율.
+ * 키마다 카운터 2개만 쓰므로 요청 로그(ZSET) 방식보다 메모리가 적게 듭니다.
+ *
+ * Redis 장애(에러·타임아웃) 시 같은 알고리즘의 프로세스 메모리 저장소로 전환합니다.
+ * 이때 한도는 Pod별로 적용됩니다.
+ */
+
+import { getRedis } from './redis.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import type { ThrottledClient } from '$lib/types/admin-settings.js';
+
+export type { ThrottledClient };
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    /** 이번 윈도우에 남은 요청 수 */
+    remaining: number;
+    /** 한도가 다시 채워지기까지 남은 초 (RateLimit-Reset) */
+    reset: number;
+    /** 차단 시 재시도까지 남은 초 */
+    retryAfter?: number;
+    windowMs: number;
+}
+
+const KEY_PREFIX = 'ratelimit';
+/** 차단 기록 키 접두사 (기록마다 별도 키, 차단 해제 시각에 만료) */
+const THROTTLED_PREFIX = `${KEY_PREFIX}:throttled:`;
+
+/** Redis 응답 대기 한도 — 넘으면 메모리 저장소로 처리 */
+const REDIS_TIMEOUT_MS = 150;
+
+const redisBreaker = new CircuitBreaker('rate-limit-redis', {
+    failureThreshold: 3,
+    resetTimeoutMs: 10_000
+});
+
+/**
+ * 원자적 조회/증가
+ * KEYS: 현재 윈도우, 직전 윈도우 / ARGV: 한도, 윈도우(ms), 현재 윈도우 경과(ms), 증가량(0이면 조회만)
+ * 반환: { 허용 여부, 현재 윈도우 카운트, 직전 윈도우 카운트 }
  */
+const SLIDING_WINDOW_SCRIPT = `
+local current = tonumber(redis.call('GET', KEYS[1]) or '0')
+local previous = tonumber(redis.call('GET', KEYS[2]) or '0')
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local elapsed = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+local weighted = previous * (window - elapsed) / window + current
+if cost > 0 then
+    if weighted + cost > limit then
+        return {0, current, previous}
+    end
+    current = redis.call('INCRBY', KEYS[1], cost)
+    redis.call('PEXPIRE', KEYS[1], window * 2)
+end
+if weighted > limit or (cost == 0 and weighted >= limit) then
+    return {0, current, previous}
+end
+return {1, current, previous}
+`;
+
+// --- 메모리 저장소 (Redis 장애 시) ---
 
-interface RateLimitEntry {
+interface MemoryCounter {
     count: number;
-    firstAttempt: number;
+    expiresAt: number;
 }
 
-const store = new Map<string, RateLimitEntry>();
+const memoryStore = new Map<string, MemoryCounter>();
+const memoryThrottled = new Map<string, ThrottledClient>();
 
-// 5분마다 만료된 항목 정리
+// 5분마다 만료된 카운터 정리
 const CLEANUP_INTERVAL = 5 * 60 * 1000;
-const MAX_WINDOW = 60 * 60 * 1000; // 최대 윈도우 1시간
 
 setInterval(() => {
     const now = Date.now();
-    for (const [key, entry] of store) {
-        if (now - entry.firstAttempt > MAX_WINDOW) {
-            store.delete(key);
+    for (const [key, entry] of memoryStore) {
+        if (now >= entry.expiresAt) {
+            memoryStore.delete(key);
         }
     }
-}, CLEANUP_INTERVAL);
+    for (const [field, entry] of memoryThrottled) {
+        if (now >= entry.until) {
+            memoryThrottled.delete(field);
+        }
+    }
+}, CLEANUP_INTERVAL).unref?.();
+
+function memoryGet(key: string, now: number): number {
+    const entry = memoryStore.get(key);
+    if (!entry || now >= entry.expiresAt) return 0;
+    return entry.count;
+}
+
+// --- 슬라이딩 윈도우 계산 ---
 
 /**
- * Rate limit 체크
+ * 슬라이딩 윈도우 상태 계산 (저장소와 무관한 순수 함수)
+ *
+ * @param current 현재 윈도우 카운트 (이번 요청 반영 후)
+ * @param previous 직전 윈도우 카운트
+ * @param elapsedMs 현재 윈도우 시작 후 경과 시간
+ */
+export function evaluateSlidingWindow(
+    current: number,
+    previous: number,
+    elapsedMs: number,
+    limit: number,
+    windowMs: number,
+    allowed: boolean
+): RateLimitResult {
+    const untilWindowEnd = windowMs - elapsedMs;
+    const weighted = (previous * untilWindowEnd) / windowMs + current;
+    const remaining = Math.max(0, Math.floor(limit - weighted));
+
+    const result: RateLimitResult = {
+        allowed,
+        limit,
+        remaining,
+        reset: Math.max(1, Math.ceil(untilWindowEnd / 1000)),
+        windowMs
+    };
+
+    if (!allowed) {
+        let waitMs: number;
+        if (current < limit && previous > 0) {
+            // 직전 윈도우 가중치가 줄어들면 한 칸이 빔
+            waitMs = untilWindowEnd - ((limit - current - 1) * windowMs) / previous;
+        } else {
+            // 다음 윈도우로 넘어간 뒤 현재 카운트의 가중치가 줄어들 때까지
+            waitMs = untilWindowEnd + windowMs * (1 - (limit - 1) / Math.max(current, 1));
+        }
+        result.retryAfter = Math.max(1, Math.ceil(waitMs / 1000));
+        result.reset = result.retryAfter;
+    }
+
+    return result;
+}
+
+function windowKeys(key: string, action: string, windowMs: number, now: number) {
+    const index = Math.floor(now / windowMs);
+    const base = `${KEY_PREFIX}:${action}:${key}`;
+    return {
+        current: `${base}:${index}`,
+        previous: `${base}:${index - 1}`,
+        elapsedMs: now - index * windowMs
+    };
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<T>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('Redis rate limit timeout')), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function runWindow(
+    key: string,
+    action: string,
+    limit: number,
+    windowMs: number,
+    cost: number
+): Promise<RateLimitResult> {
+    const now = Date.now();
+    const keys = windowKeys(key, action, windowMs, now);
+
+    if (redisBreaker.canRequest()) {
+        try {
+            const [allowed, current, previous] = (await withTimeout(
+                getRedis().eval(
+                    SLIDING_WINDOW_SCRIPT,
+                    2,
+                    keys.current,
+                    keys.previous,
+                    limit,
+                    windowMs,
+                    keys.elapsedMs,
+                    cost
+                ),
+                REDIS_TIMEOUT_MS
+            )) as [number, number, number];
+            redisBreaker.recordSuccess();
+            const result = evaluateSlidingWindow(
+                current,
+                previous,
+                keys.elapsedMs,
+                limit,
+                windowMs,
+                allowed === 1
+            );
+            if (!result.allowed && cost > 0) trackThrottled(key, action, result, now);
+            return result;
+        } catch {
+            redisBreaker.recordFailure();
+        }
+    }
+
+    // 메모리 저장소
+    let current = memoryGet(keys.current, now);
+    const previous = memoryGet(keys.previous, now);
+    const weighted = (previous * (windowMs - keys.elapsedMs)) / windowMs + current;
+    const allowed = cost > 0 ? weighted + cost <= limit : weighted < limit;
+    if (allowed && cost > 0) {
+        current += cost;
+        memoryStore.set(keys.current, { count: current, expiresAt: now + windowMs * 2 });
+    }
+    const result = evaluateSlidingWindow(
+        current,
+        previous,
+        keys.elapsedMs,
+        limit,
+        windowMs,
+        allowed
+    );
+    if (!result.allowed && cost > 0) trackThrottled(key, action, result, now);
+    return result;
+}
+
+function throttledField(action: string, key: string): string {
+    return `${action}|${key}`;
+}
+
+function throttledKey(field: string): string {
+    return `${THROTTLED_PREFIX}${field}`;
+}
+
+/** 차단 기록 (응답 지연을 피하려고 기다리지 않음) */
+function trackThrottled(key: string, action: string, result: RateLimitResult, now: number): void {
+    const entry: ThrottledClient = {
+        action,
+        key,
+        limit: result.limit,
+        windowMs: result.windowMs,
+        blockedAt: now,
+        until: now + (result.retryAfter ?? result.reset) * 1000
+    };
+    const field = throttledField(action, key);
+    memoryThrottled.set(field, entry);
+
+    if (!redisBreaker.canRequest()) return;
+    getRedis()
+        .set(throttledKey(field), JSON.stringify(entry), 'PX', Math.max(1000, entry.until - now))
+        .catch(() => {
+            // 실시간 조회용 기록이므로 실패해도 무시
+        });
+}
+
+/**
+ * Rate limit 조회 (기록하지 않음)
  * @returns allowed: true이면 요청 허용, false이면 차단
  */
 export function checkRateLimit(
-    ip: string,
+    key: string,
     action: string,
     maxAttempts: number,
     windowMs: number
-): { allowed: boolean; retryAfter?: number } {
-    const key = `${action}:${ip}`;
-    const now = Date.now();
-    const entry = store.get(key);
+): Promise<RateLimitResult> {
+    return runWindow(key, action, maxAttempts, windowMs, 0);
+}
 
-    if (!entry) {
-        return { allowed: true };
-    }
+/**
+ * Rate limit 조회 + 시도 기록 (원자적, 허용된 경우에만 기록)
+ */
+export function consumeRateLimit(
+    key: string,
+    action: string,
+    maxAttempts: number,
+    windowMs: number
+): Promise<RateLimitResult> {
+    return runWindow(key, action, maxAttempts, windowMs, 1);
+}
 
-    // 윈도우 만료 → 초기화
-    if (now - entry.firstAttempt > windowMs) {
-        store.delete(key);
-        return { allowed: true };
-    }
+/**
+ * 시도 기록 (한도와 무관하게 카운트만 증가)
+ */
+export async function recordAttempt(key: string, action: string, windowMs: number): Promise<void> {
+    await runWindow(key, action, Number.MAX_SAFE_INTEGER, windowMs, 1);
+}
+
+/**
+ * 시도 횟수 초기화 (성공 시 호출)
+ */
+export async function resetAttempts(key: string, action: string, windowMs: number): Promise<void> {
+    const keys = windowKeys(key, action, windowMs, Date.now());
+    const field = throttledField(action, key);
+    memoryStore.delete(keys.current);
+    memoryStore.delete(keys.previous);
+    memoryThrottled.delete(field);
 
-    if (entry.count >= maxAttempts) {
-        const retryAfter = Math.ceil((entry.firstAttempt + windowMs - now) / 1000);
-        return { allowed: false, retryAfter };
+    if (!redisBreaker.canRequest()) return;
+    try {
+        await withTimeout(
+            getRedis().del(keys.current, keys.previous, throttledKey(field)),
+            REDIS_TIMEOUT_MS
+        );
+        redisBreaker.recordSuccess();
+    } catch {
+        redisBreaker.recordFailure();
     }
+}
 
-    return { allowed: true };
+/** Redis의 차단 기록 전체 (SCAN으로 키를 모아 MGET) */
+async function fetchRedisThrottled(): Promise<string[]> {
+    const redis = getRedis();
+    const values: string[] = [];
+    let cursor = '0';
+    do {
+        const [next, keys] = await withTimeout(
+            redis.scan(cursor, 'MATCH', `${THROTTLED_PREFIX}*`, 'COUNT', 500),
+            REDIS_TIMEOUT_MS
+        );
+        if (keys.length > 0) {
+            const raws = await withTimeout(redis.mget(...keys), REDIS_TIMEOUT_MS);
+            for (const raw of raws) if (raw) values.push(raw);
+        }
+        cursor = next;
+    } while (cursor !== '0');
+    return values;
 }
 
 /**
- * 시도 기록
+ * 현재 차단 중인 클라이언트 목록 (최근 차단 순)
+ * 메모리 기록은 조회하면서 정리하고, Redis 기록은 키 만료로 사라집니다.
  */
-export function recordAttempt(ip: string, action: string): void {
-    const key = `${action}:${ip}`;
+export async function listThrottledClients(): Promise<ThrottledClient[]> {
     const now = Date.now();
-    const entry = store.get(key);
+    const entries = new Map<string, ThrottledClient>();
 
-    if (!entry) {
-        store.set(key, { count: 1, firstAttempt: now });
-    } else {
-        entry.count++;
+    for (const [field, entry] of memoryThrottled) {
+        if (entry.until > now) entries.set(field, entry);
+        else memoryThrottled.delete(field);
     }
+
+    if (redisBreaker.canRequest()) {
+        try {
+            const raws = await fetchRedisThrottled();
+            redisBreaker.recordSuccess();
+            for (const raw of raws) {
+                try {
+                    const entry = JSON.parse(raw) as ThrottledClient;
+                    if (entry.until > now) {
+                        entries.set(throttledField(entry.action, entry.key), entry);
+                    }
+                } catch {
+                    // 형식이 잘못된 기록은 만료되면 사라짐
+                }
+            }
+        } catch {
+            redisBreaker.recordFailure();
+        }
+    }
+
+    return [...entries.values()].sort((a, b) => b.blockedAt - a.blockedAt);
 }
 
 /**
- * 시도 횟수 초기화 (성공 시 호출)
+ * 표준 RateLimit 헤더 (draft-ietf-httpapi-ratelimit-headers)
  */
-export function resetAttempts(ip: string, action: string): void {
-    const key = `${action}:${ip}`;
-    store.delete(key);
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+    const headers: Record<string, string> = {
+        'RateLimit-Limit': String(result.limit),
+        'RateLimit-Remaining': String(result.remaining),
+        'RateLimit-Reset': String(result.reset),
+        'RateLimit-Policy': `${result.limit};w=${Math.ceil(result.windowMs / 1000)}`
+    };
+    if (!result.allowed) {
+        headers['Retry-After'] = String(result.retryAfter ?? result.reset);
+    }
+    return headers;
+}
+
+/**
+ * 429 응답 (JSON 본문 + RateLimit 헤더)
+ */
+export function tooManyRequestsResponse(
+    result: RateLimitResult,
+    message = '요청이 너무 많습니다. 잠시 후 다시 시도해주세요.'
+): Response {
+    return new Response(JSON.stringify({ error: message }), {
+        status: 429,
+        headers: {
+            'Content-Type': 'application/json',
+            ...rateLimitHeaders(result)
+        }
+    });
 }
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// 단일 Redis 대역: SET NX와 두 Lua 스크립트(토큰 비교 후 DEL / EXPIRE)만 흉내
+const store = new Map<string, string>();
+
+vi.mock('./redis.js', () => ({
+    getRedis: () => ({
+        set: async (key: string, value: string, _ex: string, _ttl: number, nx?: string) => {
+            if (nx === 'NX' && store.has(key)) return null;
+            store.set(key, value);
+            return 'OK';
+        },
+        eval: async (script: string, _numKeys: number, key: string, token: string) => {
+            if (store.get(key) !== token) return 0;
+            if (script.includes("'DEL'")) store.delete(key);
+            return 1;
+        }
+    })
+}));
+
+import { acquireRedisLock, createLockedScheduler } from './redis-lock';
+
+describe('acquireRedisLock', () => {
+    beforeEach(() => store.clear());
+
+    it('이미 잡힌 락은 획득하지 못함', async () => {
+        const lock = await acquireRedisLock('job', 60);
+        expect(lock).not.toBeNull();
+        expect(await acquireRedisLock('job', 60)).toBeNull();
+
+        await lock!.release();
+        expect(await acquireRedisLock('job', 60)).not.toBeNull();
+    });
+
+    it('만료 후 다른 소유자가 잡은 락은 연장·해제하지 않음', async () => {
+        const stale = await acquireRedisLock('job', 60);
+        // TTL 만료 후 다른 Pod가 다시 획득
+        store.delete('job');
+        const current = await acquireRedisLock('job', 60);
+
+        expect(await stale!.extend()).toBe(false);
+        await stale!.release();
+        expect(store.has('job')).toBe(true);
+        expect(await current!.extend()).toBe(true);
+    });
+});
+
+describe('createLockedScheduler', () => {
+    beforeEach(() => store.clear());
+
+    it('실행 중에는 다음 주기를 건너뛰고, 끝나면 락 해제', async () => {
+        let finish = () => {};
+        const run = vi.fn(
+            () =>
+                new Promise<void>((resolve) => {
+                    finish = resolve;
+                })
+        );
+        const scheduler = createLockedScheduler({
+            name: 'Test',
+            lockKey: 'job',
+            lockTtlSec: 60,
+            intervalMs: 60_000,
+            run
+        });
+
+        const first = scheduler.tick();
+        await vi.waitFor(() => expect(run).toHaveBeenCalledTimes(1));
+        await scheduler.tick();
+        expect(run).toHaveBeenCalledTimes(1);
+
+        finish();
+        await first;
+        expect(store.has('job')).toBe(false);
+    });
+
+    it('isDue가 false면 락도 잡지 않음', async () => {
+        const run = vi.fn(async () => {});
+        const scheduler = createLockedScheduler({
+            name: 'Test',
+            lockKey: 'job',
+            lockTtlSec: 60,
+            intervalMs: 60_000,
+            isDue: () => false,
+            run
+        });
+
+        await scheduler.tick();
+        expect(run).not.toHaveBeenCalled();
+        expect(store.size).toBe(0);
+    });
+
+    it('작업 오류는 기록만 하고 락은 해제', async () => {
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const scheduler = createLockedScheduler({
+            name: 'Test',
+            lockKey: 'job',
+            lockTtlSec: 60,
+            intervalMs: 60_000,
+            run: async () => {
+                throw new Error('boom');
+            }
+        });
+
+        await scheduler.tick();
+        expect(errorSpy).toHaveBeenCalledWith('[Test] 스케줄러 오류:', expect.any(Error));
+        expect(store.has('job')).toBe(false);
+        errorSpy.mockRestore();
+    });
+});
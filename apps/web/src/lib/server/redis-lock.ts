@@ -0,0 +1,115 @@
+/**
+ * Redis 분산 락 / 락 기반 주기 작업
+ *
+ * 여러 Pod 중 하나만 작업을 실행하도록 SET NX EX로 락을 잡습니다.
+ * 락 값은 획득할 때마다 새로 만드는 토큰이며, 연장·해제는 토큰이 같을 때만 Lua 스크립트로
+ * 원자적으로 처리합니다. (TTL이 지나 다른 Pod가 다시 잡은 락을 건드리지 않음)
+ */
+
+import { randomUUID } from 'node:crypto';
+import { getRedis } from './redis.js';
+
+/** 토큰이 같을 때만 삭제 */
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/** 토큰이 같을 때만 TTL 갱신 */
+const EXTEND_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return redis.call('EXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+/** 획득한 락 */
+export interface RedisLock {
+    readonly key: string;
+    /**
+     * TTL 연장 (오래 걸리는 작업의 배치마다 호출)
+     * @returns 아직 이 락을 소유하고 있으면 true
+     */
+    extend(): Promise<boolean>;
+    /** 해제 (이미 만료되어 다른 소유자가 잡았으면 아무것도 하지 않음) */
+    release(): Promise<void>;
+}
+
+/**
+ * 락 획득 시도
+ * @returns 획득한 락, 다른 곳에서 잡고 있으면 null
+ */
+export async function acquireRedisLock(key: string, ttlSec: number): Promise<RedisLock | null> {
+    const token = randomUUID();
+    const acquired = await getRedis().set(key, token, 'EX', ttlSec, 'NX');
+    if (acquired !== 'OK') return null;
+
+    return {
+        key,
+        async extend() {
+            return (await getRedis().eval(EXTEND_SCRIPT, 1, key, token, ttlSec)) === 1;
+        },
+        async release() {
+            await getRedis().eval(RELEASE_SCRIPT, 1, key, token);
+        }
+    };
+}
+
+export interface LockedSchedulerOptions {
+    /** 로그 접두사 (예: 'Email Digest') */
+    name: string;
+    lockKey: string;
+    lockTtlSec: number;
+    intervalMs: number;
+    /** 이번 주기에 실행할지 (false면 락도 잡지 않음, 기본: 항상 실행) */
+    isDue?: () => boolean;
+    /** 락을 잡은 Pod에서 실행할 작업 (끝나면 락 해제) */
+    run: (lock: RedisLock) => Promise<void>;
+}
+
+export interface LockedScheduler {
+    /** 주기 실행 시작 (여러 번 호출해도 한 번만) */
+    start(): void;
+    /** 한 주기 실행 (이 Pod에서 이전 주기가 아직 실행 중이면 건너뜀) */
+    tick(): Promise<void>;
+}
+
+/**
+ * 모든 Pod가 주기적으로 확인하고, 락을 잡은 Pod 하나만 실행하는 작업
+ */
+export function createLockedScheduler(options: LockedSchedulerOptions): LockedScheduler {
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let running = false;
+
+    async function tick(): Promise<void> {
+        if (running || (options.isDue && !options.isDue())) return;
+
+        running = true;
+        try {
+            const lock = await acquireRedisLock(options.lockKey, options.lockTtlSec);
+            if (!lock) return;
+            try {
+                await options.run(lock);
+            } finally {
+                await lock.release();
+            }
+        } catch (error) {
+            console.error(`[${options.name}] 스케줄러 오류:`, error);
+        } finally {
+            running = false;
+        }
+    }
+
+    return {
+        start() {
+            if (timer) return;
+            timer = setInterval(() => {
+                tick().catch(() => {});
+            }, options.intervalMs);
+            timer.unref?.();
+        },
+        tick
+    };
+}
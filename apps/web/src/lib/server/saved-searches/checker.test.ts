@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('$env/dynamic/private', () => ({ env: {} }));
+vi.mock('../db.js', () => ({ default: {}, readPool: {} }));
+vi.mock('../redis.js', () => ({ getRedis: vi.fn() }));
+vi.mock('../notification-delivery.js', () => ({ deliverNotification: vi.fn() }));
+vi.mock('../search/index.js', () => ({ searchByField: vi.fn() }));
+vi.mock('./store.js', () => ({ listDueSavedSearches: vi.fn(), markSavedSearchChecked: vi.fn() }));
+
+import { selectNewMatches, type SavedSearchCandidate } from './checker';
+
+const since = new Date('2026-10-01T12:00:00Z');
+
+function candidate(overrides: Partial<SavedSearchCandidate>): SavedSearchCandidate {
+    return {
+        boardId: 'economy',
+        wrId: 1,
+        wrParent: 1,
+        isComment: false,
+        mbId: 'writer',
+        subject: '아이폰 특가',
+        secret: false,
+        datetime: new Date('2026-10-01T13:00:00Z'),
+        boardReadLevel: 1,
+        ...overrides
+    };
+}
+
+describe('selectNewMatches', () => {
+    const search = { mbId: 'me', level: 2, since };
+
+    it('기준 시각 이후 글만 최신순으로 반환', () => {
+        const matches = selectNewMatches(
+            [
+                candidate({ wrId: 1, datetime: new Date('2026-10-01T13:00:00Z') }),
+                candidate({ wrId: 2, datetime: since }),
+                candidate({ wrId: 3, datetime: new Date('2026-10-01T11:00:00Z') }),
+                candidate({ wrId: 4, datetime: new Date('2026-10-01T14:00:00Z') })
+            ],
+            search
+        );
+        expect(matches.map((m) => m.wrId)).toEqual([4, 1]);
+    });
+
+    it('읽기 권한 없는 게시판, 비밀글, 본인 글 제외', () => {
+        const matches = selectNewMatches(
+            [
+                candidate({ wrId: 1, boardReadLevel: 3 }),
+                candidate({ wrId: 2, secret: true }),
+                candidate({ wrId: 3, mbId: 'me' }),
+                candidate({ wrId: 4, boardReadLevel: 2 })
+            ],
+            search
+        );
+        expect(matches.map((m) => m.wrId)).toEqual([4]);
+    });
+});
@@ -0,0 +1,236 @@
+/**
+ * 저장한 검색 새 글 알림
+ *
+ * 각 Pod가 5분마다 확인하고, 알림을 켠 검색을 SAVED_SEARCH_INTERVAL_MINUTES(기본 30분)마다
+ * 검색 엔진(관리자 설정)으로 다시 실행해 새 글이 있으면 알림(g5_na_noti + SSE/웹 푸시)을 보냅니다.
+ * - Redis 락으로 한 Pod만 확인합니다.
+ * - 회원이 읽을 수 없는 게시판, 비밀글, 본인 글은 알리지 않습니다.
+ */
+
+import type { RowDataPacket } from 'mysql2';
+import { env } from '$env/dynamic/private';
+import pool, { readPool } from '../db.js';
+import { createLockedScheduler, type RedisLock } from '../redis-lock.js';
+import { deliverNotification } from '../notification-delivery.js';
+import { searchByField, type SearchHit } from '../search/index.js';
+import { savedSearchUrl } from '$lib/types/saved-search.js';
+import { listDueSavedSearches, markSavedSearchChecked, type DueSavedSearch } from './store.js';
+
+const CHECK_INTERVAL_MS = 5 * 60_000;
+const LOCK_KEY = 'saved-search:check-lock';
+const LOCK_TTL_SEC = 10 * 60;
+const BATCH_SIZE = 50;
+/** 검색 한 번에 확인할 최신 결과 수 */
+const SCAN_LIMIT = 30;
+const NOTIFICATION_TYPE = 'saved_search';
+
+/** 검색 결과 글/댓글 (알림 대상 판단용) */
+export interface SavedSearchCandidate {
+    boardId: string;
+    wrId: number;
+    wrParent: number;
+    isComment: boolean;
+    mbId: string;
+    /** 글 제목 (댓글이면 원글 제목) */
+    subject: string;
+    secret: boolean;
+    datetime: Date;
+    boardReadLevel: number;
+}
+
+interface CandidateRow extends RowDataPacket {
+    wr_id: number;
+    wr_parent: number;
+    wr_is_comment: number;
+    mb_id: string;
+    wr_option: string;
+    wr_datetime: Date | string;
+    parent_subject: string | null;
+}
+
+interface BoardRow extends RowDataPacket {
+    bo_table: string;
+    bo_read_level: number;
+}
+
+function getIntervalMinutes(): number {
+    const minutes = Number(env.SAVED_SEARCH_INTERVAL_MINUTES ?? 30);
+    return Number.isInteger(minutes) && minutes >= 5 ? minutes : 30;
+}
+
+/**
+ * 새 글만 골라 최신순 정렬
+ * since 이후 작성, 회원이 읽을 수 있는 게시판, 비밀글·본인 글 제외
+ */
+export function selectNewMatches(
+    candidates: SavedSearchCandidate[],
+    search: Pick<DueSavedSearch, 'mbId' | 'level' | 'since'>
+): SavedSearchCandidate[] {
+    return candidates
+        .filter(
+            (c) =>
+                c.datetime.getTime() > search.since.getTime() &&
+                c.boardReadLevel <= search.level &&
+                !c.secret &&
+                c.mbId !== search.mbId
+        )
+        .sort((a, b) => b.datetime.getTime() - a.datetime.getTime());
+}
+
+/** 검색 결과 ID → 글 정보 (삭제된 글, 없는 게시판은 제외) */
+async function loadCandidates(hits: SearchHit[]): Promise<SavedSearchCandidate[]> {
+    const byBoard = new Map<string, number[]>();
+    for (const hit of hits) {
+        if (!/^[a-zA-Z0-9_]+$/.test(hit.boardId)) continue;
+        byBoard.set(hit.boardId, [...(byBoard.get(hit.boardId) ?? []), hit.wrId]);
+    }
+    if (byBoard.size === 0) return [];
+
+    const boardIds = [...byBoard.keys()];
+    const [boards] = await readPool.query<BoardRow[]>(
+        `SELECT bo_table, bo_read_level FROM g5_board WHERE bo_table IN (?)`,
+        [boardIds]
+    );
+    const readLevels = new Map(boards.map((b) => [b.bo_table, Number(b.bo_read_level) || 1]));
+
+    const perBoard = await Promise.all(
+        boardIds
+            .filter((boardId) => readLevels.has(boardId))
+            .map(async (boardId) => {
+                const [rows] = await readPool.query<CandidateRow[]>(
+                    `SELECT w.wr_id, w.wr_parent, w.wr_is_comment, w.mb_id, w.wr_option,
+                            w.wr_datetime, p.wr_subject AS parent_subject
+                     FROM \`g5_write_${boardId}\` w
+                     LEFT JOIN \`g5_write_${boardId}\` p ON p.wr_id = w.wr_parent
+                     WHERE w.wr_id IN (?)`,
+                    [byBoard.get(boardId)]
+                );
+                return rows.map(
+                    (row): SavedSearchCandidate => ({
+                        boardId,
+                        wrId: row.wr_id,
+                        wrParent: row.wr_parent,
+                        isComment: Boolean(row.wr_is_comment),
+                        mbId: row.mb_id || '',
+                        subject: row.parent_subject || '',
+                        secret: String(row.wr_option || '').includes('secret'),
+                        datetime: new Date(row.wr_datetime),
+                        boardReadLevel: readLevels.get(boardId)!
+                    })
+                );
+            })
+    );
+    return perBoard.flat();
+}
+
+async function notifyNewMatches(
+    search: DueSavedSearch,
+    matches: SavedSearchCandidate[]
+): Promise<void> {
+    const latest = matches[0];
+    // 한 건이면 글로, 여러 건이면 검색 결과로 이동
+    const url =
+        matches.length === 1
+            ? latest.isComment
+                ? `/${latest.boardId}/${latest.wrParent}#c_${latest.wrId}`
+                : `/${latest.boardId}/${latest.wrId}`
+            : savedSearchUrl(search);
+    const noun = matches.every((m) => m.isComment) ? '댓글' : '글';
+    const title = `저장한 검색 "${search.query}"에 새 ${noun} ${matches.length}건`;
+
+    await pool.execute(
+        `INSERT INTO g5_na_noti (ph_to_case, ph_from_case, bo_table, wr_id, mb_id, rel_mb_id, rel_mb_nick, rel_msg, rel_url, ph_readed, ph_datetime, parent_subject, wr_parent)
+         VALUES (?, ?, ?, ?, ?, '', '', ?, ?, 'N', NOW(), ?, ?)`,
+        [
+            NOTIFICATION_TYPE,
+            NOTIFICATION_TYPE,
+            latest.boardId,
+            latest.wrId,
+            search.mbId,
+            title,
+            url,
+            latest.subject,
+            latest.wrParent
+        ]
+    );
+    await deliverNotification(search.mbId, {
+        type: NOTIFICATION_TYPE,
+        title,
+        content: latest.subject,
+        url
+    });
+}
+
+/** 저장한 검색 하나 확인 @returns 새 글 수 */
+export async function checkSavedSearch(search: DueSavedSearch): Promise<number> {
+    const { hits } = await searchByField(search.field, {
+        query: search.query,
+        boardId: search.boardId ?? undefined,
+        page: 1,
+        limit: SCAN_LIMIT,
+        sort: 'date'
+    });
+    const matches = selectNewMatches(await loadCandidates(hits), search);
+
+    if (matches.length > 0) await notifyNewMatches(search, matches);
+    await markSavedSearchChecked(search.id, matches.length, matches[0]?.datetime ?? null);
+    return matches.length;
+}
+
+/**
+ * 확인할 차례인 검색 전체 확인 (배치마다 락을 연장하고, 락을 잃으면 중단)
+ * @returns 확인 / 알림 / 실패 검색 수
+ */
+export async function runDueSavedSearches(lock: RedisLock): Promise<{
+    checked: number;
+    notified: number;
+    failed: number;
+}> {
+    const stats = { checked: 0, notified: 0, failed: 0 };
+    const failedIds: number[] = [];
+    const intervalMinutes = getIntervalMinutes();
+
+    for (;;) {
+        const searches = await listDueSavedSearches(intervalMinutes, BATCH_SIZE, failedIds);
+        if (searches.length === 0) break;
+
+        for (const search of searches) {
+            try {
+                if ((await checkSavedSearch(search)) > 0) stats.notified++;
+                stats.checked++;
+            } catch (error) {
+                console.error(`[Saved Search] 확인 실패: #${search.id}`, error);
+                failedIds.push(search.id);
+                stats.failed++;
+            }
+        }
+        if (!(await lock.extend())) {
+            console.warn(
+                '[Saved Search] 확인 락을 잃어 중단합니다. 남은 검색은 다음 확인에서 처리'
+            );
+            break;
+        }
+    }
+    return stats;
+}
+
+const scheduler = createLockedScheduler({
+    name: 'Saved Search',
+    lockKey: LOCK_KEY,
+    lockTtlSec: LOCK_TTL_SEC,
+    intervalMs: CHECK_INTERVAL_MS,
+    run: async (lock) => {
+        const stats = await runDueSavedSearches(lock);
+        if (stats.notified + stats.failed > 0) {
+            console.log(
+                `[Saved Search] 확인 ${stats.checked}, 알림 ${stats.notified}, 실패 ${stats.failed}`
+            );
+        }
+    }
+});
+
+/** 서버 시작 시 1회 호출 (hooks.server.ts init) */
+export function startSavedSearchChecker(): void {
+    if (env.SAVED_SEARCH_ALERTS_ENABLED === 'false') return;
+    scheduler.start();
+}
@@ -0,0 +1,261 @@
+/**
+ * 저장한 검색 (angple_saved_searches)
+ *
+ * 회원이 /search에서 저장한 검색어·필드(sfl)·게시판 필터와 새 글 확인 상태를 관리합니다.
+ * - last_seen_at: 지금까지 찾은 가장 최근 글 작성 시각 (이후 글만 새 글로 봄)
+ * - last_checked_at: 마지막 확인 시각 (확인 주기 계산용)
+ * - new_count: 회원이 결과를 보기 전까지 쌓인 새 글 수
+ */
+
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+import pool, { readPool } from '../db.js';
+import {
+    MAX_SAVED_SEARCHES,
+    type SavedSearch,
+    type SavedSearchField
+} from '$lib/types/saved-search.js';
+
+const SAVED_SEARCH_TABLE = 'angple_saved_searches';
+
+/** 검색어 길이 제한 */
+export const SAVED_SEARCH_QUERY_MAX = 100;
+
+/** 새 글 확인 대상 (회원 정보 포함) */
+export interface DueSavedSearch {
+    id: number;
+    mbId: string;
+    level: number;
+    query: string;
+    field: SavedSearchField;
+    boardId: string | null;
+    /** 이 시각 이후 작성된 글만 새 글로 봄 */
+    since: Date;
+}
+
+export class SavedSearchError extends Error {
+    constructor(
+        message: string,
+        readonly status: number
+    ) {
+        super(message);
+        this.name = 'SavedSearchError';
+    }
+}
+
+interface SavedSearchRow extends RowDataPacket {
+    id: number;
+    query: string;
+    field: SavedSearchField;
+    bo_table: string;
+    bo_subject: string | null;
+    notify: number;
+    new_count: number;
+    last_checked_at: Date | null;
+    created_at: Date;
+}
+
+interface DueRow extends RowDataPacket {
+    id: number;
+    mb_id: string;
+    mb_level: number;
+    query: string;
+    field: SavedSearchField;
+    bo_table: string;
+    last_seen_at: Date | null;
+    created_at: Date;
+}
+
+let tableChecked = false;
+
+async function ensureTable(): Promise<void> {
+    if (tableChecked) return;
+
+    await pool.query(`
+        CREATE TABLE IF NOT EXISTS ${SAVED_SEARCH_TABLE} (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            mb_id VARCHAR(20) NOT NULL,
+            query VARCHAR(${SAVED_SEARCH_QUERY_MAX}) NOT NULL,
+            field VARCHAR(20) NOT NULL,
+            bo_table VARCHAR(20) NOT NULL DEFAULT '',
+            notify TINYINT NOT NULL DEFAULT 1,
+            new_count INT NOT NULL DEFAULT 0,
+            last_seen_at DATETIME DEFAULT NULL,
+            last_checked_at DATETIME DEFAULT NULL,
+            created_at DATETIME NOT NULL,
+            UNIQUE KEY uniq_member_search (mb_id, query, field, bo_table),
+            INDEX idx_due (notify, last_checked_at)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+    tableChecked = true;
+}
+
+function toSavedSearch(row: SavedSearchRow): SavedSearch {
+    return {
+        id: row.id,
+        query: row.query,
+        field: row.field,
+        boardId: row.bo_table || null,
+        boardName: row.bo_table ? row.bo_subject || row.bo_table : null,
+        notify: Boolean(row.notify),
+        newCount: row.new_count,
+        lastCheckedAt: row.last_checked_at ? new Date(row.last_checked_at).toISOString() : null,
+        createdAt: new Date(row.created_at).toISOString()
+    };
+}
+
+const SELECT_SAVED_SEARCH = `
+    SELECT s.id, s.query, s.field, s.bo_table, b.bo_subject, s.notify,
+           s.new_count, s.last_checked_at, s.created_at
+    FROM ${SAVED_SEARCH_TABLE} s
+    LEFT JOIN g5_board b ON b.bo_table = s.bo_table`;
+
+export async function listSavedSearches(mbId: string): Promise<SavedSearch[]> {
+    await ensureTable();
+    const [rows] = await readPool.query<SavedSearchRow[]>(
+        `${SELECT_SAVED_SEARCH} WHERE s.mb_id = ? ORDER BY s.id DESC`,
+        [mbId]
+    );
+    return rows.map(toSavedSearch);
+}
+
+/**
+ * 검색 저장 (같은 조건이 이미 있으면 기존 항목 반환)
+ * @throws SavedSearchError 저장 개수 초과, 없는 게시판
+ */
+export async function createSavedSearch(
+    mbId: string,
+    input: { query: string; field: SavedSearchField; boardId: string | null }
+): Promise<SavedSearch> {
+    await ensureTable();
+    const boardId = input.boardId ?? '';
+
+    if (boardId) {
+        const [boards] = await readPool.query<RowDataPacket[]>(
+            'SELECT bo_table FROM g5_board WHERE bo_table = ?',
+            [boardId]
+        );
+        if (boards.length === 0) throw new SavedSearchError('존재하지 않는 게시판입니다.', 400);
+    }
+
+    const [existing] = await pool.query<SavedSearchRow[]>(
+        `${SELECT_SAVED_SEARCH}
+         WHERE s.mb_id = ? AND s.query = ? AND s.field = ? AND s.bo_table = ?`,
+        [mbId, input.query, input.field, boardId]
+    );
+    if (existing[0]) return toSavedSearch(existing[0]);
+
+    const [countRows] = await pool.query<RowDataPacket[]>(
+        `SELECT COUNT(*) AS cnt FROM ${SAVED_SEARCH_TABLE} WHERE mb_id = ?`,
+        [mbId]
+    );
+    if (Number(countRows[0]?.cnt ?? 0) >= MAX_SAVED_SEARCHES) {
+        throw new SavedSearchError(
+            `검색은 최대 ${MAX_SAVED_SEARCHES}개까지 저장할 수 있습니다.`,
+            409
+        );
+    }
+
+    // 동시에 같은 검색을 저장한 경우 기존 행 ID 반환
+    const [result] = await pool.query<ResultSetHeader>(
+        `INSERT INTO ${SAVED_SEARCH_TABLE} (mb_id, query, field, bo_table, created_at)
+         VALUES (?, ?, ?, ?, NOW())
+         ON DUPLICATE KEY UPDATE id = LAST_INSERT_ID(id)`,
+        [mbId, input.query, input.field, boardId]
+    );
+
+    const [saved] = await pool.query<SavedSearchRow[]>(`${SELECT_SAVED_SEARCH} WHERE s.id = ?`, [
+        result.insertId
+    ]);
+    if (!saved[0]) throw new SavedSearchError('검색을 저장하지 못했습니다.', 500);
+    return toSavedSearch(saved[0]);
+}
+
+/** @returns 변경 여부 (내 검색이 아니면 false) */
+export async function setSavedSearchNotify(
+    mbId: string,
+    id: number,
+    notify: boolean
+): Promise<boolean> {
+    await ensureTable();
+    const [result] = await pool.query<ResultSetHeader>(
+        `UPDATE ${SAVED_SEARCH_TABLE} SET notify = ? WHERE id = ? AND mb_id = ?`,
+        [notify ? 1 : 0, id, mbId]
+    );
+    return result.affectedRows > 0;
+}
+
+/** 새 글 수 초기화 (회원이 결과를 확인한 경우) */
+export async function resetSavedSearchNewCount(mbId: string, id: number): Promise<boolean> {
+    await ensureTable();
+    const [result] = await pool.query<ResultSetHeader>(
+        `UPDATE ${SAVED_SEARCH_TABLE} SET new_count = 0 WHERE id = ? AND mb_id = ?`,
+        [id, mbId]
+    );
+    return result.affectedRows > 0;
+}
+
+/** @returns 삭제 여부 (내 검색이 아니면 false) */
+export async function deleteSavedSearch(mbId: string, id: number): Promise<boolean> {
+    await ensureTable();
+    const [result] = await pool.query<ResultSetHeader>(
+        `DELETE FROM ${SAVED_SEARCH_TABLE} WHERE id = ? AND mb_id = ?`,
+        [id, mbId]
+    );
+    return result.affectedRows > 0;
+}
+
+/**
+ * 새 글을 확인할 차례인 검색 (오래 확인하지 않은 순)
+ * 탈퇴·차단 회원은 제외합니다. 방금 기록한 확인 시각을 읽어야 하므로 writer pool에서 조회합니다.
+ */
+export async function listDueSavedSearches(
+    intervalMinutes: number,
+    limit: number,
+    excludeIds: number[] = []
+): Promise<DueSavedSearch[]> {
+    await ensureTable();
+    const exclude = excludeIds.length
+        ? `AND s.id NOT IN (${excludeIds.map(() => '?').join(',')})`
+        : '';
+    const [rows] = await pool.query<DueRow[]>(
+        `SELECT s.id, s.mb_id, m.mb_level, s.query, s.field, s.bo_table,
+                s.last_seen_at, s.created_at
+         FROM ${SAVED_SEARCH_TABLE} s
+         JOIN g5_member m ON m.mb_id = s.mb_id
+         WHERE s.notify = 1
+           AND (s.last_checked_at IS NULL OR s.last_checked_at < NOW() - INTERVAL ? MINUTE)
+           AND m.mb_leave_date = '' AND m.mb_intercept_date = ''
+           ${exclude}
+         ORDER BY s.last_checked_at IS NULL DESC, s.last_checked_at ASC
+         LIMIT ?`,
+        [intervalMinutes, ...excludeIds, limit]
+    );
+    return rows.map((row) => ({
+        id: row.id,
+        mbId: row.mb_id,
+        level: row.mb_level,
+        query: row.query,
+        field: row.field,
+        boardId: row.bo_table || null,
+        since: new Date(row.last_seen_at ?? row.created_at)
+    }));
+}
+
+/**
+ * 확인 완료 기록
+ * @param newCount 이번에 찾은 새 글 수 (회원이 볼 때까지 누적)
+ * @param lastSeenAt 이번에 찾은 가장 최근 글 작성 시각 (없으면 유지)
+ */
+export async function markSavedSearchChecked(
+    id: number,
+    newCount: number,
+    lastSeenAt: Date | null
+): Promise<void> {
+    await pool.query(
+        `UPDATE ${SAVED_SEARCH_TABLE}
+         SET last_checked_at = NOW(), new_count = new_count + ?,
+             last_seen_at = COALESCE(?, last_seen_at)
+         WHERE id = ?`,
+        [newCount, lastSeenAt, id]
+    );
+}
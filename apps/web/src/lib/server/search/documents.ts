@@ -0,0 +1,97 @@
+/**
+ * 게시판 테이블(g5_write_*) → 검색 문서 변환
+ *
+ * 색인을 직접 관리하는 Provider(MySQL, Meilisearch)가 전체 재색인과 글 단위 동기화에 사용합니다.
+ */
+import type { RowDataPacket } from 'mysql2';
+import { readPool } from '../db.js';
+import type { SearchDocument } from './provider.js';
+
+/** 색인할 본문 최대 길이 (이후는 검색 품질에 거의 영향이 없음) */
+const MAX_CONTENT_LENGTH = 20_000;
+
+interface WriteRow extends RowDataPacket {
+    wr_id: number;
+    wr_parent: number;
+    wr_is_comment: number;
+    mb_id: string;
+    wr_name: string;
+    wr_subject: string;
+    wr_content: string;
+    wr_option: string;
+    wr_datetime: Date | string;
+}
+
+const WRITE_COLUMNS =
+    'wr_id, wr_parent, wr_is_comment, mb_id, wr_name, wr_subject, wr_content, wr_option, wr_datetime';
+
+export function isValidBoardId(boardId: string): boolean {
+    return /^[a-zA-Z0-9_]+$/.test(boardId);
+}
+
+/** HTML 태그·엔티티 제거 */
+export function stripHtml(html: string): string {
+    return html
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&[^;\s]+;/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+export function toSearchDocument(boardId: string, row: WriteRow): SearchDocument {
+    const secret = String(row.wr_option || '').includes('secret');
+    return {
+        boardId,
+        wrId: row.wr_id,
+        wrParent: row.wr_parent,
+        isComment: Boolean(row.wr_is_comment),
+        mbId: row.mb_id || '',
+        author: row.wr_name || '',
+        subject: row.wr_is_comment ? '' : row.wr_subject || '',
+        // 비밀글·비밀댓글은 본문을 색인하지 않음
+        content: secret ? '' : stripHtml(row.wr_content || '').slice(0, MAX_CONTENT_LENGTH),
+        datetime: Math.floor(new Date(row.wr_datetime).getTime() / 1000) || 0
+    };
+}
+
+/** 글/댓글 한 건 (삭제되었으면 null) */
+export async function loadSearchDocument(
+    boardId: string,
+    wrId: number
+): Promise<SearchDocument | null> {
+    if (!isValidBoardId(boardId)) return null;
+    const [rows] = await readPool.query<WriteRow[]>(
+        `SELECT ${WRITE_COLUMNS} FROM \`g5_write_${boardId}\` WHERE wr_id = ?`,
+        [wrId]
+    );
+    return rows[0] ? toSearchDocument(boardId, rows[0]) : null;
+}
+
+/** 색인 대상 게시판 목록 */
+export async function listSearchableBoards(): Promise<string[]> {
+    const [rows] = await readPool.query<RowDataPacket[]>(
+        'SELECT bo_table FROM g5_board ORDER BY bo_table'
+    );
+    return rows.map((r) => String(r.bo_table)).filter(isValidBoardId);
+}
+
+/** 게시판 전체 문서를 wr_id 순으로 배치 조회 */
+export async function* readBoardDocuments(
+    boardId: string,
+    batchSize = 500
+): AsyncGenerator<SearchDocument[]> {
+    if (!isValidBoardId(boardId)) return;
+
+    let lastId = 0;
+    for (;;) {
+        const [rows] = await readPool.query<WriteRow[]>(
+            `SELECT ${WRITE_COLUMNS} FROM \`g5_write_${boardId}\`
+             WHERE wr_id > ? ORDER BY wr_id LIMIT ?`,
+            [lastId, batchSize]
+        );
+        if (rows.length === 0) return;
+        yield rows.map((row) => toSearchDocument(boardId, row));
+        lastId = rows[rows.length - 1].wr_id;
+        if (rows.length < batchSize) return;
+    }
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeSearchSettings } from './index';
+
+describe('normalizeSearchSettings', () => {
+    it('주소 끝 슬래시 제거, 공백 정리', () => {
+        expect(
+            normalizeSearchSettings({
+                provider: 'meilisearch',
+                meilisearch: {
+                    host: ' https://search.example.com/ ',
+                    apiKey: ' key ',
+                    indexName: 'posts'
+                }
+            })
+        ).toEqual({
+            provider: 'meilisearch',
+            meilisearch: { host: 'https://search.example.com', apiKey: 'key', indexName: 'posts' }
+        });
+    });
+
+    it('Meilisearch 설정이 없으면 기본값', () => {
+        expect(normalizeSearchSettings({ provider: 'mysql' }).meilisearch).toEqual({
+            host: 'http://127.0.0.1:7700',
+            apiKey: '',
+            indexName: 'angple_posts'
+        });
+    });
+
+    it('알 수 없는 검색 엔진 거부', () => {
+        expect(() => normalizeSearchSettings({ provider: 'elastic' })).toThrow();
+        expect(() => normalizeSearchSettings(undefined)).toThrow();
+    });
+
+    it('Meilisearch 선택 시 주소 형식 검사', () => {
+        expect(() =>
+            normalizeSearchSettings({
+                provider: 'meilisearch',
+                meilisearch: { host: 'search.example.com', apiKey: '', indexName: 'posts' }
+            })
+        ).toThrow('http');
+        // 다른 엔진이면 주소는 검사하지 않음
+        expect(
+            normalizeSearchSettings({
+                provider: 'sphinx',
+                meilisearch: { host: '', apiKey: '', indexName: 'posts' }
+            }).provider
+        ).toBe('sphinx');
+    });
+
+    it('인덱스 이름 문자 제한', () => {
+        expect(() =>
+            normalizeSearchSettings({
+                provider: 'mysql',
+                meilisearch: { host: '', apiKey: '', indexName: 'posts/../x' }
+            })
+        ).toThrow();
+    });
+});
@@ -0,0 +1,166 @@
+/**
+ * 검색 백엔드 선택 (관리자 설정 → Provider)
+ *
+ * 사이트 설정(search 섹션)의 provider로 검색 엔진을 고릅니다.
+ * 10초 캐시 후 다시 읽으므로 관리자 화면에서 바꾸면 재배포 없이 반영되고,
+ * 같은 Pod는 저장 즉시 반영됩니다.
+ */
+
+import { siteSettingsProvider } from '../settings/site-settings-provider.js';
+import { createCache } from '../cache.js';
+import {
+    DEFAULT_SITE_SETTINGS,
+    SEARCH_PROVIDER_META,
+    type SearchProviderId,
+    type SearchSettings
+} from '$lib/types/admin-settings.js';
+import type {
+    PostSearchField,
+    ScopedSearchOptions,
+    SearchProvider,
+    SearchResult
+} from './provider.js';
+import { SphinxSearchProvider } from './sphinx-provider.js';
+import { MySqlSearchProvider } from './mysql-provider.js';
+import { MeilisearchProvider } from './meilisearch-provider.js';
+import { loadSearchDocument } from './documents.js';
+
+export type { SearchHit, SearchProvider, SearchResult } from './provider.js';
+
+const SETTINGS_CACHE_KEY = 'search-settings';
+const settingsCache = createCache<SearchSettings>({
+    name: 'search-settings',
+    ttl: 10_000,
+    maxSize: 1
+});
+
+/** 설정이 같으면 같은 인스턴스 재사용 (Meilisearch 인덱스 준비 상태 유지) */
+let current: { key: string; provider: SearchProvider } | null = null;
+
+function createProvider(settings: SearchSettings): SearchProvider {
+    switch (settings.provider) {
+        case 'mysql':
+            return new MySqlSearchProvider();
+        case 'meilisearch':
+            return new MeilisearchProvider(settings.meilisearch);
+        case 'sphinx':
+        default:
+            return new SphinxSearchProvider();
+    }
+}
+
+async function getSearchSettings(): Promise<SearchSettings> {
+    try {
+        return await settingsCache.getOrSet(SETTINGS_CACHE_KEY, () =>
+            siteSettingsProvider.get('search')
+        );
+    } catch (error) {
+        console.error('[Search] 설정 로드 실패:', error);
+        return settingsCache.getStale(SETTINGS_CACHE_KEY) ?? DEFAULT_SITE_SETTINGS.search;
+    }
+}
+
+/** 현재 검색 Provider */
+export async function getSearchProvider(): Promise<SearchProvider> {
+    const settings = await getSearchSettings();
+    const key = JSON.stringify([settings.provider, settings.meilisearch]);
+    if (current?.key !== key) {
+        current = { key, provider: createProvider(settings) };
+    }
+    return current.provider;
+}
+
+/** 설정 캐시 무효화 (설정 저장 후 호출) */
+export function invalidateSearchProvider(): void {
+    settingsCache.delete(SETTINGS_CACHE_KEY);
+}
+
+/**
+ * 관리자 입력 검증 (저장 전)
+ * @throws Error 형식이 잘못된 경우
+ */
+export function normalizeSearchSettings(input: unknown): SearchSettings {
+    const raw = (input ?? {}) as Partial<SearchSettings>;
+    const provider = String(raw.provider ?? '') as SearchProviderId;
+    if (!SEARCH_PROVIDER_META.some((meta) => meta.id === provider)) {
+        throw new Error('검색 엔진이 올바르지 않습니다.');
+    }
+
+    const meili = (raw.meilisearch ?? {}) as Partial<SearchSettings['meilisearch']>;
+    const defaults = DEFAULT_SITE_SETTINGS.search.meilisearch;
+    const host = String(meili.host ?? defaults.host)
+        .trim()
+        .replace(/\/+$/, '');
+    const indexName = String(meili.indexName ?? defaults.indexName).trim();
+
+    if (provider === 'meilisearch') {
+        if (!/^https?:\/\/[^\s/]+/.test(host)) {
+            throw new Error('Meilisearch 주소는 http:// 또는 https://로 시작해야 합니다.');
+        }
+    }
+    if (!/^[a-zA-Z0-9_-]{1,100}$/.test(indexName)) {
+        throw new Error('Meilisearch 인덱스 이름은 영문, 숫자, -, _만 사용할 수 있습니다.');
+    }
+
+    return {
+        provider,
+        meilisearch: {
+            host,
+            apiKey: String(meili.apiKey ?? '').trim(),
+            indexName
+        }
+    };
+}
+
+/**
+ * 검색 필드(sfl)별 검색
+ * 게시판 목록과 전체 검색의 sfl 값(title, content, title_content, author, comment, comment_author)을 그대로 받습니다.
+ */
+export async function searchByField(
+    field: string,
+    options: ScopedSearchOptions
+): Promise<SearchResult> {
+    const provider = await getSearchProvider();
+    switch (field) {
+        case 'comment':
+            return provider.searchComments(options);
+        case 'comment_author':
+            return provider.searchAuthors('comment', options);
+        case 'author':
+            return provider.searchAuthors('post', options);
+        default: {
+            const postField: PostSearchField =
+                field === 'title' || field === 'content' ? field : 'title_content';
+            return options.boardId
+                ? provider.searchBoard(options.boardId, postField, options)
+                : provider.searchGlobal(postField, options);
+        }
+    }
+}
+
+/**
+ * 글/댓글 한 건 색인 갱신 (작성·수정 후)
+ * 색인을 직접 관리하지 않는 Provider(Sphinx)는 아무것도 하지 않습니다.
+ */
+export async function indexSearchDocument(boardId: string, wrId: number): Promise<void> {
+    const { indexer } = await getSearchProvider();
+    if (!indexer) return;
+
+    const document = await loadSearchDocument(boardId, wrId);
+    if (document) await indexer.upsert([document]);
+    else await indexer.remove(boardId, wrId, false);
+}
+
+/**
+ * 글/댓글 한 건 색인 삭제
+ * @param withComments 글을 지운 경우 댓글도 함께 삭제
+ */
+export async function removeSearchDocument(
+    boardId: string,
+    wrId: number,
+    withComments: boolean
+): Promise<void> {
+    const { indexer } = await getSearchProvider();
+    if (!indexer) return;
+    await indexer.remove(boardId, wrId, withComments);
+}
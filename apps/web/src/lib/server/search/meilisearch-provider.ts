@@ -0,0 +1,298 @@
+/**
+ * Meilisearch 검색 Provider
+ *
+ * 모든 게시판의 글/댓글을 한 인덱스에 색인합니다 (문서 ID: {bo_table}_{wr_id}).
+ * 정렬 'date'는 Meilisearch 랭킹 규칙상 관련도가 같은 결과 안에서만 최신순으로 적용됩니다.
+ *
+ * 재색인은 임시 인덱스를 채운 뒤 swap-indexes로 교체합니다.
+ */
+import type { SearchSettings } from '$lib/types/admin-settings.js';
+import type {
+    PostSearchField,
+    ScopedSearchOptions,
+    SearchDocument,
+    SearchIndexer,
+    SearchOptions,
+    SearchProvider,
+    SearchResult
+} from './provider.js';
+
+const SEARCH_TIMEOUT_MS = 5_000;
+const INDEXING_TIMEOUT_MS = 30_000;
+const TASK_POLL_MS = 500;
+const TASK_TIMEOUT_MS = 10 * 60_000;
+
+const FIELD_ATTRIBUTES: Record<PostSearchField | 'author', string[]> = {
+    title: ['wr_subject'],
+    content: ['wr_content'],
+    title_content: ['wr_subject', 'wr_content'],
+    author: ['mb_id', 'wr_name']
+};
+
+const INDEX_SETTINGS = {
+    searchableAttributes: ['wr_subject', 'wr_content', 'wr_name', 'mb_id'],
+    filterableAttributes: ['bo_table', 'wr_is_comment', 'wr_id', 'wr_parent'],
+    sortableAttributes: ['wr_datetime']
+};
+
+interface MeiliDocument {
+    id: string;
+    bo_table: string;
+    wr_id: number;
+    wr_parent: number;
+    wr_is_comment: number;
+    mb_id: string;
+    wr_name: string;
+    wr_subject: string;
+    wr_content: string;
+    wr_datetime: number;
+}
+
+interface MeiliTask {
+    taskUid: number;
+}
+
+interface MeiliSearchResponse {
+    hits: Pick<MeiliDocument, 'bo_table' | 'wr_id' | 'wr_parent'>[];
+    estimatedTotalHits?: number;
+}
+
+class MeilisearchRequestError extends Error {
+    constructor(
+        readonly status: number,
+        message: string
+    ) {
+        super(message);
+        this.name = 'MeilisearchRequestError';
+    }
+}
+
+function toMeiliDocument(doc: SearchDocument): MeiliDocument {
+    return {
+        id: `${doc.boardId}_${doc.wrId}`,
+        bo_table: doc.boardId,
+        wr_id: doc.wrId,
+        wr_parent: doc.wrParent,
+        wr_is_comment: doc.isComment ? 1 : 0,
+        mb_id: doc.mbId,
+        wr_name: doc.author,
+        wr_subject: doc.subject,
+        wr_content: doc.content,
+        wr_datetime: doc.datetime
+    };
+}
+
+/** 필터 값 (게시판 ID는 영문/숫자/_만 허용되므로 그대로 인용) */
+function boardFilter(boardId: string): string {
+    return `bo_table = "${boardId.replace(/[^a-zA-Z0-9_]/g, '')}"`;
+}
+
+class MeilisearchClient {
+    constructor(private readonly config: SearchSettings['meilisearch']) {}
+
+    get indexName(): string {
+        return this.config.indexName;
+    }
+
+    async request<T>(
+        method: string,
+        path: string,
+        body?: unknown,
+        timeoutMs = INDEXING_TIMEOUT_MS
+    ): Promise<T> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.config.apiKey) headers.Authorization = `Bearer ${this.config.apiKey}`;
+
+        const response = await fetch(`${this.config.host.replace(/\/$/, '')}${path}`, {
+            method,
+            headers,
+            body: body === undefined ? undefined : JSON.stringify(body),
+            signal: AbortSignal.timeout(timeoutMs)
+        });
+        if (!response.ok) {
+            const text = await response.text().catch(() => '');
+            throw new MeilisearchRequestError(
+                response.status,
+                `Meilisearch 요청 실패 (${response.status} ${method} ${path}): ${text.slice(0, 200)}`
+            );
+        }
+        return (await response.json()) as T;
+    }
+
+    /** 비동기 작업 완료 대기 */
+    async waitForTask(task: MeiliTask): Promise<void> {
+        const deadline = Date.now() + TASK_TIMEOUT_MS;
+        while (Date.now() < deadline) {
+            const status = await this.request<{ status: string; error?: { message?: string } }>(
+                'GET',
+                `/tasks/${task.taskUid}`
+            );
+            if (status.status === 'succeeded') return;
+            if (status.status === 'failed' || status.status === 'canceled') {
+                throw new Error(`Meilisearch 작업 실패: ${status.error?.message ?? status.status}`);
+            }
+            await new Promise((resolve) => setTimeout(resolve, TASK_POLL_MS));
+        }
+        throw new Error(`Meilisearch 작업 시간 초과 (task ${task.taskUid})`);
+    }
+
+    /** 인덱스 생성 (이미 있으면 무시) + 필터/정렬 설정 */
+    async prepareIndex(uid: string): Promise<void> {
+        try {
+            await this.request('GET', `/indexes/${uid}`);
+        } catch (error) {
+            if (!(error instanceof MeilisearchRequestError && error.status === 404)) throw error;
+            await this.waitForTask(
+                await this.request<MeiliTask>('POST', '/indexes', { uid, primaryKey: 'id' })
+            );
+        }
+        await this.waitForTask(
+            await this.request<MeiliTask>('PATCH', `/indexes/${uid}/settings`, INDEX_SETTINGS)
+        );
+    }
+
+    async deleteIndex(uid: string): Promise<void> {
+        try {
+            await this.waitForTask(await this.request<MeiliTask>('DELETE', `/indexes/${uid}`));
+        } catch (error) {
+            if (!(error instanceof MeilisearchRequestError && error.status === 404)) throw error;
+        }
+    }
+}
+
+class MeilisearchIndexer implements SearchIndexer {
+    private prepared: Promise<void> | null = null;
+
+    constructor(private readonly client: MeilisearchClient) {}
+
+    /** 프로세스당 한 번 인덱스 설정 보장 (실패하면 다음 호출에서 재시도) */
+    private ensureIndex(): Promise<void> {
+        this.prepared ??= this.client.prepareIndex(this.client.indexName).catch((error) => {
+            this.prepared = null;
+            throw error;
+        });
+        return this.prepared;
+    }
+
+    async upsert(documents: SearchDocument[]): Promise<void> {
+        if (documents.length === 0) return;
+        await this.ensureIndex();
+        await this.client.request(
+            'POST',
+            `/indexes/${this.client.indexName}/documents?primaryKey=id`,
+            documents.map(toMeiliDocument)
+        );
+    }
+
+    async remove(boardId: string, wrId: number, withComments: boolean): Promise<void> {
+        await this.ensureIndex();
+        const target = withComments
+            ? `(wr_id = ${wrId} OR wr_parent = ${wrId})`
+            : `wr_id = ${wrId}`;
+        await this.client.request('POST', `/indexes/${this.client.indexName}/documents/delete`, {
+            filter: `${boardFilter(boardId)} AND ${target}`
+        });
+    }
+
+    async rebuild(batches: AsyncIterable<SearchDocument[]>): Promise<number> {
+        const live = this.client.indexName;
+        const temp = `${live}_rebuild`;
+
+        await this.client.deleteIndex(temp);
+        await this.client.prepareIndex(temp);
+
+        let count = 0;
+        let lastTask: MeiliTask | null = null;
+        for await (const documents of batches) {
+            if (documents.length === 0) continue;
+            lastTask = await this.client.request<MeiliTask>(
+                'POST',
+                `/indexes/${temp}/documents?primaryKey=id`,
+                documents.map(toMeiliDocument)
+            );
+            count += documents.length;
+        }
+        if (lastTask) await this.client.waitForTask(lastTask);
+
+        await this.ensureIndex();
+        await this.client.waitForTask(
+            await this.client.request<MeiliTask>('POST', '/swap-indexes', [
+                { indexes: [live, temp] }
+            ])
+        );
+        await this.client.deleteIndex(temp);
+        return count;
+    }
+}
+
+export class MeilisearchProvider implements SearchProvider {
+    readonly id = 'meilisearch' as const;
+    readonly indexer: SearchIndexer;
+    private readonly client: MeilisearchClient;
+
+    constructor(config: SearchSettings['meilisearch']) {
+        this.client = new MeilisearchClient(config);
+        this.indexer = new MeilisearchIndexer(this.client);
+    }
+
+    searchBoard(
+        boardId: string,
+        field: PostSearchField,
+        options: SearchOptions
+    ): Promise<SearchResult> {
+        return this.run(FIELD_ATTRIBUTES[field], false, { ...options, boardId });
+    }
+
+    searchGlobal(field: PostSearchField, options: SearchOptions): Promise<SearchResult> {
+        return this.run(FIELD_ATTRIBUTES[field], false, options);
+    }
+
+    searchComments(options: ScopedSearchOptions): Promise<SearchResult> {
+        return this.run(FIELD_ATTRIBUTES.content, true, options);
+    }
+
+    searchAuthors(target: 'post' | 'comment', options: ScopedSearchOptions): Promise<SearchResult> {
+        return this.run(FIELD_ATTRIBUTES.author, target === 'comment', options);
+    }
+
+    private async run(
+        attributes: string[],
+        isComment: boolean,
+        options: ScopedSearchOptions
+    ): Promise<SearchResult> {
+        const filter = [`wr_is_comment = ${isComment ? 1 : 0}`];
+        if (options.boardId) filter.push(boardFilter(options.boardId));
+
+        try {
+            const result = await this.client.request<MeiliSearchResponse>(
+                'POST',
+                `/indexes/${this.client.indexName}/search`,
+                {
+                    q: options.query,
+                    filter,
+                    attributesToSearchOn: attributes,
+                    attributesToRetrieve: ['bo_table', 'wr_id', 'wr_parent'],
+                    matchingStrategy: 'all',
+                    offset: (options.page - 1) * options.limit,
+                    limit: options.limit,
+                    sort: options.sort === 'relevance' ? undefined : ['wr_datetime:desc']
+                },
+                SEARCH_TIMEOUT_MS
+            );
+            return {
+                hits: result.hits.map((hit) => ({
+                    boardId: hit.bo_table,
+                    wrId: hit.wr_id,
+                    wrParent: hit.wr_parent
+                })),
+                total: result.estimatedTotalHits ?? result.hits.length
+            };
+        } catch (error) {
+            // 아직 색인하지 않은 사이트
+            if (error instanceof MeilisearchRequestError && error.status === 404) {
+                return { hits: [], total: 0 };
+            }
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SearchDocument } from './provider';
+
+// 테이블명 → (bo_table:wr_id → 제목) 만 흉내 내는 MySQL 대역
+const tables = new Map<string, Map<string, string>>();
+const redisStore = new Map<string, string | string[]>();
+
+vi.mock('../db.js', () => {
+    const query = async (sql: string, params: unknown[] = []) => {
+        const create = sql.match(/CREATE TABLE IF NOT EXISTS (\w+)/);
+        if (create) {
+            if (!tables.has(create[1])) tables.set(create[1], new Map());
+        } else if (sql.startsWith('DROP TABLE')) {
+            tables.delete(sql.split(' ').pop()!);
+        } else if (sql.startsWith('RENAME TABLE')) {
+            for (const [, from, to] of sql.matchAll(/(\w+) TO (\w+)/g)) {
+                tables.set(to, tables.get(from)!);
+                tables.delete(from);
+            }
+        } else if (sql.trimStart().startsWith('INSERT INTO')) {
+            const table = tables.get(sql.match(/INSERT INTO (\w+)/)![1])!;
+            for (const row of params[0] as unknown[][])
+                table.set(`${row[0]}:${row[1]}`, String(row[6]));
+        } else if (sql.startsWith('DELETE FROM')) {
+            tables.get(sql.match(/DELETE FROM (\w+)/)![1])!.delete(`${params[0]}:${params[1]}`);
+        }
+        return [[]];
+    };
+    return { default: { query }, readPool: { query } };
+});
+
+vi.mock('../redis.js', () => ({
+    getRedis: () => ({
+        set: async (key: string, value: string) => redisStore.set(key, value),
+        exists: async (key: string) => (redisStore.has(key) ? 1 : 0),
+        expire: async () => 1,
+        del: async (...keys: string[]) => keys.forEach((key) => redisStore.delete(key)),
+        rpush: async (key: string, value: string) => {
+            const list = (redisStore.get(key) as string[] | undefined) ?? [];
+            list.push(value);
+            redisStore.set(key, list);
+        },
+        lpop: async (key: string, count: number) => {
+            const list = (redisStore.get(key) as string[] | undefined) ?? [];
+            return list.length > 0 ? list.splice(0, count) : null;
+        }
+    })
+}));
+
+import { buildBooleanQuery, MySqlSearchProvider } from './mysql-provider';
+
+describe('buildBooleanQuery', () => {
+    it('단어마다 필수 구문으로 변환', () => {
+        expect(buildBooleanQuery('맥북 프로')).toBe('+"맥북" +"프로"');
+        expect(buildBooleanQuery('  svelte   kit ')).toBe('+"svelte" +"kit"');
+    });
+
+    it('BOOLEAN MODE 연산자 제거', () => {
+        expect(buildBooleanQuery('-광고 +"특가" (a*) ~b @c <d>')).toBe(
+            '+"광고" +"특가" +"a" +"b" +"c" +"d"'
+        );
+    });
+
+    it('연산자만 있으면 빈 문자열', () => {
+        expect(buildBooleanQuery('+- "" **')).toBe('');
+    });
+});
+
+const doc = (wrId: number, subject: string): SearchDocument => ({
+    boardId: 'free',
+    wrId,
+    wrParent: wrId,
+    isComment: false,
+    mbId: 'user',
+    author: '회원',
+    subject,
+    content: '',
+    datetime: 1_700_000_000
+});
+
+describe('MySqlSearchIndexer.rebuild', () => {
+    it('재색인 중 들어온 실시간 변경을 교체 후 새 테이블에 다시 적용', async () => {
+        const indexer = new MySqlSearchProvider().indexer;
+        await indexer.upsert([doc(1, '옛 제목'), doc(2, '지울 글')]);
+
+        async function* batches() {
+            // 재색인이 글 1, 2를 읽은 뒤 실시간으로 수정·작성·삭제가 일어남
+            yield [doc(1, '옛 제목'), doc(2, '지울 글')];
+            await indexer.upsert([doc(1, '새 제목'), doc(3, '새 글')]);
+            await indexer.remove('free', 2, false);
+        }
+
+        expect(await indexer.rebuild(batches())).toBe(2);
+
+        const documents = tables.get('angple_search_documents')!;
+        expect(Object.fromEntries(documents)).toEqual({ 'free:1': '새 제목', 'free:3': '새 글' });
+        expect(tables.has('angple_search_documents_old')).toBe(false);
+        expect(redisStore.size).toBe(0);
+    });
+});
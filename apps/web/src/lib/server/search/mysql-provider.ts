@@ -0,0 +1,295 @@
+/**
+ * MySQL FULLTEXT 검색 Provider
+ *
+ * 모든 게시판의 글/댓글을 angple_search_documents 한 테이블에 모아 ngram 파서로 색인합니다.
+ * Sphinx 같은 별도 검색 서버가 없는 소규모 사이트용이며 MySQL 5.7.6 이상이 필요합니다.
+ * (ngram 토큰 크기는 서버 설정 ngram_token_size, 기본 2)
+ *
+ * 글 작성·수정·삭제는 /api/v1 프록시에서 바로 반영되고,
+ * 그 외 경로(레거시 PHP, DB 직접 수정)로 바뀐 글은 재색인으로 맞춥니다.
+ *
+ * 재색인은 새 테이블을 채운 뒤 RENAME으로 교체합니다. 그동안 들어온 실시간 변경은 기존 테이블에
+ * 반영되면서 Redis 목록에도 기록되고, 교체 직후 새 테이블에 다시 적용(replay)되어 사라지지 않습니다.
+ */
+import type { RowDataPacket } from 'mysql2';
+import pool, { readPool } from '../db.js';
+import { getRedis } from '../redis.js';
+import type {
+    PostSearchField,
+    ScopedSearchOptions,
+    SearchDocument,
+    SearchIndexer,
+    SearchOptions,
+    SearchProvider,
+    SearchResult
+} from './provider.js';
+
+const DOCUMENTS_TABLE = 'angple_search_documents';
+const REBUILD_TABLE = `${DOCUMENTS_TABLE}_rebuild`;
+const RETIRED_TABLE = `${DOCUMENTS_TABLE}_old`;
+
+/** 재색인 진행 표시 (모든 Pod가 실시간 변경을 기록할지 판단) */
+const REBUILD_FLAG_KEY = 'search:mysql:rebuilding';
+const REBUILD_FLAG_TTL_SEC = 10 * 60;
+/** 재색인 중 실시간 변경 기록 (교체 후 새 테이블에 다시 적용) */
+const REBUILD_LOG_KEY = 'search:mysql:rebuild-log';
+const REPLAY_BATCH_SIZE = 100;
+
+/** 재색인 중 기록하는 실시간 변경 */
+type LiveChange =
+    | { op: 'upsert'; documents: SearchDocument[] }
+    | { op: 'remove'; boardId: string; wrId: number; withComments: boolean };
+
+/** 검색 필드 → FULLTEXT 인덱스 컬럼 (MATCH 컬럼 목록은 인덱스와 정확히 같아야 함) */
+const FIELD_COLUMNS: Record<PostSearchField | 'author', string> = {
+    title: 'wr_subject',
+    content: 'wr_content',
+    title_content: 'wr_subject, wr_content',
+    author: 'mb_id, wr_name'
+};
+
+interface HitRow extends RowDataPacket {
+    bo_table: string;
+    wr_id: number;
+    wr_parent: number;
+}
+
+function tableDefinition(name: string): string {
+    return `
+        CREATE TABLE IF NOT EXISTS ${name} (
+            bo_table VARCHAR(20) NOT NULL,
+            wr_id INT NOT NULL,
+            wr_parent INT NOT NULL,
+            wr_is_comment TINYINT NOT NULL DEFAULT 0,
+            mb_id VARCHAR(20) NOT NULL DEFAULT '',
+            wr_name VARCHAR(255) NOT NULL DEFAULT '',
+            wr_subject VARCHAR(255) NOT NULL DEFAULT '',
+            wr_content MEDIUMTEXT NOT NULL,
+            wr_datetime DATETIME NOT NULL,
+            PRIMARY KEY (bo_table, wr_id),
+            INDEX idx_parent (bo_table, wr_parent),
+            INDEX idx_datetime (wr_is_comment, wr_datetime),
+            FULLTEXT INDEX ft_subject (wr_subject) WITH PARSER ngram,
+            FULLTEXT INDEX ft_content (wr_content) WITH PARSER ngram,
+            FULLTEXT INDEX ft_subject_content (wr_subject, wr_content) WITH PARSER ngram,
+            FULLTEXT INDEX ft_author (mb_id, wr_name) WITH PARSER ngram
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `;
+}
+
+let tableChecked = false;
+
+async function ensureTable(): Promise<void> {
+    if (tableChecked) return;
+    await pool.query(tableDefinition(DOCUMENTS_TABLE));
+    tableChecked = true;
+}
+
+/**
+ * 검색어 → BOOLEAN MODE 표현식
+ * 모든 단어를 필수(+) 구문으로 만들어 ngram 조각이 흩어진 문서가 걸리지 않게 합니다.
+ */
+export function buildBooleanQuery(query: string): string {
+    return query
+        .replace(/[+\-<>()~*"@]/g, ' ')
+        .split(/\s+/)
+        .filter(Boolean)
+        .map((token) => `+"${token}"`)
+        .join(' ');
+}
+
+function toRow(doc: SearchDocument): (string | number | Date)[] {
+    return [
+        doc.boardId,
+        doc.wrId,
+        doc.wrParent,
+        doc.isComment ? 1 : 0,
+        doc.mbId,
+        doc.author,
+        doc.subject,
+        doc.content,
+        new Date(doc.datetime * 1000)
+    ];
+}
+
+async function insertDocuments(table: string, documents: SearchDocument[]): Promise<void> {
+    if (documents.length === 0) return;
+    await pool.query(
+        `INSERT INTO ${table}
+             (bo_table, wr_id, wr_parent, wr_is_comment, mb_id, wr_name, wr_subject, wr_content, wr_datetime)
+         VALUES ?
+         ON DUPLICATE KEY UPDATE wr_parent = VALUES(wr_parent), wr_is_comment = VALUES(wr_is_comment),
+             mb_id = VALUES(mb_id), wr_name = VALUES(wr_name), wr_subject = VALUES(wr_subject),
+             wr_content = VALUES(wr_content), wr_datetime = VALUES(wr_datetime)`,
+        [documents.map(toRow)]
+    );
+}
+
+async function deleteDocuments(
+    boardId: string,
+    wrId: number,
+    withComments: boolean
+): Promise<void> {
+    await pool.query(
+        withComments
+            ? `DELETE FROM ${DOCUMENTS_TABLE} WHERE bo_table = ? AND (wr_id = ? OR wr_parent = ?)`
+            : `DELETE FROM ${DOCUMENTS_TABLE} WHERE bo_table = ? AND wr_id = ?`,
+        withComments ? [boardId, wrId, wrId] : [boardId, wrId]
+    );
+}
+
+async function applyChange(change: LiveChange): Promise<void> {
+    if (change.op === 'upsert') {
+        await insertDocuments(DOCUMENTS_TABLE, change.documents);
+    } else {
+        await deleteDocuments(change.boardId, change.wrId, change.withComments);
+    }
+}
+
+/**
+ * 재색인 중이면 변경을 기록
+ * 테이블에 쓰기 전에 기록하므로, 교체 전 기존 테이블에 반영된 변경은 모두 replay 대상이 됩니다.
+ * (Redis 장애 시 기록하지 않음 — 다음 재색인에서 맞춰짐)
+ */
+async function recordLiveChange(change: LiveChange): Promise<void> {
+    try {
+        const redis = getRedis();
+        if (await redis.exists(REBUILD_FLAG_KEY)) {
+            await redis.rpush(REBUILD_LOG_KEY, JSON.stringify(change));
+        }
+    } catch {
+        // 기록 실패는 실시간 색인을 막지 않음
+    }
+}
+
+/**
+ * 교체 후 재색인 중 기록된 변경을 새 테이블에 순서대로 적용
+ * 기록이 빌 때까지 적용한 뒤 진행 표시를 지우며, 그 이후 변경은 새 테이블에 바로 반영됩니다.
+ */
+async function replayLiveChanges(): Promise<number> {
+    const redis = getRedis();
+    let replayed = 0;
+    for (;;) {
+        const entries = await redis.lpop(REBUILD_LOG_KEY, REPLAY_BATCH_SIZE);
+        if (!entries || entries.length === 0) break;
+        for (const entry of entries) {
+            await applyChange(JSON.parse(entry) as LiveChange);
+        }
+        replayed += entries.length;
+    }
+    await redis.del(REBUILD_FLAG_KEY);
+    return replayed;
+}
+
+class MySqlSearchIndexer implements SearchIndexer {
+    async upsert(documents: SearchDocument[]): Promise<void> {
+        await ensureTable();
+        await recordLiveChange({ op: 'upsert', documents });
+        await insertDocuments(DOCUMENTS_TABLE, documents);
+    }
+
+    async remove(boardId: string, wrId: number, withComments: boolean): Promise<void> {
+        await ensureTable();
+        await recordLiveChange({ op: 'remove', boardId, wrId, withComments });
+        await deleteDocuments(boardId, wrId, withComments);
+    }
+
+    async rebuild(batches: AsyncIterable<SearchDocument[]>): Promise<number> {
+        await ensureTable();
+        await pool.query(`DROP TABLE IF EXISTS ${REBUILD_TABLE}`);
+        await pool.query(tableDefinition(REBUILD_TABLE));
+
+        const redis = getRedis();
+        await redis.del(REBUILD_LOG_KEY);
+        await redis.set(REBUILD_FLAG_KEY, '1', 'EX', REBUILD_FLAG_TTL_SEC);
+
+        try {
+            let count = 0;
+            for await (const documents of batches) {
+                await insertDocuments(REBUILD_TABLE, documents);
+                count += documents.length;
+                await redis.expire(REBUILD_FLAG_KEY, REBUILD_FLAG_TTL_SEC);
+            }
+
+            // 원자적 교체 후 재색인 중 들어온 변경 적용
+            await pool.query(`DROP TABLE IF EXISTS ${RETIRED_TABLE}`);
+            await pool.query(
+                `RENAME TABLE ${DOCUMENTS_TABLE} TO ${RETIRED_TABLE}, ${REBUILD_TABLE} TO ${DOCUMENTS_TABLE}`
+            );
+            const replayed = await replayLiveChanges();
+            if (replayed > 0) {
+                console.log(`[Search] 재색인 중 변경 ${replayed}건 다시 적용`);
+            }
+            await pool.query(`DROP TABLE ${RETIRED_TABLE}`);
+            return count;
+        } finally {
+            await redis.del(REBUILD_FLAG_KEY, REBUILD_LOG_KEY).catch(() => {});
+        }
+    }
+}
+
+export class MySqlSearchProvider implements SearchProvider {
+    readonly id = 'mysql' as const;
+    readonly indexer: SearchIndexer = new MySqlSearchIndexer();
+
+    searchBoard(
+        boardId: string,
+        field: PostSearchField,
+        options: SearchOptions
+    ): Promise<SearchResult> {
+        return this.run(FIELD_COLUMNS[field], false, { ...options, boardId });
+    }
+
+    searchGlobal(field: PostSearchField, options: SearchOptions): Promise<SearchResult> {
+        return this.run(FIELD_COLUMNS[field], false, options);
+    }
+
+    searchComments(options: ScopedSearchOptions): Promise<SearchResult> {
+        return this.run(FIELD_COLUMNS.content, true, options);
+    }
+
+    searchAuthors(target: 'post' | 'comment', options: ScopedSearchOptions): Promise<SearchResult> {
+        return this.run(FIELD_COLUMNS.author, target === 'comment', options);
+    }
+
+    private async run(
+        columns: string,
+        isComment: boolean,
+        options: ScopedSearchOptions
+    ): Promise<SearchResult> {
+        const against = buildBooleanQuery(options.query);
+        if (!against) return { hits: [], total: 0 };
+        await ensureTable();
+
+        const match = `MATCH(${columns}) AGAINST (? IN BOOLEAN MODE)`;
+        const conditions = [match, 'wr_is_comment = ?'];
+        const params: (string | number)[] = [against, isComment ? 1 : 0];
+        if (options.boardId) {
+            conditions.push('bo_table = ?');
+            params.push(options.boardId);
+        }
+        const where = conditions.join(' AND ');
+        const orderBy =
+            options.sort === 'relevance' ? 'score DESC, wr_datetime DESC' : 'wr_datetime DESC';
+
+        const [[rows], [countRows]] = await Promise.all([
+            readPool.query<HitRow[]>(
+                `SELECT bo_table, wr_id, wr_parent, ${match} AS score
+                 FROM ${DOCUMENTS_TABLE}
+                 WHERE ${where}
+                 ORDER BY ${orderBy}
+                 LIMIT ?, ?`,
+                [against, ...params, (options.page - 1) * options.limit, options.limit]
+            ),
+            readPool.query<RowDataPacket[]>(
+                `SELECT COUNT(*) AS total FROM ${DOCUMENTS_TABLE} WHERE ${where}`,
+                params
+            )
+        ]);
+
+        return {
+            hits: rows.map((r) => ({ boardId: r.bo_table, wrId: r.wr_id, wrParent: r.wr_parent })),
+            total: Number(countRows[0]?.total ?? 0)
+        };
+    }
+}
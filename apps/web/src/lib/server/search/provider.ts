@@ -0,0 +1,97 @@
+/**
+ * 검색 백엔드 Provider 인터페이스
+ *
+ * Sphinx, MySQL FULLTEXT, Meilisearch 등 검색 엔진을 추상화합니다.
+ * Provider는 게시글/댓글 ID만 반환하고, 제목·본문 등 표시 데이터는 호출 측이 DB에서 읽습니다.
+ */
+
+import type { SearchProviderId } from '$lib/types/admin-settings.js';
+
+/** 글 검색 대상 필드 */
+export type PostSearchField = 'title' | 'content' | 'title_content';
+
+export type SearchSort = 'date' | 'relevance';
+
+export interface SearchOptions {
+    query: string;
+    page: number;
+    limit: number;
+    sort?: SearchSort;
+}
+
+export interface ScopedSearchOptions extends SearchOptions {
+    /** 게시판 ID (없으면 전체 게시판) */
+    boardId?: string;
+}
+
+export interface SearchHit {
+    boardId: string;
+    wrId: number;
+    /** 댓글이면 원글 ID, 글이면 wrId와 같음 */
+    wrParent: number;
+}
+
+export interface SearchResult {
+    hits: SearchHit[];
+    total: number;
+}
+
+/** 색인 단위 (게시판 테이블의 글 또는 댓글 한 건) */
+export interface SearchDocument {
+    boardId: string;
+    wrId: number;
+    wrParent: number;
+    isComment: boolean;
+    mbId: string;
+    author: string;
+    subject: string;
+    /** HTML을 제거한 본문 (비밀글은 빈 문자열) */
+    content: string;
+    /** 작성 시각 (unix 초) */
+    datetime: number;
+}
+
+/**
+ * 색인 관리
+ * Sphinx처럼 외부 indexer가 색인을 관리하는 백엔드는 구현하지 않습니다.
+ */
+export interface SearchIndexer {
+    /** 문서 추가/갱신 */
+    upsert(documents: SearchDocument[]): Promise<void>;
+
+    /** 문서 삭제 (글을 지우면 댓글도 함께 삭제) */
+    remove(boardId: string, wrId: number, withComments: boolean): Promise<void>;
+
+    /**
+     * 전체 색인 재생성
+     * 새 색인을 채운 뒤 교체하므로 재생성 중에도 기존 색인으로 검색됩니다.
+     * @param batches 게시판별 문서 배치
+     * @returns 색인한 문서 수
+     */
+    rebuild(batches: AsyncIterable<SearchDocument[]>): Promise<number>;
+}
+
+export interface SearchProvider {
+    readonly id: SearchProviderId;
+
+    /** 게시판 안에서 글 검색 */
+    searchBoard(
+        boardId: string,
+        field: PostSearchField,
+        options: SearchOptions
+    ): Promise<SearchResult>;
+
+    /** 전체 게시판 글 검색 */
+    searchGlobal(field: PostSearchField, options: SearchOptions): Promise<SearchResult>;
+
+    /** 댓글 본문 검색 */
+    searchComments(options: ScopedSearchOptions): Promise<SearchResult>;
+
+    /**
+     * 작성자(회원 ID, 이름) 검색
+     * @param target 글 작성자 또는 댓글 작성자
+     */
+    searchAuthors(target: 'post' | 'comment', options: ScopedSearchOptions): Promise<SearchResult>;
+
+    readonly indexer?: SearchIndexer;
+}
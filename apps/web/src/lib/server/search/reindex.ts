@@ -0,0 +1,117 @@
+/**
+ * 검색 색인 재생성 작업
+ *
+ * 관리자 화면 또는 CLI(scripts/search-reindex.ts)에서 시작하며, 요청을 받은 Pod에서 백그라운드로 실행됩니다.
+ * Redis 락으로 동시에 하나만 실행하고, 진행 상태는 Redis에 기록해 어느 Pod에서든 조회할 수 있습니다.
+ */
+
+import type { SearchReindexStatus } from '$lib/types/admin-settings.js';
+import { getRedis } from '../redis.js';
+import { acquireRedisLock, type RedisLock } from '../redis-lock.js';
+import { listSearchableBoards, readBoardDocuments } from './documents.js';
+import { getSearchProvider } from './index.js';
+import type { SearchDocument } from './provider.js';
+
+const LOCK_KEY = 'search:reindex:lock';
+const LOCK_TTL_SEC = 10 * 60;
+const STATUS_KEY = 'search:reindex:status';
+const STATUS_TTL_SEC = 7 * 24 * 60 * 60;
+
+const IDLE_STATUS: SearchReindexStatus = {
+    state: 'idle',
+    provider: null,
+    boardsDone: 0,
+    boardsTotal: 0,
+    documents: 0,
+    startedAt: null,
+    finishedAt: null,
+    error: null
+};
+
+async function saveStatus(status: SearchReindexStatus): Promise<void> {
+    await getRedis().set(STATUS_KEY, JSON.stringify(status), 'EX', STATUS_TTL_SEC);
+}
+
+/** 마지막 재색인 상태 */
+export async function getSearchReindexStatus(): Promise<SearchReindexStatus> {
+    const raw = await getRedis().get(STATUS_KEY);
+    if (!raw) return IDLE_STATUS;
+    try {
+        return { ...IDLE_STATUS, ...(JSON.parse(raw) as Partial<SearchReindexStatus>) };
+    } catch {
+        return IDLE_STATUS;
+    }
+}
+
+/** 게시판을 차례로 읽으며 진행 상태를 갱신하고, 배치마다 락을 연장 (큰 게시판 하나가 TTL보다 오래 걸릴 수 있음) */
+async function* collectDocuments(
+    boards: string[],
+    status: SearchReindexStatus,
+    lock: RedisLock
+): AsyncGenerator<SearchDocument[]> {
+    for (const boardId of boards) {
+        try {
+            for await (const documents of readBoardDocuments(boardId)) {
+                status.documents += documents.length;
+                yield documents;
+                await lock.extend();
+            }
+        } catch (error) {
+            // 테이블이 없는 게시판은 건너뜀
+            console.error(`[Search] 재색인 게시판 건너뜀: ${boardId}`, error);
+        }
+        status.boardsDone++;
+        await saveStatus(status);
+        await lock.extend();
+    }
+}
+
+async function runReindex(status: SearchReindexStatus, lock: RedisLock): Promise<void> {
+    try {
+        const provider = await getSearchProvider();
+        if (!provider.indexer) {
+            throw new Error(`${provider.id} 검색 엔진은 외부 indexer가 색인을 관리합니다.`);
+        }
+
+        const boards = await listSearchableBoards();
+        status.boardsTotal = boards.length;
+        await saveStatus(status);
+
+        status.documents = await provider.indexer.rebuild(collectDocuments(boards, status, lock));
+        status.state = 'completed';
+        console.log(`[Search] 재색인 완료: ${provider.id}, 문서 ${status.documents}건`);
+    } catch (error) {
+        console.error('[Search] 재색인 실패:', error);
+        status.state = 'failed';
+        status.error = error instanceof Error ? error.message : String(error);
+    } finally {
+        status.finishedAt = Date.now();
+        await saveStatus(status).catch(() => {});
+        await lock.release().catch(() => {});
+    }
+}
+
+/**
+ * 재색인 시작 (완료를 기다리지 않음)
+ * @returns 시작한 작업 상태, 이미 실행 중이면 null
+ * @throws Error 현재 검색 엔진이 색인을 직접 관리하지 않는 경우
+ */
+export async function startSearchReindex(): Promise<SearchReindexStatus | null> {
+    const provider = await getSearchProvider();
+    if (!provider.indexer) {
+        throw new Error('현재 검색 엔진은 재색인을 지원하지 않습니다. (Sphinx는 indexer로 색인)');
+    }
+
+    const lock = await acquireRedisLock(LOCK_KEY, LOCK_TTL_SEC);
+    if (!lock) return null;
+
+    const status: SearchReindexStatus = {
+        ...IDLE_STATUS,
+        state: 'running',
+        provider: provider.id,
+        startedAt: Date.now()
+    };
+    await saveStatus(status);
+    void runReindex(status, lock);
+    return status;
+}
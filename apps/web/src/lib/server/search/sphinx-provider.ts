@@ -0,0 +1,157 @@
+/**
+ * Sphinx 검색 Provider (SphinxQL)
+ *
+ * - 게시판 검색: g5_write_{boardId}_dist 인덱스 (main + delta)
+ * - 전체 검색: all_boards_unified_dist 인덱스
+ *
+ * 인덱스는 외부 Sphinx indexer(cron)가 관리하므로 색인 기능(indexer)은 없습니다.
+ *
+ * NOTE: SphinxQL은 prepared statement를 지원하지 않으므로
+ *       pool.query()를 사용하고 MATCH 표현식은 수동 이스케이프.
+ */
+import type { RowDataPacket } from 'mysql2';
+import sphinxPool from '../sphinx.js';
+import type {
+    PostSearchField,
+    ScopedSearchOptions,
+    SearchOptions,
+    SearchProvider,
+    SearchResult
+} from './provider.js';
+
+interface SphinxSearchRow extends RowDataPacket {
+    bo_table?: string;
+    wr_id: number;
+    wr_parent: number;
+}
+
+interface SphinxMetaRow extends RowDataPacket {
+    Variable_name: string;
+    Value: string;
+}
+
+/** 검색 필드 (게시판 목록의 sfl 값과 동일) */
+type SphinxField = PostSearchField | 'author' | 'comment' | 'comment_author';
+
+const UNIFIED_INDEX = 'all_boards_unified_dist';
+
+/** SphinxQL MATCH용 특수문자 이스케이프 */
+export function escapeSphinxMatch(str: string): string {
+    return str.replace(/([\\()|\-!@~"&/^$=<>])/g, '\\$1');
+}
+
+/** CJK 문자 포함 여부 확인 (한글, 한자, 일본어) */
+export function containsCJK(s: string): boolean {
+    return /[\u4E00-\u9FFF\uAC00-\uD7AF\u3040-\u309F\u30A0-\u30FF]/.test(s);
+}
+
+/**
+ * 검색 필드별 Sphinx MATCH 표현식 생성
+ * CJK 토큰은 구문 검색("*token*")으로 인접 ngram 매칭 강제
+ */
+export function buildMatchExpr(query: string, field: string): string {
+    const escaped = escapeSphinxMatch(query);
+    const tokens = escaped.split(/\s+/).filter(Boolean);
+    const wildcarded = tokens
+        .map((t) => {
+            if (containsCJK(t) && [...t].length >= 2) {
+                return `"*${t}*"`;
+            }
+            return `*${t}*`;
+        })
+        .join(' ');
+
+    switch (field) {
+        case 'title':
+            return `@wr_subject ${wildcarded}`;
+        case 'content':
+            return `@wr_content ${wildcarded}`;
+        case 'author':
+            return `@(mb_id,wr_name) ${wildcarded}`;
+        case 'comment':
+            return `@wr_content ${wildcarded}`;
+        case 'comment_author':
+            return `@(mb_id,wr_name) ${wildcarded}`;
+        case 'title_content':
+        default:
+            return `@(wr_subject,wr_content) ${wildcarded}`;
+    }
+}
+
+export class SphinxSearchProvider implements SearchProvider {
+    readonly id = 'sphinx' as const;
+
+    searchBoard(
+        boardId: string,
+        field: PostSearchField,
+        options: SearchOptions
+    ): Promise<SearchResult> {
+        return this.run(field, false, { ...options, boardId });
+    }
+
+    searchGlobal(field: PostSearchField, options: SearchOptions): Promise<SearchResult> {
+        return this.run(field, false, options);
+    }
+
+    searchComments(options: ScopedSearchOptions): Promise<SearchResult> {
+        return this.run('comment', true, options);
+    }
+
+    searchAuthors(target: 'post' | 'comment', options: ScopedSearchOptions): Promise<SearchResult> {
+        return target === 'comment'
+            ? this.run('comment_author', true, options)
+            : this.run('author', false, options);
+    }
+
+    /**
+     * 게시판 인덱스는 보드마다 있을 수도, 없을 수도 있으므로 오류 시 빈 결과 (로그만)
+     * 전체 인덱스 오류는 호출 측에서 처리하도록 그대로 throw
+     */
+    private async run(
+        field: SphinxField,
+        isComment: boolean,
+        options: ScopedSearchOptions
+    ): Promise<SearchResult> {
+        const { boardId } = options;
+        if (boardId && !/^[a-zA-Z0-9_]+$/.test(boardId)) return { hits: [], total: 0 };
+
+        const safeMatch = buildMatchExpr(options.query, field).replace(/'/g, "\\'");
+        const offset = (options.page - 1) * options.limit;
+        const orderBy =
+            options.sort === 'relevance' ? 'WEIGHT() DESC, wr_datetime DESC' : 'wr_datetime DESC';
+        const indexName = boardId ? `g5_write_${boardId}_dist` : UNIFIED_INDEX;
+
+        const sphinxSql =
+            `SELECT ${boardId ? '' : 'bo_table, '}wr_id, wr_parent ` +
+            `FROM ${indexName} ` +
+            `WHERE MATCH('${safeMatch}') AND wr_is_comment = ${isComment ? 1 : 0} ` +
+            `ORDER BY ${orderBy} ` +
+            `LIMIT ${offset}, ${options.limit}` +
+            (boardId ? ` OPTION ranker=expr('sum(lcs*user_weight)*1000+bm25')` : '');
+
+        try {
+            const [rows] = await sphinxPool.query<SphinxSearchRow[]>(sphinxSql);
+
+            // SHOW META로 전체 결과 수 조회
+            const [metaRows] = await sphinxPool.query<SphinxMetaRow[]>('SHOW META');
+            const totalRow = metaRows.find((r) => r.Variable_name === 'total_found');
+            const total = totalRow ? parseInt(totalRow.Value, 10) : rows.length;
+
+            return {
+                hits: rows.map((r) => ({
+                    boardId: boardId ?? String(r.bo_table),
+                    wrId: r.wr_id,
+                    wrParent: r.wr_parent
+                })),
+                total
+            };
+        } catch (err) {
+            if (!boardId) throw err;
+            const msg = err instanceof Error ? err.message : String(err);
+            if (!msg.includes('ECONNREFUSED')) {
+                console.error(`Sphinx search error [${indexName}]:`, msg);
+            }
+            return { hits: [], total: 0 };
+        }
+    }
+}
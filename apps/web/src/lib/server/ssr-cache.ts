@@ -5,6 +5,8 @@
  * 해당 게시판 캐시를 무효화하기 위해 별도 모듈로 분리.
  */
 
+import { publishCacheInvalidation, registerCacheInvalidationHandler } from './cache-bus.js';
+
 /** 키: pathname → { body, timestamp } */
 export const ssrCache = new Map<string, { body: string; timestamp: number }>();
 
@@ -16,17 +18,26 @@ export const SSR_CACHE_TTL_BOARD = 30_000; // 게시판 목록 30초 (120초 →
 export const SSR_CACHE_TTL_POST = 60_000; // 글 상세 60초
 export const MAX_SSR_CACHE_SIZE = 500;
 
+const SSR_CACHE_NAME = 'ssr';
+
+registerCacheInvalidationHandler(SSR_CACHE_NAME, (invalidation) => {
+    if (invalidation.op === 'delete') {
+        for (const key of invalidation.keys) ssrCache.delete(key);
+    } else {
+        ssrCache.clear();
+    }
+});
+
 /**
- * 게시판 관련 캐시 무효화
+ * 게시판 관련 캐시 무효화 (모든 Pod에 전파)
  * 글 작성/수정/삭제 시 호출하여 해당 게시판 목록 + 홈 캐시를 즉시 제거
  */
 export function invalidateBoardCache(boardId: string, postId?: number): void {
-    // 게시판 목록 캐시 제거
-    ssrCache.delete(`/${boardId}`);
-    // 홈 캐시 제거 (새 글이 홈에도 표시되므로)
-    ssrCache.delete('/');
-    // 글 상세 캐시 제거
+    // 게시판 목록, 홈(새 글이 홈에도 표시되므로), 글 상세
+    const keys = [`/${boardId}`, '/'];
     if (postId) {
-        ssrCache.delete(`/${boardId}/${postId}`);
+        keys.push(`/${boardId}/${postId}`);
     }
+    for (const key of keys) ssrCache.delete(key);
+    publishCacheInvalidation({ cache: SSR_CACHE_NAME, op: 'delete', keys }).catch(() => {});
 }
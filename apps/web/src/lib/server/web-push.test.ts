@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    createDecipheriv,
+    createECDH,
+    createPublicKey,
+    hkdfSync,
+    randomBytes,
+    verify
+} from 'node:crypto';
+
+vi.mock('$env/dynamic/private', () => ({ env: {} }));
+
+import {
+    base64UrlDecode,
+    base64UrlEncode,
+    createVapidAuthorization,
+    encryptPayload,
+    type VapidKeys
+} from './web-push';
+
+/** 브라우저(UA) 쪽 복호화 — RFC 8291 */
+function decrypt(body: Buffer, uaPrivate: ReturnType<typeof createECDH>, authSecret: Buffer) {
+    const salt = body.subarray(0, 16);
+    const idLength = body.readUInt8(20);
+    const asPublic = body.subarray(21, 21 + idLength);
+    const ciphertext = body.subarray(21 + idLength);
+
+    const ecdhSecret = uaPrivate.computeSecret(asPublic);
+    const keyInfo = Buffer.concat([
+        Buffer.from('WebPush: info\0'),
+        uaPrivate.getPublicKey(),
+        asPublic
+    ]);
+    const ikm = Buffer.from(hkdfSync('sha256', ecdhSecret, authSecret, keyInfo, 32));
+    const cek = Buffer.from(
+        hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16)
+    );
+    const nonce = Buffer.from(
+        hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12)
+    );
+
+    const decipher = createDecipheriv('aes-128-gcm', cek, nonce);
+    decipher.setAuthTag(ciphertext.subarray(-16));
+    const plaintext = Buffer.concat([
+        decipher.update(ciphertext.subarray(0, -16)),
+        decipher.final()
+    ]);
+    // 마지막 바이트는 레코드 구분자 0x02
+    expect(plaintext.at(-1)).toBe(2);
+    return plaintext.subarray(0, -1).toString();
+}
+
+describe('web push', () => {
+    it('구독 키로 암호화한 페이로드를 브라우저가 복호화', () => {
+        const ua = createECDH('prime256v1');
+        ua.generateKeys();
+        const authSecret = randomBytes(16);
+
+        const body = encryptPayload(
+            {
+                endpoint: 'https://push.example.com/abc',
+                keys: {
+                    p256dh: base64UrlEncode(ua.getPublicKey()),
+                    auth: base64UrlEncode(authSecret)
+                }
+            },
+            '{"title":"알림"}'
+        );
+
+        expect(body.readUInt32BE(16)).toBe(4096);
+        expect(decrypt(body, ua, authSecret)).toBe('{"title":"알림"}');
+    });
+
+    it('VAPID JWT는 푸시 서비스 origin을 aud로 하고 공개키로 검증됨', () => {
+        const server = createECDH('prime256v1');
+        server.generateKeys();
+        const keys: VapidKeys = {
+            publicKey: base64UrlEncode(server.getPublicKey()),
+            privateKey: base64UrlEncode(server.getPrivateKey()),
+            subject: 'mailto:admin@example.com'
+        };
+
+        const header = createVapidAuthorization('https://fcm.googleapis.com/fcm/send/x', keys);
+        const [, token, publicKey] = header.match(/^vapid t=([^,]+), k=(.+)$/)!;
+        expect(publicKey).toBe(keys.publicKey);
+
+        const [h, p, s] = token.split('.');
+        expect(JSON.parse(base64UrlDecode(p).toString())).toMatchObject({
+            aud: 'https://fcm.googleapis.com',
+            sub: 'mailto:admin@example.com'
+        });
+
+        const raw = server.getPublicKey();
+        const verifyKey = createPublicKey({
+            key: {
+                kty: 'EC',
+                crv: 'P-256',
+                x: base64UrlEncode(raw.subarray(1, 33)),
+                y: base64UrlEncode(raw.subarray(33, 65))
+            },
+            format: 'jwk'
+        });
+        const valid = verify(
+            'sha256',
+            Buffer.from(`${h}.${p}`),
+            { key: verifyKey, dsaEncoding: 'ieee-p1363' },
+            base64UrlDecode(s)
+        );
+        expect(valid).toBe(true);
+    });
+});
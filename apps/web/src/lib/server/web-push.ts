@@ -0,0 +1,177 @@
+/**
+ * Web Push 프로토콜 (VAPID + aes128gcm 페이로드 암호화)
+ *
+ * - RFC 8292: VAPID — 서버 키로 서명한 JWT를 Authorization 헤더로 전달
+ * - RFC 8291: 구독의 p256dh/auth 키로 페이로드 암호화 (Content-Encoding: aes128gcm)
+ *
+ * 환경변수:
+ *   VAPID_PUBLIC_KEY  — P-256 공개키 (비압축 65바이트, base64url)
+ *   VAPID_PRIVATE_KEY — P-256 개인키 (32바이트, base64url)
+ *   VAPID_SUBJECT     — 연락처 (mailto: 또는 https: URL)
+ */
+
+import {
+    createCipheriv,
+    createECDH,
+    createPrivateKey,
+    hkdfSync,
+    randomBytes,
+    sign,
+    type KeyObject
+} from 'node:crypto';
+import { env } from '$env/dynamic/private';
+
+/** 브라우저 PushSubscription.toJSON() 형식 */
+export interface PushSubscriptionKeys {
+    endpoint: string;
+    keys: { p256dh: string; auth: string };
+}
+
+export interface VapidKeys {
+    publicKey: string;
+    privateKey: string;
+    subject: string;
+}
+
+export interface WebPushOptions {
+    /** 푸시 서비스 보관 시간 (초) — 기기가 오프라인이면 이 시간 안에 전달 */
+    ttl?: number;
+    urgency?: 'very-low' | 'low' | 'normal' | 'high';
+    /** 같은 topic의 미전달 메시지는 최신 것으로 교체 */
+    topic?: string;
+}
+
+/** 푸시 서비스 응답 — 404/410이면 구독 만료 */
+export interface WebPushResult {
+    status: number;
+    expired: boolean;
+}
+
+const RECORD_SIZE = 4096;
+const DEFAULT_TTL_SEC = 86_400;
+const JWT_EXPIRY_SEC = 12 * 60 * 60;
+const PUSH_TIMEOUT_MS = 10_000;
+
+export function base64UrlEncode(buffer: Buffer | Uint8Array): string {
+    return Buffer.from(buffer).toString('base64url');
+}
+
+export function base64UrlDecode(value: string): Buffer {
+    return Buffer.from(value, 'base64url');
+}
+
+/** 환경변수의 VAPID 키 (미설정이면 null — 웹 푸시 비활성) */
+export function getVapidKeys(): VapidKeys | null {
+    const publicKey = env.VAPID_PUBLIC_KEY || '';
+    const privateKey = env.VAPID_PRIVATE_KEY || '';
+    if (!publicKey || !privateKey) return null;
+    return { publicKey, privateKey, subject: env.VAPID_SUBJECT || 'mailto:admin@localhost' };
+}
+
+function vapidSigningKey(keys: VapidKeys): KeyObject {
+    const publicKey = base64UrlDecode(keys.publicKey);
+    return createPrivateKey({
+        key: {
+            kty: 'EC',
+            crv: 'P-256',
+            d: keys.privateKey,
+            x: base64UrlEncode(publicKey.subarray(1, 33)),
+            y: base64UrlEncode(publicKey.subarray(33, 65))
+        },
+        format: 'jwk'
+    });
+}
+
+/** VAPID Authorization 헤더 값 (aud는 푸시 서비스 origin) */
+export function createVapidAuthorization(endpoint: string, keys: VapidKeys): string {
+    const header = base64UrlEncode(Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+    const payload = base64UrlEncode(
+        Buffer.from(
+            JSON.stringify({
+                aud: new URL(endpoint).origin,
+                exp: Math.floor(Date.now() / 1000) + JWT_EXPIRY_SEC,
+                sub: keys.subject
+            })
+        )
+    );
+    const unsigned = `${header}.${payload}`;
+    const signature = sign('sha256', Buffer.from(unsigned), {
+        key: vapidSigningKey(keys),
+        dsaEncoding: 'ieee-p1363'
+    });
+    return `vapid t=${unsigned}.${base64UrlEncode(signature)}, k=${keys.publicKey}`;
+}
+
+function hkdf(ikm: Buffer, salt: Buffer, info: Buffer, length: number): Buffer {
+    return Buffer.from(hkdfSync('sha256', ikm, salt, info, length));
+}
+
+/**
+ * 페이로드 암호화 (단일 레코드)
+ * 본문: salt(16) | rs(4) | idlen(1) | 서버 임시 공개키(65) | 암호문+태그
+ */
+export function encryptPayload(subscription: PushSubscriptionKeys, payload: string): Buffer {
+    const uaPublic = base64UrlDecode(subscription.keys.p256dh);
+    const authSecret = base64UrlDecode(subscription.keys.auth);
+
+    const ecdh = createECDH('prime256v1');
+    const asPublic = ecdh.generateKeys();
+    const ecdhSecret = ecdh.computeSecret(uaPublic);
+
+    const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), uaPublic, asPublic]);
+    const ikm = hkdf(ecdhSecret, authSecret, keyInfo, 32);
+
+    const salt = randomBytes(16);
+    const cek = hkdf(ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+    const nonce = hkdf(ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+    // 마지막 레코드 구분자 0x02
+    const plaintext = Buffer.concat([Buffer.from(payload), Buffer.from([2])]);
+    if (plaintext.length + 16 > RECORD_SIZE) {
+        throw new Error('푸시 페이로드가 너무 큽니다.');
+    }
+
+    const cipher = createCipheriv('aes-128-gcm', cek, nonce);
+    const ciphertext = Buffer.concat([
+        cipher.update(plaintext),
+        cipher.final(),
+        cipher.getAuthTag()
+    ]);
+
+    const header = Buffer.alloc(21);
+    salt.copy(header, 0);
+    header.writeUInt32BE(RECORD_SIZE, 16);
+    header.writeUInt8(asPublic.length, 20);
+
+    return Buffer.concat([header, asPublic, ciphertext]);
+}
+
+/** 푸시 메시지 전송 (네트워크 오류는 throw) */
+export async function sendWebPush(
+    subscription: PushSubscriptionKeys,
+    payload: string,
+    keys: VapidKeys,
+    options: WebPushOptions = {}
+): Promise<WebPushResult> {
+    const headers: Record<string, string> = {
+        Authorization: createVapidAuthorization(subscription.endpoint, keys),
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        TTL: String(options.ttl ?? DEFAULT_TTL_SEC),
+        Urgency: options.urgency ?? 'normal'
+    };
+    if (options.topic) headers.Topic = options.topic;
+
+    const response = await fetch(subscription.endpoint, {
+        method: 'POST',
+        headers,
+        body: new Uint8Array(encryptPayload(subscription, payload)),
+        signal: AbortSignal.timeout(PUSH_TIMEOUT_MS)
+    });
+    await response.body?.cancel();
+
+    return {
+        status: response.status,
+        expired: response.status === 404 || response.status === 410
+    };
+}
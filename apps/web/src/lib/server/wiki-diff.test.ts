@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { diffHtml, diffSequences, tokenizeHtml } from './wiki-diff';
+
+describe('tokenizeHtml', () => {
+    it('태그·단어·공백으로 나누고 다시 이으면 원문', () => {
+        const source = '<p>안녕 <b>위키앙</b>&nbsp;세상</p>';
+        const tokens = tokenizeHtml(source);
+        expect(tokens).toEqual(['<p>', '안녕', ' ', '<b>', '위키앙', '</b>', '&nbsp;세상', '</p>']);
+        expect(tokens.join('')).toBe(source);
+    });
+});
+
+describe('diffSequences', () => {
+    it('공통 부분은 equal, 나머지는 delete/insert', () => {
+        expect(diffSequences(['a', 'b', 'c', 'd'], ['a', 'x', 'c', 'd', 'e'])).toEqual([
+            { type: 'equal', items: ['a'] },
+            { type: 'delete', items: ['b'] },
+            { type: 'insert', items: ['x'] },
+            { type: 'equal', items: ['c', 'd'] },
+            { type: 'insert', items: ['e'] }
+        ]);
+    });
+});
+
+describe('diffHtml', () => {
+    it('바뀐 단어만 표시하고 같은 블록은 그대로', () => {
+        const diff = diffHtml(
+            '<p>하나</p><p>빠른 갈색 여우</p>',
+            '<p>하나</p><p>느린 갈색 여우</p>'
+        );
+        expect(diff.inline).toBe(
+            '<p>하나</p><p><del class="diff-del">빠른</del><ins class="diff-ins">느린</ins> 갈색 여우</p>'
+        );
+        expect(diff.old).toBe('<p>하나</p><p><del class="diff-del">빠른</del> 갈색 여우</p>');
+        expect(diff.new).toBe('<p>하나</p><p><ins class="diff-ins">느린</ins> 갈색 여우</p>');
+        expect(diff).toMatchObject({ added: 1, removed: 1 });
+    });
+
+    it('태그는 <ins>/<del> 밖에 두고, 통째로 삭제된 블록은 블록 모양 유지', () => {
+        const diff = diffHtml('<p>남김</p><p>지울 문단</p>', '<p>남김</p>');
+        expect(diff.inline).toBe('<p>남김</p><p><del class="diff-del">지울 문단</del></p>');
+        expect(diff.new).toBe('<p>남김</p>');
+        expect(diff.removed).toBe(2);
+
+        const added = diffHtml('<p>a</p>', '<p>a <b>굵게</b></p>');
+        expect(added.inline).toBe('<p>a <b><ins class="diff-ins">굵게</ins></b></p>');
+    });
+});
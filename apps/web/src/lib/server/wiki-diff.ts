@@ -0,0 +1,190 @@
+/**
+ * 위키 리비전 비교 (단어 단위, HTML 인식)
+ *
+ * 블록(문단, 제목, 목록 항목 등) 단위로 먼저 비교한 뒤, 바뀐 블록 구간만 단어 단위로 다시 비교합니다.
+ * 태그는 하나의 토큰으로 다뤄 <ins>/<del>이 태그 구조를 깨뜨리지 않게 합니다.
+ * - inline: 새 판 구조에 삭제 단어(<del>)와 추가 단어(<ins>)를 함께 표시
+ * - old / new: 나란히 보기용 (이전 판에는 <del>, 새 판에는 <ins>만 표시)
+ * 입력은 신뢰하는 문서 HTML이며, 결과는 그대로 {@html}로 출력합니다.
+ */
+import { splitBlocks } from '$lib/server/wiki-merge';
+
+export interface DiffOp<T> {
+    type: 'equal' | 'insert' | 'delete';
+    items: T[];
+}
+
+export interface HtmlDiff {
+    inline: string;
+    old: string;
+    new: string;
+    /** 추가된 단어 수 */
+    added: number;
+    /** 삭제된 단어 수 */
+    removed: number;
+}
+
+/** 이보다 큰 구간은 LCS 계산 없이 통째로 삭제·추가로 표시 */
+const MAX_DP_CELLS = 4_000_000;
+
+const TOKEN = /<[^>]*>|[^\s<]+|\s+/g;
+
+function isTag(token: string): boolean {
+    return token.startsWith('<');
+}
+
+function isWord(token: string): boolean {
+    return !isTag(token) && token.trim().length > 0;
+}
+
+/** HTML → 토큰 (태그, 단어, 공백) */
+export function tokenizeHtml(html: string): string[] {
+    return (html || '').match(TOKEN) ?? [];
+}
+
+function pushOp<T>(ops: DiffOp<T>[], type: DiffOp<T>['type'], items: T[]): void {
+    if (items.length === 0) return;
+    const last = ops[ops.length - 1];
+    if (last?.type === type) last.items.push(...items);
+    else ops.push({ type, items: [...items] });
+}
+
+/**
+ * 두 수열의 차이 (최장 공통 부분 수열 기준)
+ * 앞뒤 공통 부분은 DP 없이 처리합니다.
+ */
+export function diffSequences<T>(a: T[], b: T[]): DiffOp<T>[] {
+    const ops: DiffOp<T>[] = [];
+
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    pushOp(ops, 'equal', a.slice(0, start));
+
+    const n = endA - start;
+    const m = endB - start;
+    if (n === 0 || m === 0 || n * m > MAX_DP_CELLS) {
+        pushOp(ops, 'delete', a.slice(start, endA));
+        pushOp(ops, 'insert', b.slice(start, endB));
+    } else {
+        // lengths[i][j] = a[start+i..endA), b[start+j..endB)의 LCS 길이
+        const lengths = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lengths[i][j] =
+                    a[start + i] === b[start + j]
+                        ? lengths[i + 1][j + 1] + 1
+                        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+            }
+        }
+
+        let i = 0;
+        let j = 0;
+        while (i < n && j < m) {
+            if (a[start + i] === b[start + j]) {
+                pushOp(ops, 'equal', [a[start + i]]);
+                i++;
+                j++;
+            } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+                pushOp(ops, 'delete', [a[start + i]]);
+                i++;
+            } else {
+                pushOp(ops, 'insert', [b[start + j]]);
+                j++;
+            }
+        }
+        pushOp(ops, 'delete', a.slice(start + i, endA));
+        pushOp(ops, 'insert', b.slice(start + j, endB));
+    }
+
+    pushOp(ops, 'equal', a.slice(endA));
+    return ops;
+}
+
+/**
+ * 바뀐 토큰을 <ins>/<del>로 감싸기
+ * 연속된 단어·공백은 한 번에 감싸고, 태그는 keepTags일 때만 그대로 남깁니다.
+ */
+function markTokens(tokens: string[], tag: 'ins' | 'del', keepTags: boolean): string {
+    let html = '';
+    let run = '';
+    const flush = () => {
+        if (run.trim()) html += `<${tag} class="diff-${tag}">${run}</${tag}>`;
+        else html += run;
+        run = '';
+    };
+
+    for (const token of tokens) {
+        if (isTag(token)) {
+            flush();
+            if (keepTags) html += token;
+        } else {
+            run += token;
+        }
+    }
+    flush();
+    return html;
+}
+
+function countWords(tokens: string[]): number {
+    return tokens.filter(isWord).length;
+}
+
+/**
+ * 두 판의 HTML 비교
+ */
+export function diffHtml(oldHtml: string, newHtml: string): HtmlDiff {
+    const result: HtmlDiff = { inline: '', old: '', new: '', added: 0, removed: 0 };
+    const blockOps = diffSequences(splitBlocks(oldHtml), splitBlocks(newHtml));
+
+    for (let index = 0; index < blockOps.length; index++) {
+        const op = blockOps[index];
+        if (op.type === 'equal') {
+            const html = op.items.join('');
+            result.inline += html;
+            result.old += html;
+            result.new += html;
+            continue;
+        }
+
+        // 연속된 삭제·추가 블록을 한 구간으로 묶어 단어 단위 비교
+        const removedBlocks: string[] = [];
+        const addedBlocks: string[] = [];
+        while (index < blockOps.length && blockOps[index].type !== 'equal') {
+            const changed = blockOps[index];
+            (changed.type === 'delete' ? removedBlocks : addedBlocks).push(...changed.items);
+            index++;
+        }
+        index--;
+
+        // 블록이 통째로 삭제된 구간은 인라인 보기에서도 블록 모양을 유지
+        const keepDeletedTags = addedBlocks.length === 0;
+        const tokenOps = diffSequences(
+            tokenizeHtml(removedBlocks.join('')),
+            tokenizeHtml(addedBlocks.join(''))
+        );
+        for (const tokenOp of tokenOps) {
+            if (tokenOp.type === 'equal') {
+                const html = tokenOp.items.join('');
+                result.inline += html;
+                result.old += html;
+                result.new += html;
+            } else if (tokenOp.type === 'delete') {
+                result.inline += markTokens(tokenOp.items, 'del', keepDeletedTags);
+                result.old += markTokens(tokenOp.items, 'del', true);
+                result.removed += countWords(tokenOp.items);
+            } else {
+                result.inline += markTokens(tokenOp.items, 'ins', true);
+                result.new += markTokens(tokenOp.items, 'ins', true);
+                result.added += countWords(tokenOp.items);
+            }
+        }
+    }
+    return result;
+}
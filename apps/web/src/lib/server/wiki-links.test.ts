@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('$lib/server/db', () => ({ default: {}, pool: {}, readPool: {} }));
+
+import {
+    collectLinkTargets,
+    normalizeWikiPath,
+    parseRedirectTarget,
+    parseWikiLinks,
+    renderWikiLinks,
+    replaceLinkTarget
+} from './wiki-links';
+
+describe('normalizeWikiPath', () => {
+    it('앞뒤 슬래시·공백 정리, 절(#) 제거', () => {
+        expect(normalizeWikiPath(' 위키앙/ 소개 #역사')).toBe('/위키앙/소개');
+        expect(normalizeWikiPath('/a//b/')).toBe('/a/b');
+        expect(normalizeWikiPath('Tom &amp; Jerry')).toBe('/Tom & Jerry');
+    });
+
+    it('비어 있거나 너무 길면 null', () => {
+        expect(normalizeWikiPath(' / ')).toBeNull();
+        expect(normalizeWikiPath('#절만')).toBeNull();
+        expect(normalizeWikiPath('가'.repeat(300))).toBeNull();
+    });
+});
+
+describe('parseWikiLinks', () => {
+    it('대상·표시 이름·절 추출', () => {
+        expect(parseWikiLinks('<p>[[소개]]와 [[위키앙/규칙#편집|편집 규칙]]</p>')).toEqual([
+            { path: '/소개', fragment: null, label: '소개' },
+            { path: '/위키앙/규칙', fragment: '편집', label: '편집 규칙' }
+        ]);
+    });
+
+    it('기록 대상은 중복·특수 문서 제외', () => {
+        expect(collectLinkTargets('[[A]] [[A|에이]] [[Special:Random]] [[B]]')).toEqual([
+            '/A',
+            '/B'
+        ]);
+    });
+});
+
+describe('renderWikiLinks', () => {
+    it('있는 문서는 링크, 없는 문서는 편집 화면 빨간 링크', () => {
+        const html = renderWikiLinks('[[있음|보기]] [[없음]]', new Set(['/있음']));
+        expect(html).toBe(
+            '<a href="/wiki/%EC%9E%88%EC%9D%8C" class="wiki-link">보기</a> ' +
+                '<a href="/wiki/%EC%97%86%EC%9D%8C/edit" class="wiki-link wiki-link-new" title="문서 만들기: 없음">없음</a>'
+        );
+    });
+
+    it('특수 문서는 항상 링크', () => {
+        expect(renderWikiLinks('[[Special:Random|아무 문서]]', new Set())).toBe(
+            '<a href="/wiki/Special%3ARandom" class="wiki-link">아무 문서</a>'
+        );
+    });
+});
+
+describe('replaceLinkTarget', () => {
+    it('대상만 바꾸고 표시 이름·절 유지', () => {
+        expect(
+            replaceLinkTarget(
+                '[[옛 문서]] [[옛 문서#절|여기]] [[다른 문서]]',
+                '/옛 문서',
+                '/새 문서'
+            )
+        ).toBe('[[새 문서|옛 문서]] [[새 문서#절|여기]] [[다른 문서]]');
+    });
+});
+
+describe('parseRedirectTarget', () => {
+    it('본문 첫머리의 넘겨주기 (HTML 문단 포함)', () => {
+        expect(parseRedirectTarget('#넘겨주기 [[새 문서]]')).toBe('/새 문서');
+        expect(parseRedirectTarget('<p>#REDIRECT [[위키앙/소개|소개]]</p>')).toBe('/위키앙/소개');
+        expect(parseRedirectTarget('<p>#redirect[[A#절]]</p>')).toBe('/A');
+    });
+
+    it('첫머리가 아니거나 내용이 없으면 null', () => {
+        expect(parseRedirectTarget('<p>본문</p><p>#넘겨주기 [[A]]</p>')).toBeNull();
+        expect(parseRedirectTarget(null)).toBeNull();
+    });
+});
@@ -0,0 +1,305 @@
+/**
+ * 위키 내부 링크 (wikiang_links)
+ *
+ * 본문의 [[문서]], [[문서|표시 이름]], [[문서#절]] 링크를 저장 시 리비전별로 기록합니다.
+ * - is_current: 문서 최신 판의 링크 (여기를 가리키는 문서, 필요한 문서 집계용)
+ * - 특수 문서(Special:) 링크는 기록하지 않습니다.
+ *
+ * 넘겨주기 문서는 본문이 "#넘겨주기 [[대상]]"(또는 #REDIRECT)으로 시작하는 문서입니다.
+ */
+import type { PoolConnection, RowDataPacket } from 'mysql2/promise';
+import { readPool, pool } from '$lib/server/db';
+import type { PaginatedResult, WikiPageSummary } from '$lib/server/wiki';
+
+const LINKS_TABLE = 'wikiang_links';
+const PATH_MAX = 255;
+
+/** [[대상]] 또는 [[대상|표시 이름]] */
+const WIKI_LINK = /\[\[([^[\]|]+?)(?:\|([^[\]]*?))?\]\]/g;
+
+/** 본문 첫머리의 #넘겨주기 [[대상]] (에디터 HTML이면 첫 문단 안) */
+const REDIRECT = /^\s*(?:<p[^>]*>\s*)?#(?:넘겨주기|REDIRECT)\s*\[\[([^[\]|]+?)(?:\|[^[\]]*)?\]\]/i;
+
+export interface WikiLink {
+    /** 정규화된 문서 경로 (/로 시작) */
+    path: string;
+    /** 절 이름 (# 뒤) */
+    fragment: string | null;
+    /** 표시 이름 (없으면 대상 그대로) */
+    label: string;
+}
+
+export interface WantedPage {
+    path: string;
+    /** 이 문서를 가리키는 문서 수 */
+    link_count: number;
+}
+
+let tableChecked = false;
+
+/**
+ * 링크 테이블 생성
+ * DDL은 암묵적 커밋을 일으키므로 트랜잭션 시작 전에 호출합니다.
+ */
+export async function ensureWikiLinksTable(): Promise<void> {
+    if (tableChecked) return;
+
+    await pool.query(`
+        CREATE TABLE IF NOT EXISTS ${LINKS_TABLE} (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            page_id INT NOT NULL,
+            revision_id INT NOT NULL,
+            target_path VARCHAR(${PATH_MAX}) NOT NULL,
+            is_current TINYINT NOT NULL DEFAULT 1,
+            UNIQUE KEY uniq_revision_target (revision_id, target_path),
+            INDEX idx_target (target_path, is_current),
+            INDEX idx_page (page_id, is_current)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+    tableChecked = true;
+}
+
+function decodeEntities(text: string): string {
+    return text
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+function escapeAttribute(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/"/g, '&quot;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+}
+
+/**
+ * 링크 대상 → 문서 경로 (/문서/하위)
+ * @returns 경로가 비었거나 너무 길면 null
+ */
+export function normalizeWikiPath(target: string): string | null {
+    const path = decodeEntities(target)
+        .split('#')[0]
+        .replace(/\s+/g, ' ')
+        .split('/')
+        .map((segment) => segment.trim())
+        .filter(Boolean)
+        .join('/');
+    if (!path || path.length >= PATH_MAX) return null;
+    return `/${path}`;
+}
+
+function parseLink(target: string, label: string | undefined): WikiLink | null {
+    const path = normalizeWikiPath(target);
+    if (!path) return null;
+    const hashIndex = target.indexOf('#');
+    const fragment = hashIndex >= 0 ? decodeEntities(target.slice(hashIndex + 1)).trim() : '';
+    return { path, fragment: fragment || null, label: label?.trim() || target.trim() };
+}
+
+/** 본문의 내부 링크 목록 (등장 순서) */
+export function parseWikiLinks(content: string): WikiLink[] {
+    const links: WikiLink[] = [];
+    for (const match of (content || '').matchAll(WIKI_LINK)) {
+        const link = parseLink(match[1], match[2]);
+        if (link) links.push(link);
+    }
+    return links;
+}
+
+function isSpecialPath(path: string): boolean {
+    return path.startsWith('/Special:');
+}
+
+/** 기록할 링크 대상 경로 (중복·특수 문서 제외) */
+export function collectLinkTargets(content: string): string[] {
+    const paths = parseWikiLinks(content)
+        .map((link) => link.path)
+        .filter((path) => !isSpecialPath(path));
+    return [...new Set(paths)];
+}
+
+/**
+ * 넘겨주기 대상 경로
+ * @returns 넘겨주기 문서가 아니면 null
+ */
+export function parseRedirectTarget(content: string | null): string | null {
+    const match = (content || '').match(REDIRECT);
+    return match ? normalizeWikiPath(match[1]) : null;
+}
+
+/** 넘겨주기 문서 본문 (content_raw용 텍스트, HTML은 <p>로 감싸 사용) */
+export function buildRedirectContent(targetPath: string): string {
+    return `#넘겨주기 [[${targetPath.slice(1)}]]`;
+}
+
+/** 문서 경로 → /wiki 주소 (한글 경로 인코딩) */
+export function wikiHref(path: string): string {
+    return `/wiki${path.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * [[링크]] → <a> 변환 (보기 화면)
+ * 없는 문서는 "문서 만들기" 빨간 링크(wiki-link-new)로 편집 화면에 연결합니다.
+ */
+export function renderWikiLinks(content: string, existingPaths: Set<string>): string {
+    return (content || '').replace(WIKI_LINK, (source, target: string, label?: string) => {
+        const link = parseLink(target, label);
+        if (!link) return source;
+
+        const exists = isSpecialPath(link.path) || existingPaths.has(link.path);
+        if (!exists) {
+            return `<a href="${wikiHref(link.path)}/edit" class="wiki-link wiki-link-new" title="문서 만들기: ${escapeAttribute(link.path.slice(1))}">${link.label}</a>`;
+        }
+        const hash = link.fragment ? `#${encodeURIComponent(link.fragment)}` : '';
+        return `<a href="${wikiHref(link.path)}${hash}" class="wiki-link">${link.label}</a>`;
+    });
+}
+
+/**
+ * 특정 문서를 가리키는 링크 대상 바꾸기 (문서 이동 후)
+ * 표시 이름과 절(#)은 유지하고, 표시 이름이 없던 링크는 원래 이름을 표시 이름으로 남깁니다.
+ */
+export function replaceLinkTarget(content: string, fromPath: string, toPath: string): string {
+    return (content || '').replace(WIKI_LINK, (source, target: string, label?: string) => {
+        if (normalizeWikiPath(target) !== fromPath) return source;
+        const hashIndex = target.indexOf('#');
+        const fragment = hashIndex >= 0 ? target.slice(hashIndex) : '';
+        const display = label ?? target;
+        return `[[${toPath.slice(1)}${fragment}|${display}]]`;
+    });
+}
+
+/**
+ * 리비전의 링크 기록 (createWikiPage / updateWikiPage 트랜잭션 안에서 호출)
+ * 이전 판의 링크는 is_current = 0으로 남겨 이력을 보존합니다.
+ */
+export async function recordRevisionLinks(
+    connection: PoolConnection,
+    pageId: number,
+    revisionId: number,
+    content: string
+): Promise<void> {
+    await connection.execute(
+        `UPDATE ${LINKS_TABLE} SET is_current = 0 WHERE page_id = ? AND is_current = 1`,
+        [pageId]
+    );
+
+    const targets = collectLinkTargets(content);
+    if (targets.length === 0) return;
+    await connection.query(
+        `INSERT IGNORE INTO ${LINKS_TABLE} (page_id, revision_id, target_path) VALUES ?`,
+        [targets.map((path) => [pageId, revisionId, path])]
+    );
+}
+
+/** 링크 대상 중 실제로 있는 문서 경로 */
+export async function getExistingWikiPaths(paths: string[]): Promise<Set<string>> {
+    const candidates = [...new Set(paths)].filter((path) => !isSpecialPath(path));
+    if (candidates.length === 0) return new Set();
+
+    const [rows] = await readPool.query<RowDataPacket[]>(
+        `SELECT path FROM wikiang_pages WHERE is_published = 1 AND path IN (?)`,
+        [candidates]
+    );
+    return new Set(rows.map((row) => row.path as string));
+}
+
+/**
+ * 여기를 가리키는 문서 (최신 판 기준)
+ */
+export async function getBacklinks(
+    path: string,
+    offset: number = 0,
+    limit: number = 50
+): Promise<PaginatedResult<WikiPageSummary>> {
+    const safeOffset = Math.max(0, Math.floor(offset));
+    const safeLimit = Math.max(1, Math.min(200, Math.floor(limit)));
+    await ensureWikiLinksTable();
+
+    const [[countRows], [rows]] = await Promise.all([
+        readPool.execute<RowDataPacket[]>(
+            `SELECT COUNT(*) as total
+             FROM ${LINKS_TABLE} l
+             JOIN wikiang_pages p ON p.id = l.page_id AND p.is_published = 1
+             WHERE l.target_path = ? AND l.is_current = 1`,
+            [path]
+        ),
+        readPool.query<RowDataPacket[]>(
+            `SELECT p.id, p.path, p.title, p.description, p.updated_at
+             FROM ${LINKS_TABLE} l
+             JOIN wikiang_pages p ON p.id = l.page_id AND p.is_published = 1
+             WHERE l.target_path = ? AND l.is_current = 1
+             ORDER BY p.title ASC
+             LIMIT ${safeLimit} OFFSET ${safeOffset}`,
+            [path]
+        )
+    ]);
+
+    const total = Number(countRows[0]?.total ?? 0);
+    return {
+        items: rows as WikiPageSummary[],
+        total,
+        offset: safeOffset,
+        limit: safeLimit,
+        hasMore: safeOffset + rows.length < total
+    };
+}
+
+/**
+ * 필요한 문서 (링크는 있지만 아직 없는 문서, 가리키는 문서가 많은 순)
+ */
+export async function getWantedPages(
+    offset: number = 0,
+    limit: number = 50
+): Promise<PaginatedResult<WantedPage>> {
+    const safeOffset = Math.max(0, Math.floor(offset));
+    const safeLimit = Math.max(1, Math.min(200, Math.floor(limit)));
+    await ensureWikiLinksTable();
+
+    const wanted = `
+        FROM ${LINKS_TABLE} l
+        JOIN wikiang_pages src ON src.id = l.page_id AND src.is_published = 1
+        LEFT JOIN wikiang_pages dst ON dst.path = l.target_path AND dst.is_published = 1
+        WHERE l.is_current = 1 AND dst.id IS NULL`;
+
+    const [[countRows], [rows]] = await Promise.all([
+        readPool.query<RowDataPacket[]>(`SELECT COUNT(DISTINCT l.target_path) as total ${wanted}`),
+        readPool.query<RowDataPacket[]>(
+            `SELECT l.target_path AS path, COUNT(DISTINCT l.page_id) AS link_count
+             ${wanted}
+             GROUP BY l.target_path
+             ORDER BY link_count DESC, l.target_path ASC
+             LIMIT ${safeLimit} OFFSET ${safeOffset}`
+        )
+    ]);
+
+    const total = Number(countRows[0]?.total ?? 0);
+    return {
+        items: rows.map((row) => ({ path: row.path, link_count: Number(row.link_count) })),
+        total,
+        offset: safeOffset,
+        limit: safeLimit,
+        hasMore: safeOffset + rows.length < total
+    };
+}
+
+/**
+ * 특정 문서를 가리키는 문서 경로 (링크 바꾸기 대상, writer에서 조회)
+ */
+export async function getLinkingPagePaths(path: string, limit: number): Promise<string[]> {
+    await ensureWikiLinksTable();
+    const [rows] = await pool.query<RowDataPacket[]>(
+        `SELECT DISTINCT p.path
+         FROM ${LINKS_TABLE} l
+         JOIN wikiang_pages p ON p.id = l.page_id
+         WHERE l.target_path = ? AND l.is_current = 1
+         LIMIT ?`,
+        [path, limit]
+    );
+    return rows.map((row) => row.path as string);
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+    diff3Merge,
+    hasConflictMarkers,
+    htmlToText,
+    mergeWikiContent,
+    splitBlocks
+} from './wiki-merge';
+
+const html = (...blocks: string[]) => blocks.map((b) => `<p>${b}</p>`).join('');
+
+describe('splitBlocks', () => {
+    it('블록 닫는 태그 뒤에서 나누고 다시 이으면 원문', () => {
+        const source = '<h2>제목</h2><p>첫째</p><ul><li>항목</li></ul><hr><p>끝</p>';
+        const blocks = splitBlocks(source);
+        expect(blocks).toEqual([
+            '<h2>제목</h2>',
+            '<p>첫째</p>',
+            '<ul><li>항목</li>',
+            '</ul>',
+            '<hr>',
+            '<p>끝</p>'
+        ]);
+        expect(blocks.join('')).toBe(source);
+    });
+});
+
+describe('diff3Merge', () => {
+    it('서로 다른 블록을 고치면 충돌 없이 병합', () => {
+        const chunks = diff3Merge(['a', 'b', 'c'], ['A', 'b', 'c'], ['a', 'b', 'C']);
+        expect(chunks).toEqual([{ type: 'ok', blocks: ['A', 'b', 'C'] }]);
+    });
+
+    it('양쪽이 같은 블록을 다르게 고치면 충돌', () => {
+        const chunks = diff3Merge(['a', 'b', 'c'], ['a', 'X', 'c'], ['a', 'Y', 'c']);
+        expect(chunks).toEqual([
+            { type: 'ok', blocks: ['a'] },
+            { type: 'conflict', mine: ['X'], base: ['b'], theirs: ['Y'] },
+            { type: 'ok', blocks: ['c'] }
+        ]);
+    });
+
+    it('양쪽이 똑같이 고치면 한 번만 반영', () => {
+        expect(diff3Merge(['a', 'b'], ['a', 'B'], ['a', 'B'])).toEqual([
+            { type: 'ok', blocks: ['a', 'B'] }
+        ]);
+    });
+
+    it('한쪽 삭제와 다른 쪽 추가를 함께 반영', () => {
+        const chunks = diff3Merge(['a', 'b', 'c'], ['a', 'c'], ['a', 'b', 'c', 'd']);
+        expect(chunks).toEqual([{ type: 'ok', blocks: ['a', 'c', 'd'] }]);
+    });
+});
+
+describe('mergeWikiContent', () => {
+    it('깨끗한 병합', () => {
+        const result = mergeWikiContent(
+            html('하나', '둘', '셋'),
+            html('하나!', '둘', '셋'),
+            html('하나', '둘', '셋', '넷'),
+            '판 3'
+        );
+        expect(result).toEqual({ content: html('하나!', '둘', '셋', '넷'), conflicts: 0 });
+    });
+
+    it('충돌 구간을 표시 문단으로 감쌈', () => {
+        const result = mergeWikiContent(
+            html('하나', '둘'),
+            html('하나', '내 둘'),
+            html('하나', '남의 둘'),
+            '판 3'
+        );
+        expect(result.conflicts).toBe(1);
+        expect(result.content).toBe(
+            html(
+                '하나',
+                '&lt;&lt;&lt;&lt;&lt;&lt;&lt; 내 편집',
+                '내 둘',
+                '=======',
+                '남의 둘',
+                '&gt;&gt;&gt;&gt;&gt;&gt;&gt; 판 3'
+            )
+        );
+    });
+});
+
+describe('htmlToText', () => {
+    it('블록마다 줄바꿈, 태그 제거, 엔티티 복원', () => {
+        expect(htmlToText('<h2>제목</h2><p>a &amp; <b>b</b></p><p>c&lt;d</p>')).toBe(
+            '제목\na & b\nc<d'
+        );
+    });
+});
+
+describe('hasConflictMarkers', () => {
+    it('병합본의 충돌 표시 문단을 찾음', () => {
+        const { content } = mergeWikiContent(html('a'), html('b'), html('c'), '판 2');
+        expect(hasConflictMarkers(content)).toBe(true);
+    });
+
+    it('표시 문단이 하나만 남아도 충돌로 봄', () => {
+        expect(hasConflictMarkers(html('하나', '=======', '둘'))).toBe(true);
+        expect(hasConflictMarkers(html('&gt;&gt;&gt;&gt;&gt;&gt;&gt; 판 3'))).toBe(true);
+    });
+
+    it('문장 중간의 같은 문자열은 무시', () => {
+        expect(hasConflictMarkers(html('하나', '둘'))).toBe(false);
+        expect(hasConflictMarkers(html('a ======= b', 'x &lt;&lt;&lt;&lt;&lt;&lt;&lt; y'))).toBe(
+            false
+        );
+    });
+});
@@ -0,0 +1,198 @@
+/**
+ * 위키 동시 편집 3-way 병합
+ *
+ * 편집을 시작한 판(base), 내 편집(mine), 그 사이 저장된 최신 판(theirs)을 블록 단위로 병합합니다.
+ * 에디터(Tiptap) HTML은 줄바꿈 없이 저장되므로 블록 태그(문단, 제목, 목록 항목 등) 경계로 나눕니다.
+ * 양쪽이 같은 블록을 다르게 고친 부분은 충돌 표시(<<<<<<< / ======= / >>>>>>>) 문단으로 감싸
+ * 편집자에게 돌려줍니다.
+ */
+
+/** 충돌 표시 (에디터에서 텍스트 문단으로 보임) */
+export const CONFLICT_MARKERS = {
+    mine: '<<<<<<<',
+    separator: '=======',
+    theirs: '>>>>>>>'
+} as const;
+
+export type MergeChunk =
+    | { type: 'ok'; blocks: string[] }
+    | { type: 'conflict'; mine: string[]; base: string[]; theirs: string[] };
+
+export interface MergeResult {
+    content: string;
+    /** 충돌 구간 수 (0이면 자동 병합 완료) */
+    conflicts: number;
+}
+
+/** 블록 닫는 태그 또는 줄바꿈 뒤에서 분리 */
+const BLOCK_BOUNDARY =
+    /(?<=<\/(?:p|h[1-6]|li|ul|ol|blockquote|pre|table|figure|div)>|<hr\s*\/?>|\n)/i;
+
+/** HTML → 블록 목록 (빈 블록 제외, 원래 문자열로 다시 이어 붙일 수 있음) */
+export function splitBlocks(html: string): string[] {
+    if (!html) return [];
+    return html.split(BLOCK_BOUNDARY).filter((block) => block.length > 0);
+}
+
+/**
+ * 최장 공통 부분 수열 대응 (a 인덱스 → b 인덱스)
+ * 앞뒤 공통 부분은 DP 없이 바로 대응시킵니다.
+ */
+function matchBlocks(a: string[], b: string[]): Map<number, number> {
+    const matches = new Map<number, number>();
+
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+        matches.set(start, start);
+        start++;
+    }
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+        matches.set(endA, endB);
+    }
+
+    const n = endA - start;
+    const m = endB - start;
+    if (n === 0 || m === 0) return matches;
+
+    // lengths[i][j] = a[start+i..endA), b[start+j..endB)의 LCS 길이
+    const lengths = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lengths[i][j] =
+                a[start + i] === b[start + j]
+                    ? lengths[i + 1][j + 1] + 1
+                    : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (a[start + i] === b[start + j]) {
+            matches.set(start + i, start + j);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return matches;
+}
+
+function sameBlocks(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((block, i) => block === b[i]);
+}
+
+/**
+ * 블록 목록 3-way 병합
+ * base 블록이 양쪽 모두에 남아 있는 지점을 기준으로 구간을 나누고,
+ * 한쪽만 바뀐 구간은 바뀐 쪽을, 양쪽이 다르게 바뀐 구간은 충돌로 둡니다.
+ */
+export function diff3Merge(base: string[], mine: string[], theirs: string[]): MergeChunk[] {
+    const toMine = matchBlocks(base, mine);
+    const toTheirs = matchBlocks(base, theirs);
+    const chunks: MergeChunk[] = [];
+
+    const pushOk = (blocks: string[]) => {
+        if (blocks.length === 0) return;
+        const last = chunks[chunks.length - 1];
+        if (last?.type === 'ok') last.blocks.push(...blocks);
+        else chunks.push({ type: 'ok', blocks: [...blocks] });
+    };
+
+    let i = 0;
+    let j = 0;
+    let k = 0;
+    for (;;) {
+        let stable = i;
+        while (stable < base.length && !(toMine.has(stable) && toTheirs.has(stable))) stable++;
+
+        const mineEnd = stable < base.length ? toMine.get(stable)! : mine.length;
+        const theirsEnd = stable < base.length ? toTheirs.get(stable)! : theirs.length;
+        const baseSeg = base.slice(i, stable);
+        const mineSeg = mine.slice(j, mineEnd);
+        const theirsSeg = theirs.slice(k, theirsEnd);
+
+        if (sameBlocks(mineSeg, baseSeg)) pushOk(theirsSeg);
+        else if (sameBlocks(theirsSeg, baseSeg) || sameBlocks(mineSeg, theirsSeg)) pushOk(mineSeg);
+        else chunks.push({ type: 'conflict', mine: mineSeg, base: baseSeg, theirs: theirsSeg });
+
+        if (stable >= base.length) break;
+        pushOk([base[stable]]);
+        i = stable + 1;
+        j = mineEnd + 1;
+        k = theirsEnd + 1;
+    }
+    return chunks;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * 문서 본문(HTML) 3-way 병합
+ * @param theirsLabel 충돌 표시에 붙일 최신 판 설명 (예: "판 12")
+ */
+export function mergeWikiContent(
+    base: string,
+    mine: string,
+    theirs: string,
+    theirsLabel: string
+): MergeResult {
+    const chunks = diff3Merge(splitBlocks(base), splitBlocks(mine), splitBlocks(theirs));
+    let conflicts = 0;
+
+    const content = chunks
+        .map((chunk) => {
+            if (chunk.type === 'ok') return chunk.blocks.join('');
+            conflicts++;
+            return [
+                `<p>${escapeHtml(`${CONFLICT_MARKERS.mine} 내 편집`)}</p>`,
+                ...chunk.mine,
+                `<p>${CONFLICT_MARKERS.separator}</p>`,
+                ...chunk.theirs,
+                `<p>${escapeHtml(`${CONFLICT_MARKERS.theirs} ${theirsLabel}`)}</p>`
+            ].join('');
+        })
+        .join('');
+
+    return { content, conflicts };
+}
+
+/**
+ * 본문(HTML)에 충돌 표시 줄이 남아 있는지
+ * mergeWikiContent가 만든 표시 문단(<<<<<<< …, =======, >>>>>>> …) 중 하나라도 있으면 true
+ */
+export function hasConflictMarkers(html: string): boolean {
+    return htmlToText(html)
+        .split('\n')
+        .map((line) => line.trim())
+        .some(
+            (line) =>
+                line.startsWith(CONFLICT_MARKERS.mine) ||
+                line === CONFLICT_MARKERS.separator ||
+                line.startsWith(CONFLICT_MARKERS.theirs)
+        );
+}
+
+/** 병합된 HTML → 검색용 본문 텍스트 (content_raw) */
+export function htmlToText(html: string): string {
+    return html
+        .replace(/<\/(p|h[1-6]|li|blockquote|pre|div|tr)>|<br\s*\/?>/gi, '$&\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
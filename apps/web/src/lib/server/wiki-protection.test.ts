@@ -0,0 +1,21 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('$lib/server/db', () => ({ default: {}, pool: {}, readPool: {} }));
+
+import { canEditWikiPage, WIKI_ADMIN_LEVEL } from './wiki-protection';
+
+describe('canEditWikiPage', () => {
+    it('보호 없는 문서는 모두 편집 가능', () => {
+        expect(canEditWikiPage(null, 1)).toBe(true);
+    });
+
+    it('보호 레벨 이상만 편집 가능', () => {
+        expect(canEditWikiPage({ edit_level: 5 }, 4)).toBe(false);
+        expect(canEditWikiPage({ edit_level: 5 }, 5)).toBe(true);
+    });
+
+    it('관리자 전용 문서는 관리자만, 관리자는 언제나 편집 가능', () => {
+        expect(canEditWikiPage({ edit_level: WIKI_ADMIN_LEVEL }, 9)).toBe(false);
+        expect(canEditWikiPage({ edit_level: WIKI_ADMIN_LEVEL }, WIKI_ADMIN_LEVEL)).toBe(true);
+    });
+});
@@ -0,0 +1,89 @@
+/**
+ * 위키 문서 보호 (wikiang_page_protection)
+ *
+ * 문서별로 편집할 수 있는 최소 회원 레벨을 정합니다.
+ * - edit_level이 WIKI_ADMIN_LEVEL이면 관리자 전용 문서
+ * - 관리자는 보호와 관계없이 편집 가능
+ * - 문서 ID 기준이므로 문서를 이동해도 보호 설정이 따라갑니다.
+ */
+import type { RowDataPacket } from 'mysql2/promise';
+import { pool } from '$lib/server/db';
+
+const PROTECTION_TABLE = 'wikiang_page_protection';
+
+/** 관리자 레벨 (보호 설정 권한, 관리자 전용 보호 단계) */
+export const WIKI_ADMIN_LEVEL = 10;
+
+export interface WikiPageProtection {
+    page_id: number;
+    /** 편집 가능 최소 레벨 (WIKI_ADMIN_LEVEL = 관리자 전용) */
+    edit_level: number;
+    reason: string | null;
+    updated_by: number | null;
+    updated_at: Date;
+}
+
+let tableChecked = false;
+
+async function ensureTable(): Promise<void> {
+    if (tableChecked) return;
+
+    await pool.query(`
+        CREATE TABLE IF NOT EXISTS ${PROTECTION_TABLE} (
+            page_id INT PRIMARY KEY,
+            edit_level TINYINT NOT NULL,
+            reason VARCHAR(255) NULL,
+            updated_by INT NULL,
+            updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+    tableChecked = true;
+}
+
+/** 보호 설정이 편집을 허용하는지 (보호 없음 = 로그인 회원 모두) */
+export function canEditWikiPage(
+    protection: Pick<WikiPageProtection, 'edit_level'> | null,
+    userLevel: number
+): boolean {
+    if (userLevel >= WIKI_ADMIN_LEVEL) return true;
+    return !protection || userLevel >= protection.edit_level;
+}
+
+/**
+ * 문서 보호 설정 조회
+ * 편집 권한 판정에 쓰이므로 복제 지연이 없는 writer에서 조회합니다.
+ */
+export async function getPageProtection(pageId: number): Promise<WikiPageProtection | null> {
+    await ensureTable();
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        `SELECT page_id, edit_level, reason, updated_by, updated_at
+         FROM ${PROTECTION_TABLE} WHERE page_id = ? LIMIT 1`,
+        [pageId]
+    );
+    return rows.length > 0 ? (rows[0] as WikiPageProtection) : null;
+}
+
+/**
+ * 문서 보호 설정 (editLevel이 null이면 보호 해제)
+ */
+export async function setPageProtection(
+    pageId: number,
+    editLevel: number | null,
+    updatedBy: number,
+    reason: string | null = null
+): Promise<void> {
+    await ensureTable();
+
+    if (editLevel === null) {
+        await pool.execute(`DELETE FROM ${PROTECTION_TABLE} WHERE page_id = ?`, [pageId]);
+        return;
+    }
+
+    await pool.execute(
+        `INSERT INTO ${PROTECTION_TABLE} (page_id, edit_level, reason, updated_by)
+         VALUES (?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE edit_level = VALUES(edit_level), reason = VALUES(reason),
+                                 updated_by = VALUES(updated_by)`,
+        [pageId, editLevel, reason, updatedBy]
+    );
+}
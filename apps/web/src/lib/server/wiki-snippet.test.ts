@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { buildSnippet, extractSearchTerms, highlightTerms, stripWikiMarkup } from './wiki-snippet';
+
+describe('extractSearchTerms', () => {
+    it('연산자 제거, 소문자·중복 제거', () => {
+        expect(extractSearchTerms('+Svelte  "svelte" -킷')).toEqual(['svelte', '킷']);
+        expect(extractSearchTerms('  ** ')).toEqual([]);
+    });
+});
+
+describe('stripWikiMarkup', () => {
+    it('HTML·마크다운·위키 링크 제거', () => {
+        expect(
+            stripWikiMarkup(
+                '# 제목\n\n<p>**굵게** 와 [링크](https://a.b) 그리고 [[문서|표시]]</p>\n- 항목'
+            )
+        ).toBe('제목 굵게 와 링크 그리고 표시 항목');
+    });
+});
+
+describe('highlightTerms', () => {
+    it('대소문자 무시하고 강조, 나머지는 이스케이프', () => {
+        expect(highlightTerms('<b>Svelte</b> & svelteKit', ['svelte'])).toBe(
+            '&lt;b&gt;<mark>Svelte</mark>&lt;/b&gt; &amp; <mark>svelte</mark>Kit'
+        );
+    });
+
+    it('긴 검색어를 먼저 일치', () => {
+        expect(highlightTerms('맥북프로', ['맥북', '맥북프로'])).toBe('<mark>맥북프로</mark>');
+    });
+});
+
+describe('buildSnippet', () => {
+    it('검색어 주변을 잘라 앞뒤 생략 표시', () => {
+        const raw = `${'가'.repeat(300)} 검색어 ${'나'.repeat(300)}`;
+        const snippet = buildSnippet(raw, ['검색어'], 100)!;
+        expect(snippet.startsWith('…')).toBe(true);
+        expect(snippet.endsWith('…')).toBe(true);
+        expect(snippet).toContain('<mark>검색어</mark>');
+    });
+
+    it('본문에 검색어가 없으면 앞부분', () => {
+        expect(buildSnippet('짧은 본문', ['없음'])).toBe('짧은 본문');
+    });
+
+    it('본문이 비어 있으면 null', () => {
+        expect(buildSnippet(null, ['a'])).toBeNull();
+        expect(buildSnippet('<p> </p>', ['a'])).toBeNull();
+    });
+});
@@ -0,0 +1,92 @@
+/**
+ * 위키 검색 결과 스니펫
+ *
+ * 문서 원문(markdown / html / wikitext)에서 마크업을 걷어내고
+ * 검색어가 처음 나오는 부분을 잘라 <mark>로 강조합니다.
+ * 반환값은 이스케이프된 HTML이므로 그대로 {@html}로 출력할 수 있습니다.
+ */
+
+const SNIPPET_LENGTH = 200;
+/** 검색어 앞에 남길 문맥 길이 */
+const LEADING_CONTEXT = 60;
+
+const HTML_ESCAPES: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;'
+};
+
+function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, (ch) => HTML_ESCAPES[ch]);
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** 검색어 → 강조할 단어 목록 (BOOLEAN MODE 연산자 제거, 중복 제거) */
+export function extractSearchTerms(query: string): string[] {
+    const terms = query
+        .replace(/[+\-<>()~*"@]/g, ' ')
+        .split(/\s+/)
+        .filter(Boolean);
+    return [...new Set(terms.map((term) => term.toLowerCase()))];
+}
+
+/** 마크업 제거 후 공백 정리 */
+export function stripWikiMarkup(raw: string): string {
+    return raw
+        .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1') // [텍스트](링크), ![대체](이미지)
+        .replace(/\[\[(?:[^\]|]*\|)?([^\]]*)\]\]/g, '$1') // [[문서|표시]]
+        .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+        .replace(/[`*_~]{1,3}|'{2,3}|={2,}/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/** 본문에서 검색어를 <mark>로 감싼 HTML */
+export function highlightTerms(text: string, terms: string[]): string {
+    if (terms.length === 0) return escapeHtml(text);
+
+    const pattern = new RegExp(
+        `(${[...terms]
+            .sort((a, b) => b.length - a.length)
+            .map(escapeRegExp)
+            .join('|')})`,
+        'gi'
+    );
+    return text
+        .split(pattern)
+        .map((part, i) => (i % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part)))
+        .join('');
+}
+
+/**
+ * 검색어 주변 스니펫
+ * 검색어가 본문에 없으면(제목·설명에서만 일치) 본문 앞부분을 사용합니다.
+ */
+export function buildSnippet(
+    raw: string | null,
+    terms: string[],
+    length: number = SNIPPET_LENGTH
+): string | null {
+    const text = stripWikiMarkup(raw ?? '');
+    if (!text) return null;
+
+    const lower = text.toLowerCase();
+    const positions = terms.map((term) => lower.indexOf(term)).filter((pos) => pos >= 0);
+    const first = positions.length > 0 ? Math.min(...positions) : 0;
+
+    let start = Math.max(0, first - LEADING_CONTEXT);
+    const end = Math.min(text.length, start + length);
+    start = Math.max(0, end - length);
+
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < text.length ? '…' : '';
+    return `${prefix}${highlightTerms(text.slice(start, end), terms)}${suffix}`;
+}
@@ -3,10 +3,26 @@
  *
  * Sprint 1: 전체 API 계층 완성
  * - 페이지 조회, 리비전 조회/비교, 카테고리/태그, 검색
+ * - 검색: ngram FULLTEXT (migrations/002_wikiang_fulltext.sql)
+ * - 문서 이동: 리비전 유지, 옛 경로에 넘겨주기 문서 남김
+ * - 되돌리기, 사용자 기여 목록
  */
 import type { RowDataPacket, ResultSetHeader } from 'mysql2';
+import type { PoolConnection } from 'mysql2/promise';
 import { readPool, pool } from '$lib/server/db';
 import { createCache } from '$lib/server/cache';
+import { buildBooleanQuery } from '$lib/server/search/mysql-provider';
+import { buildSnippet, extractSearchTerms } from '$lib/server/wiki-snippet';
+import { hasConflictMarkers, htmlToText, mergeWikiContent } from '$lib/server/wiki-merge';
+import {
+    ensureWikiLinksTable,
+    getLinkingPagePaths,
+    recordRevisionLinks,
+    buildRedirectContent,
+    parseRedirectTarget,
+    replaceLinkTarget
+} from '$lib/server/wiki-links';
+import { canEditWikiPage, getPageProtection } from '$lib/server/wiki-protection';
 
 // ============================================
 // 타입 정의
@@ -23,6 +39,8 @@ export interface WikiPage {
     author_id: number | null;
     created_at: Date;
     updated_at: Date;
+    /** 넘겨주기를 따라 도착했을 때 출발한 문서 경로 */
+    redirected_from?: string | null;
 }
 
 export interface WikiRevision {
@@ -71,11 +89,40 @@ export interface WikiSearchResult {
     path: string;
     title: string;
     description: string | null;
+    /** 검색어 주변 본문 (이스케이프된 HTML, 검색어는 <mark>) */
     snippet: string | null;
     updated_at: Date;
     score: number;
 }
 
+export interface WikiRevisionSearchResult {
+    revision_id: number;
+    page_id: number;
+    path: string;
+    title: string;
+    version_number: number;
+    version_date: Date;
+    comment: string | null;
+    author_name: string | null;
+    /** 검색어 주변 본문 (이스케이프된 HTML, 검색어는 <mark>) */
+    snippet: string | null;
+    score: number;
+}
+
+/** 사용자 기여 (편집한 리비전) */
+export interface WikiContribution {
+    revision_id: number;
+    page_id: number;
+    path: string;
+    title: string;
+    version_number: number;
+    version_date: Date;
+    comment: string | null;
+    is_minor: boolean;
+    size: number;
+    delta: number;
+}
+
 export interface PaginatedResult<T> {
     items: T[];
     total: number;
@@ -84,11 +131,45 @@ export interface PaginatedResult<T> {
     hasMore: boolean;
 }
 
-const wikiCache = createCache<WikiPage | null>({ ttl: 60_000, maxSize: 100 });
+const wikiCache = createCache<WikiPage | null>({ name: 'wiki:page', ttl: 60_000, maxSize: 100 });
 
-export async function getWikiPage(path: string): Promise<WikiPage | null> {
+/** 넘겨주기를 따라가는 최대 횟수 (넘겨주기의 넘겨주기 허용) */
+const MAX_REDIRECTS = 5;
+
+/**
+ * 문서 조회
+ *
+ * 넘겨주기 문서는 대상 문서를 따라가 반환합니다(redirected_from에 출발 경로).
+ * 순환하거나 너무 길게 이어지거나 대상이 없는 넘겨주기는 따라가지 않고 넘겨주기 문서 자체를 반환합니다.
+ */
+export async function getWikiPage(
+    path: string,
+    options: { followRedirects?: boolean } = {}
+): Promise<WikiPage | null> {
     const normalizedPath = path.startsWith('/') ? path : `/${path}`;
+    const wikiPage = await fetchWikiPage(normalizedPath);
+    if (!wikiPage || options.followRedirects === false) return wikiPage;
+
+    const visited = new Set([wikiPage.path]);
+    let current = wikiPage;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        const target = parseRedirectTarget(current.content || current.content_raw);
+        if (!target) {
+            return current === wikiPage ? wikiPage : { ...current, redirected_from: wikiPage.path };
+        }
+        if (visited.has(target) || hop === MAX_REDIRECTS) break;
 
+        const next = await fetchWikiPage(target);
+        if (!next) break;
+        visited.add(target);
+        current = next;
+    }
+
+    console.warn(`[Wiki] 넘겨주기를 따라갈 수 없음: ${[...visited].join(' → ')}`);
+    return wikiPage;
+}
+
+async function fetchWikiPage(normalizedPath: string): Promise<WikiPage | null> {
     return wikiCache.getOrSet(`page:${normalizedPath}`, async () => {
         const [rows] = await readPool.execute<RowDataPacket[]>(
             `SELECT id, path, title, content, content_raw, content_type,
@@ -120,7 +201,11 @@ export async function getRecentPages(limit: number = 10): Promise<WikiPageSummar
 // 리비전 조회
 // ============================================
 
-const revisionCache = createCache<WikiRevision[]>({ ttl: 30_000, maxSize: 50 });
+const revisionCache = createCache<WikiRevision[]>({
+    name: 'wiki:revisions',
+    ttl: 30_000,
+    maxSize: 50
+});
 
 /**
  * 페이지의 리비전 목록 조회
@@ -170,7 +255,7 @@ export async function getRevisionById(revisionId: number): Promise<WikiRevision
 
 /**
  * 두 리비전 간 비교를 위한 데이터 조회
- * 실제 diff 계산은 클라이언트에서 처리 (diff-match-patch 등 사용)
+ * 실제 diff 계산은 wiki-diff(diffHtml)에서 처리
  */
 export async function getRevisionPair(
     revId1: number,
@@ -185,11 +270,61 @@ export async function getRevisionPair(
     return { old: rev1, new: rev2 };
 }
 
+/**
+ * 사용자 기여 목록 (편집한 리비전, 최신순)
+ */
+export async function getUserContributions(
+    authorId: number,
+    offset: number = 0,
+    limit: number = 50
+): Promise<PaginatedResult<WikiContribution> & { authorName: string | null }> {
+    const safeOffset = Math.max(0, Math.floor(offset));
+    const safeLimit = Math.max(1, Math.min(200, Math.floor(limit)));
+
+    const [[countRows], [rows], [userRows]] = await Promise.all([
+        readPool.execute<RowDataPacket[]>(
+            `SELECT COUNT(*) as total
+             FROM wikiang_revisions r
+             JOIN wikiang_pages p ON p.id = r.page_id AND p.is_published = 1
+             WHERE r.author_id = ?`,
+            [authorId]
+        ),
+        readPool.query<RowDataPacket[]>(
+            `SELECT r.id AS revision_id, r.page_id, p.path, p.title, r.version_number,
+                    r.version_date, r.comment, r.is_minor, r.size, r.delta
+             FROM wikiang_revisions r
+             JOIN wikiang_pages p ON p.id = r.page_id AND p.is_published = 1
+             WHERE r.author_id = ?
+             ORDER BY r.version_date DESC, r.id DESC
+             LIMIT ${safeLimit} OFFSET ${safeOffset}`,
+            [authorId]
+        ),
+        readPool.execute<RowDataPacket[]>(
+            `SELECT display_name FROM wikiang_users WHERE id = ? LIMIT 1`,
+            [authorId]
+        )
+    ]);
+
+    const total = Number(countRows[0]?.total ?? 0);
+    return {
+        items: rows as WikiContribution[],
+        total,
+        offset: safeOffset,
+        limit: safeLimit,
+        hasMore: safeOffset + rows.length < total,
+        authorName: (userRows[0]?.display_name as string | undefined) ?? null
+    };
+}
+
 // ============================================
 // 카테고리 조회
 // ============================================
 
-const categoryCache = createCache<WikiCategory[]>({ ttl: 300_000, maxSize: 10 });
+const categoryCache = createCache<WikiCategory[]>({
+    name: 'wiki:categories',
+    ttl: 300_000,
+    maxSize: 10
+});
 
 /**
  * 전체 카테고리 목록 조회
@@ -250,7 +385,7 @@ export async function getPagesByCategory(
 // 태그 조회
 // ============================================
 
-const tagCache = createCache<WikiTag[]>({ ttl: 300_000, maxSize: 10 });
+const tagCache = createCache<WikiTag[]>({ name: 'wiki:tags', ttl: 300_000, maxSize: 10 });
 
 /**
  * 전체 태그 목록 조회 (페이지 수 포함)
@@ -315,62 +450,224 @@ export async function getPagesByTag(
 // 검색
 // ============================================
 
+/** 검색 필터 (카테고리·태그 ID) */
+export interface WikiSearchFilters {
+    categoryId?: number | null;
+    tagId?: number | null;
+}
+
+/**
+ * 검색 필터 → WHERE 조건 (문서 테이블 별칭 p)
+ */
+function buildSearchFilter(filters: WikiSearchFilters): { sql: string; params: number[] } {
+    const conditions: string[] = [];
+    const params: number[] = [];
+    if (filters.categoryId) {
+        conditions.push(
+            'EXISTS (SELECT 1 FROM wikiang_page_categories pc WHERE pc.page_id = p.id AND pc.category_id = ?)'
+        );
+        params.push(filters.categoryId);
+    }
+    if (filters.tagId) {
+        conditions.push(
+            'EXISTS (SELECT 1 FROM wikiang_page_tags pt WHERE pt.page_id = p.id AND pt.tag_id = ?)'
+        );
+        params.push(filters.tagId);
+    }
+    return { sql: conditions.map((c) => ` AND ${c}`).join(''), params };
+}
+
+/** 검색 조건 (WHERE 일치 조건 + 정렬 점수) */
+interface SearchCondition {
+    match: string;
+    matchParams: string[];
+    score: string;
+    scoreParams: string[];
+}
+
+/** FULLTEXT 인덱스가 없는 경우 (migrations/002_wikiang_fulltext.sql 미적용) */
+function isMissingFulltextIndex(error: unknown): boolean {
+    return (error as { code?: string } | null)?.code === 'ER_FT_MATCHING_KEY_NOT_FOUND';
+}
+
 /**
- * FULLTEXT 검색 (title, content 대상)
+ * FULLTEXT 조건으로 검색하고, 인덱스가 없으면 LIKE 조건으로 다시 검색
+ */
+async function runSearch<T>(
+    fulltext: SearchCondition,
+    fallback: SearchCondition,
+    buildQuery: (condition: SearchCondition) => { count: string; list: string },
+    filterParams: number[],
+    offset: number,
+    limit: number,
+    toItem: (row: RowDataPacket) => T
+): Promise<PaginatedResult<T>> {
+    const run = async (condition: SearchCondition) => {
+        const sql = buildQuery(condition);
+        const [[countRows], [rows]] = await Promise.all([
+            readPool.execute<RowDataPacket[]>(sql.count, [
+                ...condition.matchParams,
+                ...filterParams
+            ]),
+            readPool.query<RowDataPacket[]>(sql.list, [
+                ...condition.scoreParams,
+                ...condition.matchParams,
+                ...filterParams
+            ])
+        ]);
+        return { total: Number(countRows[0]?.total ?? 0), rows };
+    };
+
+    let found: { total: number; rows: RowDataPacket[] };
+    try {
+        found = await run(fulltext);
+    } catch (error) {
+        if (!isMissingFulltextIndex(error)) throw error;
+        found = await run(fallback);
+    }
+
+    const items = found.rows.map(toItem);
+    return {
+        items,
+        total: found.total,
+        offset,
+        limit,
+        hasMore: offset + items.length < found.total
+    };
+}
+
+/**
+ * 문서 검색 (제목·설명·본문)
+ *
+ * ngram FULLTEXT 관련도순 (제목 일치 가중치 3배), 검색어 주변 스니펫에 <mark> 강조.
+ * 인덱스가 없으면 LIKE 검색으로 동작합니다.
  */
 export async function searchPages(
     query: string,
     offset: number = 0,
-    limit: number = 20
+    limit: number = 20,
+    filters: WikiSearchFilters = {}
 ): Promise<PaginatedResult<WikiSearchResult>> {
     const safeOffset = Math.max(0, Math.floor(offset));
     const safeLimit = Math.max(1, Math.min(100, Math.floor(limit)));
 
-    // 빈 쿼리 처리
-    if (!query || query.trim().length === 0) {
+    const terms = extractSearchTerms(query || '');
+    const booleanQuery = buildBooleanQuery(query || '');
+    if (terms.length === 0 || !booleanQuery) {
         return { items: [], total: 0, offset: safeOffset, limit: safeLimit, hasMore: false };
     }
 
-    const searchTerm = query.trim();
-    // LIKE 검색용 패턴 (FULLTEXT가 없는 경우 대비)
-    const likePattern = `%${searchTerm}%`;
+    const textMatch = 'MATCH(p.title, p.description, p.content_raw) AGAINST(? IN BOOLEAN MODE)';
+    const likePattern = `%${query.trim()}%`;
+    const filter = buildSearchFilter(filters);
+
+    return runSearch(
+        {
+            match: textMatch,
+            matchParams: [booleanQuery],
+            score: `MATCH(p.title) AGAINST(? IN BOOLEAN MODE) * 3 + ${textMatch}`,
+            scoreParams: [booleanQuery, booleanQuery]
+        },
+        {
+            match: '(p.title LIKE ? OR p.content_raw LIKE ? OR p.description LIKE ?)',
+            matchParams: [likePattern, likePattern, likePattern],
+            score: 'CASE WHEN p.title LIKE ? THEN 100 WHEN p.description LIKE ? THEN 50 ELSE 10 END',
+            scoreParams: [likePattern, likePattern]
+        },
+        ({ match, score }) => ({
+            count: `SELECT COUNT(*) as total
+                    FROM wikiang_pages p
+                    WHERE p.is_published = 1 AND ${match}${filter.sql}`,
+            list: `SELECT p.id, p.path, p.title, p.description, p.updated_at, p.content_raw,
+                          ${score} AS score
+                   FROM wikiang_pages p
+                   WHERE p.is_published = 1 AND ${match}${filter.sql}
+                   ORDER BY score DESC, p.updated_at DESC
+                   LIMIT ${safeLimit} OFFSET ${safeOffset}`
+        }),
+        filter.params,
+        safeOffset,
+        safeLimit,
+        (row): WikiSearchResult => ({
+            id: row.id,
+            path: row.path,
+            title: row.title,
+            description: row.description,
+            snippet: buildSnippet(row.content_raw || row.description, terms),
+            updated_at: row.updated_at,
+            score: Number(row.score) || 0
+        })
+    );
+}
 
-    // FULLTEXT 인덱스가 있다면 MATCH AGAINST 사용, 없으면 LIKE로 fallback
-    // 현재는 LIKE 검색으로 구현 (안정성 우선)
-    const [[countResult], [rows]] = await Promise.all([
-        readPool.execute<RowDataPacket[]>(
-            `SELECT COUNT(*) as total
-             FROM wikiang_pages
-             WHERE is_published = 1
-               AND (title LIKE ? OR content_raw LIKE ? OR description LIKE ?)`,
-            [likePattern, likePattern, likePattern]
-        ),
-        readPool.query<RowDataPacket[]>(
-            `SELECT id, path, title, description, updated_at,
-                    CASE
-                        WHEN title LIKE ? THEN 100
-                        WHEN description LIKE ? THEN 50
-                        ELSE 10
-                    END as score,
-                    SUBSTRING(content_raw, 1, 200) as snippet
-             FROM wikiang_pages
-             WHERE is_published = 1
-               AND (title LIKE ? OR content_raw LIKE ? OR description LIKE ?)
-             ORDER BY score DESC, updated_at DESC
-             LIMIT ${safeLimit} OFFSET ${safeOffset}`,
-            [likePattern, likePattern, likePattern, likePattern, likePattern]
-        )
-    ]);
+/**
+ * 리비전 검색 (관리자 전용: 지난 판 본문·편집 요약)
+ *
+ * 비공개 문서의 리비전도 포함합니다. 인덱스가 없으면 LIKE 검색으로 동작합니다.
+ */
+export async function searchRevisions(
+    query: string,
+    offset: number = 0,
+    limit: number = 20,
+    filters: WikiSearchFilters = {}
+): Promise<PaginatedResult<WikiRevisionSearchResult>> {
+    const safeOffset = Math.max(0, Math.floor(offset));
+    const safeLimit = Math.max(1, Math.min(100, Math.floor(limit)));
 
-    const total = (countResult[0] as { total: number }).total;
+    const terms = extractSearchTerms(query || '');
+    const booleanQuery = buildBooleanQuery(query || '');
+    if (terms.length === 0 || !booleanQuery) {
+        return { items: [], total: 0, offset: safeOffset, limit: safeLimit, hasMore: false };
+    }
 
-    return {
-        items: rows as WikiSearchResult[],
-        total,
-        offset: safeOffset,
-        limit: safeLimit,
-        hasMore: safeOffset + rows.length < total
-    };
+    const textMatch = 'MATCH(r.content_raw, r.comment) AGAINST(? IN BOOLEAN MODE)';
+    const likePattern = `%${query.trim()}%`;
+    const filter = buildSearchFilter(filters);
+
+    return runSearch(
+        {
+            match: textMatch,
+            matchParams: [booleanQuery],
+            score: textMatch,
+            scoreParams: [booleanQuery]
+        },
+        {
+            match: '(r.content_raw LIKE ? OR r.comment LIKE ?)',
+            matchParams: [likePattern, likePattern],
+            score: '1',
+            scoreParams: []
+        },
+        ({ match, score }) => ({
+            count: `SELECT COUNT(*) as total
+                    FROM wikiang_revisions r
+                    JOIN wikiang_pages p ON p.id = r.page_id
+                    WHERE ${match}${filter.sql}`,
+            list: `SELECT r.id AS revision_id, r.page_id, p.path, p.title, r.version_number,
+                          r.version_date, r.comment, r.content_raw,
+                          u.display_name AS author_name, ${score} AS score
+                   FROM wikiang_revisions r
+                   JOIN wikiang_pages p ON p.id = r.page_id
+                   LEFT JOIN wikiang_users u ON r.author_id = u.id
+                   WHERE ${match}${filter.sql}
+                   ORDER BY score DESC, r.version_date DESC
+                   LIMIT ${safeLimit} OFFSET ${safeOffset}`
+        }),
+        filter.params,
+        safeOffset,
+        safeLimit,
+        (row): WikiRevisionSearchResult => ({
+            revision_id: row.revision_id,
+            page_id: row.page_id,
+            path: row.path,
+            title: row.title,
+            version_number: row.version_number,
+            version_date: row.version_date,
+            comment: row.comment,
+            author_name: row.author_name,
+            snippet: buildSnippet(row.content_raw || row.comment, terms),
+            score: Number(row.score) || 0
+        })
+    );
 }
 
 // ============================================
@@ -473,6 +770,103 @@ export interface WikiPageInput {
     description?: string;
     comment?: string;
     is_minor?: boolean;
+    /** 편집을 시작한 판 번호 (최신 판보다 낮으면 3-way 병합) */
+    base_version?: number | null;
+}
+
+/** 편집용 문서 (편집을 시작한 판 번호 포함) */
+export interface WikiPageForEdit extends WikiPage {
+    version_number: number;
+}
+
+/**
+ * 동시 편집 충돌 (자동 병합 실패)
+ * merged 본문에는 충돌 구간이 표시되어 있으며, latestVersion을 새 기준 판으로 다시 저장합니다.
+ */
+export class WikiEditConflictError extends Error {
+    constructor(
+        readonly latestVersion: number,
+        readonly merged: { title: string; content: string; description: string | null },
+        readonly conflicts: number
+    ) {
+        super(
+            '다른 사용자가 먼저 같은 부분을 수정했습니다. 충돌 표시를 정리한 뒤 다시 저장하세요.'
+        );
+        this.name = 'WikiEditConflictError';
+    }
+}
+
+/**
+ * 충돌 표시를 정리하지 않은 본문 저장 시도
+ */
+export class WikiConflictMarkersError extends Error {
+    constructor() {
+        super('충돌 표시(<<<<<<<, =======, >>>>>>>)를 정리한 뒤 저장해주세요.');
+        this.name = 'WikiConflictMarkersError';
+    }
+}
+
+/**
+ * 문서 이동 대상 경로에 이미 문서가 있음
+ */
+export class WikiPathTakenError extends Error {
+    constructor(readonly path: string) {
+        super(`"${path.slice(1)}" 문서가 이미 있습니다.`);
+        this.name = 'WikiPathTakenError';
+    }
+}
+
+/**
+ * 페이지 + 첫 리비전 + 내부 링크 기록 (트랜잭션 안에서 호출)
+ */
+async function insertPageWithRevision(
+    connection: PoolConnection,
+    normalizedPath: string,
+    input: WikiPageInput,
+    authorId: number
+): Promise<{ pageId: number; revisionId: number }> {
+    const contentType = input.content_type || 'html';
+    const size = Buffer.byteLength(input.content_raw || '', 'utf8');
+
+    // 1. 페이지 생성
+    const [pageResult] = await connection.execute<ResultSetHeader>(
+        `INSERT INTO wikiang_pages
+         (path, title, content, content_raw, content_type, description, author_id, is_published, namespace_id, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, 1, 0, NOW(), NOW())`,
+        [
+            normalizedPath,
+            input.title,
+            input.content,
+            input.content_raw,
+            contentType,
+            input.description || null,
+            authorId
+        ]
+    );
+    const pageId = pageResult.insertId;
+
+    // 2. 리비전 생성 (버전 1)
+    const [revResult] = await connection.execute<ResultSetHeader>(
+        `INSERT INTO wikiang_revisions
+         (page_id, content, content_raw, content_type, version_number, version_date, comment, is_minor, author_id, size, delta)
+         VALUES (?, ?, ?, ?, 1, NOW(), ?, ?, ?, ?, ?)`,
+        [
+            pageId,
+            input.content,
+            input.content_raw,
+            contentType,
+            input.comment || '문서 생성',
+            input.is_minor || false,
+            authorId,
+            size,
+            size
+        ]
+    );
+
+    // 3. 내부 링크 기록
+    await recordRevisionLinks(connection, pageId, revResult.insertId, input.content);
+
+    return { pageId, revisionId: revResult.insertId };
 }
 
 /**
@@ -484,54 +878,18 @@ export async function createWikiPage(
     authorId: number
 ): Promise<{ pageId: number; revisionId: number }> {
     const normalizedPath = path.startsWith('/') ? path : `/${path}`;
-    const contentType = input.content_type || 'html';
-    const size = Buffer.byteLength(input.content_raw || '', 'utf8');
 
+    await ensureWikiLinksTable();
     const connection = await pool.getConnection();
     try {
         await connection.beginTransaction();
-
-        // 1. 페이지 생성
-        const [pageResult] = await connection.execute<ResultSetHeader>(
-            `INSERT INTO wikiang_pages
-             (path, title, content, content_raw, content_type, description, author_id, is_published, namespace_id, created_at, updated_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?, 1, 0, NOW(), NOW())`,
-            [
-                normalizedPath,
-                input.title,
-                input.content,
-                input.content_raw,
-                contentType,
-                input.description || null,
-                authorId
-            ]
-        );
-        const pageId = pageResult.insertId;
-
-        // 2. 리비전 생성 (버전 1)
-        const [revResult] = await connection.execute<ResultSetHeader>(
-            `INSERT INTO wikiang_revisions
-             (page_id, content, content_raw, content_type, version_number, version_date, comment, is_minor, author_id, size, delta)
-             VALUES (?, ?, ?, ?, 1, NOW(), ?, ?, ?, ?, ?)`,
-            [
-                pageId,
-                input.content,
-                input.content_raw,
-                contentType,
-                input.comment || '문서 생성',
-                input.is_minor || false,
-                authorId,
-                size,
-                size
-            ]
-        );
-
+        const result = await insertPageWithRevision(connection, normalizedPath, input, authorId);
         await connection.commit();
 
         // 캐시 무효화
         wikiCache.delete(`page:${normalizedPath}`);
 
-        return { pageId, revisionId: revResult.insertId };
+        return result;
     } catch (error) {
         await connection.rollback();
         throw error;
@@ -542,30 +900,41 @@ export async function createWikiPage(
 
 /**
  * 기존 위키 페이지 수정
+ *
+ * base_version이 최신 판보다 낮으면(그 사이 다른 편집이 저장됨) 편집 시작 판과
+ * 최신 판을 기준으로 3-way 병합합니다. 충돌 없이 병합되면 병합본을 저장하고,
+ * 충돌이 있으면 저장하지 않고 WikiEditConflictError를 던집니다.
+ *
+ * @throws WikiEditConflictError 자동 병합 실패
  */
 export async function updateWikiPage(
     pageId: number,
     input: WikiPageInput,
     authorId: number
-): Promise<{ revisionId: number; versionNumber: number }> {
+): Promise<{ revisionId: number; versionNumber: number; merged: boolean }> {
     const contentType = input.content_type || 'html';
-    const newSize = Buffer.byteLength(input.content_raw || '', 'utf8');
+    if (hasConflictMarkers(input.content)) {
+        throw new WikiConflictMarkersError();
+    }
 
+    await ensureWikiLinksTable();
     const connection = await pool.getConnection();
     try {
         await connection.beginTransaction();
 
-        // 1. 현재 페이지 정보 조회 (이전 크기, 경로)
+        // 1. 현재 페이지 정보 조회 (이전 크기, 경로) - 동시 저장은 행 잠금으로 직렬화
         const [pageRows] = await connection.execute<RowDataPacket[]>(
-            `SELECT path, content_raw FROM wikiang_pages WHERE id = ? LIMIT 1`,
+            `SELECT path, content, content_raw FROM wikiang_pages WHERE id = ? LIMIT 1 FOR UPDATE`,
             [pageId]
         );
         if (pageRows.length === 0) {
             throw new Error('페이지를 찾을 수 없습니다.');
         }
-        const currentPage = pageRows[0] as { path: string; content_raw: string | null };
-        const prevSize = Buffer.byteLength(currentPage.content_raw || '', 'utf8');
-        const delta = newSize - prevSize;
+        const currentPage = pageRows[0] as {
+            path: string;
+            content: string | null;
+            content_raw: string | null;
+        };
 
         // 2. 최신 버전 번호 조회
         const [versionRows] = await connection.execute<RowDataPacket[]>(
@@ -575,33 +944,72 @@ export async function updateWikiPage(
         const maxVersion = (versionRows[0] as { max_version: number | null }).max_version || 0;
         const newVersionNumber = maxVersion + 1;
 
-        // 3. 페이지 업데이트
+        // 3. 편집 중 다른 판이 저장됐으면 3-way 병합
+        let content = input.content;
+        let contentRaw = input.content_raw;
+        let merged = false;
+        const baseVersion = input.base_version;
+        if (baseVersion && baseVersion < maxVersion) {
+            const [baseRows] = await connection.execute<RowDataPacket[]>(
+                `SELECT content FROM wikiang_revisions
+                 WHERE page_id = ? AND version_number = ? LIMIT 1`,
+                [pageId, baseVersion]
+            );
+            if (baseRows.length === 0) {
+                throw new Error('편집을 시작한 판을 찾을 수 없습니다.');
+            }
+            // 리비전에는 제목·설명이 없으므로 본문만 병합하고 제목·설명은 편집자의 값을 사용
+            const baseContent = (baseRows[0] as { content: string | null }).content || '';
+            const result = mergeWikiContent(
+                baseContent,
+                input.content,
+                currentPage.content || '',
+                `판 ${maxVersion}`
+            );
+            if (result.conflicts > 0) {
+                throw new WikiEditConflictError(
+                    maxVersion,
+                    {
+                        title: input.title,
+                        content: result.content,
+                        description: input.description || null
+                    },
+                    result.conflicts
+                );
+            }
+            if (result.content !== content) {
+                content = result.content;
+                contentRaw = htmlToText(result.content);
+                merged = true;
+            }
+        }
+
+        const newSize = Buffer.byteLength(contentRaw || '', 'utf8');
+        const prevSize = Buffer.byteLength(currentPage.content_raw || '', 'utf8');
+        const delta = newSize - prevSize;
+
+        // 4. 페이지 업데이트
         await connection.execute(
             `UPDATE wikiang_pages
              SET title = ?, content = ?, content_raw = ?, content_type = ?, description = ?, updated_at = NOW()
              WHERE id = ?`,
-            [
-                input.title,
-                input.content,
-                input.content_raw,
-                contentType,
-                input.description || null,
-                pageId
-            ]
+            [input.title, content, contentRaw, contentType, input.description || null, pageId]
         );
 
-        // 4. 새 리비전 생성
+        // 5. 새 리비전 생성
         const [revResult] = await connection.execute<ResultSetHeader>(
             `INSERT INTO wikiang_revisions
              (page_id, content, content_raw, content_type, version_number, version_date, comment, is_minor, author_id, size, delta)
              VALUES (?, ?, ?, ?, ?, NOW(), ?, ?, ?, ?, ?)`,
             [
                 pageId,
-                input.content,
-                input.content_raw,
+                content,
+                contentRaw,
                 contentType,
                 newVersionNumber,
-                input.comment || '',
+                merged
+                    ? `${input.comment || ''} (판 ${maxVersion}과 자동 병합)`.trim()
+                    : input.comment || '',
                 input.is_minor || false,
                 authorId,
                 newSize,
@@ -609,6 +1017,9 @@ export async function updateWikiPage(
             ]
         );
 
+        // 6. 내부 링크 기록
+        await recordRevisionLinks(connection, pageId, revResult.insertId, content);
+
         await connection.commit();
 
         // 캐시 무효화
@@ -616,7 +1027,7 @@ export async function updateWikiPage(
         revisionCache.delete(`revisions:${pageId}:50`);
         revisionCache.delete(`revisions:${pageId}:100`);
 
-        return { revisionId: revResult.insertId, versionNumber: newVersionNumber };
+        return { revisionId: revResult.insertId, versionNumber: newVersionNumber, merged };
     } catch (error) {
         await connection.rollback();
         throw error;
@@ -628,18 +1039,284 @@ export async function updateWikiPage(
 /**
  * path로 페이지 조회 (비공개 포함, 편집용)
  */
-export async function getWikiPageForEdit(path: string): Promise<WikiPage | null> {
+export async function getWikiPageForEdit(path: string): Promise<WikiPageForEdit | null> {
     const normalizedPath = path.startsWith('/') ? path : `/${path}`;
 
-    const [rows] = await readPool.execute<RowDataPacket[]>(
-        `SELECT id, path, title, content, content_raw, content_type,
-                description, author_id, created_at, updated_at
-         FROM wikiang_pages
-         WHERE path = ?
+    // 편집 시작 판은 저장 시 병합 기준이 되므로 writer에서 조회
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        `SELECT p.id, p.path, p.title, p.content, p.content_raw, p.content_type,
+                p.description, p.author_id, p.created_at, p.updated_at,
+                (SELECT COALESCE(MAX(r.version_number), 0)
+                 FROM wikiang_revisions r WHERE r.page_id = p.id) AS version_number
+         FROM wikiang_pages p
+         WHERE p.path = ?
          LIMIT 1`,
         [normalizedPath]
     );
 
     if (rows.length === 0) return null;
-    return rows[0] as WikiPage;
+    return rows[0] as WikiPageForEdit;
+}
+
+// ============================================
+// 문서 이동
+// ============================================
+
+export interface WikiMoveOptions {
+    /** 옛 경로에 넘겨주기 문서를 남길지 */
+    leaveRedirect: boolean;
+    reason?: string;
+}
+
+/** 경로의 마지막 부분 (문서 이름) */
+function pageName(path: string): string {
+    return path.slice(path.lastIndexOf('/') + 1);
+}
+
+/** 이동 기록 리비전의 편집 요약 (이유가 있으면 뒤에 괄호로 덧붙임) */
+function moveComment(fromPath: string, toPath: string): string {
+    return `문서 이동: ${fromPath.slice(1)} → ${toPath.slice(1)}`;
+}
+
+/**
+ * 문서 이동 (경로 변경)
+ *
+ * 문서 ID가 유지되므로 리비전·카테고리·태그·보호 설정이 그대로 따라갑니다.
+ * 이동 기록은 같은 본문의 사소한 편집 판으로 남기고, 제목이 옛 문서 이름과 같으면 새 이름으로 바꿉니다.
+ *
+ * @throws WikiPathTakenError 새 경로에 이미 문서가 있음
+ */
+export async function moveWikiPage(
+    pageId: number,
+    toPath: string,
+    authorId: number,
+    options: WikiMoveOptions
+): Promise<{ fromPath: string; toPath: string; redirectPageId: number | null }> {
+    const normalizedTo = toPath.startsWith('/') ? toPath : `/${toPath}`;
+
+    await ensureWikiLinksTable();
+    const connection = await pool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        // 1. 옮길 문서 잠금
+        const [pageRows] = await connection.execute<RowDataPacket[]>(
+            `SELECT path, title, content, content_raw, content_type
+             FROM wikiang_pages WHERE id = ? LIMIT 1 FOR UPDATE`,
+            [pageId]
+        );
+        if (pageRows.length === 0) {
+            throw new Error('페이지를 찾을 수 없습니다.');
+        }
+        const page = pageRows[0] as Pick<
+            WikiPage,
+            'path' | 'title' | 'content' | 'content_raw' | 'content_type'
+        >;
+        if (page.path === normalizedTo) {
+            throw new Error('같은 경로로는 이동할 수 없습니다.');
+        }
+
+        // 2. 새 경로가 비어 있는지 확인
+        const [takenRows] = await connection.execute<RowDataPacket[]>(
+            `SELECT id FROM wikiang_pages WHERE path = ? LIMIT 1 FOR UPDATE`,
+            [normalizedTo]
+        );
+        if (takenRows.length > 0) {
+            throw new WikiPathTakenError(normalizedTo);
+        }
+
+        // 3. 경로·제목 변경
+        const title = page.title === pageName(page.path) ? pageName(normalizedTo) : page.title;
+        await connection.execute(
+            `UPDATE wikiang_pages SET path = ?, title = ?, updated_at = NOW() WHERE id = ?`,
+            [normalizedTo, title, pageId]
+        );
+
+        // 4. 이동 기록 리비전 (본문 그대로)
+        const [versionRows] = await connection.execute<RowDataPacket[]>(
+            `SELECT MAX(version_number) as max_version FROM wikiang_revisions WHERE page_id = ?`,
+            [pageId]
+        );
+        const maxVersion = (versionRows[0] as { max_version: number | null }).max_version || 0;
+        const size = Buffer.byteLength(page.content_raw || '', 'utf8');
+        const reason = options.reason?.trim();
+        const [revResult] = await connection.execute<ResultSetHeader>(
+            `INSERT INTO wikiang_revisions
+             (page_id, content, content_raw, content_type, version_number, version_date, comment, is_minor, author_id, size, delta)
+             VALUES (?, ?, ?, ?, ?, NOW(), ?, 1, ?, ?, 0)`,
+            [
+                pageId,
+                page.content,
+                page.content_raw,
+                page.content_type,
+                maxVersion + 1,
+                `${moveComment(page.path, normalizedTo)}${reason ? ` (${reason})` : ''}`,
+                authorId,
+                size
+            ]
+        );
+        await recordRevisionLinks(connection, pageId, revResult.insertId, page.content || '');
+
+        // 5. 옛 경로에 넘겨주기 문서
+        let redirectPageId: number | null = null;
+        if (options.leaveRedirect) {
+            const redirectText = buildRedirectContent(normalizedTo);
+            const redirect = await insertPageWithRevision(
+                connection,
+                page.path,
+                {
+                    title: page.title,
+                    content: `<p>${redirectText}</p>`,
+                    content_raw: redirectText,
+                    content_type: 'html',
+                    comment: `${normalizedTo.slice(1)}(으)로 이동`
+                },
+                authorId
+            );
+            redirectPageId = redirect.pageId;
+        }
+
+        await connection.commit();
+
+        // 캐시 무효화
+        wikiCache.delete(`page:${page.path}`);
+        wikiCache.delete(`page:${normalizedTo}`);
+        revisionCache.delete(`revisions:${pageId}:50`);
+        revisionCache.delete(`revisions:${pageId}:100`);
+
+        return { fromPath: page.path, toPath: normalizedTo, redirectPageId };
+    } catch (error) {
+        await connection.rollback();
+        throw error;
+    } finally {
+        connection.release();
+    }
+}
+
+/**
+ * 회원이 from → to 이동을 했는지 (to 문서의 이동 기록 리비전으로 확인)
+ */
+export async function hasMovedWikiPage(
+    fromPath: string,
+    toPath: string,
+    authorId: number
+): Promise<boolean> {
+    const comment = moveComment(fromPath, toPath);
+    const [rows] = await readPool.execute<RowDataPacket[]>(
+        `SELECT 1 FROM wikiang_revisions r
+         JOIN wikiang_pages p ON p.id = r.page_id
+         WHERE p.path = ? AND r.author_id = ?
+           AND (r.comment = ? OR LEFT(r.comment, CHAR_LENGTH(?) + 2) = CONCAT(?, ' ('))
+         LIMIT 1`,
+        [toPath, authorId, comment, comment, comment]
+    );
+    return rows.length > 0;
+}
+
+// ============================================
+// 링크 바꾸기
+// ============================================
+
+/** 한 번에 고칠 수 있는 문서 수 */
+const LINK_REWRITE_LIMIT = 100;
+
+/**
+ * 문서를 가리키는 [[링크]]를 새 경로로 바꾸기 (문서 이동 후)
+ *
+ * 가리키는 문서마다 사소한 편집으로 새 판을 저장합니다.
+ * 편집 권한이 없는 보호 문서와, 그 사이 다른 편집이 저장돼 자동 병합에 실패한 문서는 건너뜁니다.
+ */
+export async function rewriteLinksToPage(
+    fromPath: string,
+    toPath: string,
+    authorId: number,
+    authorLevel: number
+): Promise<{ updated: number; skipped: number }> {
+    const paths = await getLinkingPagePaths(fromPath, LINK_REWRITE_LIMIT);
+    let updated = 0;
+    let skipped = 0;
+
+    for (const path of paths) {
+        const page = await getWikiPageForEdit(path);
+        if (!page) continue;
+
+        const content = replaceLinkTarget(page.content || '', fromPath, toPath);
+        if (content === page.content) continue;
+        if (!canEditWikiPage(await getPageProtection(page.id), authorLevel)) {
+            skipped++;
+            continue;
+        }
+
+        try {
+            await updateWikiPage(
+                page.id,
+                {
+                    title: page.title,
+                    content,
+                    content_raw: replaceLinkTarget(page.content_raw || '', fromPath, toPath),
+                    content_type: page.content_type,
+                    description: page.description || undefined,
+                    comment: `링크 수정: ${fromPath.slice(1)} → ${toPath.slice(1)}`,
+                    is_minor: true,
+                    base_version: page.version_number
+                },
+                authorId
+            );
+            updated++;
+        } catch (error) {
+            if (!(error instanceof WikiEditConflictError)) throw error;
+            skipped++;
+        }
+    }
+    return { updated, skipped };
+}
+
+// ============================================
+// 되돌리기
+// ============================================
+
+/**
+ * 문서를 이전 판의 본문으로 되돌리기
+ * 이전 판을 덮어쓰지 않고, 그 본문으로 새 판을 저장합니다. 제목·설명은 현재 값을 유지합니다.
+ */
+export async function revertWikiPage(
+    pageId: number,
+    revisionId: number,
+    authorId: number
+): Promise<{ revisionId: number; versionNumber: number; revertedTo: number }> {
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        `SELECT p.title, p.description, r.content, r.content_raw, r.content_type, r.version_number
+         FROM wikiang_revisions r
+         JOIN wikiang_pages p ON p.id = r.page_id
+         WHERE r.id = ? AND r.page_id = ?
+         LIMIT 1`,
+        [revisionId, pageId]
+    );
+    if (rows.length === 0) {
+        throw new Error('되돌릴 판을 찾을 수 없습니다.');
+    }
+    const target = rows[0] as Pick<
+        WikiRevision,
+        'content' | 'content_raw' | 'content_type' | 'version_number'
+    > &
+        Pick<WikiPage, 'title' | 'description'>;
+
+    // 병합 없이 그대로 덮어쓰므로 base_version은 넘기지 않음
+    const result = await updateWikiPage(
+        pageId,
+        {
+            title: target.title,
+            content: target.content || '',
+            content_raw: target.content_raw || '',
+            content_type: target.content_type,
+            description: target.description || undefined,
+            comment: `판 ${target.version_number}(으)로 되돌림`
+        },
+        authorId
+    );
+    return {
+        revisionId: result.revisionId,
+        versionNumber: result.versionNumber,
+        revertedTo: target.version_number
+    };
 }
@@ -11,6 +11,7 @@ import pool from '$lib/server/db';
 const MAX_IDS = 200;
 const WITHDRAWN_MEMBER_CACHE_TTL_MS = 300_000;
 const withdrawnMemberCache = createCache<boolean>({
+    name: 'member:withdrawn',
     ttl: WITHDRAWN_MEMBER_CACHE_TTL_MS,
     maxSize: 20_000
 });
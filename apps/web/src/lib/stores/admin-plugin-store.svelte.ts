@@ -45,7 +45,11 @@ class PluginStore {
             }
         } catch (error) {
             console.error('플러그인 활성화 실패:', error);
-            toast.error('플러그인 활성화에 실패했습니다.');
+            toast.error(
+                error instanceof Error && error.message
+                    ? error.message
+                    : '플러그인 활성화에 실패했습니다.'
+            );
         } finally {
             this.isLoading = false;
             this.currentAction = null;
@@ -34,11 +34,18 @@ class AdminSettingsStore {
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify(this.settings)
             });
-            if (!res.ok) throw new Error('설정 저장 실패');
+            if (!res.ok) {
+                const body = await res.json().catch(() => ({}));
+                throw new Error(body.error || '설정 저장 실패');
+            }
             toast.success('설정이 저장되었습니다.');
         } catch (error) {
             console.error('설정 저장 실패:', error);
-            toast.error('설정을 저장하지 못했습니다.');
+            toast.error(
+                error instanceof Error && error.message !== '설정 저장 실패'
+                    ? error.message
+                    : '설정을 저장하지 못했습니다.'
+            );
         } finally {
             this.isSaving = false;
         }
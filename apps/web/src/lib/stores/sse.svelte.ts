@@ -28,13 +28,19 @@ class SSEStore {
     private eventSource: EventSource | null = null;
     private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
     private reconnectDelay = 3000;
+    /** 마지막으로 받은 알림 ID — 재연결 시 놓친 알림을 다시 받기 위해 전달 */
+    private lastEventId = '';
 
     /** SSE 연결 시작 */
     connect(): void {
         if (!browser || this.eventSource) return;
 
         try {
-            this.eventSource = new EventSource('/api/notifications/stream');
+            // 직접 재연결하므로 EventSource의 Last-Event-ID 헤더 대신 쿼리로 전달
+            const query = this.lastEventId
+                ? `?lastEventId=${encodeURIComponent(this.lastEventId)}`
+                : '';
+            this.eventSource = new EventSource(`/api/notifications/stream${query}`);
 
             this.eventSource.onopen = () => {
                 this.isConnected = true;
@@ -48,6 +54,7 @@ class SSEStore {
 
             // 알림 이벤트
             this.eventSource.addEventListener('notification', (e) => {
+                if (e.lastEventId) this.lastEventId = e.lastEventId;
                 try {
                     const notification: SSENotification = JSON.parse(e.data);
                     for (const handler of this.handlers) {
@@ -0,0 +1,41 @@
+/**
+ * 캐시 관측 타입 정의 (관리자 대시보드 / 내부 통계 API)
+ */
+
+/** 캐시 통계 카운터 */
+export interface CacheStats {
+    /** L1(인메모리) 히트 */
+    l1Hits: number;
+    /** L2(Redis) 히트 — TieredCache만 */
+    l2Hits: number;
+    misses: number;
+    /** 만료된 값을 에러 fallback으로 반환한 횟수 */
+    staleServes: number;
+    /** 진행 중인 조회에 합류한 횟수 (factory 중복 실행 방지) */
+    singleflightMerges: number;
+    /** 용량 초과로 제거된 항목 수 */
+    evictions: number;
+}
+
+/** 키 조회 결과 */
+export interface CacheKeyInspection {
+    key: string;
+    l1: { present: boolean; expiresAt?: number; expired?: boolean; tags?: string[] };
+    /** TieredCache만 */
+    l2?: { present: boolean; ttlSeconds?: number };
+    /** 값 미리보기 (JSON, 길이 제한) */
+    preview?: string;
+}
+
+/** 캐시 개요 (통계 API 응답) */
+export interface CacheSnapshot {
+    name: string;
+    kind: 'memory' | 'tiered';
+    size: number;
+    maxSize: number;
+    l1TtlMs: number;
+    l2TtlSec?: number;
+    stats: CacheStats;
+    /** 전체 조회 중 히트 비율 (0~1, 조회가 없으면 null) */
+    hitRate: number | null;
+}
@@ -41,6 +41,8 @@ export interface PluginManifest {
     >;
     tags?: string[];
     angpleVersion?: string;
+    engines?: { angple?: string };
+    pluginDependencies?: Record<string, string>;
 }
 
 export type PluginStatus = 'active' | 'inactive' | 'installing' | 'error';
@@ -55,6 +57,8 @@ export interface PluginWithStatus {
     source?: string;
     downloadCount?: number;
     errorMessage?: string;
+    /** 만족하지 못한 engines/pluginDependencies 제약 (활성화 불가 사유) */
+    constraintIssues?: string[];
 }
 
 export interface PluginSettingsUpdate {
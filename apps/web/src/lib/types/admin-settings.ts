@@ -93,6 +93,95 @@ export interface FeatureFlagMeta {
     dependency?: string;
 }
 
+/**
+ * Rate limit 카운터 단위
+ * - ip: 클라이언트 IP
+ * - user: 회원 (비로그인은 IP)
+ * - level: 대상 레벨(levels) 회원에게만 적용, 한도는 회원별 (비로그인은 적용 안 함)
+ */
+export type RateLimitScope = 'ip' | 'user' | 'level';
+
+/** Rate limit 적용 메서드 (READ = GET/HEAD, WRITE = 그 외) */
+export type RateLimitMethod =
+    | 'ALL'
+    | 'READ'
+    | 'WRITE'
+    | 'GET'
+    | 'POST'
+    | 'PUT'
+    | 'PATCH'
+    | 'DELETE';
+
+/** Rate limit 규칙 */
+export interface RateLimitRule {
+    id: string;
+    enabled: boolean;
+    /** 경로 패턴 (`*`는 임의 문자열, 예: /api/*) */
+    path: string;
+    method: RateLimitMethod;
+    /** 윈도우당 최대 요청 수 */
+    limit: number;
+    windowSeconds: number;
+    scope: RateLimitScope;
+    /** 적용 대상 레벨 (scope가 level일 때, 비우면 모든 회원) */
+    levels?: number[];
+    description: string;
+}
+
+/** Rate limit 정책 */
+export interface RateLimitSettings {
+    rules: RateLimitRule[];
+    /** 한도를 적용하지 않는 회원 레벨 (회원·레벨 범위 규칙만, IP 범위는 인증 전에 적용) */
+    exemptLevels: number[];
+    /** 한도를 적용하지 않는 IP (단일 IP 또는 IPv4 CIDR) */
+    exemptIps: string[];
+}
+
+/** 현재 차단 중인 클라이언트 (관리자 실시간 조회용) */
+export interface ThrottledClient {
+    /** 카운터 액션 (정책 규칙은 policy_<규칙 ID>) */
+    action: string;
+    /** 카운터 키 (ip:…, user:…, level:<레벨>:user:…) */
+    key: string;
+    limit: number;
+    windowMs: number;
+    /** 마지막 차단 시각 (ms) */
+    blockedAt: number;
+    /** 차단 해제 예상 시각 (ms) */
+    until: number;
+}
+
+/**
+ * 검색 백엔드
+ * - sphinx: 외부 Sphinx indexer가 관리하는 인덱스 (기존 운영 환경)
+ * - mysql: MySQL FULLTEXT ngram (별도 서버 없이 소규모 사이트용)
+ * - meilisearch: Meilisearch 서버
+ */
+export type SearchProviderId = 'sphinx' | 'mysql' | 'meilisearch';
+
+/** 검색 설정 */
+export interface SearchSettings {
+    provider: SearchProviderId;
+    meilisearch: {
+        host: string;
+        apiKey: string;
+        indexName: string;
+    };
+}
+
+/** 검색 색인 재생성 진행 상태 */
+export interface SearchReindexStatus {
+    state: 'idle' | 'running' | 'completed' | 'failed';
+    provider: SearchProviderId | null;
+    /** 처리한 게시판 수 / 전체 게시판 수 */
+    boardsDone: number;
+    boardsTotal: number;
+    documents: number;
+    startedAt: number | null;
+    finishedAt: number | null;
+    error: string | null;
+}
+
 /** 사이트 전체 설정 */
 export interface SiteSettings {
     general: GeneralSettings;
@@ -101,6 +190,8 @@ export interface SiteSettings {
     apiKeys: ApiKeysSettings;
     featureFlags: FeatureFlagsSettings;
     seo: SeoSettings;
+    rateLimits: RateLimitSettings;
+    search: SearchSettings;
 }
 
 /** 기본 OAuth 프로바이더 설정 */
@@ -147,6 +238,90 @@ export const DEFAULT_SITE_SETTINGS: SiteSettings = {
         metaDescription: '',
         ogImage: '',
         robotsTxt: ''
+    },
+    rateLimits: {
+        rules: [
+            {
+                id: 'auth-login',
+                enabled: true,
+                path: '/api/v1/auth/login*',
+                method: 'ALL',
+                limit: 10,
+                windowSeconds: 900,
+                scope: 'ip',
+                description: '로그인 시도'
+            },
+            {
+                id: 'oauth-start',
+                enabled: true,
+                path: '/plugin/social/start*',
+                method: 'ALL',
+                limit: 20,
+                windowSeconds: 900,
+                scope: 'ip',
+                description: '소셜 로그인 시작'
+            },
+            {
+                id: 'auth-logout',
+                enabled: true,
+                path: '/api/auth/logout*',
+                method: 'ALL',
+                limit: 30,
+                windowSeconds: 900,
+                scope: 'ip',
+                description: '로그아웃'
+            },
+            {
+                id: 'api-read',
+                enabled: true,
+                path: '/api/*',
+                method: 'READ',
+                limit: 600,
+                windowSeconds: 60,
+                scope: 'user',
+                description: 'API 조회 (페이지당 ~10 API 호출)'
+            },
+            {
+                id: 'api-read-ip',
+                enabled: true,
+                path: '/api/*',
+                method: 'READ',
+                limit: 3000,
+                windowSeconds: 60,
+                scope: 'ip',
+                description: 'API 조회 IP 상한 (같은 IP 회원 여러 명 허용)'
+            },
+            {
+                id: 'api-write',
+                enabled: true,
+                path: '/api/*',
+                method: 'WRITE',
+                limit: 60,
+                windowSeconds: 60,
+                scope: 'user',
+                description: 'API 쓰기'
+            },
+            {
+                id: 'api-write-ip',
+                enabled: true,
+                path: '/api/*',
+                method: 'WRITE',
+                limit: 300,
+                windowSeconds: 60,
+                scope: 'ip',
+                description: 'API 쓰기 IP 상한'
+            }
+        ],
+        exemptLevels: [],
+        exemptIps: []
+    },
+    search: {
+        provider: 'sphinx',
+        meilisearch: {
+            host: 'http://127.0.0.1:7700',
+            apiKey: '',
+            indexName: 'angple_posts'
+        }
     }
 };
 
@@ -192,6 +367,45 @@ export const FEATURE_FLAG_META: FeatureFlagMeta[] = [
     }
 ];
 
+/** Rate limit 범위 라벨 (UI용) */
+export const RATE_LIMIT_SCOPE_LABELS: Record<RateLimitScope, string> = {
+    ip: 'IP',
+    user: '회원',
+    level: '레벨'
+};
+
+/** 검색 백엔드 메타 (UI용) */
+export const SEARCH_PROVIDER_META: { id: SearchProviderId; name: string; description: string }[] = [
+    {
+        id: 'sphinx',
+        name: 'Sphinx',
+        description: '외부 indexer가 만든 Sphinx 인덱스를 사용합니다. (SPHINX_HOST)'
+    },
+    {
+        id: 'mysql',
+        name: 'MySQL FULLTEXT',
+        description:
+            '별도 서버 없이 MySQL ngram 전문 검색을 사용합니다. 소규모 사이트에 적합합니다.'
+    },
+    {
+        id: 'meilisearch',
+        name: 'Meilisearch',
+        description: 'Meilisearch 서버에 색인합니다. 오타 허용·빠른 검색이 필요할 때 사용합니다.'
+    }
+];
+
+/** Rate limit 메서드 목록 (UI용) */
+export const RATE_LIMIT_METHODS: RateLimitMethod[] = [
+    'ALL',
+    'READ',
+    'WRITE',
+    'GET',
+    'POST',
+    'PUT',
+    'PATCH',
+    'DELETE'
+];
+
 /** OAuth 프로바이더 메타 목록 */
 export const OAUTH_PROVIDER_META: OAuthProviderMeta[] = [
     {
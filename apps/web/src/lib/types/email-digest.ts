@@ -0,0 +1,12 @@
+/**
+ * 이메일 다이제스트 타입 정의 (알림 설정 화면 / 발송 서버)
+ */
+
+/** 다이제스트 발송 주기 */
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+export const DIGEST_FREQUENCIES: DigestFrequency[] = ['off', 'daily', 'weekly'];
+
+export function isDigestFrequency(value: unknown): value is DigestFrequency {
+    return typeof value === 'string' && (DIGEST_FREQUENCIES as string[]).includes(value);
+}
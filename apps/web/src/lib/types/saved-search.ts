@@ -0,0 +1,55 @@
+/**
+ * 저장한 검색 타입 정의 (검색 화면 / 마이페이지 / 새 글 알림 서버)
+ */
+
+import type { SearchField } from '$lib/api/types.js';
+
+/** 저장 가능한 검색 필드 (Google 사이트 검색 제외) */
+export type SavedSearchField = Exclude<SearchField, 'google'>;
+
+export const SAVED_SEARCH_FIELDS: SavedSearchField[] = [
+    'title_content',
+    'title',
+    'content',
+    'author',
+    'comment',
+    'comment_author'
+];
+
+export const SAVED_SEARCH_FIELD_LABELS: Record<SavedSearchField, string> = {
+    title_content: '제목+내용',
+    title: '제목',
+    content: '내용',
+    author: '작성자',
+    comment: '댓글',
+    comment_author: '작성자(댓글)'
+};
+
+/** 회원당 최대 저장 개수 */
+export const MAX_SAVED_SEARCHES = 20;
+
+export function isSavedSearchField(value: unknown): value is SavedSearchField {
+    return typeof value === 'string' && (SAVED_SEARCH_FIELDS as string[]).includes(value);
+}
+
+export interface SavedSearch {
+    id: number;
+    query: string;
+    field: SavedSearchField;
+    /** 게시판 필터 (null이면 전체 게시판) */
+    boardId: string | null;
+    boardName: string | null;
+    /** 새 글 알림 여부 */
+    notify: boolean;
+    /** 결과를 확인하지 않은 새 글 수 */
+    newCount: number;
+    lastCheckedAt: string | null;
+    createdAt: string;
+}
+
+/** 검색 화면(/search) 주소 */
+export function savedSearchUrl(search: Pick<SavedSearch, 'query' | 'field' | 'boardId'>): string {
+    const params = new URLSearchParams({ q: search.query, sfl: search.field });
+    if (search.boardId) params.set('board', search.boardId);
+    return `/search?${params.toString()}`;
+}
@@ -53,7 +53,7 @@ export const load: LayoutServerLoad = async ({
             ga4MeasurementId: ''
         };
 
-        return hooks.applyFilters('layout_server_data', installLayoutData);
+        return hooks.applyFiltersAsync('layout_server_data', installLayoutData);
     }
 
     // 병렬로 SSR 필수 데이터만 로드 (allSettled: 개별 실패 허용)
@@ -132,5 +132,6 @@ export const load: LayoutServerLoad = async ({
     };
 
     // 훅: 레이아웃 데이터 필터 (플러그인이 SSR 데이터를 수정/확장 가능)
-    return hooks.applyFilters('layout_server_data', layoutData);
+    // 샌드박스 플러그인 콜백은 비동기 전용이라 applyFiltersAsync로 실행
+    return hooks.applyFiltersAsync('layout_server_data', layoutData);
 };
@@ -13,7 +13,7 @@ import { fetchWithdrawnMemberIds } from '$lib/server/withdrawn-members.js';
 import { createCache } from '$lib/server/cache.js';
 import { getCachedBoard, resolveCanonicalBoardId } from '$lib/server/board-cache.js';
 import { resolveGivingMeta } from '$lib/features/giving/model.js';
-import { searchByBoard } from '$lib/server/sphinx-search.js';
+import { searchByField } from '$lib/server/search/index.js';
 import { readPool } from '$lib/server/db.js';
 import type { RowDataPacket } from 'mysql2';
 
@@ -140,7 +140,7 @@ function enrichGivingPosts(posts: FreePost[]): void {
     }
 }
 
-const postsCache = createCache<PostsCacheData>({ ttl: 15_000, maxSize: 100 });
+const postsCache = createCache<PostsCacheData>({ name: 'board:posts', ttl: 15_000, maxSize: 100 });
 const inFlightPostsLoads = new Map<string, Promise<PostsCacheData>>();
 
 const DEFAULT_POSTS_TIMEOUT_MS = 12_000;
@@ -388,7 +388,7 @@ export const load: PageServerLoad = async ({
         }
 
         // 일반 게시판 (또는 프로모션 게시판 검색/태그 필터)
-        // 검색 시 Sphinx 경유, 비검색 시 기존 Go 백엔드 호출
+        // 검색 시 검색 엔진(관리자 설정) 경유, 비검색 시 기존 Go 백엔드 호출
         const fetchPostsViaGoBackend = async () => {
             const res = await bFetch(buildPostsUrl(), {
                 headers,
@@ -399,25 +399,23 @@ export const load: PageServerLoad = async ({
             return res.json();
         };
 
-        const fetchPostsViaSphinx = async () => {
+        const fetchPostsViaSearch = async () => {
             try {
-                const sort = (searchSort === 'relevance' ? 'relevance' : 'date') as
-                    | 'date'
-                    | 'relevance';
-                const sphinxResult = await searchByBoard(
+                const sort = searchSort === 'relevance' ? 'relevance' : 'date';
+                const searchResult = await searchByField(searchField!, {
                     boardId,
-                    searchField!,
-                    searchQuery!,
+                    query: searchQuery!,
                     page,
                     limit,
                     sort
-                );
-                if (sphinxResult.ids.length === 0) {
-                    return { data: [], meta: { page, limit, total: sphinxResult.total } };
+                });
+                const ids = searchResult.hits.map((hit) => hit.wrId);
+                if (ids.length === 0) {
+                    return { data: [], meta: { page, limit, total: searchResult.total } };
                 }
-                // Sphinx에서 가져온 ID로 DB 직접 조회
+                // 검색 엔진에서 가져온 ID로 DB 직접 조회
                 const tableName = `g5_write_${boardId}`;
-                const ph = sphinxResult.ids.map(() => '?').join(',');
+                const ph = ids.map(() => '?').join(',');
                 const [rows] = await readPool.execute<RowDataPacket[]>(
                     `SELECT wr_id AS id, wr_subject AS title, wr_content AS content,
                             wr_name AS author, mb_id AS author_id, wr_hit AS views,
@@ -428,27 +426,25 @@ export const load: PageServerLoad = async ({
                             wr_4 AS extra_4, wr_5 AS extra_5, wr_6 AS extra_6, wr_7 AS extra_7
                      FROM ${tableName}
                      WHERE wr_id IN (${ph}) AND wr_is_comment = 0`,
-                    sphinxResult.ids
+                    ids
                 );
-                // Sphinx 결과 순서 유지
+                // 검색 결과 순서 유지
                 const rowMap = new Map(rows.map((r) => [r.id, r]));
-                const ordered = sphinxResult.ids
-                    .map((id) => rowMap.get(id))
-                    .filter(Boolean) as RowDataPacket[];
+                const ordered = ids.map((id) => rowMap.get(id)).filter(Boolean) as RowDataPacket[];
                 return {
                     data: ordered,
-                    meta: { page, limit, total: sphinxResult.total }
+                    meta: { page, limit, total: searchResult.total }
                 };
             } catch (err) {
-                // Sphinx/DB 실패 시 Go 백엔드 LIKE 검색으로 fallback
-                console.error('Sphinx search failed, falling back to backend:', err);
+                // 검색 엔진/DB 실패 시 Go 백엔드 LIKE 검색으로 fallback
+                console.error('Search failed, falling back to backend:', err);
                 return fetchPostsViaGoBackend();
             }
         };
 
         const [postsResult, noticesResult] = await Promise.allSettled([
             isSearching
-                ? fetchPostsViaSphinx()
+                ? fetchPostsViaSearch()
                 : bFetch(buildPostsUrl(), {
                       headers,
                       timeout: isHotBoard ? HOT_BOARD_POSTS_TIMEOUT_MS : DEFAULT_POSTS_TIMEOUT_MS,
@@ -1,12 +1,12 @@
 import { error, redirect } from '@sveltejs/kit';
+import { hooks } from '@angple/hook-system';
 import type { PageServerLoad } from './$types.js';
 import type { Board, FreePost } from '$lib/api/types.js';
 import { fetchPromotionPosts, fetchPromotionBoardPosts } from '$lib/server/ads/promotion.js';
 import {
     applyAffiliateField,
     fetchPostAffiliateLinks,
-    findAffiliateFieldRow,
-    renderAffiliateContent
+    findAffiliateFieldRow
 } from '$lib/server/affiliate-links.js';
 import { isLinkProcessingPluginEnabled } from '$lib/server/link-processing/runtime.js';
 import { isScraped } from '$lib/server/scrap.js';
@@ -210,11 +210,16 @@ export const load: PageServerLoad = async ({
         }
 
         // 본문 제휴 링크 변환은 2단계 스트리밍으로 이동 (초기 렌더 블로킹 방지)
-        const affiliateContext = { bo_table: boardId, wr_id: Number(postId) };
         const affiliateEnabled = await isLinkProcessingPluginEnabled().catch(() => false);
         const postAffiliateRows = affiliateEnabled
             ? await fetchPostAffiliateLinks(boardId, Number(postId)).catch(() => [])
             : [];
+        const affiliateContext = {
+            bo_table: boardId,
+            wr_id: Number(postId),
+            affiliate_enabled: affiliateEnabled,
+            affiliate_rows: postAffiliateRows
+        };
 
         // 링크1/링크2는 본문/댓글 Hook를 타지 않으므로 별도 제휴 변환한다.
         if (post.link1 || post.link2) {
@@ -409,12 +414,12 @@ export const load: PageServerLoad = async ({
                     `document:${boardId}:${postId}`,
                     locals.user?.id || ''
                 ).catch(() => ({}) as Record<string, unknown>),
-                // 본문 제휴 링크 변환 (스트리밍 — 초기 렌더 블로킹 방지)
-                Promise.resolve(
-                    affiliateEnabled && post.content
-                        ? renderAffiliateContent(post.content, postAffiliateRows, 'post_body')
-                        : null
-                ),
+                // 본문 제휴 링크 변환 — post_content 필터 (스트리밍 — 초기 렌더 블로킹 방지)
+                post.content
+                    ? hooks
+                          .applyFiltersAsync('post_content', post.content, affiliateContext)
+                          .then((html) => (html !== post.content ? html : null))
+                    : Promise.resolve(null),
                 // 스크랩 여부 (로그인 시만, 스트리밍 — 초기 렌더 블로킹 방지)
                 locals.user?.id
                     ? isScraped(locals.user.id, boardId, postId).catch(() => false)
@@ -0,0 +1,17 @@
+/**
+ * 캐시 통계 API (관리자)
+ *
+ * GET /api/admin/caches — 등록된 캐시별 크기·히트율·통계 (요청을 처리한 Pod 기준)
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { listCacheSnapshots } from '$lib/server/cache-registry.js';
+
+export const GET: RequestHandler = async ({ locals }) => {
+    if (!locals.user || locals.user.level < 10) {
+        return json({ success: false, error: 'Unauthorized' }, { status: 403 });
+    }
+
+    return json({ success: true, data: listCacheSnapshots() });
+};
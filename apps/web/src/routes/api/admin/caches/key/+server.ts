@@ -0,0 +1,53 @@
+/**
+ * 캐시 단일 키 조회/삭제 API (관리자)
+ *
+ * GET    /api/admin/caches/key?cache=<이름>&key=<키> — L1/L2 상태와 값 미리보기
+ * DELETE /api/admin/caches/key?cache=<이름>&key=<키> — 키 삭제 (모든 Pod에 전파)
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getRegisteredCache } from '$lib/server/cache-registry.js';
+
+function resolveTarget(url: URL) {
+    const name = url.searchParams.get('cache') ?? '';
+    const key = url.searchParams.get('key') ?? '';
+    if (!name || !key) {
+        return {
+            error: json({ success: false, error: '캐시와 키를 지정하세요.' }, { status: 400 })
+        };
+    }
+    const cache = getRegisteredCache(name);
+    if (!cache) {
+        return {
+            error: json(
+                { success: false, error: `캐시를 찾을 수 없습니다: ${name}` },
+                { status: 404 }
+            )
+        };
+    }
+    return { cache, key };
+}
+
+export const GET: RequestHandler = async ({ locals, url }) => {
+    if (!locals.user || locals.user.level < 10) {
+        return json({ success: false, error: 'Unauthorized' }, { status: 403 });
+    }
+
+    const target = resolveTarget(url);
+    if (target.error) return target.error;
+
+    return json({ success: true, data: await target.cache.inspect(target.key) });
+};
+
+export const DELETE: RequestHandler = async ({ locals, url }) => {
+    if (!locals.user || locals.user.level < 10) {
+        return json({ success: false, error: 'Unauthorized' }, { status: 403 });
+    }
+
+    const target = resolveTarget(url);
+    if (target.error) return target.error;
+
+    await target.cache.purge(target.key);
+    return json({ success: true });
+};
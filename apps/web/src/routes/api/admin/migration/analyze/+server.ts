@@ -4,21 +4,67 @@
  * POST /api/admin/migration/analyze — 사전 분석
  * POST /api/admin/migration/run — 마이그레이션 실행
  *
- * 주의: 관리자 전용 API. 인증 검증은 hooks.server.ts에서 처리.
+ * 주의: 관리자 전용 API.
  */
 
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
+import { analyzeWordpress, analyzeXe1 } from '@angple/migration';
+import { resolveMigrationUpload } from '$lib/server/migration-uploads';
 
 /**
  * POST /api/admin/migration/analyze
- * 소스 DB에 연결하여 사전 분석 수행
+ * 소스 DB(WordPress는 업로드한 WXR 파일)를 읽어 사전 분석 수행
  */
-export const POST: RequestHandler = async ({ request }) => {
+export const POST: RequestHandler = async ({ locals, request }) => {
+    if (!locals.user || locals.user.level < 10) {
+        return json({ success: false, error: 'Unauthorized' }, { status: 403 });
+    }
+
     try {
         const body = await request.json();
         const { source } = body;
 
+        if (source === 'wordpress') {
+            const filePath = await resolveMigrationUpload(body.uploadId);
+            if (!filePath) {
+                return json(
+                    {
+                        success: false,
+                        error: '업로드한 WXR 파일을 찾을 수 없습니다. 다시 업로드하세요.'
+                    },
+                    { status: 400 }
+                );
+            }
+            try {
+                return json({ success: true, analysis: await analyzeWordpress(filePath) });
+            } catch (error) {
+                console.error('❌ [Migration] WXR 분석 실패:', error);
+                return json(
+                    {
+                        success: false,
+                        error:
+                            error instanceof Error
+                                ? `WXR 파일 분석 실패: ${error.message}`
+                                : 'WXR 파일을 읽을 수 없습니다.'
+                    },
+                    { status: 400 }
+                );
+            }
+        }
+
+        if (source === 'xe1') {
+            const analysis = await analyzeXe1({
+                host: body.host,
+                port: body.port || 3306,
+                user: body.user,
+                password: body.password,
+                database: body.database,
+                tablePrefix: body.tablePrefix || 'xe_'
+            });
+            return json({ success: true, analysis });
+        }
+
         // mysql2 동적 import
         const mysql = await import('mysql2/promise');
         const prefix = body.tablePrefix || (source === 'gnuboard' ? 'g5_' : 'xe_');
@@ -6,18 +6,115 @@
  * 실제 마이그레이션을 실행합니다.
  * 현재는 dry-run 모드에서 통계만 반환합니다.
  * 실제 쓰기는 @angple/migration 패키지의 migrateGnuboard/migrateRhymix를 호출합니다.
+ *
+ * XE1/WordPress dry-run은 패키지의 마이그레이션을 쓰기 없이 끝까지 실행하고
+ * 진행 상황을 NDJSON 스트림(progress → result|error)으로 보냅니다.
  */
 
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
+import {
+    migrateWordpress,
+    migrateXe1,
+    type MigrationProgress,
+    type MigrationResult
+} from '@angple/migration';
+import { resolveMigrationUpload } from '$lib/server/migration-uploads';
+
+/**
+ * 패키지 마이그레이션을 실행하며 진행 상황을 NDJSON으로 스트리밍
+ * (진행률 퍼센트나 단계가 바뀔 때만 전송)
+ */
+function streamMigration(
+    run: (onProgress: (progress: MigrationProgress) => void) => Promise<MigrationResult>
+): Response {
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+        async start(controller) {
+            const send = (event: Record<string, unknown>) =>
+                controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+
+            let lastKey = '';
+            try {
+                const result = await run(({ phase, current, total, message, percent }) => {
+                    const key = `${phase}:${percent}`;
+                    if (key === lastKey) return;
+                    lastKey = key;
+                    send({
+                        type: 'progress',
+                        progress: { phase, current, total, message, percent }
+                    });
+                });
+                send({ type: 'result', result });
+            } catch (error) {
+                console.error('[Migration] 실행 실패:', error);
+                send({
+                    type: 'error',
+                    error:
+                        error instanceof Error
+                            ? error.message
+                            : '마이그레이션 실행 중 오류가 발생했습니다.'
+                });
+            } finally {
+                controller.close();
+            }
+        }
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'application/x-ndjson; charset=utf-8',
+            'Cache-Control': 'no-cache'
+        }
+    });
+}
+
+export const POST: RequestHandler = async ({ locals, request }) => {
+    if (!locals.user || locals.user.level < 10) {
+        return json({ success: false, error: 'Unauthorized' }, { status: 403 });
+    }
 
-export const POST: RequestHandler = async ({ request }) => {
     try {
         const body = await request.json();
         const { source, sourceDb, targetDb, dryRun } = body;
 
         const startedAt = new Date();
 
+        if (dryRun && (source === 'xe1' || source === 'wordpress')) {
+            const common = {
+                targetDb: { ...targetDb, port: targetDb.port || 3306 },
+                boardFilter: Array.isArray(body.boardFilter) ? body.boardFilter : undefined,
+                migrateAttachments: false,
+                keepPhpPasswords: body.keepPhpPasswords !== false,
+                dryRun: true
+            };
+
+            if (source === 'wordpress') {
+                const sourceFile = await resolveMigrationUpload(body.uploadId);
+                if (!sourceFile) {
+                    return json(
+                        {
+                            success: false,
+                            error: '업로드한 WXR 파일을 찾을 수 없습니다. 다시 업로드하세요.'
+                        },
+                        { status: 400 }
+                    );
+                }
+                return streamMigration((onProgress) =>
+                    migrateWordpress({ ...common, sourceFile, onProgress })
+                );
+            }
+
+            return streamMigration((onProgress) =>
+                migrateXe1({
+                    ...common,
+                    sourceDb: { ...sourceDb, port: sourceDb.port || 3306 },
+                    tablePrefix: body.tablePrefix || 'xe_',
+                    onProgress
+                })
+            );
+        }
+
         // Dry-run: 분석 결과를 기반으로 예상 통계 반환
         // 실제 모드: @angple/migration 패키지 호출 (mysql2 연결 필요)
         if (dryRun) {
@@ -117,6 +214,7 @@ export const POST: RequestHandler = async ({ request }) => {
             }
         } else {
             // 실제 마이그레이션 — @angple/migration 패키지 호출
+            // 관리 화면은 모든 소스(그누보드/라이믹스/XE1/WordPress)에 대해 분석·dry-run·진행률까지만 지원
             // TODO: 프로덕션에서는 백그라운드 작업으로 실행
             return json(
                 {
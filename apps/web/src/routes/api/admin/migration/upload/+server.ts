@@ -0,0 +1,36 @@
+/**
+ * 마이그레이션 파일 업로드 API
+ *
+ * POST /api/admin/migration/upload — WordPress WXR(XML) 파일 업로드
+ *
+ * 요청 본문은 파일 자체(raw body)입니다. multipart로 받으면 파일 전체가
+ * 메모리에 올라가므로 사용하지 않습니다. 큰 파일은 BODY_SIZE_LIMIT을 늘려야 합니다.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { saveMigrationUpload } from '$lib/server/migration-uploads';
+
+export const POST: RequestHandler = async ({ locals, request }) => {
+    if (!locals.user || locals.user.level < 10) {
+        return json({ success: false, error: 'Unauthorized' }, { status: 403 });
+    }
+
+    if (!request.body) {
+        return json({ success: false, error: '파일이 제공되지 않았습니다.' }, { status: 400 });
+    }
+
+    try {
+        const { uploadId, size } = await saveMigrationUpload(request.body);
+        return json({ success: true, uploadId, size });
+    } catch (error) {
+        console.error('[Migration] 파일 업로드 실패:', error);
+        return json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : '파일 업로드에 실패했습니다.'
+            },
+            { status: 500 }
+        );
+    }
+};
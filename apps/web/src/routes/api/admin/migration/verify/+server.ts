@@ -0,0 +1,104 @@
+/**
+ * 마이그레이션 검증 API
+ *
+ * POST /api/admin/migration/verify — 소스/대상 DB 행 비교 시작 (백그라운드, 이미 실행 중이면 409)
+ * GET /api/admin/migration/verify?id=...&format=json|csv — 보고서 다운로드 (24시간 보관)
+ *
+ * 진행 상태와 결과 미리보기는 GET /api/admin/migration/verify/status?id=... 로 조회합니다.
+ *
+ * 현재는 그누보드 소스만 지원합니다.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { verificationReportToCsv, type VerificationReport } from '@angple/migration';
+import {
+    getMigrationVerifyReport,
+    startMigrationVerification,
+    VERIFY_JOB_ID_PATTERN
+} from '$lib/server/migration-verify';
+
+export const POST: RequestHandler = async ({ locals, request }) => {
+    if (!locals.user || locals.user.level < 10) {
+        return json({ success: false, error: 'Unauthorized' }, { status: 403 });
+    }
+
+    try {
+        const body = await request.json();
+        const { source, sourceDb, targetDb } = body;
+
+        if (source !== 'gnuboard') {
+            return json(
+                { success: false, error: '검증은 현재 그누보드 마이그레이션만 지원합니다.' },
+                { status: 400 }
+            );
+        }
+
+        const sampleSize = Number(body.sampleSize);
+        const status = await startMigrationVerification({
+            sourceDb: { ...sourceDb, port: sourceDb.port || 3306 },
+            targetDb: { ...targetDb, port: targetDb.port || 3306 },
+            tablePrefix: body.tablePrefix || 'g5_',
+            boardFilter: Array.isArray(body.boardFilter) ? body.boardFilter : undefined,
+            sampleSize: Number.isFinite(sampleSize) && sampleSize >= 0 ? sampleSize : undefined,
+            attachmentTargetPath: body.attachmentTargetPath || undefined
+        });
+        if (!status) {
+            return json(
+                { success: false, error: '이미 마이그레이션 검증이 진행 중입니다.' },
+                { status: 409 }
+            );
+        }
+        return json({ success: true, data: status }, { status: 202 });
+    } catch (error) {
+        console.error('[Migration] 검증 시작 실패:', error);
+        return json(
+            {
+                success: false,
+                error:
+                    error instanceof Error
+                        ? error.message
+                        : '마이그레이션 검증을 시작할 수 없습니다.'
+            },
+            { status: 500 }
+        );
+    }
+};
+
+export const GET: RequestHandler = async ({ locals, url }) => {
+    if (!locals.user || locals.user.level < 10) {
+        return json({ success: false, error: 'Unauthorized' }, { status: 403 });
+    }
+
+    const id = url.searchParams.get('id') ?? '';
+    if (!VERIFY_JOB_ID_PATTERN.test(id)) {
+        return json({ success: false, error: '잘못된 보고서 ID입니다.' }, { status: 400 });
+    }
+
+    const raw = await getMigrationVerifyReport(id);
+    if (!raw) {
+        return json(
+            { success: false, error: '보고서가 없거나 보관 기간이 지났습니다.' },
+            { status: 404 }
+        );
+    }
+
+    const filename = `migration-verify-${id.slice(0, 8)}`;
+    if (url.searchParams.get('format') === 'csv') {
+        const report = JSON.parse(raw) as VerificationReport;
+        // Excel에서 한글이 깨지지 않도록 BOM 추가
+        return new Response('\uFEFF' + verificationReportToCsv(report), {
+            headers: {
+                'Content-Type': 'text/csv; charset=utf-8',
+                'Content-Disposition': `attachment; filename="${filename}.csv"`
+            }
+        });
+    }
+
+    return new Response(raw, {
+        headers: {
+            'Content-Type': 'application/json; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${filename}.json"`
+        }
+    });
+};
@@ -0,0 +1,56 @@
+/**
+ * 마이그레이션 검증 상태 API
+ *
+ * GET /api/admin/migration/verify/status?id=... — 진행 상태, 완료 시 결과 미리보기 포함
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import type { VerificationReport } from '@angple/migration';
+import {
+    getMigrationVerifyReport,
+    getMigrationVerifyStatus,
+    VERIFY_JOB_ID_PATTERN
+} from '$lib/server/migration-verify';
+
+/** 응답 본문에 미리보기로 포함할 불일치 건수 */
+const PREVIEW_MISMATCHES = 100;
+
+export const GET: RequestHandler = async ({ locals, url }) => {
+    if (!locals.user || locals.user.level < 10) {
+        return json({ success: false, error: 'Unauthorized' }, { status: 403 });
+    }
+
+    const id = url.searchParams.get('id') ?? '';
+    if (!VERIFY_JOB_ID_PATTERN.test(id)) {
+        return json({ success: false, error: '잘못된 검증 작업 ID입니다.' }, { status: 400 });
+    }
+
+    try {
+        const status = await getMigrationVerifyStatus(id);
+        if (!status) {
+            return json(
+                { success: false, error: '검증 작업이 없거나 보관 기간이 지났습니다.' },
+                { status: 404 }
+            );
+        }
+        if (status.state !== 'completed') {
+            return json({ success: true, data: status });
+        }
+
+        const raw = await getMigrationVerifyReport(id);
+        const report = raw ? (JSON.parse(raw) as VerificationReport) : null;
+        return json({
+            success: true,
+            data: status,
+            report: report && {
+                ...report,
+                mismatches: report.mismatches.slice(0, PREVIEW_MISMATCHES),
+                totalMismatches: report.mismatches.length + report.truncated
+            }
+        });
+    } catch (error) {
+        console.error('[Migration] 검증 상태 조회 실패:', error);
+        return json({ success: false, error: '검증 상태를 불러올 수 없습니다.' }, { status: 500 });
+    }
+};
@@ -0,0 +1,30 @@
+/**
+ * 플러그인 권한 감사 로그 API
+ *
+ * GET /api/admin/plugins/audit?plugin=&permission=&denied=1&page=1&limit=50
+ * — 플러그인·권한·거부 여부로 필터링한 감사 기록 (최신순)
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { queryPluginAuditLog } from '$lib/server/plugins/audit-log';
+
+export const GET: RequestHandler = async ({ locals, url }) => {
+    if (!locals.user || locals.user.level < 10) {
+        return json({ success: false, error: 'Unauthorized' }, { status: 403 });
+    }
+
+    try {
+        const data = await queryPluginAuditLog({
+            pluginId: url.searchParams.get('plugin') || undefined,
+            permission: url.searchParams.get('permission') || undefined,
+            deniedOnly: url.searchParams.get('denied') === '1',
+            page: Number(url.searchParams.get('page')) || 1,
+            limit: Number(url.searchParams.get('limit')) || 50
+        });
+        return json({ success: true, data });
+    } catch (error) {
+        console.error('[Plugin Audit API] 조회 실패:', error);
+        return json({ success: false, error: '감사 로그를 불러오지 못했습니다.' }, { status: 500 });
+    }
+};
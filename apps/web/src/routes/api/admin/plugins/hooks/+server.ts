@@ -0,0 +1,40 @@
+/**
+ * Hook 프로파일러 API
+ *
+ * GET /api/admin/plugins/hooks — Hook/소스별 호출 수, p50/p95 실행 시간, 에러 통계
+ * DELETE /api/admin/plugins/hooks — 통계 초기화
+ *
+ * 이 프로세스(pod)에서 수집된 값만 반환합니다.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { hooks } from '@angple/hook-system';
+import { hookRegistry } from '$lib/hooks/registry';
+
+export const GET: RequestHandler = async ({ locals }) => {
+    if (!locals.user || locals.user.level < 10) {
+        return json({ success: false, error: 'Unauthorized' }, { status: 403 });
+    }
+
+    return json({
+        success: true,
+        data: {
+            /** @angple/hook-system 전역 HookManager (플러그인 엔진, 서버 필터) */
+            manager: hooks.getProfile(),
+            /** 앱 HookRegistry (테마/플러그인 Hook 로더) */
+            registry: hookRegistry.getProfile(),
+            collectedAt: new Date().toISOString()
+        }
+    });
+};
+
+export const DELETE: RequestHandler = async ({ locals }) => {
+    if (!locals.user || locals.user.level < 10) {
+        return json({ success: false, error: 'Unauthorized' }, { status: 403 });
+    }
+
+    hooks.resetProfile();
+    hookRegistry.resetProfile();
+    return json({ success: true });
+};
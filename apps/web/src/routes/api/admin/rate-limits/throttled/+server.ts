@@ -0,0 +1,33 @@
+/**
+ * Rate limit 차단 현황 API
+ *
+ * GET    /api/admin/rate-limits/throttled — 현재 차단 중인 클라이언트 목록
+ * DELETE /api/admin/rate-limits/throttled — 차단 해제 (body: { action, key, windowMs })
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { listThrottledClients, resetAttempts } from '$lib/server/rate-limit.js';
+
+export const GET: RequestHandler = async ({ locals }) => {
+    if (!locals.user || locals.user.level < 10) {
+        return json({ success: false, error: 'Unauthorized' }, { status: 403 });
+    }
+
+    const clients = await listThrottledClients();
+    return json({ success: true, data: clients });
+};
+
+export const DELETE: RequestHandler = async ({ locals, request }) => {
+    if (!locals.user || locals.user.level < 10) {
+        return json({ success: false, error: 'Unauthorized' }, { status: 403 });
+    }
+
+    const { action, key, windowMs } = await request.json().catch(() => ({}));
+    if (typeof action !== 'string' || typeof key !== 'string' || !(Number(windowMs) > 0)) {
+        return json({ success: false, error: '잘못된 요청입니다.' }, { status: 400 });
+    }
+
+    await resetAttempts(key, action, Number(windowMs));
+    return json({ success: true });
+};
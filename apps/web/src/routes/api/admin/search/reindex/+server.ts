@@ -0,0 +1,50 @@
+/**
+ * 검색 색인 재생성 API
+ *
+ * GET  /api/admin/search/reindex — 마지막 재색인 상태
+ * POST /api/admin/search/reindex — 재색인 시작 (백그라운드, 이미 실행 중이면 409)
+ *
+ * 관리자 또는 x-internal-secret 헤더(INTERNAL_SECRET)로 호출합니다. (scripts/search-reindex.ts)
+ */
+import { json } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
+import type { RequestHandler } from './$types';
+import { getSearchReindexStatus, startSearchReindex } from '$lib/server/search/reindex.js';
+
+function isAuthorized(request: Request, locals: App.Locals): boolean {
+    if (locals.user && locals.user.level >= 10) return true;
+    const secret = env.INTERNAL_SECRET || '';
+    return Boolean(secret) && request.headers.get('x-internal-secret') === secret;
+}
+
+export const GET: RequestHandler = async ({ request, locals }) => {
+    if (!isAuthorized(request, locals)) {
+        return json({ error: 'Unauthorized' }, { status: 403 });
+    }
+
+    try {
+        return json({ success: true, data: await getSearchReindexStatus() });
+    } catch (error) {
+        console.error('재색인 상태 조회 실패:', error);
+        return json({ error: '재색인 상태를 불러올 수 없습니다.' }, { status: 500 });
+    }
+};
+
+export const POST: RequestHandler = async ({ request, locals }) => {
+    if (!isAuthorized(request, locals)) {
+        return json({ error: 'Unauthorized' }, { status: 403 });
+    }
+
+    try {
+        const status = await startSearchReindex();
+        if (!status) {
+            return json({ error: '이미 재색인이 진행 중입니다.' }, { status: 409 });
+        }
+        return json({ success: true, data: status }, { status: 202 });
+    } catch (error) {
+        return json(
+            { error: error instanceof Error ? error.message : '재색인을 시작할 수 없습니다.' },
+            { status: 400 }
+        );
+    }
+};
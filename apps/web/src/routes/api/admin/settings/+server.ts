@@ -1,9 +1,18 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { siteSettingsProvider } from '$lib/server/settings/site-settings-provider.js';
+import {
+    invalidateRateLimitPolicy,
+    normalizeRateLimitSettings
+} from '$lib/server/rate-limit-policy.js';
+import { invalidateSearchProvider, normalizeSearchSettings } from '$lib/server/search/index.js';
 
 /** 설정 전체 조회 */
-export const GET: RequestHandler = async () => {
+export const GET: RequestHandler = async ({ locals }) => {
+    if (!locals.user || locals.user.level < 10) {
+        return json({ error: 'Unauthorized' }, { status: 403 });
+    }
+
     try {
         const settings = await siteSettingsProvider.load();
         return json(settings);
@@ -14,10 +23,27 @@ export const GET: RequestHandler = async () => {
 };
 
 /** 설정 전체 저장 */
-export const PUT: RequestHandler = async ({ request }) => {
+export const PUT: RequestHandler = async ({ locals, request }) => {
+    if (!locals.user || locals.user.level < 10) {
+        return json({ error: 'Unauthorized' }, { status: 403 });
+    }
+
+    let data;
+    try {
+        data = await request.json();
+        data.rateLimits = normalizeRateLimitSettings(data.rateLimits);
+        data.search = normalizeSearchSettings(data.search);
+    } catch (error) {
+        return json(
+            { error: error instanceof Error ? error.message : '설정 형식이 올바르지 않습니다.' },
+            { status: 400 }
+        );
+    }
+
     try {
-        const data = await request.json();
         await siteSettingsProvider.save(data);
+        invalidateRateLimitPolicy();
+        invalidateSearchProvider();
         return json({ success: true });
     } catch (error) {
         console.error('설정 저장 실패:', error);
@@ -5,7 +5,7 @@ import type { RequestHandler } from './$types';
 
 // 인메모리 캐시 (60초 TTL, singleflight 내장)
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-const bannerProxyCache = createCache<any>({ ttl: 60_000, maxSize: 50 });
+const bannerProxyCache = createCache<any>({ name: 'ads:banner-proxy', ttl: 60_000, maxSize: 50 });
 const ADS_BANNER_TIMEOUT_MS = 1_200;
 
 // GET /api/ads/banners?position=board-head&limit=1
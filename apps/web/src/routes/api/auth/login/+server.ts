@@ -11,12 +11,13 @@ import {
 import { generateRefreshToken } from '$lib/server/auth/jwt.js';
 import { setDamoangSSOCookie } from '$lib/server/auth/sso-cookie.js';
 import { getMemberById } from '$lib/server/auth/oauth/member.js';
-import { checkRateLimit, recordAttempt, resetAttempts } from '$lib/server/rate-limit.js';
+import { consumeRateLimit, rateLimitHeaders, resetAttempts } from '$lib/server/rate-limit.js';
 import { checkAndPromoteMember } from '$lib/server/auth/auto-promotion.js';
 import { grantLoginXP } from '$lib/server/auth/xp-grant.js';
 
 const BACKEND_URL = env.BACKEND_URL || 'http://localhost:8090';
 const COOKIE_DOMAIN = env.COOKIE_DOMAIN || '';
+const LOGIN_RATE_WINDOW_MS = 15 * 60 * 1000;
 
 /**
  * POST /api/auth/login
@@ -30,17 +31,13 @@ export const POST: RequestHandler = async ({ request, cookies, getClientAddress
     const clientIp = getClientAddress();
 
     // Rate limiting
-    const rateCheck = checkRateLimit(clientIp, 'login', 10, 15 * 60 * 1000);
+    const rateCheck = await consumeRateLimit(clientIp, 'login', 10, LOGIN_RATE_WINDOW_MS);
     if (!rateCheck.allowed) {
         return json(
             { success: false, message: '로그인 시도가 너무 많습니다. 잠시 후 다시 시도해주세요.' },
-            {
-                status: 429,
-                headers: { 'Retry-After': String(rateCheck.retryAfter || 60) }
-            }
+            { status: 429, headers: rateLimitHeaders(rateCheck) }
         );
     }
-    recordAttempt(clientIp, 'login');
 
     const body = await request.json();
     const { username, password } = body;
@@ -79,7 +76,7 @@ export const POST: RequestHandler = async ({ request, cookies, getClientAddress
         }
 
         // 로그인 성공 → Rate limit 초기화
-        resetAttempts(clientIp, 'login');
+        await resetAttempts(clientIp, 'login', LOGIN_RATE_WINDOW_MS);
 
         const mbId = userData.user.user_id;
 
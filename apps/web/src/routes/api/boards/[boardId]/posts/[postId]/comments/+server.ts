@@ -6,6 +6,7 @@
  * wr_comment + wr_comment_reply 순서로 정렬하여 올바른 스레드 순서 보장
  */
 import { json } from '@sveltejs/kit';
+import { hooks } from '@angple/hook-system';
 import type { RequestHandler } from './$types';
 import type { RowDataPacket } from 'mysql2';
 import pool from '$lib/server/db';
@@ -13,8 +14,7 @@ import {
     applyAffiliateField,
     fetchCommentAffiliateLinks,
     findAffiliateFieldRow,
-    groupAffiliateLinksByCommentId,
-    renderAffiliateContent
+    groupAffiliateLinksByCommentId
 } from '$lib/server/affiliate-links';
 import { isLinkProcessingPluginEnabled } from '$lib/server/link-processing/runtime';
 import { isInternalAppRequest } from '$lib/server/internal-api.js';
@@ -232,11 +232,17 @@ export const GET: RequestHandler = async ({ params, url, locals, request }) => {
         for (const comment of comments) {
             const rowsForComment = affiliateRowsByCommentId.get(Number(comment.id)) || [];
 
-            if (affiliateEnabled && typeof comment.content === 'string' && comment.content) {
-                comment.content = renderAffiliateContent(
+            if (typeof comment.content === 'string' && comment.content) {
+                comment.content = await hooks.applyFiltersAsync(
+                    'comment_content',
                     comment.content,
-                    rowsForComment,
-                    'comment_body'
+                    {
+                        bo_table: safeBoardId,
+                        wr_id: safePostId,
+                        comment_id: Number(comment.id),
+                        affiliate_enabled: affiliateEnabled,
+                        affiliate_rows: rowsForComment
+                    }
                 );
             }
 
@@ -12,6 +12,7 @@ import pool from '$lib/server/db';
 import { canRestrictedUserReactToBoard, getAuthUser, isRestrictedUser } from '$lib/server/auth';
 import { checkCertification } from '$lib/server/certification';
 import { getRedis } from '$lib/server/redis';
+import { deliverNotification } from '$lib/server/notification-delivery.js';
 import {
     getCommentReactionVersion,
     invalidateReactionCaches,
@@ -94,6 +95,8 @@ function fireAndForgetCommentLikeSideEffects(options: {
                 );
                 const parentSubject = parentRows[0]?.wr_subject || '';
 
+                const message = `${options.actorNick}님이 회원님의 댓글을 추천했습니다.`;
+                const url = `/${options.boardId}/${options.postId}#c_${options.commentId}`;
                 await pool.query(
                     `INSERT INTO g5_na_noti (ph_to_case, ph_from_case, bo_table, wr_id, mb_id, rel_mb_id, rel_mb_nick, rel_msg, rel_url, ph_readed, ph_datetime, parent_subject, wr_parent)
                      VALUES ('good', 'good', ?, ?, ?, ?, ?, ?, ?, 'N', CONVERT_TZ(UTC_TIMESTAMP(), '+00:00', '+09:00'), ?, ?)`,
@@ -103,12 +106,19 @@ function fireAndForgetCommentLikeSideEffects(options: {
                         options.authorMbId,
                         options.actorMbId,
                         options.actorNick,
-                        `${options.actorNick}님이 회원님의 댓글을 추천했습니다.`,
-                        `/${options.boardId}/${options.postId}#c_${options.commentId}`,
+                        message,
+                        url,
                         parentSubject,
                         options.postId
                     ]
                 );
+                // 접속 중인 탭(SSE)과 구독 기기(웹 푸시)에 실시간 알림
+                await deliverNotification(options.authorMbId, {
+                    type: 'like',
+                    title: message,
+                    content: parentSubject,
+                    url
+                });
             })().catch(() => undefined)
         );
     }
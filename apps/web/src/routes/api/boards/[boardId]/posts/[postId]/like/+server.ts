@@ -12,6 +12,7 @@ import pool from '$lib/server/db';
 import { canRestrictedUserReactToBoard, getAuthUser, isRestrictedUser } from '$lib/server/auth';
 import { checkCertification } from '$lib/server/certification';
 import { getRedis } from '$lib/server/redis';
+import { deliverNotification } from '$lib/server/notification-delivery.js';
 import {
     getPostReactionVersion,
     invalidateReactionCaches,
@@ -95,6 +96,8 @@ function fireAndForgetPostLikeSideEffects(options: {
                     `DELETE FROM g5_na_noti WHERE bo_table = ? AND wr_id = ? AND rel_mb_id = ? AND ph_from_case = 'good'`,
                     [options.boardId, options.postId, options.actorMbId]
                 );
+                const message = `${options.actorNick}님이 회원님의 글을 추천했습니다.`;
+                const url = `/${options.boardId}/${options.postId}`;
                 await pool.query(
                     `INSERT INTO g5_na_noti (ph_to_case, ph_from_case, bo_table, wr_id, mb_id, rel_mb_id, rel_mb_nick, rel_msg, rel_url, ph_readed, ph_datetime, parent_subject, wr_parent)
                      VALUES ('good', 'good', ?, ?, ?, ?, ?, ?, ?, 'N', CONVERT_TZ(UTC_TIMESTAMP(), '+00:00', '+09:00'), ?, ?)`,
@@ -104,12 +107,19 @@ function fireAndForgetPostLikeSideEffects(options: {
                         options.authorMbId,
                         options.actorMbId,
                         options.actorNick,
-                        `${options.actorNick}님이 회원님의 글을 추천했습니다.`,
-                        `/${options.boardId}/${options.postId}`,
+                        message,
+                        url,
                         options.postSubject,
                         options.postId
                     ]
                 );
+                // 접속 중인 탭(SSE)과 구독 기기(웹 푸시)에 실시간 알림
+                await deliverNotification(options.authorMbId, {
+                    type: 'like',
+                    title: message,
+                    content: options.postSubject,
+                    url
+                });
             })().catch(() => undefined)
         );
     }
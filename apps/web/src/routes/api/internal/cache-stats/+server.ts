@@ -0,0 +1,22 @@
+/**
+ * 캐시 통계 (내부 모니터링용)
+ *
+ * GET /api/internal/cache-stats — 이 Pod의 캐시별 통계 JSON
+ * 모니터링 수집기는 x-internal-secret 헤더(INTERNAL_SECRET)로 호출합니다.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { internalOnlyErrorResponse, isInternalAppRequest } from '$lib/server/internal-api.js';
+import { listCacheSnapshots } from '$lib/server/cache-registry.js';
+
+export const GET: RequestHandler = async ({ request }) => {
+    if (!isInternalAppRequest(request)) {
+        return internalOnlyErrorResponse();
+    }
+
+    return json(
+        { success: true, data: listCacheSnapshots() },
+        { headers: { 'Cache-Control': 'no-store' } }
+    );
+};
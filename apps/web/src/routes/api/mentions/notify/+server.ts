@@ -7,6 +7,7 @@ import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import type { RowDataPacket } from 'mysql2';
 import pool from '$lib/server/db';
+import { deliverNotification } from '$lib/server/notification-delivery.js';
 
 interface NotifyRequest {
     mentions: string[]; // 닉네임 배열
@@ -124,6 +125,13 @@ export const POST: RequestHandler = async ({ request }) => {
                     ]
                 );
                 sentCount++;
+                // 접속 중인 탭(SSE)과 구독 기기(웹 푸시)에 실시간 알림
+                deliverNotification(receiver.mb_id, {
+                    type: 'mention',
+                    title: `${senderNick}님이 회원님을 언급했습니다.`,
+                    content: excerpt,
+                    url
+                }).catch(() => {});
             } catch (err) {
                 console.error('멘션 알림 INSERT 실패 (%s):', receiver.mb_nick, err);
             }
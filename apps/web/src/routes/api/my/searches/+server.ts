@@ -0,0 +1,72 @@
+/**
+ * 저장한 검색 API
+ *
+ * GET  /api/my/searches — 내 저장한 검색 목록
+ * POST /api/my/searches — 검색 저장 { query, field, boardId? } (같은 조건이면 기존 항목 반환)
+ */
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { internalOnlyErrorResponse, isInternalAppRequest } from '$lib/server/internal-api.js';
+import {
+    SAVED_SEARCH_QUERY_MAX,
+    SavedSearchError,
+    createSavedSearch,
+    listSavedSearches
+} from '$lib/server/saved-searches/store.js';
+import { isSavedSearchField } from '$lib/types/saved-search.js';
+
+function unauthorized() {
+    return json({ success: false, error: '로그인이 필요합니다.' }, { status: 401 });
+}
+
+export const GET: RequestHandler = async ({ locals, request }) => {
+    if (!isInternalAppRequest(request)) return internalOnlyErrorResponse();
+    if (!locals.user?.id) return unauthorized();
+
+    try {
+        return json({ success: true, data: await listSavedSearches(locals.user.id) });
+    } catch (error) {
+        console.error('[Saved Search API] 목록 조회 실패:', error);
+        return json(
+            { success: false, error: '저장한 검색을 불러오지 못했습니다.' },
+            { status: 500 }
+        );
+    }
+};
+
+export const POST: RequestHandler = async ({ locals, request }) => {
+    if (!isInternalAppRequest(request)) return internalOnlyErrorResponse();
+    if (!locals.user?.id) return unauthorized();
+
+    const body = await request.json().catch(() => null);
+    const query = typeof body?.query === 'string' ? body.query.trim() : '';
+    const boardId = typeof body?.boardId === 'string' && body.boardId ? body.boardId : null;
+
+    if (query.length < 2 || query.length > SAVED_SEARCH_QUERY_MAX) {
+        return json(
+            { success: false, error: `검색어는 2~${SAVED_SEARCH_QUERY_MAX}자여야 합니다.` },
+            { status: 400 }
+        );
+    }
+    if (!isSavedSearchField(body?.field)) {
+        return json({ success: false, error: '잘못된 검색 필드입니다.' }, { status: 400 });
+    }
+    if (boardId && !/^[a-zA-Z0-9_]{1,20}$/.test(boardId)) {
+        return json({ success: false, error: '잘못된 게시판입니다.' }, { status: 400 });
+    }
+
+    try {
+        const saved = await createSavedSearch(locals.user.id, {
+            query,
+            field: body.field,
+            boardId
+        });
+        return json({ success: true, data: saved });
+    } catch (error) {
+        if (error instanceof SavedSearchError) {
+            return json({ success: false, error: error.message }, { status: error.status });
+        }
+        console.error('[Saved Search API] 저장 실패:', error);
+        return json({ success: false, error: '검색을 저장하지 못했습니다.' }, { status: 500 });
+    }
+};
@@ -0,0 +1,66 @@
+/**
+ * 저장한 검색 항목 API
+ *
+ * PATCH  /api/my/searches/[id] — 새 글 알림 켜기/끄기 { notify }, 새 글 확인 처리 { seen: true }
+ * DELETE /api/my/searches/[id] — 삭제
+ */
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { internalOnlyErrorResponse, isInternalAppRequest } from '$lib/server/internal-api.js';
+import {
+    deleteSavedSearch,
+    resetSavedSearchNewCount,
+    setSavedSearchNotify
+} from '$lib/server/saved-searches/store.js';
+
+function unauthorized() {
+    return json({ success: false, error: '로그인이 필요합니다.' }, { status: 401 });
+}
+
+function notFound() {
+    return json({ success: false, error: '저장한 검색을 찾을 수 없습니다.' }, { status: 404 });
+}
+
+export const PATCH: RequestHandler = async ({ locals, request, params }) => {
+    if (!isInternalAppRequest(request)) return internalOnlyErrorResponse();
+    if (!locals.user?.id) return unauthorized();
+
+    const id = Number(params.id);
+    if (!Number.isInteger(id) || id <= 0) return notFound();
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.notify !== 'boolean' && body?.seen !== true) {
+        return json({ success: false, error: '변경할 항목이 없습니다.' }, { status: 400 });
+    }
+
+    try {
+        let found = true;
+        if (typeof body.notify === 'boolean') {
+            found = await setSavedSearchNotify(locals.user.id, id, body.notify);
+        }
+        if (found && body.seen === true) {
+            found = await resetSavedSearchNewCount(locals.user.id, id);
+        }
+        if (!found) return notFound();
+        return json({ success: true });
+    } catch (error) {
+        console.error('[Saved Search API] 변경 실패:', error);
+        return json({ success: false, error: '변경하지 못했습니다.' }, { status: 500 });
+    }
+};
+
+export const DELETE: RequestHandler = async ({ locals, request, params }) => {
+    if (!isInternalAppRequest(request)) return internalOnlyErrorResponse();
+    if (!locals.user?.id) return unauthorized();
+
+    const id = Number(params.id);
+    if (!Number.isInteger(id) || id <= 0) return notFound();
+
+    try {
+        if (!(await deleteSavedSearch(locals.user.id, id))) return notFound();
+        return json({ success: true });
+    } catch (error) {
+        console.error('[Saved Search API] 삭제 실패:', error);
+        return json({ success: false, error: '삭제하지 못했습니다.' }, { status: 500 });
+    }
+};
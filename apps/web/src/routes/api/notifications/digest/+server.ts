@@ -0,0 +1,44 @@
+/**
+ * 이메일 다이제스트 수신 설정 API
+ *
+ * GET /api/notifications/digest — 내 발송 주기
+ * PUT /api/notifications/digest — 발송 주기 변경 { frequency: 'off' | 'daily' | 'weekly' }
+ */
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getDigestFrequency, setDigestFrequency } from '$lib/server/email-digest/settings.js';
+import { isDigestFrequency } from '$lib/types/email-digest.js';
+
+function unauthorized() {
+    return json({ success: false, error: '로그인이 필요합니다.' }, { status: 401 });
+}
+
+export const GET: RequestHandler = async ({ locals }) => {
+    if (!locals.user?.id) return unauthorized();
+
+    try {
+        const frequency = await getDigestFrequency(locals.user.id);
+        return json({ success: true, data: { frequency } });
+    } catch (error) {
+        console.error('[Digest API] 설정 조회 실패:', error);
+        return json({ success: false, error: '설정을 불러오지 못했습니다.' }, { status: 500 });
+    }
+};
+
+export const PUT: RequestHandler = async ({ locals, request }) => {
+    if (!locals.user?.id) return unauthorized();
+
+    const body = await request.json().catch(() => null);
+    const frequency = body?.frequency;
+    if (!isDigestFrequency(frequency)) {
+        return json({ success: false, error: '잘못된 발송 주기입니다.' }, { status: 400 });
+    }
+
+    try {
+        await setDigestFrequency(locals.user.id, frequency);
+        return json({ success: true, data: { frequency } });
+    } catch (error) {
+        console.error('[Digest API] 설정 저장 실패:', error);
+        return json({ success: false, error: '설정을 저장하지 못했습니다.' }, { status: 500 });
+    }
+};
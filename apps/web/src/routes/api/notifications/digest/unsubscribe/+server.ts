@@ -0,0 +1,25 @@
+/**
+ * 다이제스트 원클릭 수신 거부 (RFC 8058)
+ *
+ * POST /api/notifications/digest/unsubscribe?token=XXX
+ * 메일 클라이언트가 List-Unsubscribe-Post 헤더를 보고 로그인 없이 호출합니다.
+ */
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { setDigestFrequency } from '$lib/server/email-digest/settings.js';
+import { verifyUnsubscribeToken } from '$lib/server/email-digest/token.js';
+
+export const POST: RequestHandler = async ({ url }) => {
+    const mbId = verifyUnsubscribeToken(url.searchParams.get('token') || '');
+    if (!mbId) {
+        return json({ success: false, error: '유효하지 않은 링크입니다.' }, { status: 400 });
+    }
+
+    try {
+        await setDigestFrequency(mbId, 'off');
+        return json({ success: true });
+    } catch (error) {
+        console.error('[Digest API] 수신 거부 실패:', error);
+        return json({ success: false, error: '수신 거부에 실패했습니다.' }, { status: 500 });
+    }
+};
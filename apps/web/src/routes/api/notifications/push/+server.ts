@@ -0,0 +1,84 @@
+/**
+ * 웹 푸시 구독 관리 API
+ *
+ * GET    /api/notifications/push — VAPID 공개키 + 내 구독 기기 목록
+ * POST   /api/notifications/push — 이 기기 구독 등록 { subscription: PushSubscriptionJSON }
+ * DELETE /api/notifications/push — 구독 해제 { id } 또는 { endpoint }
+ */
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getVapidKeys } from '$lib/server/web-push.js';
+import {
+    deletePushSubscription,
+    listPushDevices,
+    parsePushSubscription,
+    savePushSubscription
+} from '$lib/server/push-subscriptions.js';
+
+function unauthorized() {
+    return json({ success: false, error: '로그인이 필요합니다.' }, { status: 401 });
+}
+
+export const GET: RequestHandler = async ({ locals }) => {
+    if (!locals.user?.id) return unauthorized();
+
+    const keys = getVapidKeys();
+    if (!keys) {
+        return json({ success: true, data: { enabled: false, publicKey: null, devices: [] } });
+    }
+
+    try {
+        const devices = await listPushDevices(locals.user.id);
+        return json({ success: true, data: { enabled: true, publicKey: keys.publicKey, devices } });
+    } catch (error) {
+        console.error('[Push API] 구독 목록 조회 실패:', error);
+        return json({ success: false, error: '구독 목록을 불러오지 못했습니다.' }, { status: 500 });
+    }
+};
+
+export const POST: RequestHandler = async ({ locals, request }) => {
+    if (!locals.user?.id) return unauthorized();
+    if (!getVapidKeys()) {
+        return json({ success: false, error: '푸시 알림이 설정되지 않았습니다.' }, { status: 503 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const subscription = parsePushSubscription(body?.subscription);
+    if (!subscription) {
+        return json({ success: false, error: '잘못된 구독 정보입니다.' }, { status: 400 });
+    }
+
+    try {
+        await savePushSubscription(
+            locals.user.id,
+            subscription,
+            request.headers.get('user-agent') || ''
+        );
+        return json({ success: true });
+    } catch (error) {
+        console.error('[Push API] 구독 저장 실패:', error);
+        return json({ success: false, error: '구독을 저장하지 못했습니다.' }, { status: 500 });
+    }
+};
+
+export const DELETE: RequestHandler = async ({ locals, request }) => {
+    if (!locals.user?.id) return unauthorized();
+
+    const body = await request.json().catch(() => null);
+    const id = Number(body?.id);
+    const endpoint = typeof body?.endpoint === 'string' ? body.endpoint : '';
+    if (!Number.isInteger(id) && !endpoint) {
+        return json({ success: false, error: '삭제할 구독을 지정하세요.' }, { status: 400 });
+    }
+
+    try {
+        await deletePushSubscription(
+            locals.user.id,
+            Number.isInteger(id) && id > 0 ? { id } : { endpoint }
+        );
+        return json({ success: true });
+    } catch (error) {
+        console.error('[Push API] 구독 해제 실패:', error);
+        return json({ success: false, error: '구독을 해제하지 못했습니다.' }, { status: 500 });
+    }
+};
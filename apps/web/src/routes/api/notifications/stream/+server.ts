@@ -1,4 +1,5 @@
 import type { RequestHandler } from './$types.js';
+import { openNotificationStream } from '$lib/server/notification-stream.js';
 
 /**
  * SSE 알림 스트림
@@ -7,87 +8,19 @@ import type { RequestHandler } from './$types.js';
  *
  * Server-Sent Events 기반 실시간 알림 스트림.
  * 클라이언트가 EventSource로 연결하면, 서버가 새 알림/접속자 수를 실시간 push.
+ * 연결 관리와 Pod 간 전파는 $lib/server/notification-stream.ts 참고.
  *
  * 이벤트 타입:
- * - notification: 새 알림 (data: JSON)
- * - online_count: 접속자 수 (data: number)
+ * - notification: 새 알림 (id: 재연결용 이벤트 ID, data: JSON)
+ * - online_count: 접속자 수 (data: number, 전체 Pod 합산)
  * - heartbeat: 연결 유지 ping (data: timestamp)
+ *
+ * 재연결 시 Last-Event-ID 헤더(EventSource 자동 재연결) 또는 ?lastEventId= 로
+ * 놓친 알림을 다시 받습니다.
  */
-
-/** 활성 SSE 연결 관리 */
-const connections = new Map<string, ReadableStreamDefaultController>();
-
-/** 접속자 수 */
-export function _getOnlineCount(): number {
-    return connections.size;
-}
-
-/** 특정 사용자에게 알림 push */
-export function _pushNotification(
-    userId: string,
-    data: { type: string; title: string; content: string; url?: string }
-): void {
-    const controller = connections.get(userId);
-    if (controller) {
-        try {
-            const event = `event: notification\ndata: ${JSON.stringify(data)}\n\n`;
-            controller.enqueue(new TextEncoder().encode(event));
-        } catch {
-            connections.delete(userId);
-        }
-    }
-}
-
-/** 전체 접속자에게 접속자 수 broadcast */
-function broadcastOnlineCount(): void {
-    const count = connections.size;
-    const event = `event: online_count\ndata: ${count}\n\n`;
-    const encoded = new TextEncoder().encode(event);
-
-    for (const [userId, controller] of connections) {
-        try {
-            controller.enqueue(encoded);
-        } catch {
-            connections.delete(userId);
-        }
-    }
-}
-
-export const GET: RequestHandler = async ({ locals }) => {
-    // 인증된 사용자만 SSE 연결 허용
-    const userId = locals.user?.nickname || `anon-${Date.now()}`;
-
-    const stream = new ReadableStream({
-        start(controller) {
-            // 연결 등록
-            connections.set(userId, controller);
-
-            // 초기 접속자 수 전송
-            const initEvent = `event: online_count\ndata: ${connections.size}\n\n`;
-            controller.enqueue(new TextEncoder().encode(initEvent));
-
-            // 접속자 수 변경 broadcast
-            broadcastOnlineCount();
-
-            // 30초마다 heartbeat 전송 (연결 유지)
-            const heartbeatInterval = setInterval(() => {
-                try {
-                    const heartbeat = `event: heartbeat\ndata: ${Date.now()}\n\n`;
-                    controller.enqueue(new TextEncoder().encode(heartbeat));
-                } catch {
-                    clearInterval(heartbeatInterval);
-                    connections.delete(userId);
-                }
-            }, 30000);
-
-            // 연결 종료 시 정리 (controller가 close/error 될 때)
-            // ReadableStream cancel 시 호출됨
-        },
-        cancel() {
-            connections.delete(userId);
-            broadcastOnlineCount();
-        }
-    });
+export const GET: RequestHandler = async ({ locals, request, url }) => {
+    const lastEventId = request.headers.get('last-event-id') ?? url.searchParams.get('lastEventId');
+    const stream = openNotificationStream(locals.user?.id ?? null, lastEventId);
 
     return new Response(stream, {
         headers: {
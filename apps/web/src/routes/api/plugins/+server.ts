@@ -7,7 +7,12 @@
 
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { getInstalledPlugins, activatePlugin, deactivatePlugin } from '$lib/server/plugins';
+import {
+    getInstalledPlugins,
+    activatePlugin,
+    deactivatePlugin,
+    getPluginActivationIssues
+} from '$lib/server/plugins';
 import type { ExtensionManifest } from '@angple/types';
 
 /**
@@ -40,6 +45,9 @@ interface PluginWithStatus {
 
     /** 에러 메시지 */
     errorMessage?: string;
+
+    /** 만족하지 못한 engines/pluginDependencies 제약 */
+    constraintIssues?: string[];
 }
 
 /**
@@ -55,12 +63,17 @@ export const GET: RequestHandler = async () => {
         const plugins: PluginWithStatus[] = [];
 
         for (const plugin of installedPlugins.values()) {
+            // 활성 상태지만 제약 위반으로 로드되지 않은 플러그인은 error로 표시
+            const blocked = plugin.isActive && !!plugin.constraintIssues;
+
             plugins.push({
                 manifest: plugin.manifest,
-                status: plugin.isActive ? 'active' : 'inactive',
+                status: blocked ? 'error' : plugin.isActive ? 'active' : 'inactive',
                 installedAt: new Date(), // TODO: 실제 설치 날짜 추적
                 currentSettings: plugin.currentSettings,
-                source: plugin.source // 'official' 또는 'custom'
+                source: plugin.source, // 'official' 또는 'custom'
+                errorMessage: blocked ? plugin.constraintIssues!.join(', ') : undefined,
+                constraintIssues: plugin.constraintIssues
             });
         }
 
@@ -109,6 +122,13 @@ export const POST: RequestHandler = async ({ request }) => {
         let success = false;
 
         if (action === 'activate') {
+            const issues = await getPluginActivationIssues(pluginId);
+            if (issues.length > 0) {
+                return json(
+                    { error: `플러그인을 활성화할 수 없습니다: ${issues.join(', ')}`, issues },
+                    { status: 400 }
+                );
+            }
             success = await activatePlugin(pluginId);
         } else {
             success = await deactivatePlugin(pluginId);
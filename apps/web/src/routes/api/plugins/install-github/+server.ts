@@ -7,6 +7,7 @@
 import { json, error } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { getGitHubInstaller, type InstallRequest } from '$lib/server/plugins/github-installer';
+import { reloadPluginIfActive } from '$lib/server/plugins';
 
 /** URL이 GitHub 호스트인지 hostname으로 정확히 검증 */
 function isGitHubUrl(urlStr: string): boolean {
@@ -58,6 +59,11 @@ export const POST: RequestHandler = async ({ request }) => {
         const result = await installer.install(installRequest);
 
         if (result.success) {
+            // 이미 활성화된 플러그인을 업데이트한 경우 새 코드로 리로드
+            if (result.pluginId) {
+                await reloadPluginIfActive(result.pluginId);
+            }
+
             return json({
                 success: true,
                 pluginId: result.pluginId,
@@ -9,7 +9,12 @@
 
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { activatePlugin, isPluginInstalled, isCustomPlugin } from '$lib/server/plugins';
+import {
+    activatePlugin,
+    getPluginActivationIssues,
+    isPluginInstalled,
+    isCustomPlugin
+} from '$lib/server/plugins';
 
 /**
  * POST /api/plugins/marketplace/install
@@ -47,6 +52,19 @@ export const POST: RequestHandler = async ({ request }) => {
             );
         }
 
+        // engines/pluginDependencies 제약 확인
+        const issues = await getPluginActivationIssues(pluginId);
+        if (issues.length > 0) {
+            return json(
+                {
+                    success: false,
+                    error: `플러그인을 활성화할 수 없습니다: ${issues.join(', ')}`,
+                    issues
+                },
+                { status: 400 }
+            );
+        }
+
         // 플러그인 활성화
         const success = await activatePlugin(pluginId);
 
@@ -1,21 +1,20 @@
 /**
- * 글로벌 검색 API — Sphinx 기반
+ * 글로벌 검색 API
  *
- * GET /api/search?q=키워드&sfl=title_content&limit=5
+ * GET /api/search?q=키워드&sfl=title_content&limit=5&board=free
  *
- * sfl: title | content | title_content | author
+ * sfl: title | content | title_content | author | comment | comment_author
  * limit: 게시판당 최대 결과 수 (기본 5)
+ * board: 게시판 필터 (생략 시 전체 게시판)
  *
- * SphinxQL로 all_boards_unified_dist 인덱스 검색 후
+ * 관리자 설정의 검색 엔진(Sphinx, MySQL FULLTEXT, Meilisearch)으로 전체 게시판 검색 후
  * 게시판별로 그룹핑하여 GlobalSearchResponse 형태로 반환.
- *
- * NOTE: SphinxQL은 prepared statement를 지원하지 않으므로
- *       pool.query()를 사용하고 MATCH 표현식은 수동 이스케이프.
+ * 비밀글 본문은 작성자 본인과 관리자에게만 포함합니다.
  */
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types.js';
 import { readPool } from '$lib/server/db.js';
-import { searchAllBoards, buildMatchExpr } from '$lib/server/sphinx-search.js';
+import { searchByField, type SearchHit } from '$lib/server/search/index.js';
 import type { RowDataPacket } from 'mysql2';
 
 interface BoardRow extends RowDataPacket {
@@ -23,9 +22,16 @@ interface BoardRow extends RowDataPacket {
     bo_subject: string;
 }
 
-interface PostAuthorRow extends RowDataPacket {
+interface PostRow extends RowDataPacket {
     wr_id: number;
+    wr_subject: string;
+    wr_content: string;
+    wr_hit: number;
+    wr_good: number;
+    wr_comment: number;
+    wr_datetime: Date | string;
     wr_name: string;
+    wr_option: string;
     mb_id: string;
 }
 
@@ -41,6 +47,10 @@ export const GET: RequestHandler = async ({ url, locals }) => {
     const query = url.searchParams.get('q')?.trim();
     const field = url.searchParams.get('sfl') || 'title_content';
     const limitPerBoard = Math.min(Number(url.searchParams.get('limit')) || 5, 20);
+    const boardParam = url.searchParams.get('board') || '';
+    const boardId = /^[a-zA-Z0-9_]+$/.test(boardParam) ? boardParam : undefined;
+    const viewerId = locals.user.id;
+    const isAdmin = (locals.user.level ?? 0) >= 10;
 
     if (!query || query.length < 2) {
         return json({
@@ -52,10 +62,16 @@ export const GET: RequestHandler = async ({ url, locals }) => {
     try {
         const isCommentSearch = field === 'comment' || field === 'comment_author';
 
-        // 1) Sphinx에서 검색 (최대 200건)
-        const { rows: sphinxRows } = await searchAllBoards(field, query, 200);
+        // 1) 검색 엔진에서 검색 (최대 200건)
+        const { hits } = await searchByField(field, {
+            query,
+            boardId,
+            page: 1,
+            limit: 200,
+            sort: 'date'
+        });
 
-        if (!sphinxRows.length) {
+        if (!hits.length) {
             return json({
                 success: true,
                 data: { results: [], total: 0, query }
@@ -63,16 +79,16 @@ export const GET: RequestHandler = async ({ url, locals }) => {
         }
 
         // 2) 게시판별 그룹핑
-        const boardMap = new Map<string, typeof sphinxRows>();
-        for (const row of sphinxRows) {
-            const boardId = row.bo_table;
-            if (!boardMap.has(boardId)) {
-                boardMap.set(boardId, []);
+        const boardMap = new Map<string, SearchHit[]>();
+        for (const hit of hits) {
+            if (!/^[a-zA-Z0-9_]+$/.test(hit.boardId)) continue;
+            if (!boardMap.has(hit.boardId)) {
+                boardMap.set(hit.boardId, []);
             }
-            boardMap.get(boardId)!.push(row);
+            boardMap.get(hit.boardId)!.push(hit);
         }
 
-        // 3) 게시판 이름 조회 + 작성자 정보 + 첨부파일 병렬 조회
+        // 3) 게시판 이름 조회 + 글 내용 + 첨부파일 병렬 조회
         const boardIds = [...boardMap.keys()];
 
         // 게시판 이름 조회
@@ -87,28 +103,29 @@ export const GET: RequestHandler = async ({ url, locals }) => {
                 return map;
             });
 
-        // 게시판별 작성자 정보 + 첨부파일 병렬 조회
-        const authorMap = new Map<string, { wr_name: string; mb_id: string }>();
+        // 게시판별 글 내용(작성자 포함) + 첨부파일 병렬 조회
+        const postMap = new Map<string, PostRow>();
         const fileSet = new Set<string>();
 
         const perBoardPromises = boardIds.map(async (boardId) => {
-            const rows = boardMap.get(boardId)!;
-            const wrIds = rows.slice(0, limitPerBoard).map((r) => r.wr_id);
+            const wrIds = boardMap
+                .get(boardId)!
+                .slice(0, limitPerBoard)
+                .map((hit) => hit.wrId);
             if (!wrIds.length) return;
 
             const ph = wrIds.map(() => '?').join(',');
 
-            // 작성자 정보 조회
+            // 글 내용 조회
             try {
-                const [authorRows] = await readPool.execute<PostAuthorRow[]>(
-                    `SELECT wr_id, wr_name, mb_id FROM g5_write_${boardId} WHERE wr_id IN (${ph})`,
+                const [postRows] = await readPool.execute<PostRow[]>(
+                    `SELECT wr_id, wr_subject, wr_content, wr_hit, wr_good, wr_comment,
+                            wr_datetime, wr_name, wr_option, mb_id
+                     FROM g5_write_${boardId} WHERE wr_id IN (${ph})`,
                     wrIds
                 );
-                for (const a of authorRows) {
-                    authorMap.set(`${boardId}:${a.wr_id}`, {
-                        wr_name: a.wr_name,
-                        mb_id: a.mb_id
-                    });
+                for (const p of postRows) {
+                    postMap.set(`${boardId}:${p.wr_id}`, p);
                 }
             } catch {
                 // 테이블 없는 경우 무시
@@ -133,27 +150,33 @@ export const GET: RequestHandler = async ({ url, locals }) => {
         // 4) 결과 조립 (게시판별 limitPerBoard개, 총 결과 수 기준 내림차순)
         const results = boardIds
             .map((boardId) => {
-                const rows = boardMap.get(boardId)!;
+                const boardHits = boardMap.get(boardId)!;
                 return {
                     board_id: boardId,
                     board_name: boardNameMap.get(boardId) || boardId,
-                    total: rows.length,
+                    total: boardHits.length,
                     is_comment: isCommentSearch,
-                    posts: rows.slice(0, limitPerBoard).map((row) => {
-                        const author = authorMap.get(`${boardId}:${row.wr_id}`);
+                    posts: boardHits.slice(0, limitPerBoard).flatMap((hit) => {
+                        // 검색 색인 이후 삭제된 글은 제외
+                        const row = postMap.get(`${boardId}:${hit.wrId}`);
+                        if (!row) return [];
+                        const isHiddenSecret =
+                            String(row.wr_option || '').includes('secret') &&
+                            !isAdmin &&
+                            row.mb_id !== viewerId;
                         return {
                             id: row.wr_id,
                             title: isCommentSearch ? '' : row.wr_subject,
-                            content: stripHtml(row.wr_content).slice(0, 200),
-                            author: author?.wr_name || '',
-                            author_id: author?.mb_id || '',
+                            content: isHiddenSecret ? '' : stripHtml(row.wr_content).slice(0, 200),
+                            author: row.wr_name || '',
+                            author_id: row.mb_id || '',
                             board_id: boardId,
                             views: row.wr_hit,
                             likes: row.wr_good,
                             comments_count: row.wr_comment,
-                            created_at: new Date(row.wr_datetime * 1000).toISOString(),
+                            created_at: new Date(row.wr_datetime).toISOString(),
                             has_file: fileSet.has(`${boardId}:${row.wr_id}`),
-                            parent_id: isCommentSearch ? row.wr_parent || 0 : undefined
+                            parent_id: isCommentSearch ? hit.wrParent || 0 : undefined
                         };
                     })
                 };
@@ -164,14 +187,14 @@ export const GET: RequestHandler = async ({ url, locals }) => {
             success: true,
             data: {
                 results,
-                total: sphinxRows.length,
+                total: hits.length,
                 query
             }
         });
     } catch (err) {
         const isConnectionError = err instanceof Error && err.message.includes('ECONNREFUSED');
         if (!isConnectionError) {
-            console.error('Sphinx search error:', err);
+            console.error('Search error:', err);
         }
         return json({ success: false, error: '검색 중 오류가 발생했습니다.' }, { status: 500 });
     }
@@ -4,7 +4,10 @@ import { env } from '$env/dynamic/private';
 import pool from '$lib/server/db';
 import type { RowDataPacket } from 'mysql2';
 import { invalidateBoardCache } from '$lib/server/ssr-cache.js';
+import { invalidateCacheTags, postCacheTag } from '$lib/server/cache.js';
 import { internalOnlyErrorResponse, isInternalAppRequest } from '$lib/server/internal-api.js';
+import { observeBackendProxy, recordBackendProxyError } from '$lib/server/metrics.js';
+import { indexSearchDocument, removeSearchDocument } from '$lib/server/search/index.js';
 
 /**
  * API v1 프록시 핸들러
@@ -219,6 +222,44 @@ async function syncCelebrationBanner(path: string): Promise<void> {
     );
 }
 
+/**
+ * 글/댓글 작성·수정·삭제 성공 시 검색 색인 반영
+ * 색인을 직접 관리하는 검색 엔진(MySQL, Meilisearch)만 해당 (Sphinx는 indexer가 처리)
+ */
+async function syncSearchIndex(method: string, path: string, response: Response): Promise<void> {
+    // boards/{boardId}/posts[/{postId}]
+    const postMatch = path.match(/^boards\/([a-zA-Z0-9_]+)\/posts(?:\/(\d+))?$/);
+    // boards/{boardId}/posts/{postId}/comments[/{commentId}]
+    const commentMatch = path.match(/^boards\/([a-zA-Z0-9_]+)\/posts\/\d+\/comments(?:\/(\d+))?$/);
+    const match = postMatch || commentMatch;
+    if (!match) return;
+
+    const boardId = match[1];
+    const targetId = match[2] ? parseInt(match[2], 10) : 0;
+
+    if (method === 'DELETE') {
+        // 글을 지우면 댓글도 함께 삭제
+        if (targetId) await removeSearchDocument(boardId, targetId, Boolean(postMatch));
+        return;
+    }
+
+    if (method === 'PUT') {
+        if (targetId) await indexSearchDocument(boardId, targetId);
+        return;
+    }
+
+    // 작성: 응답의 새 글/댓글 ID
+    if (targetId) return;
+    let data: { data?: { id?: number; wr_id?: number } };
+    try {
+        data = await response.json();
+    } catch {
+        return;
+    }
+    const wrId = data?.data?.id || data?.data?.wr_id;
+    if (wrId) await indexSearchDocument(boardId, wrId);
+}
+
 /**
  * 글/댓글 작성 성공 시 g5_board_new에 INSERT
  * angple-backend의 Create()에 이 로직이 빠져있어 SvelteKit에서 보완
@@ -354,14 +395,22 @@ async function proxyRequest(
             }
         }
 
-        const response = await fetch(targetUrl, {
-            method,
-            headers,
-            body,
-            signal: AbortSignal.timeout(PROXY_TIMEOUT_MS),
-            // @ts-expect-error - Node.js fetch specific option
-            duplex: body instanceof ReadableStream ? 'half' : undefined
-        });
+        const proxyStart = performance.now();
+        let response: Response;
+        try {
+            response = await fetch(targetUrl, {
+                method,
+                headers,
+                body,
+                signal: AbortSignal.timeout(PROXY_TIMEOUT_MS),
+                // @ts-expect-error - Node.js fetch specific option
+                duplex: body instanceof ReadableStream ? 'half' : undefined
+            });
+        } catch (error) {
+            recordBackendProxyError(path, method, error);
+            throw error;
+        }
+        observeBackendProxy(path, method, response.status, performance.now() - proxyStart);
 
         // 응답 헤더 복사 (set-cookie 제외 — SvelteKit cookies API로 별도 처리)
         const responseHeaders = new Headers();
@@ -408,6 +457,17 @@ async function proxyRequest(
             });
         }
 
+        // 글/댓글 작성·수정·삭제 성공 시 검색 색인 반영
+        if (
+            (method === 'POST' || method === 'PUT' || method === 'DELETE') &&
+            response.status >= 200 &&
+            response.status < 300
+        ) {
+            syncSearchIndex(method, path, response.clone()).catch((err) => {
+                console.error('[API Proxy] search index sync error:', err);
+            });
+        }
+
         // message 게시판 글 수정 시 celebration_banners 동기화
         if (method === 'PUT' && response.status >= 200 && response.status < 300) {
             syncCelebrationBanner(path).catch((err) => {
@@ -424,10 +484,12 @@ async function proxyRequest(
             const boardMatch = path.match(/^boards\/([a-zA-Z0-9_-]+)\/posts/);
             if (boardMatch) {
                 const postIdMatch = path.match(/^boards\/[a-zA-Z0-9_-]+\/posts\/(\d+)/);
-                invalidateBoardCache(
-                    boardMatch[1],
-                    postIdMatch ? parseInt(postIdMatch[1], 10) : undefined
-                );
+                const postId = postIdMatch ? parseInt(postIdMatch[1], 10) : undefined;
+                invalidateBoardCache(boardMatch[1], postId);
+                // 이 글을 포함하는 캐시(새글 피드 등) 일괄 제거
+                if (postId) {
+                    invalidateCacheTags([postCacheTag(boardMatch[1], postId)]).catch(() => {});
+                }
             }
         }
 
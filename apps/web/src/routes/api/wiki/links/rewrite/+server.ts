@@ -0,0 +1,62 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getWikiPage, hasMovedWikiPage, rewriteLinksToPage } from '$lib/server/wiki';
+import { normalizeWikiPath, parseRedirectTarget } from '$lib/server/wiki-links';
+import { WIKI_ADMIN_LEVEL } from '$lib/server/wiki-protection';
+
+/**
+ * POST /api/wiki/links/rewrite - 문서를 가리키는 [[링크]]를 새 경로로 바꾸기
+ *
+ * body: { from: 이전 경로, to: 새 경로 (있는 문서) }
+ * 문서 이동 후 "여기를 가리키는 문서"에서 호출합니다. 편집 권한이 없는 보호 문서는 건너뜁니다.
+ * 이전 경로가 새 경로로 넘겨주는 문서이거나, 본인이 이전 경로에서 새 경로로 옮긴 경우에만 허용합니다.
+ * (관리자는 제한 없음)
+ */
+export const POST: RequestHandler = async ({ request, locals }) => {
+    // 인증 확인
+    const user = locals.user;
+    if (!user || !user.id) {
+        error(401, { message: '로그인이 필요합니다.' });
+    }
+
+    const authorId = parseInt(user.id, 10);
+    if (isNaN(authorId)) {
+        error(401, { message: '유효하지 않은 사용자입니다.' });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const from = normalizeWikiPath(String(body.from ?? ''));
+    const to = normalizeWikiPath(String(body.to ?? ''));
+
+    if (!from || !to) {
+        error(400, { message: '이전 경로와 새 경로는 필수입니다.' });
+    }
+    if (from === to) {
+        error(400, { message: '이전 경로와 새 경로가 같습니다.' });
+    }
+    if (!(await getWikiPage(to))) {
+        error(400, { message: '새 경로에 문서가 없습니다.' });
+    }
+
+    // 여러 문서를 한 번에 고치므로 이동·넘겨주기로 확인된 경우만 허용
+    if ((user.level ?? 0) < WIKI_ADMIN_LEVEL) {
+        const fromPage = await getWikiPage(from, { followRedirects: false });
+        const redirectsToTarget =
+            fromPage !== null &&
+            parseRedirectTarget(fromPage.content || fromPage.content_raw) === to;
+        if (!redirectsToTarget && !(await hasMovedWikiPage(from, to, authorId))) {
+            error(403, {
+                message:
+                    '이전 경로가 새 경로로 넘겨주는 문서이거나 직접 옮긴 문서만 링크를 바꿀 수 있습니다.'
+            });
+        }
+    }
+
+    try {
+        const result = await rewriteLinksToPage(from, to, authorId, user.level ?? 0);
+        return json({ success: true, ...result });
+    } catch (err) {
+        console.error('Wiki link rewrite error:', err);
+        error(500, { message: '링크를 바꾸지 못했습니다.' });
+    }
+};
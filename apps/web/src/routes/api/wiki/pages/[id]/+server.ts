@@ -1,9 +1,19 @@
-import { json, error } from '@sveltejs/kit';
+import { json, error, isHttpError } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { updateWikiPage, getWikiPageById } from '$lib/server/wiki';
+import {
+    updateWikiPage,
+    getWikiPageById,
+    WikiConflictMarkersError,
+    WikiEditConflictError
+} from '$lib/server/wiki';
+import { canEditWikiPage, getPageProtection } from '$lib/server/wiki-protection';
 
 /**
  * PUT /api/wiki/pages/[id] - 위키 페이지 수정
+ *
+ * base_version(편집을 시작한 판)이 최신 판보다 낮으면 3-way 병합 후 저장합니다.
+ * 충돌이 있으면 409와 함께 충돌 표시된 병합본(merged)과 새 기준 판(latestVersion)을 반환합니다.
+ * 충돌 표시가 남은 본문은 422로 거부합니다.
  */
 export const PUT: RequestHandler = async ({ params, request, locals }) => {
     // 인증 확인
@@ -29,8 +39,22 @@ export const PUT: RequestHandler = async ({ params, request, locals }) => {
             error(404, { message: '문서를 찾을 수 없습니다.' });
         }
 
+        // 보호 문서 편집 권한 확인
+        if (!canEditWikiPage(await getPageProtection(pageId), user.level ?? 0)) {
+            error(403, { message: '보호된 문서입니다. 편집 권한이 없습니다.' });
+        }
+
         const body = await request.json();
-        const { title, content, content_raw, content_type, description, comment, is_minor } = body;
+        const {
+            title,
+            content,
+            content_raw,
+            content_type,
+            description,
+            comment,
+            is_minor,
+            base_version
+        } = body;
 
         // 필수 필드 검증
         if (!title) {
@@ -46,7 +70,8 @@ export const PUT: RequestHandler = async ({ params, request, locals }) => {
                 content_type: content_type || 'html',
                 description,
                 comment: comment || '',
-                is_minor: is_minor || false
+                is_minor: is_minor || false,
+                base_version: Number.isInteger(base_version) ? base_version : null
             },
             authorId
         );
@@ -56,9 +81,27 @@ export const PUT: RequestHandler = async ({ params, request, locals }) => {
             pageId,
             revisionId: result.revisionId,
             versionNumber: result.versionNumber,
+            merged: result.merged,
             path: existingPage.path
         });
     } catch (err) {
+        if (isHttpError(err)) throw err;
+        if (err instanceof WikiConflictMarkersError) {
+            error(422, { message: err.message });
+        }
+        if (err instanceof WikiEditConflictError) {
+            return json(
+                {
+                    success: false,
+                    conflict: true,
+                    message: err.message,
+                    latestVersion: err.latestVersion,
+                    conflicts: err.conflicts,
+                    merged: err.merged
+                },
+                { status: 409 }
+            );
+        }
         console.error('Wiki page update error:', err);
         const message = err instanceof Error ? err.message : '문서 수정에 실패했습니다.';
         error(500, { message });
@@ -0,0 +1,66 @@
+import { json, error, isHttpError } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getWikiPageById, moveWikiPage, WikiPathTakenError } from '$lib/server/wiki';
+import { normalizeWikiPath } from '$lib/server/wiki-links';
+import { canEditWikiPage, getPageProtection } from '$lib/server/wiki-protection';
+
+/**
+ * POST /api/wiki/pages/[id]/move - 위키 문서 이동
+ *
+ * body: { to: 새 경로, leave_redirect?: 옛 경로에 넘겨주기 문서 남기기 (기본 true), reason? }
+ * 새 경로에 이미 문서가 있으면 409를 반환합니다.
+ */
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+    // 인증 확인
+    const user = locals.user;
+    if (!user || !user.id) {
+        error(401, { message: '로그인이 필요합니다.' });
+    }
+
+    const authorId = parseInt(user.id, 10);
+    if (isNaN(authorId)) {
+        error(401, { message: '유효하지 않은 사용자입니다.' });
+    }
+
+    const pageId = parseInt(params.id, 10);
+    if (isNaN(pageId)) {
+        error(400, { message: '유효하지 않은 페이지 ID입니다.' });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const to = normalizeWikiPath(String(body.to ?? ''));
+    if (!to) {
+        error(400, { message: '새 경로는 필수입니다.' });
+    }
+    if (to.startsWith('/Special:')) {
+        error(400, { message: '특수 페이지 경로로는 이동할 수 없습니다.' });
+    }
+
+    try {
+        // 페이지 존재 확인
+        const existingPage = await getWikiPageById(pageId);
+        if (!existingPage) {
+            error(404, { message: '문서를 찾을 수 없습니다.' });
+        }
+
+        // 보호 문서는 편집 권한이 있어야 이동 가능
+        if (!canEditWikiPage(await getPageProtection(pageId), user.level ?? 0)) {
+            error(403, { message: '보호된 문서입니다. 이동 권한이 없습니다.' });
+        }
+
+        const result = await moveWikiPage(pageId, to, authorId, {
+            leaveRedirect: body.leave_redirect !== false,
+            reason: typeof body.reason === 'string' ? body.reason.slice(0, 200) : undefined
+        });
+
+        return json({ success: true, pageId, ...result });
+    } catch (err) {
+        if (isHttpError(err)) throw err;
+        if (err instanceof WikiPathTakenError) {
+            error(409, { message: err.message });
+        }
+        console.error('Wiki page move error:', err);
+        const message = err instanceof Error ? err.message : '문서를 이동하지 못했습니다.';
+        error(500, { message });
+    }
+};
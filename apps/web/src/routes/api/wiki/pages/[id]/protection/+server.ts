@@ -0,0 +1,48 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getWikiPageById } from '$lib/server/wiki';
+import { setPageProtection, WIKI_ADMIN_LEVEL } from '$lib/server/wiki-protection';
+
+/**
+ * PUT /api/wiki/pages/[id]/protection - 위키 문서 보호 설정 (관리자 전용)
+ *
+ * body: { edit_level: 편집 가능 최소 레벨 (2~10, 10 = 관리자 전용) | null (보호 해제), reason? }
+ */
+export const PUT: RequestHandler = async ({ params, request, locals }) => {
+    // 인증 확인
+    const user = locals.user;
+    if (!user || !user.id) {
+        error(401, { message: '로그인이 필요합니다.' });
+    }
+    if ((user.level ?? 0) < WIKI_ADMIN_LEVEL) {
+        error(403, { message: '관리자만 문서를 보호할 수 있습니다.' });
+    }
+
+    const adminId = parseInt(user.id, 10);
+    const pageId = parseInt(params.id, 10);
+    if (isNaN(pageId)) {
+        error(400, { message: '유효하지 않은 페이지 ID입니다.' });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const editLevel = body.edit_level ?? null;
+    if (
+        editLevel !== null &&
+        !(Number.isInteger(editLevel) && editLevel >= 2 && editLevel <= WIKI_ADMIN_LEVEL)
+    ) {
+        error(400, { message: `보호 레벨은 2~${WIKI_ADMIN_LEVEL} 사이여야 합니다.` });
+    }
+
+    if (!(await getWikiPageById(pageId))) {
+        error(404, { message: '문서를 찾을 수 없습니다.' });
+    }
+
+    try {
+        const reason = typeof body.reason === 'string' ? body.reason.trim().slice(0, 255) : '';
+        await setPageProtection(pageId, editLevel, adminId, reason || null);
+        return json({ success: true, pageId, edit_level: editLevel });
+    } catch (err) {
+        console.error('Wiki page protection error:', err);
+        error(500, { message: '보호 설정을 저장하지 못했습니다.' });
+    }
+};
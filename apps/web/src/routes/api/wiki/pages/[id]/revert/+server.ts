@@ -0,0 +1,55 @@
+import { json, error, isHttpError } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getWikiPageById, revertWikiPage } from '$lib/server/wiki';
+import { canEditWikiPage, getPageProtection } from '$lib/server/wiki-protection';
+
+/**
+ * POST /api/wiki/pages/[id]/revert - 이전 판으로 되돌리기
+ *
+ * body: { revision_id: 되돌릴 판의 리비전 ID }
+ * 선택한 판의 본문으로 새 판을 저장합니다 (편집 요약 자동 생성).
+ */
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+    // 인증 확인
+    const user = locals.user;
+    if (!user || !user.id) {
+        error(401, { message: '로그인이 필요합니다.' });
+    }
+
+    const authorId = parseInt(user.id, 10);
+    if (isNaN(authorId)) {
+        error(401, { message: '유효하지 않은 사용자입니다.' });
+    }
+
+    const pageId = parseInt(params.id, 10);
+    if (isNaN(pageId)) {
+        error(400, { message: '유효하지 않은 페이지 ID입니다.' });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const revisionId = Number(body.revision_id);
+    if (!Number.isInteger(revisionId) || revisionId <= 0) {
+        error(400, { message: '되돌릴 판을 선택해주세요.' });
+    }
+
+    try {
+        // 페이지 존재 확인
+        const existingPage = await getWikiPageById(pageId);
+        if (!existingPage) {
+            error(404, { message: '문서를 찾을 수 없습니다.' });
+        }
+
+        // 보호 문서 편집 권한 확인
+        if (!canEditWikiPage(await getPageProtection(pageId), user.level ?? 0)) {
+            error(403, { message: '보호된 문서입니다. 편집 권한이 없습니다.' });
+        }
+
+        const result = await revertWikiPage(pageId, revisionId, authorId);
+        return json({ success: true, pageId, path: existingPage.path, ...result });
+    } catch (err) {
+        if (isHttpError(err)) throw err;
+        console.error('Wiki page revert error:', err);
+        const message = err instanceof Error ? err.message : '되돌리기에 실패했습니다.';
+        error(500, { message });
+    }
+};
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, afterEach, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { hooks } from '@angple/hook-system';
+import { createSandboxedModule, PluginRegistry } from '@angple/plugin-engine';
+
+vi.mock('$lib/server/themes', () => ({ getActiveTheme: async () => null }));
+vi.mock('$lib/server/menu-loader', () => ({ loadMenus: async () => [] }));
+vi.mock('$lib/server/logo', () => ({
+    getCachedLogoData: async () => ({
+        active: null,
+        schedules: [],
+        previews: [],
+        requestLocale: 'ko',
+        requestTimeZone: 'Asia/Seoul'
+    })
+}));
+vi.mock('$lib/server/plugins/index.js', () => ({ getActivePlugins: async () => [] }));
+
+import { load } from './+layout.server';
+
+type LoadEvent = Parameters<typeof load>[0];
+
+function loadEvent(pathname: string): LoadEvent {
+    const url = new URL(`http://localhost${pathname}`);
+    return {
+        locals: {},
+        depends: () => {},
+        url,
+        cookies: { get: () => undefined },
+        request: new Request(url),
+        isDataRequest: false
+    } as unknown as LoadEvent;
+}
+
+describe('+layout.server load', () => {
+    let dir: string;
+    const registry = new PluginRegistry(hooks);
+
+    beforeAll(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'angple-layout-'));
+    });
+
+    afterAll(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    afterEach(async () => {
+        await registry.deactivate('layout-banner');
+    });
+
+    it('샌드박스 플러그인의 layout_server_data 필터가 레이아웃 데이터를 바꿈', async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        const file = join(dir, 'layout-banner.mjs');
+        await writeFile(
+            file,
+            `export function activate(ctx) {
+                ctx.hooks.addFilter('layout_server_data', (data) => ({ ...data, banner: 'sandboxed' }));
+            }`
+        );
+        const module = createSandboxedModule({ entryUrl: pathToFileURL(file).href });
+        registry.register({ id: 'layout-banner', name: 'layout-banner', version: '1.0.0' }, {});
+        await registry.activate('layout-banner', module.activate, module.deactivate);
+
+        const data = (await load(loadEvent('/'))) as Record<string, unknown>;
+        expect(data.banner).toBe('sandboxed');
+        expect(data.menus).toEqual([]);
+    });
+});
@@ -0,0 +1,96 @@
+import type { RequestHandler } from './$types';
+import type { Pool } from 'mysql2/promise';
+import { internalOnlyErrorResponse, isInternalAppRequest } from '$lib/server/internal-api.js';
+import { Gauge, OPENMETRICS_CONTENT_TYPE, renderMetrics } from '$lib/server/metrics.js';
+import { listCircuitBreakers, type CircuitState } from '$lib/server/circuit-breaker.js';
+import { pool, readPool } from '$lib/server/db.js';
+import { sphinxPool } from '$lib/server/sphinx.js';
+import { size as pendingViewCountSize } from '$lib/server/viewcount.js';
+
+/**
+ * Prometheus/OpenMetrics 엔드포인트 (내부 전용)
+ * GET /metrics
+ *
+ * 요청 지연(라우트별), 백엔드 프록시 지연/오류, Circuit Breaker 상태,
+ * DB 풀 사용량, SSE 연결 수, 미동기화 조회수 버퍼 크기를 노출합니다.
+ * 값은 이 Pod 기준이며, 스크레이퍼는 x-internal-secret 헤더로 호출합니다.
+ */
+
+const CIRCUIT_STATES: CircuitState[] = ['CLOSED', 'OPEN', 'HALF_OPEN'];
+
+/** mysql2 내부 풀 상태 (공개 API가 없어 내부 큐 길이를 읽음) */
+interface CorePoolInternals {
+    config: { connectionLimit: number };
+    _allConnections: { length: number };
+    _freeConnections: { length: number };
+    _connectionQueue: { length: number };
+}
+
+/** readPool은 DB_READ_HOST 미설정 시 writer pool과 같은 인스턴스 */
+const DB_POOLS: [string, Pool][] = [
+    ['pool', pool],
+    ['readPool', readPool],
+    ['sphinxPool', sphinxPool]
+];
+
+function corePool(target: Pool): CorePoolInternals {
+    return (target as unknown as { pool: CorePoolInternals }).pool;
+}
+
+new Gauge('angple_circuit_breaker_state', 'Circuit Breaker 상태 (현재 상태만 1)', () =>
+    listCircuitBreakers().flatMap((breaker) =>
+        CIRCUIT_STATES.map((state) => ({
+            labels: { breaker: breaker.name, state },
+            value: breaker.getState() === state ? 1 : 0
+        }))
+    )
+);
+
+new Gauge('angple_circuit_breaker_failures', 'Circuit Breaker 연속 실패 횟수', () =>
+    listCircuitBreakers().map((breaker) => ({
+        labels: { breaker: breaker.name },
+        value: breaker.getFailureCount()
+    }))
+);
+
+new Gauge('angple_db_pool_connections', 'DB 풀 연결 수 (state: in_use, idle)', () =>
+    DB_POOLS.flatMap(([name, target]) => {
+        const core = corePool(target);
+        const idle = core._freeConnections.length;
+        return [
+            { labels: { pool: name, state: 'in_use' }, value: core._allConnections.length - idle },
+            { labels: { pool: name, state: 'idle' }, value: idle }
+        ];
+    })
+);
+
+new Gauge('angple_db_pool_connection_limit', 'DB 풀 최대 연결 수', () =>
+    DB_POOLS.map(([name, target]) => ({
+        labels: { pool: name },
+        value: corePool(target).config.connectionLimit
+    }))
+);
+
+new Gauge('angple_db_pool_waiting_requests', 'DB 풀 연결 대기 중인 요청 수', () =>
+    DB_POOLS.map(([name, target]) => ({
+        labels: { pool: name },
+        value: corePool(target)._connectionQueue.length
+    }))
+);
+
+new Gauge('angple_viewcount_pending_posts', 'DB 동기화 대기 중인 조회수 버퍼 항목 수', () => [
+    { labels: {}, value: pendingViewCountSize() }
+]);
+
+export const GET: RequestHandler = async ({ request }) => {
+    if (!isInternalAppRequest(request)) {
+        return internalOnlyErrorResponse();
+    }
+
+    return new Response(renderMetrics(), {
+        headers: {
+            'Content-Type': OPENMETRICS_CONTENT_TYPE,
+            'Cache-Control': 'no-store'
+        }
+    });
+};
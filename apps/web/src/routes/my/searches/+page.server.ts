@@ -0,0 +1,12 @@
+import type { PageServerLoad } from './$types.js';
+import { listSavedSearches } from '$lib/server/saved-searches/store.js';
+
+export const load: PageServerLoad = async ({ locals, depends }) => {
+    depends('app:saved-searches');
+
+    if (!locals.user?.id) {
+        return { searches: [] };
+    }
+
+    return { searches: await listSavedSearches(locals.user.id) };
+};
@@ -0,0 +1,34 @@
+/**
+ * 다이제스트 수신 거부 (메일 하단 링크)
+ * 링크를 열면 확인 화면만 보여주고, 버튼을 눌러 POST로 보낼 때 수신 거부합니다.
+ * (메일 보안 스캐너·링크 미리보기가 GET으로 열어도 수신 거부되지 않도록)
+ * 토큰이 회원을 식별하므로 로그인이 필요 없습니다.
+ */
+import type { Actions, PageServerLoad } from './$types';
+import { error as httpError, fail } from '@sveltejs/kit';
+import { setDigestFrequency } from '$lib/server/email-digest/settings.js';
+import { verifyUnsubscribeToken } from '$lib/server/email-digest/token.js';
+
+export const load: PageServerLoad = async ({ url }) => {
+    if (!verifyUnsubscribeToken(url.searchParams.get('token') || '')) {
+        throw httpError(400, '유효하지 않은 수신 거부 링크입니다.');
+    }
+    return {};
+};
+
+export const actions: Actions = {
+    default: async ({ url }) => {
+        const mbId = verifyUnsubscribeToken(url.searchParams.get('token') || '');
+        if (!mbId) {
+            return fail(400, { error: '유효하지 않은 수신 거부 링크입니다.' });
+        }
+
+        try {
+            await setDigestFrequency(mbId, 'off');
+        } catch (err) {
+            console.error('[Digest] 수신 거부 실패:', err);
+            return fail(500, { error: '수신 거부에 실패했습니다. 잠시 후 다시 시도해주세요.' });
+        }
+        return { unsubscribed: true };
+    }
+};
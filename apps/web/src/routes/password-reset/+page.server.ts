@@ -9,7 +9,7 @@ import {
     sendPasswordResetEmail
 } from '$lib/server/auth/password-reset.js';
 import { verifyTurnstile } from '$lib/server/captcha.js';
-import { checkRateLimit, recordAttempt } from '$lib/server/rate-limit.js';
+import { consumeRateLimit } from '$lib/server/rate-limit.js';
 
 export const actions: Actions = {
     default: async ({ request, getClientAddress }) => {
@@ -18,14 +18,13 @@ export const actions: Actions = {
         const email = (formData.get('email') as string)?.trim() || '';
 
         // Rate limit 체크 (5회/시간)
-        const rateCheck = checkRateLimit(clientIp, 'password-reset', 5, 60 * 60 * 1000);
+        const rateCheck = await consumeRateLimit(clientIp, 'password-reset', 5, 60 * 60 * 1000);
         if (!rateCheck.allowed) {
             return fail(429, {
                 error: `요청이 너무 많습니다. ${rateCheck.retryAfter}초 후 다시 시도해주세요.`,
                 email
             });
         }
-        recordAttempt(clientIp, 'password-reset');
 
         // Turnstile CAPTCHA 검증
         const turnstileToken = (formData.get('cf-turnstile-response') as string) || '';
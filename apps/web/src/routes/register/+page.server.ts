@@ -29,7 +29,7 @@ import {
 import type { OAuthUserProfile, SocialProvider } from '$lib/server/auth/oauth/types.js';
 import { setDamoangSSOCookie } from '$lib/server/auth/sso-cookie.js';
 import { verifyTurnstile } from '$lib/server/captcha.js';
-import { checkRateLimit, recordAttempt } from '$lib/server/rate-limit.js';
+import { consumeRateLimit } from '$lib/server/rate-limit.js';
 import { getCertConfig } from '$lib/server/auth/cert-inicis.js';
 import { getContent, getSiteTitle, replaceContentVariables } from '$lib/server/content.js';
 import { sanitizePostContent } from '$lib/server/sanitize.js';
@@ -126,14 +126,13 @@ export const actions: Actions = {
         const agreePrivacy = formData.get('agree_privacy') === 'on';
 
         // Rate limit 체크 (5회/시간)
-        const rateCheck = checkRateLimit(clientIp, 'register', 5, 60 * 60 * 1000);
+        const rateCheck = await consumeRateLimit(clientIp, 'register', 5, 60 * 60 * 1000);
         if (!rateCheck.allowed) {
             return fail(429, {
                 error: `요청이 너무 많습니다. ${rateCheck.retryAfter}초 후 다시 시도해주세요.`,
                 nickname
             });
         }
-        recordAttempt(clientIp, 'register');
 
         // Turnstile CAPTCHA 검증 (초대 플로우는 소셜 인증 완료 상태이므로 스킵)
         if (!isInviteFlow) {
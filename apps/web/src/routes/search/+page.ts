@@ -5,23 +5,27 @@ import { safeJson } from '$lib/api/safe-json.js';
 export const load: PageLoad = async ({ url, fetch }) => {
     const query = url.searchParams.get('q') || '';
     const field = (url.searchParams.get('sfl') as SearchField) || 'title_content';
+    const board = url.searchParams.get('board') || '';
 
     if (!query.trim()) {
         return {
             searchResults: null,
             query: '',
-            field
+            field,
+            board
         };
     }
 
     try {
         const params = new URLSearchParams({ q: query, sfl: field, limit: '5' });
+        if (board) params.set('board', board);
         const res = await fetch(`/api/search?${params.toString()}`);
         if (res.status === 401) {
             return {
                 searchResults: null,
                 query,
                 field,
+                board,
                 error: '로그인 후 검색할 수 있습니다.'
             };
         }
@@ -30,7 +34,8 @@ export const load: PageLoad = async ({ url, fetch }) => {
         return {
             searchResults: json.success ? json.data : null,
             query,
-            field
+            field,
+            board
         };
     } catch (error) {
         console.error('전체 검색 에러:', error);
@@ -38,6 +43,7 @@ export const load: PageLoad = async ({ url, fetch }) => {
             searchResults: null,
             query,
             field,
+            board,
             error: '검색 중 오류가 발생했습니다.'
         };
     }
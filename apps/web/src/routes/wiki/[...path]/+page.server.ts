@@ -10,14 +10,29 @@ import {
     getPagesByCategory,
     getTags,
     getPagesByTag,
+    getUserContributions,
     searchPages,
+    searchRevisions,
     type WikiPage,
     type WikiPageSummary,
     type WikiCategory,
     type WikiTag,
     type WikiSearchResult,
+    type WikiRevisionSearchResult,
+    type WikiSearchFilters,
+    type WikiContribution,
     type PaginatedResult
 } from '$lib/server/wiki';
+import {
+    getBacklinks,
+    getExistingWikiPaths,
+    getWantedPages,
+    normalizeWikiPath,
+    parseWikiLinks,
+    renderWikiLinks,
+    type WantedPage
+} from '$lib/server/wiki-links';
+import { getPageProtection, WIKI_ADMIN_LEVEL } from '$lib/server/wiki-protection';
 
 // Special 페이지 타입 정의
 type SpecialPageData =
@@ -32,16 +47,42 @@ type SpecialPageData =
       }
     | { type: 'Tags'; tags: WikiTag[] }
     | { type: 'Tag'; tag: WikiTag | null; tagId: number; result: PaginatedResult<WikiPageSummary> }
-    | { type: 'Search'; query: string; result: PaginatedResult<WikiSearchResult> }
+    | {
+          type: 'Search';
+          query: string;
+          filters: WikiSearchFilters;
+          categories: WikiCategory[];
+          tags: WikiTag[];
+          /** 리비전 검색 가능 여부 (관리자) */
+          canSearchRevisions: boolean;
+          scope: 'pages' | 'revisions';
+          result: PaginatedResult<WikiSearchResult> | null;
+          revisionResult: PaginatedResult<WikiRevisionSearchResult> | null;
+      }
+    | {
+          type: 'WhatLinksHere';
+          /** 대상 문서 경로 (/로 시작) */
+          target: string;
+          targetExists: boolean;
+          result: PaginatedResult<WikiPageSummary>;
+      }
+    | { type: 'WantedPages'; result: PaginatedResult<WantedPage> }
+    | {
+          type: 'Contributions';
+          authorId: number;
+          authorName: string | null;
+          result: PaginatedResult<WikiContribution>;
+      }
     | { type: 'Unknown'; name: string };
 
-export const load: PageServerLoad = async ({ params, url }) => {
+export const load: PageServerLoad = async ({ params, url, locals }) => {
     const path = params.path || '';
 
     // Special 페이지 처리
     if (path.startsWith('Special:')) {
         const specialPage = path.replace('Special:', '');
-        const specialData = await handleSpecialPage(specialPage, url);
+        const isAdmin = (locals.user?.level ?? 0) >= WIKI_ADMIN_LEVEL;
+        const specialData = await handleSpecialPage(specialPage, url, isAdmin);
 
         return {
             isSpecialPage: true,
@@ -51,8 +92,10 @@ export const load: PageServerLoad = async ({ params, url }) => {
         };
     }
 
-    // 일반 위키 페이지 조회
-    const wikiPage = await getWikiPage(`/${path}`);
+    // 일반 위키 페이지 조회 (?redirect=no면 넘겨주기 문서 자체)
+    const wikiPage = await getWikiPage(`/${path}`, {
+        followRedirects: url.searchParams.get('redirect') !== 'no'
+    });
 
     if (!wikiPage) {
         error(404, {
@@ -64,14 +107,40 @@ export const load: PageServerLoad = async ({ params, url }) => {
         isSpecialPage: false,
         specialType: null,
         specialData: null,
-        wikiPage
+        wikiPage: await withRenderedLinks(wikiPage),
+        /** 편집 가능 최소 레벨 (보호되지 않은 문서는 null) */
+        protectionLevel: (await getPageProtection(wikiPage.id))?.edit_level ?? null,
+        adminLevel: WIKI_ADMIN_LEVEL
     };
 };
 
+/**
+ * 본문의 [[링크]]를 <a>로 변환 (없는 문서는 빨간 링크)
+ * 페이지 캐시 객체는 그대로 두고 복사본을 반환합니다.
+ */
+async function withRenderedLinks(wikiPage: WikiPage): Promise<WikiPage> {
+    const links = [
+        ...parseWikiLinks(wikiPage.content || ''),
+        ...parseWikiLinks(wikiPage.content_raw || '')
+    ];
+    if (links.length === 0) return wikiPage;
+
+    const existing = await getExistingWikiPaths(links.map((link) => link.path));
+    return {
+        ...wikiPage,
+        content: wikiPage.content && renderWikiLinks(wikiPage.content, existing),
+        content_raw: wikiPage.content_raw && renderWikiLinks(wikiPage.content_raw, existing)
+    };
+}
+
 /**
  * Special 페이지 처리
  */
-async function handleSpecialPage(pageName: string, url: URL): Promise<SpecialPageData> {
+async function handleSpecialPage(
+    pageName: string,
+    url: URL,
+    isAdmin: boolean
+): Promise<SpecialPageData> {
     // URL 파라미터 파싱
     const offset = parseInt(url.searchParams.get('offset') || '0', 10);
     const limit = parseInt(url.searchParams.get('limit') || '50', 10);
@@ -109,10 +178,39 @@ async function handleSpecialPage(pageName: string, url: URL): Promise<SpecialPag
             return { type: 'Tags', tags };
         }
 
+        case 'WantedPages': {
+            const result = await getWantedPages(offset, limit);
+            return { type: 'WantedPages', result };
+        }
+
         case 'Search': {
             const query = url.searchParams.get('q') || '';
-            const result = await searchPages(query, offset, limit);
-            return { type: 'Search', query, result };
+            const filters: WikiSearchFilters = {
+                categoryId: parseInt(url.searchParams.get('category') || '', 10) || null,
+                tagId: parseInt(url.searchParams.get('tag') || '', 10) || null
+            };
+            // 리비전 검색은 관리자만
+            const scope =
+                isAdmin && url.searchParams.get('scope') === 'revisions' ? 'revisions' : 'pages';
+            const searchLimit = parseInt(url.searchParams.get('limit') || '20', 10);
+
+            const [categories, tags, result, revisionResult] = await Promise.all([
+                getCategories(),
+                getTags(),
+                scope === 'pages' ? searchPages(query, offset, searchLimit, filters) : null,
+                scope === 'revisions' ? searchRevisions(query, offset, searchLimit, filters) : null
+            ]);
+            return {
+                type: 'Search',
+                query,
+                filters,
+                categories,
+                tags,
+                canSearchRevisions: isAdmin,
+                scope,
+                result,
+                revisionResult
+            };
         }
 
         default: {
@@ -130,6 +228,34 @@ async function handleSpecialPage(pageName: string, url: URL): Promise<SpecialPag
                 }
             }
 
+            if (pageName.startsWith('WhatLinksHere/')) {
+                const target = normalizeWikiPath(pageName.replace('WhatLinksHere/', ''));
+                if (target) {
+                    const [result, existing] = await Promise.all([
+                        getBacklinks(target, offset, limit),
+                        getExistingWikiPaths([target])
+                    ]);
+                    return {
+                        type: 'WhatLinksHere',
+                        target,
+                        targetExists: existing.has(target),
+                        result
+                    };
+                }
+            }
+
+            if (pageName.startsWith('Contributions/')) {
+                const authorId = parseInt(pageName.replace('Contributions/', ''), 10);
+                if (!isNaN(authorId)) {
+                    const { authorName, ...result } = await getUserContributions(
+                        authorId,
+                        offset,
+                        limit
+                    );
+                    return { type: 'Contributions', authorId, authorName, result };
+                }
+            }
+
             if (pageName.startsWith('Tag/')) {
                 const tagIdStr = pageName.replace('Tag/', '');
                 const tagId = parseInt(tagIdStr, 10);
@@ -1,6 +1,7 @@
 import type { PageServerLoad } from './$types';
 import { redirect, error } from '@sveltejs/kit';
 import { getWikiPageForEdit } from '$lib/server/wiki';
+import { canEditWikiPage, getPageProtection } from '$lib/server/wiki-protection';
 
 export const load: PageServerLoad = async ({ params, locals }) => {
     const path = params.path || '';
@@ -20,6 +21,12 @@ export const load: PageServerLoad = async ({ params, locals }) => {
     // 기존 페이지 조회 (없으면 신규 문서)
     const wikiPage = await getWikiPageForEdit(`/${path}`);
 
+    // 보호 문서 편집 권한 확인
+    const protection = wikiPage ? await getPageProtection(wikiPage.id) : null;
+    if (!canEditWikiPage(protection, locals.user.level ?? 0)) {
+        error(403, { message: '보호된 문서입니다. 편집 권한이 없습니다.' });
+    }
+
     // 경로에서 제목 추출 (신규 문서용)
     const titleFromPath = decodeURIComponent(path.split('/').pop() || path);
 
@@ -29,6 +36,8 @@ export const load: PageServerLoad = async ({ params, locals }) => {
     return {
         wikiPage,
         isNew: !wikiPage,
+        // 편집 시작 판 (저장 시 다른 편집과 3-way 병합 기준)
+        baseVersion: wikiPage?.version_number ?? 0,
         path: `/${path}`,
         suggestedTitle: wikiPage?.title || titleFromPath,
         user: {
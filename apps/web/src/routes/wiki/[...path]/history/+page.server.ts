@@ -8,8 +8,10 @@ import {
     type WikiPage,
     type WikiRevision
 } from '$lib/server/wiki';
+import { diffHtml, type HtmlDiff } from '$lib/server/wiki-diff';
+import { canEditWikiPage, getPageProtection } from '$lib/server/wiki-protection';
 
-export const load: PageServerLoad = async ({ params, url }) => {
+export const load: PageServerLoad = async ({ params, url, locals }) => {
     const path = params.path || '';
 
     // Special 페이지는 이력이 없음
@@ -17,8 +19,8 @@ export const load: PageServerLoad = async ({ params, url }) => {
         error(404, { message: '특수 페이지는 이력이 없습니다.' });
     }
 
-    // 페이지 정보 조회
-    const wikiPage = await getWikiPage(`/${path}`);
+    // 페이지 정보 조회 (넘겨주기 문서는 대상이 아닌 그 문서 자체의 이력)
+    const wikiPage = await getWikiPage(`/${path}`, { followRedirects: false });
 
     if (!wikiPage) {
         error(404, {
@@ -33,19 +35,62 @@ export const load: PageServerLoad = async ({ params, url }) => {
     const oldId = url.searchParams.get('oldid');
     const newId = url.searchParams.get('diff');
     let diffData: { old: WikiRevision | null; new: WikiRevision | null } | null = null;
+    let diff: HtmlDiff | null = null;
 
     if (oldId && newId) {
         const oldIdNum = parseInt(oldId, 10);
         const newIdNum = parseInt(newId, 10);
         if (!isNaN(oldIdNum) && !isNaN(newIdNum)) {
             diffData = await getRevisionPair(oldIdNum, newIdNum);
+            // 다른 문서의 리비전은 비교하지 않음
+            if (diffData.old?.page_id !== wikiPage.id || diffData.new?.page_id !== wikiPage.id) {
+                diffData = { old: null, new: null };
+            } else {
+                diff = diffHtml(revisionHtml(diffData.old), revisionHtml(diffData.new));
+            }
         }
     }
 
+    // 되돌리기 버튼 표시 여부 (로그인 + 보호 문서 편집 권한)
+    const canEdit =
+        !!locals.user &&
+        canEditWikiPage(await getPageProtection(wikiPage.id), locals.user.level ?? 0);
+
     return {
         wikiPage,
-        revisions,
+        revisions: revisions.map(withoutContent),
         diffMode: !!diffData,
-        diffData
+        diffData: diffData && {
+            old: diffData.old && withoutContent(diffData.old),
+            new: diffData.new && withoutContent(diffData.new)
+        },
+        diff,
+        canEdit
     };
 };
+
+/**
+ * 목록·비교 헤더용 리비전 (본문은 diff로 대신 보여주므로 제외)
+ */
+function withoutContent(revision: WikiRevision): Omit<WikiRevision, 'content' | 'content_raw'> {
+    const summary: Partial<WikiRevision> = { ...revision };
+    delete summary.content;
+    delete summary.content_raw;
+    return summary as Omit<WikiRevision, 'content' | 'content_raw'>;
+}
+
+/**
+ * 비교용 리비전 HTML
+ * markdown / wikitext 원문은 이스케이프해 줄마다 문단으로 감쌉니다.
+ */
+function revisionHtml(revision: WikiRevision): string {
+    if (revision.content_type === 'html' && revision.content) return revision.content;
+
+    return (revision.content_raw || revision.content || '')
+        .split('\n')
+        .map(
+            (line) =>
+                `<p>${line.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</p>`
+        )
+        .join('');
+}
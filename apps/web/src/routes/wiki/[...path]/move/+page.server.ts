@@ -0,0 +1,37 @@
+import type { PageServerLoad } from './$types';
+import { redirect, error } from '@sveltejs/kit';
+import { getWikiPageForEdit } from '$lib/server/wiki';
+import { canEditWikiPage, getPageProtection } from '$lib/server/wiki-protection';
+
+export const load: PageServerLoad = async ({ params, locals }) => {
+    const path = params.path || '';
+
+    // Special 페이지는 이동 불가
+    if (path.startsWith('Special:')) {
+        error(403, { message: '특수 페이지는 이동할 수 없습니다.' });
+    }
+
+    // 인증 확인
+    if (!locals.user) {
+        const returnUrl = encodeURIComponent(`/wiki/${path}/move`);
+        redirect(302, `/login?redirect=${returnUrl}`);
+    }
+
+    const wikiPage = await getWikiPageForEdit(`/${path}`);
+    if (!wikiPage) {
+        error(404, {
+            message: `문서 "${decodeURIComponent(path)}"을(를) 찾을 수 없습니다.`
+        });
+    }
+
+    // 보호 문서는 편집 권한이 있어야 이동 가능
+    if (!canEditWikiPage(await getPageProtection(wikiPage.id), locals.user.level ?? 0)) {
+        error(403, { message: '보호된 문서입니다. 이동 권한이 없습니다.' });
+    }
+
+    return {
+        pageId: wikiPage.id,
+        path: wikiPage.path,
+        title: wikiPage.title
+    };
+};
@@ -0,0 +1,39 @@
+import type { PageServerLoad } from './$types';
+import { redirect, error } from '@sveltejs/kit';
+import { getWikiPageForEdit } from '$lib/server/wiki';
+import { getPageProtection, WIKI_ADMIN_LEVEL } from '$lib/server/wiki-protection';
+
+export const load: PageServerLoad = async ({ params, locals }) => {
+    const path = params.path || '';
+
+    if (path.startsWith('Special:')) {
+        error(403, { message: '특수 페이지는 보호할 수 없습니다.' });
+    }
+
+    // 인증 확인 (관리자 전용)
+    if (!locals.user) {
+        const returnUrl = encodeURIComponent(`/wiki/${path}/protect`);
+        redirect(302, `/login?redirect=${returnUrl}`);
+    }
+    if ((locals.user.level ?? 0) < WIKI_ADMIN_LEVEL) {
+        error(403, { message: '관리자만 문서를 보호할 수 있습니다.' });
+    }
+
+    const wikiPage = await getWikiPageForEdit(`/${path}`);
+    if (!wikiPage) {
+        error(404, {
+            message: `문서 "${decodeURIComponent(path)}"을(를) 찾을 수 없습니다.`
+        });
+    }
+
+    const protection = await getPageProtection(wikiPage.id);
+
+    return {
+        pageId: wikiPage.id,
+        path: wikiPage.path,
+        title: wikiPage.title,
+        editLevel: protection?.edit_level ?? null,
+        reason: protection?.reason ?? '',
+        adminLevel: WIKI_ADMIN_LEVEL
+    };
+};
@@ -120,6 +120,23 @@ self.addEventListener('push', (event) => {
     }
 });
 
+// 푸시 서비스가 구독을 교체한 경우 새 구독으로 다시 등록
+self.addEventListener('pushsubscriptionchange', (event) => {
+    const options = event.oldSubscription?.options;
+    if (!options) return;
+
+    event.waitUntil(
+        self.registration.pushManager.subscribe(options).then((subscription) =>
+            fetch('/api/notifications/push', {
+                method: 'POST',
+                credentials: 'include',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ subscription: subscription.toJSON() })
+            })
+        )
+    );
+});
+
 // 알림 클릭 시 해당 URL로 이동
 self.addEventListener('notificationclick', (event) => {
     event.notification.close();
@@ -42,6 +42,8 @@ const config = {
             '@angple/hook-system': '../../packages/hook-system/src',
             '@angple/i18n': '../../packages/i18n/src',
             '@angple/i18n/messages': '../../packages/i18n/messages',
+            '@angple/migration': '../../packages/migration/src',
+            '@angple/plugin-engine': '../../packages/plugin-engine/src',
             '@angple/theme-engine': '../../packages/theme-engine/src'
         },
         csrf: {
@@ -0,0 +1,13 @@
+-- 위키앙 전문 검색 인덱스
+-- ngram 파서 FULLTEXT (MySQL 5.7.6 이상, 토큰 크기는 서버 설정 ngram_token_size, 기본 2)
+-- MATCH 컬럼 목록은 인덱스와 정확히 같아야 하므로 lib/server/wiki.ts의 검색 쿼리와 함께 수정하세요.
+-- 인덱스가 없으면 위키 검색은 LIKE 검색으로 동작합니다.
+
+-- 1. 문서 검색 (제목 가중치용 단독 인덱스 + 제목·설명·본문)
+ALTER TABLE wikiang_pages
+    ADD FULLTEXT INDEX ft_wiki_title (title) WITH PARSER ngram,
+    ADD FULLTEXT INDEX ft_wiki_search (title, description, content_raw) WITH PARSER ngram;
+
+-- 2. 리비전 검색 (관리자 전용: 본문·편집 요약)
+ALTER TABLE wikiang_revisions
+    ADD FULLTEXT INDEX ft_wiki_revision (content_raw, comment) WITH PARSER ngram;
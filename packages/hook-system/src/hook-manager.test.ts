@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { HookManager } from './hook-manager.js';
 
 describe('HookManager', () => {
@@ -138,6 +138,177 @@ describe('HookManager', () => {
         });
     });
 
+    describe('Async filters & actions', () => {
+        it('should await async filters in priority order', async () => {
+            hookManager.addFilter(
+                'test_filter',
+                async (value: string) => {
+                    await new Promise((resolve) => setTimeout(resolve, 5));
+                    return `${value}-slow`;
+                },
+                5
+            );
+            hookManager.addFilter('test_filter', (value: string) => value.toUpperCase(), 10);
+
+            const result = await hookManager.applyFiltersAsync('test_filter', 'hello');
+
+            expect(result).toBe('HELLO-SLOW');
+        });
+
+        it('should check payload types of FilterPoints', async () => {
+            hookManager.addFilter('post_title', async (title: string) => `[공지] ${title}`);
+
+            const result: string = await hookManager.applyFiltersAsync('post_title', '제목', {});
+            // @ts-expect-error post_title 값은 string이어야 함
+            await hookManager.applyFiltersAsync('post_title', 123, {});
+
+            expect(result).toBe('[공지] 제목');
+        });
+
+        it('should skip filters that time out and keep the previous value', async () => {
+            const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            hookManager.addFilter(
+                'test_filter',
+                () => new Promise<string>((resolve) => setTimeout(() => resolve('late'), 50)),
+                5,
+                { timeout: 10 }
+            );
+            hookManager.addFilter('test_filter', (value: string) => `${value}!`, 10);
+
+            const result = await hookManager.applyFiltersAsync('test_filter', 'hello');
+
+            expect(result).toBe('hello!');
+            expect(errorSpy).toHaveBeenCalledWith('Timeout in filter:', {
+                hookName: 'test_filter',
+                timeout: 10
+            });
+            errorSpy.mockRestore();
+        });
+
+        it('should apply the manager-level default timeout', async () => {
+            const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            const manager = new HookManager({ asyncTimeout: 10 });
+            manager.addFilter(
+                'test_filter',
+                () => new Promise<number>((resolve) => setTimeout(() => resolve(0), 50))
+            );
+
+            expect(await manager.applyFiltersAsync('test_filter', 1)).toBe(1);
+            errorSpy.mockRestore();
+        });
+
+        it('should continue with next filters after an async rejection', async () => {
+            const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            hookManager.addFilter('test_filter', async () => {
+                throw new Error('Test error');
+            });
+            hookManager.addFilter('test_filter', (value: number) => value + 1);
+
+            expect(await hookManager.applyFiltersAsync('test_filter', 1)).toBe(2);
+            errorSpy.mockRestore();
+        });
+
+        it('should run asyncOnly hooks only on the async path', async () => {
+            const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+            const action = vi.fn(async () => {});
+            hookManager.addFilter('test_filter', async (value: string) => value + '!', 10, {
+                asyncOnly: true,
+                source: 'sandboxed'
+            });
+            hookManager.addFilter('test_filter', (value: string) => value + '?');
+            hookManager.addAction('test_action', action, 10, { asyncOnly: true });
+
+            expect(hookManager.applyFilters('test_filter', 'hi')).toBe('hi?');
+            expect(hookManager.applyFilters('test_filter', 'hi')).toBe('hi?');
+            hookManager.doAction('test_action');
+            expect(action).not.toHaveBeenCalled();
+            expect(warnSpy).toHaveBeenCalledTimes(2);
+
+            expect(await hookManager.applyFiltersAsync('test_filter', 'hi')).toBe('hi!?');
+            await hookManager.doActionAsync('test_action');
+            expect(action).toHaveBeenCalledTimes(1);
+            warnSpy.mockRestore();
+        });
+
+        it('should await async actions sequentially', async () => {
+            const order: string[] = [];
+
+            hookManager.addAction(
+                'test_action',
+                async () => {
+                    await new Promise((resolve) => setTimeout(resolve, 5));
+                    order.push('first');
+                },
+                5
+            );
+            hookManager.addAction('test_action', () => order.push('second'), 10);
+
+            await hookManager.doActionAsync('test_action');
+
+            expect(order).toEqual(['first', 'second']);
+        });
+    });
+
+    describe('Profiling', () => {
+        it('should record calls and errors per hook and source', () => {
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+            hookManager.addFilter('test_filter', (v: number) => v + 1, 10, { source: 'plugin-a' });
+            hookManager.addFilter(
+                'test_filter',
+                () => {
+                    throw new Error('boom');
+                },
+                20,
+                { source: 'plugin-b' }
+            );
+
+            hookManager.applyFilters('test_filter', 1);
+            hookManager.applyFilters('test_filter', 2);
+
+            const profile = hookManager.getProfile();
+            const a = profile.find((e) => e.source === 'plugin-a')!;
+            const b = profile.find((e) => e.source === 'plugin-b')!;
+
+            expect(a).toMatchObject({
+                type: 'filter',
+                hookName: 'test_filter',
+                calls: 2,
+                errors: 0
+            });
+            expect(b).toMatchObject({ calls: 2, errors: 2, lastError: 'boom' });
+            expect(a.p95Ms).toBeGreaterThanOrEqual(a.p50Ms);
+            vi.restoreAllMocks();
+        });
+
+        it('should count async timeouts and fall back to unknown source', async () => {
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+            hookManager.addAction(
+                'test_action',
+                () => new Promise<void>((resolve) => setTimeout(resolve, 50)),
+                10,
+                { timeout: 5 }
+            );
+
+            await hookManager.doActionAsync('test_action');
+
+            expect(hookManager.getProfile()[0]).toMatchObject({
+                source: 'unknown',
+                calls: 1,
+                timeouts: 1
+            });
+            vi.restoreAllMocks();
+        });
+
+        it('should reset recorded stats', () => {
+            hookManager.addAction('test_action', () => {});
+            hookManager.doAction('test_action');
+
+            hookManager.resetProfile();
+
+            expect(hookManager.getProfile()).toHaveLength(0);
+        });
+    });
+
     describe('Utility methods', () => {
         it('should get registered hooks', () => {
             hookManager.addAction('action1', () => {});
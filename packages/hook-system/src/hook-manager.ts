@@ -3,31 +3,84 @@
  * 워드프레스 스타일 Action/Filter 구현
  */
 
-type ActionCallback = (...args: any[]) => void;
-type FilterCallback = (value: any, ...args: any[]) => any;
+import type {
+    ActionArgs,
+    ActionCallback,
+    FilterArgs,
+    FilterCallback,
+    FilterValue,
+    Hook,
+    HookManagerOptions,
+    HookOptions,
+    HookProfileEntry
+} from './types.js';
+import { HookProfiler } from './profiler.js';
 
-interface Hook {
-    callback: ActionCallback | FilterCallback;
-    priority: number;
+/** 비동기 콜백 타임아웃 시 resolve 대신 반환되는 표식 */
+const TIMED_OUT = Symbol('hook-timeout');
+
+/**
+ * 콜백 결과를 await 하되, timeout(ms)을 넘기면 TIMED_OUT을 반환
+ * timeout이 0 이하이면 제한 없이 기다린다
+ */
+async function awaitWithTimeout<T>(
+    result: T | Promise<T>,
+    timeout: number
+): Promise<T | typeof TIMED_OUT> {
+    if (timeout <= 0) return await result;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeoutPromise = new Promise<typeof TIMED_OUT>((resolve) => {
+        timer = setTimeout(() => resolve(TIMED_OUT), timeout);
+    });
+
+    try {
+        return await Promise.race([Promise.resolve(result), timeoutPromise]);
+    } finally {
+        clearTimeout(timer);
+    }
 }
 
 export class HookManager {
     private actions: Map<string, Hook[]> = new Map();
     private filters: Map<string, Hook[]> = new Map();
+    private asyncTimeout: number;
+    private profiler = new HookProfiler();
+    /** 동기 실행에서 건너뛴 asyncOnly 콜백 (Hook별 경고 1회) */
+    private skippedAsyncOnly = new WeakSet<Hook>();
+
+    /**
+     * @param options.asyncTimeout - 비동기 실행 시 기본 콜백 타임아웃 (ms, 기본 5000, 0이면 무제한)
+     */
+    constructor(options: HookManagerOptions = {}) {
+        this.asyncTimeout = options.asyncTimeout ?? 5000;
+    }
 
     /**
      * Action 등록
      * @param hookName - Hook 이름
      * @param callback - 실행할 콜백 함수
      * @param priority - 우선순위 (낮을수록 먼저 실행)
+     * @param options - 비동기 실행 타임아웃 등 추가 옵션
      */
-    addAction(hookName: string, callback: ActionCallback, priority: number = 10): void {
+    addAction(
+        hookName: string,
+        callback: ActionCallback,
+        priority: number = 10,
+        options: HookOptions = {}
+    ): void {
         if (!this.actions.has(hookName)) {
             this.actions.set(hookName, []);
         }
 
         const hooks = this.actions.get(hookName)!;
-        hooks.push({ callback, priority });
+        hooks.push({
+            callback,
+            priority,
+            timeout: options.timeout,
+            source: options.source,
+            asyncOnly: options.asyncOnly
+        });
         hooks.sort((a, b) => a.priority - b.priority);
     }
 
@@ -41,9 +94,13 @@ export class HookManager {
         if (!hooks) return;
 
         for (const hook of hooks) {
+            if (this.skipAsyncOnly('action', hookName, hook)) continue;
+            const startedAt = this.profiler.start();
             try {
                 (hook.callback as ActionCallback)(...args);
+                this.profiler.record('action', hookName, hook.source, startedAt);
             } catch (error) {
+                this.profiler.record('action', hookName, hook.source, startedAt, { error });
                 console.error('Error in action:', { hookName, error });
             }
         }
@@ -54,14 +111,26 @@ export class HookManager {
      * @param hookName - Hook 이름
      * @param callback - 값을 변환할 콜백 함수
      * @param priority - 우선순위
+     * @param options - 비동기 실행 타임아웃 등 추가 옵션
      */
-    addFilter(hookName: string, callback: FilterCallback, priority: number = 10): void {
+    addFilter(
+        hookName: string,
+        callback: FilterCallback,
+        priority: number = 10,
+        options: HookOptions = {}
+    ): void {
         if (!this.filters.has(hookName)) {
             this.filters.set(hookName, []);
         }
 
         const hooks = this.filters.get(hookName)!;
-        hooks.push({ callback, priority });
+        hooks.push({
+            callback,
+            priority,
+            timeout: options.timeout,
+            source: options.source,
+            asyncOnly: options.asyncOnly
+        });
         hooks.sort((a, b) => a.priority - b.priority);
     }
 
@@ -78,9 +147,107 @@ export class HookManager {
 
         let result = value;
         for (const hook of hooks) {
+            if (this.skipAsyncOnly('filter', hookName, hook)) continue;
+            const startedAt = this.profiler.start();
             try {
                 result = (hook.callback as FilterCallback)(result, ...args);
+                this.profiler.record('filter', hookName, hook.source, startedAt);
+            } catch (error) {
+                this.profiler.record('filter', hookName, hook.source, startedAt, { error });
+                console.error('Error in filter:', { hookName, error });
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * 동기 실행에서 asyncOnly 콜백 건너뛰기 (처음 한 번만 경고)
+     */
+    private skipAsyncOnly(type: 'action' | 'filter', hookName: string, hook: Hook): boolean {
+        if (!hook.asyncOnly) return false;
+        if (!this.skippedAsyncOnly.has(hook)) {
+            this.skippedAsyncOnly.add(hook);
+            console.warn(
+                `[Hook] 비동기 전용 ${type} 콜백을 동기 실행에서 건너뜁니다: ${hookName}` +
+                    (hook.source ? ` (${hook.source})` : '')
+            );
+        }
+        return true;
+    }
+
+    /**
+     * Action 비동기 실행
+     * 우선순위 순서대로 각 콜백을 await 하며, 타임아웃/에러가 난 콜백은 건너뛴다
+     * HookPoints에 정의된 Hook은 인자 타입이 검사된다
+     * @param hookName - Hook 이름
+     * @param args - 콜백에 전달할 인자
+     */
+    async doActionAsync<K extends string>(hookName: K, ...args: ActionArgs<K>): Promise<void> {
+        const hooks = this.actions.get(hookName);
+        if (!hooks) return;
+
+        // 실행 중 등록/제거가 일어나도 순회가 흔들리지 않도록 복사본 사용
+        for (const hook of [...hooks]) {
+            const timeout = hook.timeout ?? this.asyncTimeout;
+            const startedAt = this.profiler.start();
+            try {
+                const outcome = await awaitWithTimeout(
+                    (hook.callback as ActionCallback)(...args),
+                    timeout
+                );
+                const timedOut = outcome === TIMED_OUT;
+                this.profiler.record('action', hookName, hook.source, startedAt, {
+                    timeout: timedOut
+                });
+                if (timedOut) {
+                    console.error('Timeout in action:', { hookName, timeout });
+                }
+            } catch (error) {
+                this.profiler.record('action', hookName, hook.source, startedAt, { error });
+                console.error('Error in action:', { hookName, error });
+            }
+        }
+    }
+
+    /**
+     * Filter 비동기 적용
+     * 우선순위 순서대로 각 콜백의 결과를 await 한 뒤 다음 콜백에 전달한다
+     * 타임아웃/에러가 난 콜백은 건너뛰고 직전 값을 유지한다
+     * FilterPoints에 정의된 Hook은 값/인자 타입이 검사된다
+     * @param hookName - Hook 이름
+     * @param value - 변환할 초기 값
+     * @param args - 추가 인자
+     * @returns 변환된 값
+     */
+    async applyFiltersAsync<K extends string>(
+        hookName: K,
+        value: FilterValue<K>,
+        ...args: FilterArgs<K>
+    ): Promise<FilterValue<K>> {
+        const hooks = this.filters.get(hookName);
+        if (!hooks) return value;
+
+        let result = value;
+        for (const hook of [...hooks]) {
+            const timeout = hook.timeout ?? this.asyncTimeout;
+            const startedAt = this.profiler.start();
+            try {
+                const outcome = await awaitWithTimeout(
+                    (hook.callback as FilterCallback)(result, ...args),
+                    timeout
+                );
+                if (outcome === TIMED_OUT) {
+                    this.profiler.record('filter', hookName, hook.source, startedAt, {
+                        timeout: true
+                    });
+                    console.error('Timeout in filter:', { hookName, timeout });
+                    continue;
+                }
+                this.profiler.record('filter', hookName, hook.source, startedAt);
+                result = outcome;
             } catch (error) {
+                this.profiler.record('filter', hookName, hook.source, startedAt, { error });
                 console.error('Error in filter:', { hookName, error });
             }
         }
@@ -134,6 +301,20 @@ export class HookManager {
         return this.filters.get(hookName)?.length || 0;
     }
 
+    /**
+     * Hook/소스별 실행 통계 조회 (호출 수, p50/p95, 에러)
+     */
+    getProfile(): HookProfileEntry[] {
+        return this.profiler.getStats();
+    }
+
+    /**
+     * 실행 통계 초기화
+     */
+    resetProfile(): void {
+        this.profiler.reset();
+    }
+
     /**
      * 모든 Hook 초기화 (테스트용)
      */
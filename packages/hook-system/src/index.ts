@@ -4,11 +4,20 @@
  */
 
 export { HookManager, hooks } from './hook-manager.js';
+export { HookProfiler } from './profiler.js';
 export type {
     ActionCallback,
     FilterCallback,
     Hook,
+    HookOptions,
+    HookManagerOptions,
+    HookProfileEntry,
     RegisteredHooks,
     HookPoints,
-    FilterPoints
+    FilterPoints,
+    ActionArgs,
+    FilterValue,
+    FilterArgs,
+    AsyncActionCallback,
+    AsyncFilterCallback
 } from './types.js';
@@ -0,0 +1,155 @@
+/**
+ * Hook Profiler
+ * Hook/소스별 호출 횟수, 실행 시간(p50/p95), 에러 횟수를 기록
+ */
+
+import type { HookProfileEntry } from './types.js';
+
+/** 백분위 계산에 사용할 최근 샘플 수 */
+const DEFAULT_SAMPLE_SIZE = 200;
+
+/** 소스를 지정하지 않고 등록된 콜백의 표시 이름 */
+export const UNKNOWN_SOURCE = 'unknown';
+
+interface ProfileBucket {
+    type: 'action' | 'filter';
+    hookName: string;
+    source: string;
+    calls: number;
+    errors: number;
+    timeouts: number;
+    totalMs: number;
+    maxMs: number;
+    /** 최근 실행 시간 (링 버퍼) */
+    samples: number[];
+    sampleIndex: number;
+    lastError?: string;
+    lastErrorAt?: number;
+}
+
+function now(): number {
+    return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+/**
+ * 정렬된 배열에서 백분위 값 계산 (nearest-rank)
+ */
+function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0;
+    const rank = Math.ceil((p / 100) * sorted.length);
+    return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
+function round(ms: number): number {
+    return Math.round(ms * 1000) / 1000;
+}
+
+export class HookProfiler {
+    private buckets: Map<string, ProfileBucket> = new Map();
+    private readonly sampleSize: number;
+
+    /**
+     * @param sampleSize - Hook/소스별로 보관할 최근 실행 시간 샘플 수
+     */
+    constructor(sampleSize: number = DEFAULT_SAMPLE_SIZE) {
+        this.sampleSize = sampleSize;
+    }
+
+    /** 측정 시작 시각 (record의 startedAt으로 전달) */
+    start(): number {
+        return now();
+    }
+
+    /**
+     * 콜백 1회 실행 결과 기록
+     * @param type - Hook 타입
+     * @param hookName - Hook 이름
+     * @param source - 콜백을 등록한 주체 (플러그인/테마 ID)
+     * @param startedAt - start()로 얻은 시작 시각
+     * @param outcome - 실행 결과 (에러가 있으면 error, 타임아웃이면 timeout)
+     */
+    record(
+        type: 'action' | 'filter',
+        hookName: string,
+        source: string | undefined,
+        startedAt: number,
+        outcome: { error?: unknown; timeout?: boolean } = {}
+    ): void {
+        const duration = now() - startedAt;
+        const resolvedSource = source || UNKNOWN_SOURCE;
+        const key = `${type}\u0000${hookName}\u0000${resolvedSource}`;
+
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+            bucket = {
+                type,
+                hookName,
+                source: resolvedSource,
+                calls: 0,
+                errors: 0,
+                timeouts: 0,
+                totalMs: 0,
+                maxMs: 0,
+                samples: [],
+                sampleIndex: 0
+            };
+            this.buckets.set(key, bucket);
+        }
+
+        bucket.calls++;
+        bucket.totalMs += duration;
+        bucket.maxMs = Math.max(bucket.maxMs, duration);
+
+        if (bucket.samples.length < this.sampleSize) {
+            bucket.samples.push(duration);
+        } else {
+            bucket.samples[bucket.sampleIndex] = duration;
+            bucket.sampleIndex = (bucket.sampleIndex + 1) % this.sampleSize;
+        }
+
+        if (outcome.timeout) {
+            bucket.timeouts++;
+        }
+        if (outcome.error !== undefined) {
+            bucket.errors++;
+            bucket.lastError =
+                outcome.error instanceof Error ? outcome.error.message : String(outcome.error);
+            bucket.lastErrorAt = Date.now();
+        }
+    }
+
+    /**
+     * Hook/소스별 통계 조회 (총 실행 시간 내림차순)
+     */
+    getStats(): HookProfileEntry[] {
+        const entries: HookProfileEntry[] = [];
+
+        for (const bucket of this.buckets.values()) {
+            const sorted = [...bucket.samples].sort((a, b) => a - b);
+            entries.push({
+                type: bucket.type,
+                hookName: bucket.hookName,
+                source: bucket.source,
+                calls: bucket.calls,
+                errors: bucket.errors,
+                timeouts: bucket.timeouts,
+                totalMs: round(bucket.totalMs),
+                avgMs: round(bucket.totalMs / bucket.calls),
+                p50Ms: round(percentile(sorted, 50)),
+                p95Ms: round(percentile(sorted, 95)),
+                maxMs: round(bucket.maxMs),
+                lastError: bucket.lastError,
+                lastErrorAt: bucket.lastErrorAt
+            });
+        }
+
+        return entries.sort((a, b) => b.totalMs - a.totalMs);
+    }
+
+    /**
+     * 기록된 통계 초기화
+     */
+    reset(): void {
+        this.buckets.clear();
+    }
+}
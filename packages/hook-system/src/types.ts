@@ -8,6 +8,58 @@ export type FilterCallback = (value: any, ...args: any[]) => any;
 export interface Hook {
     callback: ActionCallback | FilterCallback;
     priority: number;
+    /** 비동기 실행 시 이 콜백에만 적용할 타임아웃 (ms) */
+    timeout?: number;
+    /** 콜백을 등록한 주체 (플러그인/테마 ID, 프로파일링용) */
+    source?: string;
+    /** 비동기 실행에서만 호출 (동기 doAction/applyFilters는 건너뜀) */
+    asyncOnly?: boolean;
+}
+
+/**
+ * Hook 등록 옵션
+ */
+export interface HookOptions {
+    /** 비동기 실행(applyFiltersAsync/doActionAsync) 시 콜백 타임아웃 (ms) */
+    timeout?: number;
+    /** 콜백을 등록한 주체 (플러그인/테마 ID, 프로파일링용) */
+    source?: string;
+    /**
+     * 비동기 실행(applyFiltersAsync/doActionAsync)에서만 호출
+     * 결과가 항상 Promise인 콜백(샌드박스 플러그인 등)이 동기 applyFilters의 값을 Promise로 바꾸지 않도록 합니다.
+     */
+    asyncOnly?: boolean;
+}
+
+/**
+ * HookManager 생성 옵션
+ */
+export interface HookManagerOptions {
+    /** 콜백별 타임아웃을 지정하지 않았을 때 사용할 기본 타임아웃 (ms, 0이면 무제한) */
+    asyncTimeout?: number;
+}
+
+/**
+ * Hook/소스별 실행 통계 (HookProfiler)
+ */
+export interface HookProfileEntry {
+    type: 'action' | 'filter';
+    hookName: string;
+    /** 콜백을 등록한 주체 (미지정 시 'unknown') */
+    source: string;
+    calls: number;
+    errors: number;
+    timeouts: number;
+    totalMs: number;
+    avgMs: number;
+    /** 최근 샘플 기준 중앙값 */
+    p50Ms: number;
+    /** 최근 샘플 기준 95 백분위 */
+    p95Ms: number;
+    maxMs: number;
+    lastError?: string;
+    /** 마지막 에러 발생 시각 (epoch ms) */
+    lastErrorAt?: number;
 }
 
 export interface RegisteredHooks {
@@ -60,3 +112,38 @@ export interface FilterPoints {
     api_response: [response: any, endpoint: string];
     api_error: [error: any, endpoint: string];
 }
+
+/**
+ * Hook 이름에 대응하는 Action 인자 타입
+ * HookPoints에 정의되지 않은 Hook은 any[]로 취급
+ */
+export type ActionArgs<K extends string> = K extends keyof HookPoints ? HookPoints[K] : any[];
+
+/**
+ * Hook 이름에 대응하는 Filter 값 타입 (FilterPoints 튜플의 첫 번째 요소)
+ */
+export type FilterValue<K extends string> = K extends keyof FilterPoints ? FilterPoints[K][0] : any;
+
+/**
+ * Hook 이름에 대응하는 Filter 추가 인자 타입 (FilterPoints 튜플의 나머지 요소)
+ */
+export type FilterArgs<K extends string> = K extends keyof FilterPoints
+    ? FilterPoints[K] extends [any, ...infer Rest]
+        ? Rest
+        : []
+    : any[];
+
+/**
+ * 비동기 Action 콜백 타입
+ */
+export type AsyncActionCallback<K extends string = string> = (
+    ...args: ActionArgs<K>
+) => void | Promise<void>;
+
+/**
+ * 비동기 Filter 콜백 타입
+ */
+export type AsyncFilterCallback<K extends string = string> = (
+    value: FilterValue<K>,
+    ...args: FilterArgs<K>
+) => FilterValue<K> | Promise<FilterValue<K>>;
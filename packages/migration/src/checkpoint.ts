@@ -0,0 +1,146 @@
+/**
+ * 마이그레이션 체크포인트
+ *
+ * 대상 DB에 실행 기록과 단계별 커서(마지막으로 커밋된 소스 PK)를 저장합니다.
+ * - 재개(resume): 중단된 실행의 커서부터 이어서 처리
+ * - 델타(delta): 직전 완료 실행의 커서(high-water mark)보다 새 행만 처리
+ *
+ * 커서는 배치 INSERT와 같은 트랜잭션에서 갱신되므로 배치 단위로 정확히 한 번 반영됩니다.
+ */
+
+import type { Connection, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import type { DatabaseConfig, MigrationMode, MigrationRun, MigrationSource } from './types.js';
+
+const RUN_TABLE = 'angple_migration_run';
+const CHECKPOINT_TABLE = 'angple_migration_checkpoint';
+
+/** 체크포인트 소유자 (소스 종류 + 소스 DB) */
+export interface CheckpointScope {
+    source: MigrationSource;
+    /** host:port/database */
+    sourceDb: string;
+}
+
+export function createCheckpointScope(
+    source: MigrationSource,
+    config: DatabaseConfig
+): CheckpointScope {
+    return { source, sourceDb: `${config.host}:${config.port}/${config.database}` };
+}
+
+/**
+ * 체크포인트 테이블 생성
+ */
+export async function ensureCheckpointTables(conn: Connection): Promise<void> {
+    await conn.query(`
+        CREATE TABLE IF NOT EXISTS ${RUN_TABLE} (
+            id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+            source VARCHAR(20) NOT NULL,
+            source_db VARCHAR(255) NOT NULL,
+            mode VARCHAR(10) NOT NULL,
+            status VARCHAR(10) NOT NULL,
+            started_at DATETIME NOT NULL,
+            completed_at DATETIME NULL,
+            INDEX idx_source (source, source_db, id)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+    await conn.query(`
+        CREATE TABLE IF NOT EXISTS ${CHECKPOINT_TABLE} (
+            source VARCHAR(20) NOT NULL,
+            source_db VARCHAR(255) NOT NULL,
+            checkpoint_key VARCHAR(150) NOT NULL,
+            cursor_value BIGINT NOT NULL DEFAULT 0,
+            updated_at DATETIME NOT NULL,
+            PRIMARY KEY (source, source_db, checkpoint_key)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+}
+
+/**
+ * 가장 최근 실행 기록 (status 지정 시 해당 상태의 실행만)
+ */
+export async function getLastRun(
+    conn: Connection,
+    scope: CheckpointScope,
+    status?: MigrationRun['status']
+): Promise<MigrationRun | null> {
+    const [rows] = await conn.query<RowDataPacket[]>(
+        `SELECT id, mode, status, started_at, completed_at FROM ${RUN_TABLE}
+         WHERE source = ? AND source_db = ?${status ? ' AND status = ?' : ''} ORDER BY id DESC LIMIT 1`,
+        status ? [scope.source, scope.sourceDb, status] : [scope.source, scope.sourceDb]
+    );
+    if (rows.length === 0) return null;
+
+    const row = rows[0];
+    return {
+        id: row.id,
+        mode: row.mode,
+        status: row.status,
+        startedAt: new Date(row.started_at),
+        completedAt: row.completed_at ? new Date(row.completed_at) : null
+    };
+}
+
+export async function startRun(
+    conn: Connection,
+    scope: CheckpointScope,
+    mode: MigrationMode
+): Promise<number> {
+    const [result] = await conn.query<ResultSetHeader>(
+        `INSERT INTO ${RUN_TABLE} (source, source_db, mode, status, started_at) VALUES (?, ?, ?, 'running', NOW())`,
+        [scope.source, scope.sourceDb, mode]
+    );
+    return result.insertId;
+}
+
+/**
+ * 실행 상태 갱신 (재개 시 running으로 되돌림)
+ */
+export async function markRunStatus(
+    conn: Connection,
+    runId: number,
+    status: MigrationRun['status']
+): Promise<void> {
+    await conn.query(
+        `UPDATE ${RUN_TABLE} SET status = ?, completed_at = ${status === 'running' ? 'NULL' : 'NOW()'} WHERE id = ?`,
+        [status, runId]
+    );
+}
+
+/**
+ * 저장된 커서 전체 조회 (checkpoint_key → 마지막 PK)
+ */
+export async function loadCheckpoints(
+    conn: Connection,
+    scope: CheckpointScope
+): Promise<Map<string, number>> {
+    const [rows] = await conn.query<RowDataPacket[]>(
+        `SELECT checkpoint_key, cursor_value FROM ${CHECKPOINT_TABLE} WHERE source = ? AND source_db = ?`,
+        [scope.source, scope.sourceDb]
+    );
+    return new Map(rows.map((row) => [row.checkpoint_key as string, Number(row.cursor_value)]));
+}
+
+export async function clearCheckpoints(conn: Connection, scope: CheckpointScope): Promise<void> {
+    await conn.query(`DELETE FROM ${CHECKPOINT_TABLE} WHERE source = ? AND source_db = ?`, [
+        scope.source,
+        scope.sourceDb
+    ]);
+}
+
+/**
+ * 커서 저장 (배치 트랜잭션 안에서 호출)
+ */
+export async function saveCheckpoint(
+    conn: Connection,
+    scope: CheckpointScope,
+    key: string,
+    cursor: number
+): Promise<void> {
+    await conn.query(
+        `INSERT INTO ${CHECKPOINT_TABLE} (source, source_db, checkpoint_key, cursor_value, updated_at)
+         VALUES (?, ?, ?, ?, NOW())
+         ON DUPLICATE KEY UPDATE cursor_value = VALUES(cursor_value), updated_at = VALUES(updated_at)`,
+        [scope.source, scope.sourceDb, key, cursor]
+    );
+}
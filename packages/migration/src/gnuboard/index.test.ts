@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { MigrationOptions, MigrationRun } from '../types.js';
+
+/** 소스 DB 테이블 (테이블명 → 행) */
+const source = new Map<string, any[]>();
+/** 접근 시 실패하는 소스 테이블 */
+const brokenTables = new Set<string>();
+/** INSERT 시 실패하는 게시글 wr_id */
+const failingPosts = new Set<number>();
+/** 대상 DB에 INSERT된 게시글/댓글 wr_id */
+const inserted: number[] = [];
+
+/** 체크포인트 저장소 (angple_migration_run / angple_migration_checkpoint 대역) */
+const runs: MigrationRun[] = [];
+const checkpoints = new Map<string, number>();
+
+vi.mock('../checkpoint.js', () => ({
+    createCheckpointScope: () => ({ source: 'gnuboard', sourceDb: 'test' }),
+    ensureCheckpointTables: async () => {},
+    getLastRun: async (_conn: unknown, _scope: unknown, status?: MigrationRun['status']) =>
+        [...runs].reverse().find((run) => !status || run.status === status) ?? null,
+    startRun: async (_conn: unknown, _scope: unknown, mode: MigrationRun['mode']) => {
+        runs.push({
+            id: runs.length + 1,
+            mode,
+            status: 'running',
+            startedAt: new Date(),
+            completedAt: null
+        });
+        return runs.length;
+    },
+    markRunStatus: async (_conn: unknown, runId: number, status: MigrationRun['status']) => {
+        runs[runId - 1].status = status;
+    },
+    loadCheckpoints: async () => new Map(checkpoints),
+    clearCheckpoints: async () => checkpoints.clear(),
+    saveCheckpoint: async (_conn: unknown, _scope: unknown, key: string, cursor: number) => {
+        checkpoints.set(key, cursor);
+    }
+}));
+
+function sourceQuery(sql: string, params: unknown[] = []): [unknown[]] {
+    const table = sql.match(/FROM (\S+)/)?.[1].replace(/`/g, '') ?? '';
+    if (brokenTables.has(table)) throw new Error(`Table '${table}' is locked`);
+    const rows = source.get(table) ?? [];
+
+    const keyed = sql.match(/WHERE (\w+) > \?/);
+    const after = keyed ? rows.filter((row) => row[keyed[1]] > Number(params[0])) : rows;
+    if (sql.startsWith('SELECT COUNT(*)')) {
+        const kind = sql.match(/wr_is_comment = (\d)/);
+        const count = kind ? after.filter((row) => row.wr_is_comment === Number(kind[1])) : after;
+        return [[{ cnt: count.length }]];
+    }
+    return [keyed ? after.slice(0, Number(params[1])) : after];
+}
+
+function targetQuery(sql: string, params: unknown[] = []): [unknown] {
+    if (/INSERT INTO (post|comment) /.test(sql)) {
+        const wrId = Number(params[0]);
+        if (sql.startsWith('INSERT INTO post') && failingPosts.has(wrId)) {
+            throw new Error('Deadlock found when trying to get lock');
+        }
+        inserted.push(wrId);
+    }
+    return [{}];
+}
+
+vi.mock('mysql2/promise', () => {
+    const createConnection = async (config: { database: string }) => ({
+        query: async (sql: string, params?: unknown[]) =>
+            config.database === 'gnu' ? sourceQuery(sql, params) : targetQuery(sql, params),
+        beginTransaction: async () => {},
+        commit: async () => {},
+        rollback: async () => {},
+        end: async () => {}
+    });
+    return { createConnection, default: { createConnection } };
+});
+
+import { migrateGnuboard } from './index.js';
+
+const db = (database: string) => ({
+    host: 'localhost',
+    port: 3306,
+    user: 'u',
+    password: 'p',
+    database
+});
+
+const options = (extra: Partial<MigrationOptions> = {}): MigrationOptions => ({
+    sourceDb: db('gnu'),
+    targetDb: db('angple'),
+    tablePrefix: 'g5_',
+    migrateAttachments: false,
+    keepPhpPasswords: false,
+    dryRun: false,
+    ...extra
+});
+
+const write = (wr_id: number, wr_is_comment = 0) => ({
+    wr_id,
+    wr_is_comment,
+    wr_parent: 1,
+    wr_subject: `글 ${wr_id}`,
+    wr_content: '본문',
+    mb_id: 'admin'
+});
+
+describe('migrateGnuboard resume', () => {
+    beforeEach(() => {
+        source.clear();
+        brokenTables.clear();
+        failingPosts.clear();
+        inserted.length = 0;
+        runs.length = 0;
+        checkpoints.clear();
+
+        source.set('g5_board', [
+            { bo_table: 'free', bo_subject: '자유', bo_notice: '' },
+            { bo_table: 'qna', bo_subject: '질문', bo_notice: '' }
+        ]);
+        source.set('g5_write_free', [write(1), write(2), write(3, 1), write(4)]);
+        source.set('g5_write_qna', [write(10), write(11)]);
+    });
+
+    it('실패한 행이 있으면 partial로 기록하고 커서를 마지막 성공 행에 둠', async () => {
+        failingPosts.add(2);
+
+        const result = await migrateGnuboard(options());
+
+        expect(result.success).toBe(false);
+        expect(result.errors).toEqual([
+            expect.objectContaining({ phase: 'posts', table: 'g5_write_free', row: 2 })
+        ]);
+        expect(runs[0].status).toBe('partial');
+        expect(checkpoints.get('write:free')).toBe(1);
+        // 실패한 행 뒤는 처리하지 않고, 다른 게시판은 계속 진행
+        expect(inserted).toEqual([1, 10, 11]);
+        expect(checkpoints.get('write:qna')).toBe(11);
+    });
+
+    it('resume은 실패한 행부터 다시 처리하고 같은 실행을 완료로 기록', async () => {
+        failingPosts.add(2);
+        await migrateGnuboard(options());
+        failingPosts.clear();
+        inserted.length = 0;
+
+        const result = await migrateGnuboard(options({ resume: true }));
+
+        expect(result.success).toBe(true);
+        expect(result.runId).toBe(1);
+        expect(runs).toHaveLength(1);
+        expect(runs[0].status).toBe('completed');
+        expect(inserted).toEqual([2, 3, 4]);
+        expect(checkpoints.get('write:free')).toBe(4);
+    });
+
+    it('접근에 실패한 게시판은 resume 시 처음부터 재시도', async () => {
+        brokenTables.add('g5_write_qna');
+
+        const first = await migrateGnuboard(options());
+        expect(first.errors).toEqual([
+            expect.objectContaining({
+                table: 'g5_write_qna',
+                message: expect.stringContaining('접근 실패')
+            })
+        ]);
+        expect(runs[0].status).toBe('partial');
+        expect(checkpoints.has('write:qna')).toBe(false);
+
+        brokenTables.clear();
+        inserted.length = 0;
+        const resumed = await migrateGnuboard(options({ resume: true }));
+
+        expect(resumed.success).toBe(true);
+        expect(inserted).toEqual([10, 11]);
+        expect(runs[0].status).toBe('completed');
+    });
+
+    it('완료된 실행은 resume할 수 없음', async () => {
+        await migrateGnuboard(options());
+        expect(runs[0].status).toBe('completed');
+
+        await expect(migrateGnuboard(options({ resume: true }))).rejects.toThrow(
+            '재개할 수 있는 중단된 마이그레이션이 없습니다.'
+        );
+    });
+});
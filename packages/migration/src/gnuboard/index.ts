@@ -10,9 +10,13 @@
  * 6. 포인트 마이그레이션
  * 7. 첨부파일 마이그레이션 (선택)
  * 8. 검증
+ *
+ * 회원/게시글/포인트는 PK 순서로 배치 처리하며, 배치마다 커서를 체크포인트로 커밋합니다.
+ * (resume: 중단 지점부터 재개, mode 'delta': 직전 완료 실행 이후 새 행만 처리)
  */
 
 import type {
+    MigrationMode,
     MigrationOptions,
     MigrationResult,
     MigrationProgress,
@@ -36,6 +40,17 @@ import {
 } from './schema-mapper.js';
 import { migratePassword } from './password-compat.js';
 import { migrateAttachments, convertContentImagePaths } from './attachment-migrator.js';
+import { verifyGnuboardMigration } from './verifier.js';
+import {
+    clearCheckpoints,
+    createCheckpointScope,
+    ensureCheckpointTables,
+    getLastRun,
+    loadCheckpoints,
+    markRunStatus,
+    saveCheckpoint,
+    startRun
+} from '../checkpoint.js';
 
 /** 배치 크기 */
 const BATCH_SIZE = 500;
@@ -173,6 +188,7 @@ export async function migrateGnuboard(options: MigrationOptions): Promise<Migrat
     const stats = createEmptyStats();
     const errors: MigrationError[] = [];
     const prefix = options.tablePrefix || 'g5_';
+    const scope = createCheckpointScope('gnuboard', options.sourceDb);
 
     const progress = (
         phase: MigrationProgress['phase'],
@@ -205,7 +221,119 @@ export async function migrateGnuboard(options: MigrationOptions): Promise<Migrat
         database: options.targetDb.database
     });
 
+    let mode: MigrationMode = options.mode ?? 'full';
+    let runId: number | undefined;
+    let checkpoints = new Map<string, number>();
+
+    /**
+     * 소스 테이블을 PK 순서로 배치 처리
+     *
+     * 배치의 INSERT와 커서 저장을 한 트랜잭션으로 커밋하므로
+     * 중단 후 재개해도 커밋된 배치는 다시 처리하지 않습니다.
+     *
+     * migrateRow가 false를 반환하면(행 실패, 오류는 errors에 기록됨) 그 앞까지만 커밋하고
+     * 이 테이블 처리를 멈춥니다. 커서가 마지막 성공 행에 머물러 resume 시 실패한 행부터 재시도합니다.
+     * (dry-run은 커서가 없으므로 끝까지 검사)
+     */
+    const migrateInBatches = async (task: {
+        checkpointKey: string;
+        table: string;
+        keyColumn: string;
+        onBatch: () => void;
+        migrateRow: (row: any) => Promise<boolean>;
+    }): Promise<void> => {
+        let cursor = checkpoints.get(task.checkpointKey) ?? 0;
+
+        for (;;) {
+            const [rows] = await sourceConn.query(
+                `SELECT * FROM ${task.table} WHERE ${task.keyColumn} > ? ORDER BY ${task.keyColumn} LIMIT ?`,
+                [cursor, BATCH_SIZE]
+            );
+            const batch = rows as any[];
+            if (batch.length === 0) break;
+
+            task.onBatch();
+
+            if (options.dryRun) {
+                for (const row of batch) {
+                    await task.migrateRow(row);
+                }
+                cursor = Number(batch[batch.length - 1][task.keyColumn]);
+                if (batch.length < BATCH_SIZE) break;
+                continue;
+            }
+
+            let batchCursor = cursor;
+            let failed = false;
+            await targetConn.beginTransaction();
+            try {
+                for (const row of batch) {
+                    if (!(await task.migrateRow(row))) {
+                        failed = true;
+                        break;
+                    }
+                    batchCursor = Number(row[task.keyColumn]);
+                }
+                if (batchCursor !== cursor) {
+                    await saveCheckpoint(targetConn, scope, task.checkpointKey, batchCursor);
+                }
+                await targetConn.commit();
+            } catch (err) {
+                await targetConn.rollback();
+                throw err;
+            }
+
+            cursor = batchCursor;
+            checkpoints.set(task.checkpointKey, cursor);
+            if (failed || batch.length < BATCH_SIZE) break;
+        }
+    };
+
+    /** 커서 이후 남은 행 수 */
+    const countAfterCursor = async (
+        table: string,
+        keyColumn: string,
+        checkpointKey: string,
+        where = ''
+    ): Promise<number> => {
+        const [rows] = await sourceConn.query(
+            `SELECT COUNT(*) as cnt FROM ${table} WHERE ${keyColumn} > ?${where ? ` AND ${where}` : ''}`,
+            [checkpoints.get(checkpointKey) ?? 0]
+        );
+        return Number((rows as any)[0].cnt);
+    };
+
     try {
+        // ─── 0. 실행 기록 / 체크포인트 ───
+        await ensureCheckpointTables(targetConn);
+
+        if (options.resume) {
+            const lastRun = await getLastRun(targetConn, scope);
+            if (!lastRun || lastRun.status === 'completed') {
+                throw new Error('재개할 수 있는 중단된 마이그레이션이 없습니다.');
+            }
+            runId = lastRun.id;
+            mode = lastRun.mode;
+            checkpoints = await loadCheckpoints(targetConn, scope);
+        } else if (mode === 'delta') {
+            if (!(await getLastRun(targetConn, scope, 'completed'))) {
+                throw new Error(
+                    '델타 마이그레이션은 전체 마이그레이션이 한 번 완료된 후에 실행할 수 있습니다.'
+                );
+            }
+            checkpoints = await loadCheckpoints(targetConn, scope);
+        } else if (!options.dryRun) {
+            await clearCheckpoints(targetConn, scope);
+        }
+
+        if (!options.dryRun) {
+            if (runId) {
+                await markRunStatus(targetConn, runId, 'running');
+            } else {
+                runId = await startRun(targetConn, scope, mode);
+            }
+        }
+
         // ─── 1. 게시판 그룹 ───
         progress('board_groups', 0, 1, '게시판 그룹 마이그레이션 중...');
         const [groupRows] = await sourceConn.query(
@@ -287,28 +415,23 @@ export async function migrateGnuboard(options: MigrationOptions): Promise<Migrat
         }
 
         // ─── 3. 회원 ───
-        const [memberCountRows] = await sourceConn.query(
-            `SELECT COUNT(*) as cnt FROM ${prefix}member`
-        );
-        const memberTotal = (memberCountRows as any)[0].cnt;
-        stats.members.total = memberTotal;
-
-        let memberOffset = 0;
-        while (memberOffset < memberTotal) {
-            progress(
-                'members',
-                memberOffset,
-                memberTotal,
-                `회원 마이그레이션 중... (${memberOffset}/${memberTotal})`
-            );
-
-            const [memberRows] = await sourceConn.query(
-                `SELECT * FROM ${prefix}member ORDER BY mb_datetime LIMIT ? OFFSET ?`,
-                [BATCH_SIZE, memberOffset]
-            );
-            const members = memberRows as any[];
-
-            for (const member of members) {
+        const memberTable = `${prefix}member`;
+        stats.members.total = await countAfterCursor(memberTable, 'mb_no', 'members');
+
+        await migrateInBatches({
+            checkpointKey: 'members',
+            table: memberTable,
+            keyColumn: 'mb_no',
+            onBatch: () => {
+                const done = stats.members.migrated + stats.members.skipped;
+                progress(
+                    'members',
+                    done,
+                    stats.members.total,
+                    `회원 마이그레이션 중... (${done}/${stats.members.total})`
+                );
+            },
+            migrateRow: async (member) => {
                 try {
                     const mapped = mapGnuMemberToAngple(member);
                     const pw = options.keepPhpPasswords
@@ -338,176 +461,160 @@ export async function migrateGnuboard(options: MigrationOptions): Promise<Migrat
                         );
                     }
                     stats.members.migrated++;
+                    return true;
                 } catch (err) {
                     stats.members.skipped++;
                     errors.push({
                         phase: 'members',
-                        table: `${prefix}member`,
+                        table: memberTable,
                         row: member.mb_id,
                         message: `회원 ${member.mb_id} 마이그레이션 실패`,
                         detail: err instanceof Error ? err.message : String(err)
                     });
+                    return false;
                 }
             }
-
-            memberOffset += BATCH_SIZE;
-        }
+        });
 
         // ─── 4. 게시글 + 댓글 ───
+        // 게시글과 댓글은 같은 테이블에서 wr_id를 공유하므로 wr_id 순서로 한 번에 처리
+        // (원글이 항상 댓글보다 먼저 기록됨) — 테이블별 커서가 델타 기준(high-water mark)
         for (const board of boards) {
             const writeTable = `${prefix}write_${board.bo_table}`;
+            const checkpointKey = `write:${board.bo_table}`;
             const noticeIds = parseNoticeIds(board.bo_notice);
 
-            try {
-                // 게시글 수 확인
-                const [postCountRows] = await sourceConn.query(
-                    `SELECT COUNT(*) as cnt FROM ${writeTable} WHERE wr_is_comment = 0`
-                );
-                const postTotal = (postCountRows as any)[0].cnt;
-                stats.posts.total += postTotal;
-
-                // 게시글 배치 처리
-                let postOffset = 0;
-                while (postOffset < postTotal) {
-                    progress(
-                        'posts',
-                        stats.posts.migrated,
-                        stats.posts.total,
-                        `[${board.bo_table}] 게시글 마이그레이션 중... (${postOffset}/${postTotal})`
-                    );
+            const migratePost = async (post: any): Promise<boolean> => {
+                try {
+                    const mapped = mapGnuWriteToAngplePost(post, board.bo_table);
+                    mapped.is_notice = noticeIds.includes(post.wr_id);
+
+                    // 본문 내 이미지 경로 변환
+                    if (mapped.wr_content) {
+                        mapped.wr_content = convertContentImagePaths(
+                            mapped.wr_content,
+                            '', // oldBaseUrl (설정에서 가져올 수 있음)
+                            '' // newBaseUrl (상대 경로 사용)
+                        );
+                    }
 
-                    const [postRows] = await sourceConn.query(
-                        `SELECT * FROM ${writeTable} WHERE wr_is_comment = 0 ORDER BY wr_id LIMIT ? OFFSET ?`,
-                        [BATCH_SIZE, postOffset]
-                    );
-                    const posts = postRows as any[];
-
-                    for (const post of posts) {
-                        try {
-                            const mapped = mapGnuWriteToAngplePost(post, board.bo_table);
-                            mapped.is_notice = noticeIds.includes(post.wr_id);
-
-                            // 본문 내 이미지 경로 변환
-                            if (mapped.wr_content) {
-                                mapped.wr_content = convertContentImagePaths(
-                                    mapped.wr_content,
-                                    '', // oldBaseUrl (설정에서 가져올 수 있음)
-                                    '' // newBaseUrl (상대 경로 사용)
-                                );
-                            }
-
-                            if (!options.dryRun) {
-                                await targetConn.query(
-                                    `INSERT INTO post (wr_id, bo_table, wr_subject, wr_content, wr_name, mb_id, wr_datetime, wr_hit, wr_good, wr_nogood, wr_comment, wr_link1, wr_link2, wr_ip, ca_name, is_secret, is_notice, extra_1, extra_2, extra_3, extra_4, extra_5, extra_6, extra_7, extra_8, extra_9, extra_10)
-                                     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-                                     ON DUPLICATE KEY UPDATE wr_subject = VALUES(wr_subject)`,
-                                    [
-                                        mapped.wr_id,
-                                        mapped.bo_table,
-                                        mapped.wr_subject,
-                                        mapped.wr_content,
-                                        mapped.wr_name,
-                                        mapped.mb_id,
-                                        mapped.wr_datetime,
-                                        mapped.wr_hit,
-                                        mapped.wr_good,
-                                        mapped.wr_nogood,
-                                        mapped.wr_comment,
-                                        mapped.wr_link1,
-                                        mapped.wr_link2,
-                                        mapped.wr_ip,
-                                        mapped.ca_name,
-                                        mapped.is_secret,
-                                        mapped.is_notice,
-                                        mapped.extra_1,
-                                        mapped.extra_2,
-                                        mapped.extra_3,
-                                        mapped.extra_4,
-                                        mapped.extra_5,
-                                        mapped.extra_6,
-                                        mapped.extra_7,
-                                        mapped.extra_8,
-                                        mapped.extra_9,
-                                        mapped.extra_10
-                                    ]
-                                );
-                            }
-                            stats.posts.migrated++;
-                        } catch (err) {
-                            stats.posts.skipped++;
-                            errors.push({
-                                phase: 'posts',
-                                table: writeTable,
-                                row: post.wr_id,
-                                message: `게시글 ${board.bo_table}/${post.wr_id} 마이그레이션 실패`,
-                                detail: err instanceof Error ? err.message : String(err)
-                            });
-                        }
+                    if (!options.dryRun) {
+                        await targetConn.query(
+                            `INSERT INTO post (wr_id, bo_table, wr_subject, wr_content, wr_name, mb_id, wr_datetime, wr_hit, wr_good, wr_nogood, wr_comment, wr_link1, wr_link2, wr_ip, ca_name, is_secret, is_notice, extra_1, extra_2, extra_3, extra_4, extra_5, extra_6, extra_7, extra_8, extra_9, extra_10)
+                             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                             ON DUPLICATE KEY UPDATE wr_subject = VALUES(wr_subject)`,
+                            [
+                                mapped.wr_id,
+                                mapped.bo_table,
+                                mapped.wr_subject,
+                                mapped.wr_content,
+                                mapped.wr_name,
+                                mapped.mb_id,
+                                mapped.wr_datetime,
+                                mapped.wr_hit,
+                                mapped.wr_good,
+                                mapped.wr_nogood,
+                                mapped.wr_comment,
+                                mapped.wr_link1,
+                                mapped.wr_link2,
+                                mapped.wr_ip,
+                                mapped.ca_name,
+                                mapped.is_secret,
+                                mapped.is_notice,
+                                mapped.extra_1,
+                                mapped.extra_2,
+                                mapped.extra_3,
+                                mapped.extra_4,
+                                mapped.extra_5,
+                                mapped.extra_6,
+                                mapped.extra_7,
+                                mapped.extra_8,
+                                mapped.extra_9,
+                                mapped.extra_10
+                            ]
+                        );
                     }
+                    stats.posts.migrated++;
+                    return true;
+                } catch (err) {
+                    stats.posts.skipped++;
+                    errors.push({
+                        phase: 'posts',
+                        table: writeTable,
+                        row: post.wr_id,
+                        message: `게시글 ${board.bo_table}/${post.wr_id} 마이그레이션 실패`,
+                        detail: err instanceof Error ? err.message : String(err)
+                    });
+                    return false;
+                }
+            };
 
-                    postOffset += BATCH_SIZE;
+            const migrateComment = async (comment: any): Promise<boolean> => {
+                try {
+                    const mapped = mapGnuWriteToAngpleComment(comment, board.bo_table);
+                    if (!options.dryRun) {
+                        await targetConn.query(
+                            `INSERT INTO comment (wr_id, bo_table, wr_parent, wr_content, wr_name, mb_id, wr_datetime, wr_ip, wr_good, wr_nogood, is_secret)
+                             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                             ON DUPLICATE KEY UPDATE wr_content = VALUES(wr_content)`,
+                            [
+                                mapped.wr_id,
+                                mapped.bo_table,
+                                mapped.wr_parent,
+                                mapped.wr_content,
+                                mapped.wr_name,
+                                mapped.mb_id,
+                                mapped.wr_datetime,
+                                mapped.wr_ip,
+                                mapped.wr_good,
+                                mapped.wr_nogood,
+                                mapped.is_secret
+                            ]
+                        );
+                    }
+                    stats.comments.migrated++;
+                    return true;
+                } catch (err) {
+                    stats.comments.skipped++;
+                    errors.push({
+                        phase: 'comments',
+                        table: writeTable,
+                        row: comment.wr_id,
+                        message: `댓글 ${board.bo_table}/${comment.wr_id} 마이그레이션 실패`,
+                        detail: err instanceof Error ? err.message : String(err)
+                    });
+                    return false;
                 }
+            };
 
-                // 댓글 배치 처리
-                const [commentCountRows] = await sourceConn.query(
-                    `SELECT COUNT(*) as cnt FROM ${writeTable} WHERE wr_is_comment = 1`
+            try {
+                stats.posts.total += await countAfterCursor(
+                    writeTable,
+                    'wr_id',
+                    checkpointKey,
+                    'wr_is_comment = 0'
+                );
+                stats.comments.total += await countAfterCursor(
+                    writeTable,
+                    'wr_id',
+                    checkpointKey,
+                    'wr_is_comment = 1'
                 );
-                const commentTotal = (commentCountRows as any)[0].cnt;
-                stats.comments.total += commentTotal;
-
-                let commentOffset = 0;
-                while (commentOffset < commentTotal) {
-                    progress(
-                        'comments',
-                        stats.comments.migrated,
-                        stats.comments.total,
-                        `[${board.bo_table}] 댓글 마이그레이션 중...`
-                    );
-
-                    const [commentRows] = await sourceConn.query(
-                        `SELECT * FROM ${writeTable} WHERE wr_is_comment = 1 ORDER BY wr_id LIMIT ? OFFSET ?`,
-                        [BATCH_SIZE, commentOffset]
-                    );
-                    const comments = commentRows as any[];
-
-                    for (const comment of comments) {
-                        try {
-                            const mapped = mapGnuWriteToAngpleComment(comment, board.bo_table);
-                            if (!options.dryRun) {
-                                await targetConn.query(
-                                    `INSERT INTO comment (wr_id, bo_table, wr_parent, wr_content, wr_name, mb_id, wr_datetime, wr_ip, wr_good, wr_nogood, is_secret)
-                                     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-                                     ON DUPLICATE KEY UPDATE wr_content = VALUES(wr_content)`,
-                                    [
-                                        mapped.wr_id,
-                                        mapped.bo_table,
-                                        mapped.wr_parent,
-                                        mapped.wr_content,
-                                        mapped.wr_name,
-                                        mapped.mb_id,
-                                        mapped.wr_datetime,
-                                        mapped.wr_ip,
-                                        mapped.wr_good,
-                                        mapped.wr_nogood,
-                                        mapped.is_secret
-                                    ]
-                                );
-                            }
-                            stats.comments.migrated++;
-                        } catch (err) {
-                            stats.comments.skipped++;
-                            errors.push({
-                                phase: 'comments',
-                                table: writeTable,
-                                row: comment.wr_id,
-                                message: `댓글 ${board.bo_table}/${comment.wr_id} 마이그레이션 실패`,
-                                detail: err instanceof Error ? err.message : String(err)
-                            });
-                        }
-                    }
 
-                    commentOffset += BATCH_SIZE;
-                }
+                await migrateInBatches({
+                    checkpointKey,
+                    table: writeTable,
+                    keyColumn: 'wr_id',
+                    onBatch: () =>
+                        progress(
+                            'posts',
+                            stats.posts.migrated + stats.comments.migrated,
+                            stats.posts.total + stats.comments.total,
+                            `[${board.bo_table}] 게시글/댓글 마이그레이션 중...`
+                        ),
+                    migrateRow: (row) =>
+                        row.wr_is_comment ? migrateComment(row) : migratePost(row)
+                });
             } catch (err) {
                 errors.push({
                     phase: 'posts',
@@ -520,28 +627,23 @@ export async function migrateGnuboard(options: MigrationOptions): Promise<Migrat
 
         // ─── 5. 포인트 ───
         progress('points', 0, 1, '포인트 마이그레이션 중...');
-        const [pointCountRows] = await sourceConn.query(
-            `SELECT COUNT(*) as cnt FROM ${prefix}point`
-        );
-        const pointTotal = (pointCountRows as any)[0].cnt;
-        stats.points.total = pointTotal;
-
-        let pointOffset = 0;
-        while (pointOffset < pointTotal) {
-            progress(
-                'points',
-                pointOffset,
-                pointTotal,
-                `포인트 마이그레이션 중... (${pointOffset}/${pointTotal})`
-            );
-
-            const [pointRows] = await sourceConn.query(
-                `SELECT * FROM ${prefix}point ORDER BY po_id LIMIT ? OFFSET ?`,
-                [BATCH_SIZE, pointOffset]
-            );
-            const points = pointRows as any[];
-
-            for (const point of points) {
+        const pointTable = `${prefix}point`;
+        stats.points.total = await countAfterCursor(pointTable, 'po_id', 'points');
+
+        await migrateInBatches({
+            checkpointKey: 'points',
+            table: pointTable,
+            keyColumn: 'po_id',
+            onBatch: () => {
+                const done = stats.points.migrated + stats.points.skipped;
+                progress(
+                    'points',
+                    done,
+                    stats.points.total,
+                    `포인트 마이그레이션 중... (${done}/${stats.points.total})`
+                );
+            },
+            migrateRow: async (point) => {
                 try {
                     const mapped = mapGnuPointToAngple(point);
                     if (!options.dryRun) {
@@ -563,13 +665,20 @@ export async function migrateGnuboard(options: MigrationOptions): Promise<Migrat
                         );
                     }
                     stats.points.migrated++;
+                    return true;
                 } catch (err) {
                     stats.points.skipped++;
+                    errors.push({
+                        phase: 'points',
+                        table: pointTable,
+                        row: point.po_id,
+                        message: `포인트 ${point.po_id} 마이그레이션 실패`,
+                        detail: err instanceof Error ? err.message : String(err)
+                    });
+                    return false;
                 }
             }
-
-            pointOffset += BATCH_SIZE;
-        }
+        });
 
         // ─── 6. 첨부파일 ───
         if (
@@ -599,19 +708,52 @@ export async function migrateGnuboard(options: MigrationOptions): Promise<Migrat
 
         // ─── 7. 검증 ───
         progress('verifying', 0, 1, '마이그레이션 결과 검증 중...');
-
-        progress('done', 1, 1, '마이그레이션 완료!');
+        const verification =
+            options.verify && !options.dryRun
+                ? await verifyGnuboardMigration({
+                      sourceDb: options.sourceDb,
+                      targetDb: options.targetDb,
+                      tablePrefix: prefix,
+                      boardFilter: options.boardFilter,
+                      attachmentTargetPath: options.migrateAttachments
+                          ? options.attachmentTargetPath
+                          : undefined,
+                      onProgress: options.onProgress
+                  })
+                : undefined;
+
+        // 실패한 행/게시판이 있으면 partial로 남겨 resume 대상이 되게 함
+        if (runId) {
+            await markRunStatus(targetConn, runId, errors.length > 0 ? 'partial' : 'completed');
+        }
+        progress(
+            'done',
+            1,
+            1,
+            errors.length > 0
+                ? `마이그레이션 완료 (실패 ${errors.length}건, resume으로 재시도 가능)`
+                : '마이그레이션 완료!'
+        );
 
         const completedAt = new Date();
         return {
             success: errors.length === 0,
             source: 'gnuboard',
+            mode,
+            runId,
             startedAt,
             completedAt,
             duration: completedAt.getTime() - startedAt.getTime(),
             stats,
-            errors
+            errors,
+            verification
         };
+    } catch (err) {
+        // 커밋된 배치의 커서는 남아 있으므로 resume으로 이어서 실행 가능
+        if (runId) {
+            await markRunStatus(targetConn, runId, 'failed').catch(() => {});
+        }
+        throw err;
     } finally {
         await sourceConn.end();
         await targetConn.end();
@@ -12,6 +12,7 @@
 
 /** 그누보드 회원 (g5_member) */
 export interface GnuMember {
+    mb_no: number;
     mb_id: string;
     mb_password: string;
     mb_name: string;
@@ -0,0 +1,549 @@
+/**
+ * 그누보드 → Angple 마이그레이션 검증
+ *
+ * 소스/대상 행을 표본 또는 전체 비교하여 행 단위 불일치를 보고합니다.
+ * - 회원: 존재 여부, 닉네임, 이메일, 가입일
+ * - 게시글/댓글: 존재 여부, 제목·본문 체크섬, 작성자 매핑, 작성일 (댓글은 원글 번호 포함)
+ * - 포인트: 회원·일시·관련 항목이 같은 대상 행의 존재 및 포인트 값
+ * - 첨부파일: 대상 경로({bo_table}/{bf_file})의 파일 존재 및 크기
+ */
+
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Connection } from 'mysql2/promise';
+import type {
+    TableVerification,
+    VerificationMismatch,
+    VerificationOptions,
+    VerificationReport,
+    VerificationTable
+} from '../types.js';
+import { convertContentImagePaths } from './attachment-migrator.js';
+import type { GnuBoard } from './schema-mapper.js';
+
+const BATCH_SIZE = 500;
+const DEFAULT_SAMPLE_SIZE = 1000;
+const DEFAULT_MAX_MISMATCHES = 10_000;
+
+/** 표본 모드에서 한 번에 읽는 연속 구간 크기 */
+const SAMPLE_WINDOW = 50;
+
+/** 보고서에 그대로 싣는 값의 최대 길이 */
+const MAX_VALUE_LENGTH = 200;
+
+/** 한 행의 필드 불일치 */
+type FieldDiff = Pick<VerificationMismatch, 'field' | 'expected' | 'actual'>;
+
+/**
+ * 문자열 정규화 체크섬 (null/undefined는 빈 문자열로 취급)
+ */
+export function checksum(value: unknown): string {
+    return createHash('md5')
+        .update(String(value ?? ''))
+        .digest('hex');
+}
+
+function text(value: unknown): string {
+    return String(value ?? '');
+}
+
+function truncate(value: unknown): string {
+    const str = text(value);
+    return str.length > MAX_VALUE_LENGTH ? `${str.slice(0, MAX_VALUE_LENGTH)}…` : str;
+}
+
+/**
+ * 소스 행 순회
+ *
+ * - 전체(sampleSize 0 또는 행 수 ≤ sampleSize): PK 순 배치
+ * - 표본: 키 범위에서 무작위 시작점을 골라 SAMPLE_WINDOW개씩 연속 구간을 읽음
+ *   (ORDER BY RAND()는 대용량 테이블에서 전체 스캔이 발생하므로 사용하지 않음)
+ *
+ * keyColumns가 2개면 (첫 키, 둘째 키) 복합 순서로 순회합니다.
+ */
+async function* readSourceRows(
+    conn: Connection,
+    table: string,
+    keyColumns: string[],
+    where: { clause: string; params: unknown[] },
+    sampleSize: number
+): AsyncGenerator<any[]> {
+    const [primary] = keyColumns;
+    const filter = where.clause ? ` AND ${where.clause}` : '';
+    const orderBy = keyColumns.join(', ');
+
+    const [statRows] = await conn.query(
+        `SELECT COUNT(*) as cnt, MIN(${primary}) as minKey, MAX(${primary}) as maxKey FROM ${table} WHERE 1 = 1${filter}`,
+        where.params
+    );
+    const { cnt, minKey, maxKey } = (statRows as any)[0];
+    const count = Number(cnt);
+    if (count === 0) return;
+
+    if (sampleSize === 0 || count <= sampleSize) {
+        let cursor: unknown[] = keyColumns.map(() => -1);
+        for (;;) {
+            const keyCondition =
+                keyColumns.length > 1
+                    ? `(${keyColumns.join(', ')}) > (${keyColumns.map(() => '?').join(', ')})`
+                    : `${primary} > ?`;
+            const [rows] = await conn.query(
+                `SELECT * FROM ${table} WHERE ${keyCondition}${filter} ORDER BY ${orderBy} LIMIT ?`,
+                [...cursor, ...where.params, BATCH_SIZE]
+            );
+            const batch = rows as any[];
+            if (batch.length === 0) return;
+            yield batch;
+            if (batch.length < BATCH_SIZE) return;
+            const last = batch[batch.length - 1];
+            cursor = keyColumns.map((column) => last[column]);
+        }
+    }
+
+    const min = Number(minKey);
+    const max = Number(maxKey);
+    const windows = Math.ceil(sampleSize / SAMPLE_WINDOW);
+    const starts = Array.from({ length: windows }, () =>
+        Math.floor(min + Math.random() * (max - min + 1))
+    ).sort((a, b) => a - b);
+
+    const seen = new Set<string>();
+    let yielded = 0;
+    for (const start of starts) {
+        const [rows] = await conn.query(
+            `SELECT * FROM ${table} WHERE ${primary} >= ?${filter} ORDER BY ${orderBy} LIMIT ?`,
+            [start, ...where.params, SAMPLE_WINDOW]
+        );
+        const batch = (rows as any[]).filter((row) => {
+            const key = keyColumns.map((column) => row[column]).join('/');
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+        if (batch.length === 0) continue;
+
+        yield batch.slice(0, sampleSize - yielded);
+        yielded += batch.length;
+        if (yielded >= sampleSize) return;
+    }
+}
+
+/**
+ * 그누보드 마이그레이션 검증 실행
+ */
+export async function verifyGnuboardMigration(
+    options: VerificationOptions
+): Promise<VerificationReport> {
+    const startedAt = new Date();
+    const prefix = options.tablePrefix || 'g5_';
+    const sampleSize = Math.max(0, options.sampleSize ?? DEFAULT_SAMPLE_SIZE);
+    const maxMismatches = options.maxMismatches ?? DEFAULT_MAX_MISMATCHES;
+
+    const tables: TableVerification[] = [];
+    const mismatches: VerificationMismatch[] = [];
+    let truncated = 0;
+
+    const progress = (message: string) => {
+        options.onProgress?.({
+            phase: 'verifying',
+            current: tables.length,
+            total: 5,
+            message,
+            percent: Math.round((tables.length / 5) * 100),
+            errors: []
+        });
+    };
+
+    const mysql = await import('mysql2/promise');
+    // 날짜를 문자열 그대로 비교하기 위해 dateStrings 사용
+    const sourceConn = await mysql.createConnection({
+        host: options.sourceDb.host,
+        port: options.sourceDb.port,
+        user: options.sourceDb.user,
+        password: options.sourceDb.password,
+        database: options.sourceDb.database,
+        dateStrings: true
+    });
+    const targetConn = await mysql.createConnection({
+        host: options.targetDb.host,
+        port: options.targetDb.port,
+        user: options.targetDb.user,
+        password: options.targetDb.password,
+        database: options.targetDb.database,
+        dateStrings: true
+    });
+
+    /** 테이블 요약 생성 (이미 있으면 재사용 — 게시판별 write 테이블을 합산) */
+    const summaryFor = (table: VerificationTable, sourceTable: string): TableVerification => {
+        let summary = tables.find((t) => t.table === table);
+        if (!summary) {
+            summary = { table, sourceTable, checked: 0, matched: 0, mismatched: 0, missing: 0 };
+            tables.push(summary);
+        }
+        return summary;
+    };
+
+    /**
+     * 한 행의 비교 결과 기록
+     *
+     * @param diffs 불일치 필드 목록 (null이면 대상 행 없음)
+     */
+    const record = (
+        summary: TableVerification,
+        sourceTable: string,
+        sourceId: string,
+        diffs: FieldDiff[] | null
+    ) => {
+        summary.checked++;
+        if (diffs === null) {
+            summary.missing++;
+            diffs = [{ field: 'missing' }];
+        } else if (diffs.length === 0) {
+            summary.matched++;
+            return;
+        } else {
+            summary.mismatched++;
+        }
+
+        for (const diff of diffs) {
+            if (mismatches.length >= maxMismatches) {
+                truncated++;
+                continue;
+            }
+            mismatches.push({ table: summary.table, sourceTable, sourceId, ...diff });
+        }
+    };
+
+    try {
+        // ─── 회원 ───
+        progress('회원 검증 중...');
+        const memberTable = `${prefix}member`;
+        const members = summaryFor('members', memberTable);
+        for await (const batch of readSourceRows(
+            sourceConn,
+            memberTable,
+            ['mb_no'],
+            { clause: '', params: [] },
+            sampleSize
+        )) {
+            const [rows] = await targetConn.query(
+                `SELECT mb_id, mb_nick, mb_email, mb_datetime FROM member WHERE mb_id IN (?)`,
+                [batch.map((m) => m.mb_id)]
+            );
+            const targets = new Map((rows as any[]).map((row) => [row.mb_id, row]));
+
+            for (const member of batch) {
+                const target = targets.get(member.mb_id);
+                if (!target) {
+                    record(members, memberTable, member.mb_id, null);
+                    continue;
+                }
+                const diffs: FieldDiff[] = [];
+                if (text(member.mb_nick) !== text(target.mb_nick)) {
+                    diffs.push({ field: 'nick', expected: member.mb_nick, actual: target.mb_nick });
+                }
+                if (text(member.mb_email) !== text(target.mb_email)) {
+                    diffs.push({
+                        field: 'email',
+                        expected: member.mb_email,
+                        actual: target.mb_email
+                    });
+                }
+                if (text(member.mb_datetime) !== text(target.mb_datetime)) {
+                    diffs.push({
+                        field: 'datetime',
+                        expected: member.mb_datetime,
+                        actual: text(target.mb_datetime)
+                    });
+                }
+                record(members, memberTable, member.mb_id, diffs);
+            }
+        }
+
+        // ─── 게시글 + 댓글 ───
+        const [boardRows] = await sourceConn.query(
+            `SELECT bo_table, bo_notice FROM ${prefix}board ORDER BY bo_order`
+        );
+        let boards = boardRows as Pick<GnuBoard, 'bo_table' | 'bo_notice'>[];
+        if (options.boardFilter && options.boardFilter.length > 0) {
+            boards = boards.filter((b) => options.boardFilter!.includes(b.bo_table));
+        }
+
+        const posts = summaryFor('posts', `${prefix}write_*`);
+        const comments = summaryFor('comments', `${prefix}write_*`);
+
+        for (const board of boards) {
+            const writeTable = `${prefix}write_${board.bo_table}`;
+            progress(`[${board.bo_table}] 게시글/댓글 검증 중...`);
+
+            // 게시글
+            for await (const batch of readSourceRows(
+                sourceConn,
+                writeTable,
+                ['wr_id'],
+                { clause: 'wr_is_comment = 0', params: [] },
+                sampleSize
+            )) {
+                const [rows] = await targetConn.query(
+                    `SELECT wr_id, wr_subject, wr_content, mb_id, wr_name, wr_datetime FROM post WHERE bo_table = ? AND wr_id IN (?)`,
+                    [board.bo_table, batch.map((p) => p.wr_id)]
+                );
+                const targets = new Map((rows as any[]).map((row) => [Number(row.wr_id), row]));
+
+                for (const post of batch) {
+                    const sourceId = `${board.bo_table}/${post.wr_id}`;
+                    const target = targets.get(Number(post.wr_id));
+                    if (!target) {
+                        record(posts, writeTable, sourceId, null);
+                        continue;
+                    }
+
+                    const diffs: FieldDiff[] = [];
+                    if (checksum(post.wr_subject) !== checksum(target.wr_subject)) {
+                        diffs.push({
+                            field: 'subject',
+                            expected: truncate(post.wr_subject),
+                            actual: truncate(target.wr_subject)
+                        });
+                    }
+                    // 마이그레이션 시 본문 이미지 경로가 변환되므로 변환 결과와 비교
+                    const expectedContent = post.wr_content
+                        ? convertContentImagePaths(post.wr_content, '', '')
+                        : post.wr_content;
+                    if (checksum(expectedContent) !== checksum(target.wr_content)) {
+                        diffs.push({
+                            field: 'content',
+                            expected: `md5:${checksum(expectedContent)}`,
+                            actual: `md5:${checksum(target.wr_content)}`
+                        });
+                    }
+                    const expectedAuthor = `${text(post.mb_id)}/${text(post.wr_name)}`;
+                    const actualAuthor = `${text(target.mb_id)}/${text(target.wr_name)}`;
+                    if (expectedAuthor !== actualAuthor) {
+                        diffs.push({
+                            field: 'author',
+                            expected: expectedAuthor,
+                            actual: actualAuthor
+                        });
+                    }
+                    if (text(post.wr_datetime) !== text(target.wr_datetime)) {
+                        diffs.push({
+                            field: 'datetime',
+                            expected: post.wr_datetime,
+                            actual: text(target.wr_datetime)
+                        });
+                    }
+                    record(posts, writeTable, sourceId, diffs);
+                }
+            }
+
+            // 댓글
+            for await (const batch of readSourceRows(
+                sourceConn,
+                writeTable,
+                ['wr_id'],
+                { clause: 'wr_is_comment = 1', params: [] },
+                sampleSize
+            )) {
+                const [rows] = await targetConn.query(
+                    `SELECT wr_id, wr_parent, wr_content, mb_id, wr_name, wr_datetime FROM comment WHERE bo_table = ? AND wr_id IN (?)`,
+                    [board.bo_table, batch.map((c) => c.wr_id)]
+                );
+                const targets = new Map((rows as any[]).map((row) => [Number(row.wr_id), row]));
+
+                for (const comment of batch) {
+                    const sourceId = `${board.bo_table}/${comment.wr_id}`;
+                    const target = targets.get(Number(comment.wr_id));
+                    if (!target) {
+                        record(comments, writeTable, sourceId, null);
+                        continue;
+                    }
+
+                    const diffs: FieldDiff[] = [];
+                    if (checksum(comment.wr_content) !== checksum(target.wr_content)) {
+                        diffs.push({
+                            field: 'content',
+                            expected: `md5:${checksum(comment.wr_content)}`,
+                            actual: `md5:${checksum(target.wr_content)}`
+                        });
+                    }
+                    if (Number(comment.wr_parent) !== Number(target.wr_parent)) {
+                        diffs.push({
+                            field: 'parent',
+                            expected: text(comment.wr_parent),
+                            actual: text(target.wr_parent)
+                        });
+                    }
+                    const expectedAuthor = `${text(comment.mb_id)}/${text(comment.wr_name)}`;
+                    const actualAuthor = `${text(target.mb_id)}/${text(target.wr_name)}`;
+                    if (expectedAuthor !== actualAuthor) {
+                        diffs.push({
+                            field: 'author',
+                            expected: expectedAuthor,
+                            actual: actualAuthor
+                        });
+                    }
+                    if (text(comment.wr_datetime) !== text(target.wr_datetime)) {
+                        diffs.push({
+                            field: 'datetime',
+                            expected: comment.wr_datetime,
+                            actual: text(target.wr_datetime)
+                        });
+                    }
+                    record(comments, writeTable, sourceId, diffs);
+                }
+            }
+        }
+
+        // ─── 포인트 ───
+        // 대상 point 테이블에는 po_id가 없으므로 (회원, 일시, 관련 항목) 조합으로 대응 행을 찾음
+        progress('포인트 검증 중...');
+        const pointTable = `${prefix}point`;
+        const points = summaryFor('points', pointTable);
+        const pointKey = (
+            mbId: unknown,
+            datetime: unknown,
+            relTable: unknown,
+            relId: unknown,
+            relAction: unknown
+        ) => [mbId, datetime, relTable, relId, relAction].map(text).join('|');
+
+        for await (const batch of readSourceRows(
+            sourceConn,
+            pointTable,
+            ['po_id'],
+            { clause: '', params: [] },
+            sampleSize
+        )) {
+            const datetimes = batch.map((p) => text(p.po_datetime)).sort();
+            const [rows] = await targetConn.query(
+                `SELECT mb_id, point, datetime, rel_table, rel_id, rel_action FROM point
+                 WHERE mb_id IN (?) AND datetime BETWEEN ? AND ?`,
+                [batch.map((p) => p.mb_id), datetimes[0], datetimes[datetimes.length - 1]]
+            );
+            const candidates = new Map<string, number[]>();
+            for (const row of rows as any[]) {
+                const key = pointKey(
+                    row.mb_id,
+                    row.datetime,
+                    row.rel_table,
+                    row.rel_id,
+                    row.rel_action
+                );
+                candidates.set(key, [...(candidates.get(key) ?? []), Number(row.point)]);
+            }
+
+            for (const point of batch) {
+                const sourceId = String(point.po_id);
+                const values = candidates.get(
+                    pointKey(
+                        point.mb_id,
+                        point.po_datetime,
+                        point.po_rel_table,
+                        point.po_rel_id,
+                        point.po_rel_action
+                    )
+                );
+                if (!values || values.length === 0) {
+                    record(points, pointTable, sourceId, null);
+                    continue;
+                }
+
+                // 같은 조합의 행이 여러 개일 수 있으므로 대응된 값은 소비
+                const index = values.indexOf(Number(point.po_point));
+                if (index >= 0) {
+                    values.splice(index, 1);
+                    record(points, pointTable, sourceId, []);
+                } else {
+                    record(points, pointTable, sourceId, [
+                        {
+                            field: 'point',
+                            expected: text(point.po_point),
+                            actual: text(values.shift())
+                        }
+                    ]);
+                }
+            }
+        }
+
+        // ─── 첨부파일 ───
+        if (options.attachmentTargetPath && boards.length > 0) {
+            progress('첨부파일 검증 중...');
+            const fileTable = `${prefix}board_file`;
+            const attachments = summaryFor('attachments', fileTable);
+
+            for (const board of boards) {
+                for await (const batch of readSourceRows(
+                    sourceConn,
+                    fileTable,
+                    ['wr_id', 'bf_no'],
+                    { clause: `bo_table = ? AND bf_file <> ''`, params: [board.bo_table] },
+                    sampleSize
+                )) {
+                    for (const file of batch) {
+                        const sourceId = `${board.bo_table}/${file.wr_id}/${file.bf_no}`;
+                        const filePath = path.join(
+                            options.attachmentTargetPath,
+                            board.bo_table,
+                            path.basename(file.bf_file)
+                        );
+
+                        let size: number;
+                        try {
+                            size = fs.statSync(filePath).size;
+                        } catch {
+                            record(attachments, fileTable, sourceId, null);
+                            continue;
+                        }
+
+                        record(
+                            attachments,
+                            fileTable,
+                            sourceId,
+                            Number(file.bf_filesize) > 0 && Number(file.bf_filesize) !== size
+                                ? [
+                                      {
+                                          field: 'file_size',
+                                          expected: text(file.bf_filesize),
+                                          actual: String(size)
+                                      }
+                                  ]
+                                : []
+                        );
+                    }
+                }
+            }
+        }
+
+        return {
+            source: 'gnuboard',
+            mode: sampleSize === 0 ? 'full' : 'sample',
+            sampleSize,
+            startedAt,
+            completedAt: new Date(),
+            tables,
+            mismatches,
+            truncated
+        };
+    } finally {
+        await sourceConn.end();
+        await targetConn.end();
+    }
+}
+
+function csvCell(value: unknown): string {
+    const str = text(value);
+    return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/**
+ * 검증 보고서 → CSV (불일치 행 목록)
+ */
+export function verificationReportToCsv(report: VerificationReport): string {
+    const header = ['table', 'source_table', 'source_id', 'field', 'expected', 'actual'];
+    const lines = report.mismatches.map((m) =>
+        [m.table, m.sourceTable, m.sourceId, m.field, m.expected, m.actual].map(csvCell).join(',')
+    );
+    return [header.join(','), ...lines].join('\r\n') + '\r\n';
+}
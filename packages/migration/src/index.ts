@@ -1,11 +1,14 @@
 /**
  * @angple/migration
  *
- * 그누보드5 / 라이믹스(XE) → Angple 마이그레이션 도구
+ * 그누보드5 / 라이믹스(XE) / XE1 / WordPress → Angple 마이그레이션 도구
  */
 
 export { analyzeGnuboard, migrateGnuboard } from './gnuboard/index.js';
+export { verifyGnuboardMigration, verificationReportToCsv } from './gnuboard/verifier.js';
 export { analyzeRhymix, migrateRhymix } from './rhymix/index.js';
+export { analyzeXe1, migrateXe1 } from './xe1/index.js';
+export { analyzeWordpress, migrateWordpress } from './wordpress/index.js';
 export {
     migratePassword,
     detectHashType,
@@ -17,13 +20,22 @@ export type {
     MigrationSource,
     DatabaseConfig,
     MigrationOptions,
+    WxrMigrationOptions,
+    MigrationMode,
+    MigrationRun,
     MigrationResult,
     MigrationProgress,
     MigrationPhase,
     MigrationAnalysis,
     MigrationStats,
     MigrationError,
-    TableAnalysis
+    TableAnalysis,
+    VerificationOptions,
+    VerificationReport,
+    VerificationMismatch,
+    VerificationTable,
+    VerificationField,
+    TableVerification
 } from './types.js';
 
 export { createEmptyStats } from './types.js';
@@ -467,6 +467,7 @@ export async function migrateRhymix(options: MigrationOptions): Promise<Migratio
         return {
             success: errors.length === 0,
             source: 'rhymix',
+            mode: 'full',
             startedAt,
             completedAt,
             duration: completedAt.getTime() - startedAt.getTime(),
@@ -3,7 +3,7 @@
  */
 
 /** 지원하는 마이그레이션 소스 */
-export type MigrationSource = 'gnuboard' | 'rhymix';
+export type MigrationSource = 'gnuboard' | 'rhymix' | 'xe1' | 'wordpress';
 
 /** DB 연결 설정 */
 export interface DatabaseConfig {
@@ -75,7 +75,7 @@ export interface MigrationOptions {
     sourceDb: DatabaseConfig;
     /** 대상 DB 연결 설정 (Angple) */
     targetDb: DatabaseConfig;
-    /** 테이블 접두사 (그누보드: g5_, 라이믹스: xe_) */
+    /** 테이블 접두사 (그누보드: g5_, 라이믹스/XE1: xe_) */
     tablePrefix: string;
     /** 게시판 필터 (비워두면 전체) */
     boardFilter?: string[];
@@ -89,19 +89,54 @@ export interface MigrationOptions {
     keepPhpPasswords: boolean;
     /** dry-run 모드 (실제 쓰기 없이 시뮬레이션) */
     dryRun: boolean;
+    /**
+     * 실행 모드 (기본: full)
+     * - full: 처음부터 전체 마이그레이션 (기존 체크포인트 초기화)
+     * - delta: 직전 완료 실행 이후 새로 생긴 행만 마이그레이션 (전환 기간 동기화용)
+     */
+    mode?: MigrationMode;
+    /** 중단되었거나 일부 행이 실패한(partial) 직전 실행을 마지막 성공 행 다음부터 재개 */
+    resume?: boolean;
+    /** 완료 후 표본 검증 실행 (결과는 MigrationResult.verification) */
+    verify?: boolean;
     /** 진행 콜백 */
     onProgress?: (progress: MigrationProgress) => void;
 }
 
+/** WordPress 마이그레이션 옵션 (소스 DB 대신 WXR 내보내기 파일 사용) */
+export interface WxrMigrationOptions
+    extends Omit<MigrationOptions, 'sourceDb' | 'tablePrefix' | 'mode' | 'resume' | 'verify'> {
+    /** WXR(XML) 파일 경로 */
+    sourceFile: string;
+}
+
+/** 마이그레이션 실행 모드 */
+export type MigrationMode = 'full' | 'delta';
+
+/** 마이그레이션 실행 기록 (대상 DB angple_migration_run) */
+export interface MigrationRun {
+    id: number;
+    mode: MigrationMode;
+    /** partial: 끝까지 실행했지만 실패한 행이 있음 (resume으로 실패 지점부터 재시도) */
+    status: 'running' | 'completed' | 'partial' | 'failed';
+    startedAt: Date;
+    completedAt: Date | null;
+}
+
 /** 마이그레이션 최종 결과 */
 export interface MigrationResult {
     success: boolean;
     source: MigrationSource;
+    mode: MigrationMode;
+    /** 실행 기록 ID (dry-run이면 없음) */
+    runId?: number;
     startedAt: Date;
     completedAt: Date;
     duration: number;
     stats: MigrationStats;
     errors: MigrationError[];
+    /** 검증 보고서 (verify 옵션 사용 시) */
+    verification?: VerificationReport;
 }
 
 /** 마이그레이션 통계 */
@@ -128,3 +163,68 @@ export function createEmptyStats(): MigrationStats {
         attachments: { ...zero }
     };
 }
+
+/** 검증 대상 */
+export type VerificationTable = 'members' | 'posts' | 'comments' | 'points' | 'attachments';
+
+/** 불일치 항목 */
+export type VerificationField =
+    | 'missing'
+    | 'subject'
+    | 'content'
+    | 'author'
+    | 'nick'
+    | 'email'
+    | 'parent'
+    | 'datetime'
+    | 'point'
+    | 'file_size';
+
+/** 검증 옵션 */
+export interface VerificationOptions {
+    sourceDb: DatabaseConfig;
+    targetDb: DatabaseConfig;
+    tablePrefix: string;
+    boardFilter?: string[];
+    /** 소스 테이블당 검사할 행 수 (0이면 전체 비교, 기본 1000) */
+    sampleSize?: number;
+    /** 보고서에 담을 최대 불일치 건수 (집계는 전체 기준, 기본 10000) */
+    maxMismatches?: number;
+    /** 첨부파일 대상 경로 (지정 시 파일 존재/크기 검사) */
+    attachmentTargetPath?: string;
+    onProgress?: (progress: MigrationProgress) => void;
+}
+
+/** 테이블별 검증 요약 */
+export interface TableVerification {
+    table: VerificationTable;
+    sourceTable: string;
+    checked: number;
+    matched: number;
+    mismatched: number;
+    missing: number;
+}
+
+/** 행 단위 불일치 */
+export interface VerificationMismatch {
+    table: VerificationTable;
+    sourceTable: string;
+    /** 소스 PK (게시글/댓글: bo_table/wr_id, 첨부: bo_table/wr_id/bf_no) */
+    sourceId: string;
+    field: VerificationField;
+    expected?: string;
+    actual?: string;
+}
+
+/** 검증 보고서 */
+export interface VerificationReport {
+    source: MigrationSource;
+    mode: 'sample' | 'full';
+    sampleSize: number;
+    startedAt: Date;
+    completedAt: Date;
+    tables: TableVerification[];
+    mismatches: VerificationMismatch[];
+    /** maxMismatches 초과로 보고서에서 생략된 불일치 수 */
+    truncated: number;
+}
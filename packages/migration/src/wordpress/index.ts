@@ -0,0 +1,432 @@
+/**
+ * WordPress(WXR) → Angple 마이그레이션 오케스트레이터
+ *
+ * WXR 파일을 한 번만 스트리밍하며 순서대로 처리합니다.
+ * WXR은 작성자 → 카테고리/태그 → 항목 순으로 기록되므로 단일 패스로 충분합니다.
+ * 1. 작성자(wp:author) → 회원
+ * 2. 카테고리(wp:category) 수집 → 첫 항목 직전에 게시판 생성
+ * 3. 항목(item) → 게시글 + 댓글
+ *
+ * 전체 건수를 미리 알 수 없으므로 진행률은 읽은 바이트 기준입니다.
+ */
+
+import type {
+    MigrationResult,
+    MigrationProgress,
+    MigrationAnalysis,
+    MigrationError,
+    TableAnalysis,
+    WxrMigrationOptions
+} from '../types.js';
+import { createEmptyStats } from '../types.js';
+import { readWxrEntries } from './wxr-parser.js';
+import {
+    WXR_POST_TYPE_BOARDS,
+    parseWxrAuthor,
+    parseWxrCategory,
+    parseWxrItem,
+    isMigratableWxrItem,
+    isMigratableWxrComment,
+    mapWxrAuthorToAngple,
+    mapWxrBoardToAngple,
+    mapWxrItemToAngple,
+    mapWxrCommentToAngple
+} from './schema-mapper.js';
+
+/**
+ * WXR 파일 사전 분석
+ */
+export async function analyzeWordpress(filePath: string): Promise<MigrationAnalysis> {
+    const warnings: string[] = [];
+    const counts = {
+        authors: 0,
+        categories: 0,
+        tags: 0,
+        posts: 0,
+        pages: 0,
+        comments: 0,
+        attachments: 0,
+        skippedItems: 0,
+        skippedComments: 0
+    };
+    let version: string | undefined;
+
+    for await (const { node } of readWxrEntries(filePath)) {
+        switch (node.name) {
+            case 'wp:wxr_version':
+                version = `WXR ${node.text}`;
+                break;
+            case 'wp:author':
+                counts.authors++;
+                break;
+            case 'wp:category':
+                counts.categories++;
+                break;
+            case 'wp:tag':
+                counts.tags++;
+                break;
+            case 'item': {
+                const item = parseWxrItem(node);
+                if (item.post_type === 'attachment') {
+                    counts.attachments++;
+                    break;
+                }
+                if (!isMigratableWxrItem(item)) {
+                    counts.skippedItems++;
+                    break;
+                }
+                if (item.post_type === 'page') counts.pages++;
+                else counts.posts++;
+                for (const comment of item.comments) {
+                    if (isMigratableWxrComment(comment)) counts.comments++;
+                    else counts.skippedComments++;
+                }
+                break;
+            }
+        }
+    }
+
+    if (!version) {
+        warnings.push('WXR 버전 정보를 찾을 수 없습니다. WordPress 내보내기 파일인지 확인하세요.');
+    }
+
+    const tableMap: Array<[string, string, number]> = [
+        ['wp:author', 'member', counts.authors],
+        ['wp:category', 'board category', counts.categories],
+        ['wp:tag', 'post tag (extra_1)', counts.tags],
+        ['item (post)', `post (${WXR_POST_TYPE_BOARDS.post.bo_table})`, counts.posts],
+        ['item (page)', `post (${WXR_POST_TYPE_BOARDS.page.bo_table})`, counts.pages],
+        ['wp:comment', 'comment', counts.comments]
+    ];
+    const tables: TableAnalysis[] = tableMap.map(([sourceTable, targetTable, rowCount]) => ({
+        sourceTable,
+        targetTable,
+        rowCount,
+        hasData: rowCount > 0
+    }));
+
+    if (counts.authors > 0) {
+        warnings.push(
+            'WXR에는 비밀번호가 포함되지 않습니다. 작성자 계정은 비밀번호 재설정 후 로그인할 수 있습니다.'
+        );
+    }
+    if (counts.skippedItems > 0) {
+        warnings.push(
+            `초안·휴지통·메뉴 등 게시글로 옮기지 않는 항목 ${counts.skippedItems}건을 건너뜁니다.`
+        );
+    }
+    if (counts.skippedComments > 0) {
+        warnings.push(`승인되지 않은 댓글과 핑백·트랙백 ${counts.skippedComments}건을 건너뜁니다.`);
+    }
+    if (counts.attachments > 0) {
+        warnings.push(
+            `첨부파일 ${counts.attachments}건은 옮기지 않습니다. 본문 이미지는 원본 사이트 URL을 그대로 참조합니다.`
+        );
+    }
+
+    const totalRows =
+        counts.authors + counts.posts + counts.pages + counts.comments + counts.categories;
+    const estimatedSeconds = Math.max(10, Math.ceil(totalRows / 1000));
+    const estimatedTime =
+        estimatedSeconds < 60
+            ? `약 ${estimatedSeconds}초`
+            : `약 ${Math.ceil(estimatedSeconds / 60)}분`;
+
+    return {
+        source: 'wordpress',
+        version,
+        tables,
+        totalRows,
+        estimatedTime,
+        warnings
+    };
+}
+
+/**
+ * WordPress(WXR) 마이그레이션 실행
+ */
+export async function migrateWordpress(options: WxrMigrationOptions): Promise<MigrationResult> {
+    const startedAt = new Date();
+    const stats = createEmptyStats();
+    const errors: MigrationError[] = [];
+
+    const progress = (
+        phase: MigrationProgress['phase'],
+        current: number,
+        total: number,
+        message: string
+    ) => {
+        const percent = total > 0 ? Math.round((current / total) * 100) : 0;
+        options.onProgress?.({ phase, current, total, message, percent, errors });
+    };
+
+    const mysql = await import('mysql2/promise');
+
+    progress('connecting', 0, 1, '대상 DB 연결 중...');
+    const targetConn = await mysql.createConnection({
+        host: options.targetDb.host,
+        port: options.targetDb.port,
+        user: options.targetDb.user,
+        password: options.targetDb.password,
+        database: options.targetDb.database
+    });
+
+    const isBoardIncluded = (boTable: string) =>
+        !options.boardFilter ||
+        options.boardFilter.length === 0 ||
+        options.boardFilter.includes(boTable);
+
+    let siteTitle = '';
+    const categories: string[] = [];
+    /** wp:author_id → author_login */
+    const authorLogins = new Map<number, string>();
+    let boardsCreated = false;
+
+    /** 카테고리 수집이 끝난 뒤(첫 항목 직전) 게시판 생성 */
+    const createBoards = async () => {
+        boardsCreated = true;
+        if (!options.dryRun) {
+            await targetConn.query(
+                `INSERT IGNORE INTO board_group (gr_id, gr_subject, gr_order) VALUES ('default', '기본 그룹', 0)`
+            );
+            stats.boardGroups.total = 1;
+            stats.boardGroups.migrated = 1;
+        }
+
+        for (const postType of Object.keys(WXR_POST_TYPE_BOARDS)) {
+            const mapped = mapWxrBoardToAngple(postType, siteTitle, categories);
+            if (!isBoardIncluded(mapped.bo_table)) continue;
+            stats.boards.total++;
+            try {
+                if (!options.dryRun) {
+                    await targetConn.query(
+                        `INSERT INTO board (bo_table, bo_subject, bo_skin, gr_id, bo_list_level, bo_read_level, bo_write_level, bo_comment_level, bo_page_rows, bo_order, bo_category_list)
+                         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                         ON DUPLICATE KEY UPDATE bo_subject = VALUES(bo_subject), bo_category_list = VALUES(bo_category_list)`,
+                        [
+                            mapped.bo_table,
+                            mapped.bo_subject,
+                            mapped.bo_skin,
+                            mapped.gr_id,
+                            mapped.bo_list_level,
+                            mapped.bo_read_level,
+                            mapped.bo_write_level,
+                            mapped.bo_comment_level,
+                            mapped.bo_page_rows,
+                            mapped.bo_order,
+                            mapped.bo_category_list
+                        ]
+                    );
+                }
+                stats.boards.migrated++;
+            } catch (err) {
+                stats.boards.skipped++;
+                errors.push({
+                    phase: 'boards',
+                    message: `게시판 ${mapped.bo_table} 생성 실패`,
+                    detail: err instanceof Error ? err.message : String(err)
+                });
+            }
+        }
+    };
+
+    try {
+        for await (const { node, bytesRead, totalBytes } of readWxrEntries(options.sourceFile)) {
+            switch (node.name) {
+                case 'title':
+                    siteTitle = node.text;
+                    break;
+
+                // ─── 1. 작성자 → 회원 ───
+                case 'wp:author': {
+                    const author = parseWxrAuthor(node);
+                    authorLogins.set(author.author_id, author.author_login);
+                    stats.members.total++;
+                    progress(
+                        'members',
+                        bytesRead,
+                        totalBytes,
+                        `회원 마이그레이션 중... (${stats.members.total}명)`
+                    );
+
+                    try {
+                        const mapped = mapWxrAuthorToAngple(author);
+                        if (!options.dryRun) {
+                            await targetConn.query(
+                                `INSERT INTO member (mb_id, mb_password, mb_name, mb_nick, mb_email, mb_homepage, mb_level, mb_point, mb_ip, mb_datetime, mb_leave_date, mb_intercept_date, mb_memo)
+                                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                                 ON DUPLICATE KEY UPDATE mb_name = VALUES(mb_name)`,
+                                [
+                                    mapped.mb_id,
+                                    mapped.mb_password,
+                                    mapped.mb_name,
+                                    mapped.mb_nick,
+                                    mapped.mb_email,
+                                    mapped.mb_homepage,
+                                    mapped.mb_level,
+                                    mapped.mb_point,
+                                    mapped.mb_ip,
+                                    mapped.mb_datetime,
+                                    mapped.mb_leave_date,
+                                    mapped.mb_intercept_date,
+                                    mapped.mb_memo
+                                ]
+                            );
+                        }
+                        stats.members.migrated++;
+                    } catch (err) {
+                        stats.members.skipped++;
+                        errors.push({
+                            phase: 'members',
+                            row: author.author_id,
+                            message: `작성자 ${author.author_login} 마이그레이션 실패`,
+                            detail: err instanceof Error ? err.message : String(err)
+                        });
+                    }
+                    break;
+                }
+
+                // ─── 2. 카테고리 ───
+                case 'wp:category': {
+                    const category = parseWxrCategory(node);
+                    if (category.cat_name && !categories.includes(category.cat_name)) {
+                        categories.push(category.cat_name);
+                    }
+                    break;
+                }
+
+                // ─── 3. 항목 → 게시글 + 댓글 ───
+                case 'item': {
+                    if (!boardsCreated) {
+                        progress('boards', bytesRead, totalBytes, '게시판 생성 중...');
+                        await createBoards();
+                    }
+
+                    const item = parseWxrItem(node);
+                    if (item.post_type === 'attachment') {
+                        stats.attachments.total++;
+                        stats.attachments.skipped++;
+                        break;
+                    }
+                    if (!isMigratableWxrItem(item)) break;
+
+                    const mapped = mapWxrItemToAngple(item);
+                    if (!isBoardIncluded(mapped.bo_table)) break;
+
+                    stats.posts.total++;
+                    progress(
+                        'posts',
+                        bytesRead,
+                        totalBytes,
+                        `게시글 마이그레이션 중... (${stats.posts.total}건)`
+                    );
+
+                    try {
+                        if (!options.dryRun) {
+                            await targetConn.query(
+                                `INSERT INTO post (wr_id, bo_table, wr_subject, wr_content, wr_name, mb_id, wr_datetime, wr_hit, wr_good, wr_nogood, wr_comment, wr_ip, ca_name, is_secret, is_notice, extra_1, extra_2, extra_3)
+                                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                                 ON DUPLICATE KEY UPDATE wr_subject = VALUES(wr_subject)`,
+                                [
+                                    mapped.wr_id,
+                                    mapped.bo_table,
+                                    mapped.wr_subject,
+                                    mapped.wr_content,
+                                    mapped.wr_name,
+                                    mapped.mb_id,
+                                    mapped.wr_datetime,
+                                    mapped.wr_hit,
+                                    mapped.wr_good,
+                                    mapped.wr_nogood,
+                                    mapped.wr_comment,
+                                    mapped.wr_ip,
+                                    mapped.ca_name,
+                                    mapped.is_secret,
+                                    mapped.is_notice,
+                                    mapped.extra_1,
+                                    mapped.extra_2,
+                                    mapped.extra_3
+                                ]
+                            );
+                        }
+                        stats.posts.migrated++;
+                    } catch (err) {
+                        stats.posts.skipped++;
+                        errors.push({
+                            phase: 'posts',
+                            row: item.post_id,
+                            message: `글 ${item.post_id} 마이그레이션 실패`,
+                            detail: err instanceof Error ? err.message : String(err)
+                        });
+                        // 부모 글이 없으면 댓글도 건너뜀
+                        break;
+                    }
+
+                    for (const comment of item.comments) {
+                        if (!isMigratableWxrComment(comment)) continue;
+                        stats.comments.total++;
+                        try {
+                            const mappedComment = mapWxrCommentToAngple(
+                                comment,
+                                item,
+                                authorLogins
+                            );
+                            if (!options.dryRun) {
+                                await targetConn.query(
+                                    `INSERT INTO comment (wr_id, bo_table, wr_parent, wr_content, wr_name, mb_id, wr_datetime, wr_ip, wr_good, wr_nogood, is_secret)
+                                     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                                     ON DUPLICATE KEY UPDATE wr_content = VALUES(wr_content)`,
+                                    [
+                                        mappedComment.wr_id,
+                                        mappedComment.bo_table,
+                                        mappedComment.wr_parent,
+                                        mappedComment.wr_content,
+                                        mappedComment.wr_name,
+                                        mappedComment.mb_id,
+                                        mappedComment.wr_datetime,
+                                        mappedComment.wr_ip,
+                                        mappedComment.wr_good,
+                                        mappedComment.wr_nogood,
+                                        mappedComment.is_secret
+                                    ]
+                                );
+                            }
+                            stats.comments.migrated++;
+                        } catch (err) {
+                            stats.comments.skipped++;
+                            errors.push({
+                                phase: 'comments',
+                                row: comment.comment_id,
+                                message: `댓글 ${comment.comment_id} 마이그레이션 실패`,
+                                detail: err instanceof Error ? err.message : String(err)
+                            });
+                        }
+                    }
+                    break;
+                }
+            }
+        }
+
+        // 항목이 하나도 없는 파일이어도 게시판은 생성
+        if (!boardsCreated) {
+            await createBoards();
+        }
+
+        progress('verifying', 0, 1, '마이그레이션 결과 검증 중...');
+        progress('done', 1, 1, '마이그레이션 완료!');
+
+        const completedAt = new Date();
+        return {
+            success: errors.length === 0,
+            source: 'wordpress',
+            mode: 'full',
+            startedAt,
+            completedAt,
+            duration: completedAt.getTime() - startedAt.getTime(),
+            stats,
+            errors
+        };
+    } finally {
+        await targetConn.end();
+    }
+}
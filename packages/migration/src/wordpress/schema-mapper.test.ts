@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import { readWxrEntries, type XmlNode } from './wxr-parser.js';
+import {
+    isMigratableWxrComment,
+    isMigratableWxrItem,
+    mapWxrAuthorToAngple,
+    mapWxrBoardToAngple,
+    mapWxrCommentToAngple,
+    mapWxrItemToAngple,
+    parseWxrAuthor,
+    parseWxrCategory,
+    parseWxrItem,
+    parseWxrTag
+} from './schema-mapper.js';
+
+const FIXTURE = fileURLToPath(new URL('./fixtures/sample.wxr', import.meta.url));
+
+async function fixtureNodes(name: string): Promise<XmlNode[]> {
+    const nodes: XmlNode[] = [];
+    for await (const { node } of readWxrEntries(FIXTURE)) {
+        if (node.name === name) nodes.push(node);
+    }
+    return nodes;
+}
+
+describe('WXR schema mapper', () => {
+    it('작성자 → 회원', async () => {
+        const [node] = await fixtureNodes('wp:author');
+        const member = mapWxrAuthorToAngple(parseWxrAuthor(node));
+
+        expect(member).toMatchObject({
+            mb_id: 'admin',
+            mb_name: '홍길동',
+            mb_nick: '관리자',
+            mb_email: 'admin@example.com',
+            mb_password: ''
+        });
+    });
+
+    it('카테고리·태그 → 게시판 카테고리 목록', async () => {
+        const [category] = await fixtureNodes('wp:category');
+        const [tag] = await fixtureNodes('wp:tag');
+
+        expect(parseWxrCategory(category)).toEqual({
+            term_id: 3,
+            category_nicename: 'news',
+            category_parent: '',
+            cat_name: 'News > Local'
+        });
+        expect(parseWxrTag(tag)).toEqual({ term_id: 7, tag_slug: 'svelte', tag_name: 'Svelte' });
+        expect(mapWxrBoardToAngple('post', 'Angple & Friends', ['News > Local'])).toMatchObject({
+            bo_table: 'blog',
+            bo_subject: 'Angple & Friends',
+            bo_category_list: 'News > Local'
+        });
+    });
+
+    it('글 → 게시글 (카테고리/태그/공지/슬러그)', async () => {
+        const [published, draft] = (await fixtureNodes('item')).map(parseWxrItem);
+
+        expect(isMigratableWxrItem(published)).toBe(true);
+        expect(isMigratableWxrItem(draft)).toBe(false);
+        expect(mapWxrItemToAngple(published)).toMatchObject({
+            wr_id: 42,
+            bo_table: 'blog',
+            wr_subject: 'a > b 인 경우',
+            wr_content:
+                '<p class="lead">본문 <a href="https://example.com/?a=1&b=2">링크</a> ]] 끝</p>',
+            mb_id: 'admin',
+            ca_name: 'News > Local',
+            is_notice: true,
+            is_secret: false,
+            wr_comment: 2,
+            extra_1: 'Svelte',
+            extra_2: '요약',
+            extra_3: 'a-gt-b'
+        });
+    });
+
+    it('댓글 → 댓글 (승인된 일반 댓글만, 회원 작성자 매핑)', async () => {
+        const [item] = (await fixtureNodes('item')).map(parseWxrItem);
+        const comments = item.comments.filter(isMigratableWxrComment);
+        const authorLogins = new Map([[1, 'admin']]);
+
+        expect(comments.map((c) => c.comment_id)).toEqual([5, 6]);
+        expect(mapWxrCommentToAngple(comments[0], item, authorLogins)).toMatchObject({
+            wr_id: 5,
+            wr_parent: 42,
+            parent_comment_id: null,
+            wr_content: '좋은 글 <3',
+            wr_name: '방문자',
+            mb_id: '',
+            wr_ip: '203.0.113.9'
+        });
+        expect(mapWxrCommentToAngple(comments[1], item, authorLogins)).toMatchObject({
+            parent_comment_id: 5,
+            mb_id: 'admin'
+        });
+    });
+});
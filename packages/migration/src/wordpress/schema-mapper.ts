@@ -0,0 +1,274 @@
+/**
+ * WordPress(WXR) → Angple 스키마 매핑
+ *
+ * WXR 요소 구조:
+ * - wp:author → Angple member (비밀번호는 내보내지 않으므로 재설정 필요)
+ * - item (wp:post_type = post) → Angple post (blog 게시판)
+ * - item (wp:post_type = page) → Angple post (page 게시판)
+ * - item > wp:comment → Angple comment
+ * - wp:category / item > category[domain=category] → 게시판 카테고리 (ca_name)
+ * - wp:tag / item > category[domain=post_tag] → 태그 (extra_1, 쉼표 구분)
+ */
+
+import { childNodes, childText, type XmlNode } from './wxr-parser.js';
+
+/** WXR 작성자 (wp:author) */
+export interface WxrAuthor {
+    author_id: number;
+    author_login: string;
+    author_email: string;
+    author_display_name: string;
+    author_first_name: string;
+    author_last_name: string;
+}
+
+/** WXR 카테고리 (wp:category) */
+export interface WxrCategory {
+    term_id: number;
+    category_nicename: string;
+    category_parent: string;
+    cat_name: string;
+}
+
+/** WXR 태그 (wp:tag) */
+export interface WxrTag {
+    term_id: number;
+    tag_slug: string;
+    tag_name: string;
+}
+
+/** WXR 댓글 (item > wp:comment) */
+export interface WxrComment {
+    comment_id: number;
+    comment_author: string;
+    comment_author_email: string;
+    comment_author_url: string;
+    comment_author_IP: string;
+    comment_date: string;
+    comment_content: string;
+    /** 1, 0, spam, trash */
+    comment_approved: string;
+    /** '' | comment | pingback | trackback */
+    comment_type: string;
+    comment_parent: number;
+    comment_user_id: number;
+}
+
+/** WXR 항목 (item) */
+export interface WxrItem {
+    post_id: number;
+    title: string;
+    creator: string;
+    content: string;
+    excerpt: string;
+    post_date: string;
+    post_name: string;
+    /** publish, draft, pending, private, trash, auto-draft, inherit */
+    status: string;
+    /** post, page, attachment, nav_menu_item 등 */
+    post_type: string;
+    post_password: string;
+    is_sticky: boolean;
+    attachment_url: string;
+    categories: string[];
+    tags: string[];
+    comments: WxrComment[];
+}
+
+/** Angple로 옮기는 글 유형 → 대상 게시판 */
+export const WXR_POST_TYPE_BOARDS: Record<string, { bo_table: string; bo_subject: string }> = {
+    post: { bo_table: 'blog', bo_subject: '블로그' },
+    page: { bo_table: 'page', bo_subject: '페이지' }
+};
+
+// ─── WXR 요소 → 타입 변환 ───
+
+function toNumber(value: string): number {
+    const n = parseInt(value, 10);
+    return Number.isFinite(n) ? n : 0;
+}
+
+export function parseWxrAuthor(node: XmlNode): WxrAuthor {
+    return {
+        author_id: toNumber(childText(node, 'wp:author_id')),
+        author_login: childText(node, 'wp:author_login'),
+        author_email: childText(node, 'wp:author_email'),
+        author_display_name: childText(node, 'wp:author_display_name'),
+        author_first_name: childText(node, 'wp:author_first_name'),
+        author_last_name: childText(node, 'wp:author_last_name')
+    };
+}
+
+export function parseWxrCategory(node: XmlNode): WxrCategory {
+    return {
+        term_id: toNumber(childText(node, 'wp:term_id')),
+        category_nicename: childText(node, 'wp:category_nicename'),
+        category_parent: childText(node, 'wp:category_parent'),
+        cat_name: childText(node, 'wp:cat_name')
+    };
+}
+
+export function parseWxrTag(node: XmlNode): WxrTag {
+    return {
+        term_id: toNumber(childText(node, 'wp:term_id')),
+        tag_slug: childText(node, 'wp:tag_slug'),
+        tag_name: childText(node, 'wp:tag_name')
+    };
+}
+
+function parseWxrComment(node: XmlNode): WxrComment {
+    return {
+        comment_id: toNumber(childText(node, 'wp:comment_id')),
+        comment_author: childText(node, 'wp:comment_author'),
+        comment_author_email: childText(node, 'wp:comment_author_email'),
+        comment_author_url: childText(node, 'wp:comment_author_url'),
+        comment_author_IP: childText(node, 'wp:comment_author_IP'),
+        comment_date: childText(node, 'wp:comment_date'),
+        comment_content: childText(node, 'wp:comment_content'),
+        comment_approved: childText(node, 'wp:comment_approved'),
+        comment_type: childText(node, 'wp:comment_type'),
+        comment_parent: toNumber(childText(node, 'wp:comment_parent')),
+        comment_user_id: toNumber(childText(node, 'wp:comment_user_id'))
+    };
+}
+
+export function parseWxrItem(node: XmlNode): WxrItem {
+    const terms = childNodes(node, 'category');
+    return {
+        post_id: toNumber(childText(node, 'wp:post_id')),
+        title: childText(node, 'title'),
+        creator: childText(node, 'dc:creator'),
+        content: childText(node, 'content:encoded'),
+        excerpt: childText(node, 'excerpt:encoded'),
+        post_date: childText(node, 'wp:post_date'),
+        post_name: childText(node, 'wp:post_name'),
+        status: childText(node, 'wp:status'),
+        post_type: childText(node, 'wp:post_type'),
+        post_password: childText(node, 'wp:post_password'),
+        is_sticky: childText(node, 'wp:is_sticky') === '1',
+        attachment_url: childText(node, 'wp:attachment_url'),
+        categories: terms
+            .filter((t) => t.attributes.domain === 'category')
+            .map((t) => t.text.trim()),
+        tags: terms.filter((t) => t.attributes.domain === 'post_tag').map((t) => t.text.trim()),
+        comments: childNodes(node, 'wp:comment').map(parseWxrComment)
+    };
+}
+
+// ─── 변환 함수 ───
+
+/**
+ * 게시글로 옮길 항목인지 (공개/비공개 글과 페이지만, 초안·휴지통 제외)
+ */
+export function isMigratableWxrItem(item: WxrItem): boolean {
+    return (
+        item.post_type in WXR_POST_TYPE_BOARDS &&
+        (item.status === 'publish' || item.status === 'private')
+    );
+}
+
+/**
+ * 댓글로 옮길 항목인지 (승인된 일반 댓글만, 핑백·트랙백 제외)
+ */
+export function isMigratableWxrComment(c: WxrComment): boolean {
+    return c.comment_approved === '1' && (c.comment_type === '' || c.comment_type === 'comment');
+}
+
+/**
+ * WXR 작성자 → Angple 회원
+ */
+export function mapWxrAuthorToAngple(a: WxrAuthor) {
+    const fullName = [a.author_last_name, a.author_first_name].filter(Boolean).join('');
+    return {
+        mb_id: a.author_login,
+        mb_password: '', // WXR에는 비밀번호가 없음 — 비밀번호 재설정 필요
+        mb_name: fullName || a.author_display_name || a.author_login,
+        mb_nick: a.author_display_name || a.author_login,
+        mb_email: a.author_email,
+        mb_homepage: '',
+        mb_level: 2,
+        mb_point: 0,
+        mb_ip: '',
+        mb_datetime: new Date(), // WXR에는 가입일이 없음 — 가져온 시각으로 기록
+        mb_leave_date: null,
+        mb_intercept_date: null,
+        mb_memo: null
+    };
+}
+
+/**
+ * WXR 글 유형 → Angple 게시판
+ *
+ * @param categories 게시판 카테고리 목록 (wp:cat_name)
+ */
+export function mapWxrBoardToAngple(postType: string, siteTitle: string, categories: string[]) {
+    const board = WXR_POST_TYPE_BOARDS[postType];
+    return {
+        bo_table: board.bo_table,
+        bo_subject: postType === 'post' && siteTitle ? siteTitle : board.bo_subject,
+        bo_skin: 'default',
+        gr_id: 'default',
+        bo_list_level: 1,
+        bo_read_level: 1,
+        bo_write_level: postType === 'page' ? 10 : 2,
+        bo_comment_level: 2,
+        bo_page_rows: 15,
+        bo_order: 0,
+        bo_category_list: postType === 'post' ? categories.join('|') : ''
+    };
+}
+
+/**
+ * WXR 항목 → Angple 게시글
+ */
+export function mapWxrItemToAngple(item: WxrItem) {
+    return {
+        wr_id: item.post_id,
+        bo_table: WXR_POST_TYPE_BOARDS[item.post_type].bo_table,
+        wr_subject: item.title || '(제목 없음)',
+        wr_content: item.content,
+        wr_name: item.creator,
+        mb_id: item.creator,
+        wr_datetime: item.post_date,
+        wr_hit: 0,
+        wr_good: 0,
+        wr_nogood: 0,
+        wr_comment: item.comments.filter(isMigratableWxrComment).length,
+        wr_ip: '',
+        ca_name: item.categories[0] || null,
+        is_secret: item.status === 'private' || item.post_password !== '',
+        is_notice: item.is_sticky,
+        tags: item.tags,
+        // 태그 전용 컬럼이 없어 extra_1에 쉼표 구분으로 보존, 요약문은 extra_2
+        extra_1: item.tags.length > 0 ? item.tags.join(',') : null,
+        extra_2: item.excerpt || null,
+        // 원본 슬러그 (기존 URL 리다이렉트용)
+        extra_3: item.post_name || null
+    };
+}
+
+/**
+ * WXR 댓글 → Angple 댓글
+ *
+ * @param authorLogins wp:author_id → author_login (회원 댓글 작성자 매핑)
+ */
+export function mapWxrCommentToAngple(
+    c: WxrComment,
+    item: WxrItem,
+    authorLogins: Map<number, string>
+) {
+    return {
+        wr_id: c.comment_id,
+        bo_table: WXR_POST_TYPE_BOARDS[item.post_type].bo_table,
+        wr_parent: item.post_id,
+        parent_comment_id: c.comment_parent || null,
+        wr_content: c.comment_content,
+        wr_name: c.comment_author,
+        mb_id: (c.comment_user_id && authorLogins.get(c.comment_user_id)) || '',
+        wr_datetime: c.comment_date,
+        wr_ip: c.comment_author_IP || '',
+        wr_good: 0,
+        wr_nogood: 0,
+        is_secret: false
+    };
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { childNode, childNodes, childText, readWxrEntries, type XmlNode } from './wxr-parser.js';
+
+const FIXTURE = fileURLToPath(new URL('./fixtures/sample.wxr', import.meta.url));
+
+async function readNodes(filePath: string): Promise<XmlNode[]> {
+    const nodes: XmlNode[] = [];
+    for await (const entry of readWxrEntries(filePath)) {
+        nodes.push(entry.node);
+    }
+    return nodes;
+}
+
+describe('readWxrEntries', () => {
+    it('channel 직계 자식을 순서대로 반환', async () => {
+        const nodes = await readNodes(FIXTURE);
+        expect(nodes.map((node) => node.name)).toEqual([
+            'title',
+            'link',
+            'wp:wxr_version',
+            'wp:author',
+            'wp:category',
+            'wp:tag',
+            'item',
+            'item'
+        ]);
+        expect(nodes[0].text).toBe('Angple & Friends');
+    });
+
+    it('접두사가 붙은 요소와 CDATA 내용을 그대로 보존', async () => {
+        const [item] = (await readNodes(FIXTURE)).filter((node) => node.name === 'item');
+
+        expect(childText(item, 'wp:post_id')).toBe('42');
+        expect(childText(item, 'title')).toBe('a > b 인 경우');
+        expect(childText(item, 'content:encoded')).toBe(
+            '<p class="lead">본문 <a href="https://example.com/?a=1&b=2">링크</a> ]] 끝</p>'
+        );
+        expect(childText(childNode(item, 'wp:postmeta')!, 'wp:meta_key')).toBe('_edit_last');
+        expect(childNodes(item, 'wp:comment')).toHaveLength(3);
+    });
+
+    it('속성값 안의 > 와 작은따옴표 속성', async () => {
+        const [item] = (await readNodes(FIXTURE)).filter((node) => node.name === 'item');
+        const [category, tag] = childNodes(item, 'category');
+
+        expect(category.attributes).toEqual({
+            domain: 'category',
+            nicename: 'news',
+            'data-label': 'News > Local'
+        });
+        expect(category.text).toBe('News > Local');
+        expect(tag.attributes.domain).toBe('post_tag');
+        // 속성의 > 뒤에 이어지는 형제 요소가 손상되지 않음
+        expect(childNodes(item, 'wp:postmeta')).toHaveLength(1);
+    });
+
+    it('엔티티로 쓴 텍스트는 디코딩', async () => {
+        const items = (await readNodes(FIXTURE)).filter((node) => node.name === 'item');
+        expect(childText(items[1], 'title')).toBe('초안 <draft>');
+        expect(childText(childNodes(items[0], 'wp:comment')[1], 'wp:comment_content')).toBe(
+            '감사합니다 &amp; 반갑습니다'
+        );
+    });
+
+    it('자기 닫힘 요소도 채널 자식으로 반환', async () => {
+        const dir = await mkdtemp(join(tmpdir(), 'angple-wxr-'));
+        try {
+            const file = join(dir, 'empty.wxr');
+            await writeFile(
+                file,
+                '<rss><channel><wp:base_site_url/><item data-x="a>b"><title>t</title></item></channel></rss>'
+            );
+            const nodes = await readNodes(file);
+            expect(nodes.map((node) => node.name)).toEqual(['wp:base_site_url', 'item']);
+            expect(nodes[1].attributes['data-x']).toBe('a>b');
+            expect(childText(nodes[1], 'title')).toBe('t');
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,203 @@
+/**
+ * WordPress WXR(eXtended RSS) 스트리밍 파서
+ *
+ * WXR 파일은 수백 MB가 넘는 경우가 많아 전체를 메모리에 올리지 않습니다.
+ * 파일을 청크 단위로 읽으며 `<rss><channel>`의 직계 자식(wp:author, wp:category,
+ * wp:tag, item 등)을 하나씩 트리로 만들어 내보내므로, 메모리 사용량은
+ * 가장 큰 항목 하나의 크기로 제한됩니다.
+ *
+ * 외부 XML 의존성 없이 WXR에 필요한 만큼만 처리합니다:
+ * 요소/속성(따옴표 안의 `>` 포함), CDATA, 문자 참조·기본 엔티티. 주석·PI·DOCTYPE은 건너뜁니다.
+ */
+
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+
+/** 파싱된 XML 요소 */
+export interface XmlNode {
+    /** 접두사 포함 태그명 (예: wp:post_id) */
+    name: string;
+    attributes: Record<string, string>;
+    /** 직계 텍스트/CDATA 내용 */
+    text: string;
+    children: XmlNode[];
+}
+
+/** 채널 자식 요소 + 진행 정보 */
+export interface WxrEntry {
+    node: XmlNode;
+    /** 지금까지 읽은 바이트 수 */
+    bytesRead: number;
+    /** 파일 전체 크기 */
+    totalBytes: number;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+    lt: '<',
+    gt: '>',
+    amp: '&',
+    quot: '"',
+    apos: "'"
+};
+
+/**
+ * XML 엔티티 디코딩
+ */
+export function decodeXmlEntities(value: string): string {
+    if (!value.includes('&')) return value;
+    return value.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, ref: string) => {
+        if (ref[0] === '#') {
+            const code =
+                ref[1] === 'x' || ref[1] === 'X'
+                    ? parseInt(ref.slice(2), 16)
+                    : parseInt(ref.slice(1), 10);
+            return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+        }
+        return NAMED_ENTITIES[ref] ?? match;
+    });
+}
+
+/**
+ * 태그를 닫는 `>` 위치 (따옴표로 감싼 속성값 안의 `>`는 건너뜀, 없으면 -1)
+ */
+function findTagEnd(buffer: string, from: number): number {
+    let quote = '';
+    for (let i = from; i < buffer.length; i++) {
+        const char = buffer[i];
+        if (quote) {
+            if (char === quote) quote = '';
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '>') {
+            return i;
+        }
+    }
+    return -1;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(source)) !== null) {
+        attributes[match[1]] = decodeXmlEntities(match[3] ?? match[4] ?? '');
+    }
+    return attributes;
+}
+
+/** 첫 번째 자식 요소 */
+export function childNode(node: XmlNode, name: string): XmlNode | undefined {
+    return node.children.find((child) => child.name === name);
+}
+
+/** 자식 요소 텍스트 (앞뒤 공백 제거, 없으면 빈 문자열) */
+export function childText(node: XmlNode, name: string): string {
+    return childNode(node, name)?.text.trim() ?? '';
+}
+
+/** 이름이 같은 자식 요소 전체 */
+export function childNodes(node: XmlNode, name: string): XmlNode[] {
+    return node.children.filter((child) => child.name === name);
+}
+
+/**
+ * WXR 파일을 스트리밍하며 `<channel>` 직계 자식 요소를 순서대로 반환
+ */
+export async function* readWxrEntries(filePath: string): AsyncGenerator<WxrEntry> {
+    const { size: totalBytes } = await stat(filePath);
+    const stream = createReadStream(filePath, { encoding: 'utf8', highWaterMark: 256 * 1024 });
+
+    /** 열린 요소 스택 (rss, channel 포함) */
+    const openNames: string[] = [];
+    /** channel 자식부터 만들어지는 트리 스택 */
+    const building: XmlNode[] = [];
+    let buffer = '';
+    let bytesRead = 0;
+
+    const appendText = (text: string) => {
+        const current = building[building.length - 1];
+        if (current) current.text += text;
+    };
+
+    for await (const chunk of stream as AsyncIterable<string>) {
+        buffer += chunk;
+        bytesRead += Buffer.byteLength(chunk);
+        const completed: XmlNode[] = [];
+        let pos = 0;
+
+        while (pos < buffer.length) {
+            const lt = buffer.indexOf('<', pos);
+            if (lt === -1) {
+                // 다음 청크에서 엔티티가 잘리지 않도록 남은 텍스트는 보관
+                break;
+            }
+            if (lt > pos) {
+                appendText(decodeXmlEntities(buffer.slice(pos, lt)));
+                pos = lt;
+            }
+
+            if (buffer.startsWith('<![CDATA[', pos)) {
+                const end = buffer.indexOf(']]>', pos + 9);
+                if (end === -1) break;
+                appendText(buffer.slice(pos + 9, end));
+                pos = end + 3;
+                continue;
+            }
+            if (buffer.startsWith('<!--', pos)) {
+                const end = buffer.indexOf('-->', pos + 4);
+                if (end === -1) break;
+                pos = end + 3;
+                continue;
+            }
+
+            const gt = findTagEnd(buffer, pos + 1);
+            if (gt === -1) break;
+            const tag = buffer.slice(pos + 1, gt);
+            pos = gt + 1;
+
+            // <?xml ...?>, <!DOCTYPE ...>
+            if (tag[0] === '?' || tag[0] === '!') continue;
+
+            if (tag[0] === '/') {
+                openNames.pop();
+                // rss(0) > channel(1) > 항목(2) — 항목이 닫히면 내보냄
+                if (building.length > 0) {
+                    const node = building.pop()!;
+                    if (building.length === 0) completed.push(node);
+                }
+                continue;
+            }
+
+            const selfClosing = tag.endsWith('/');
+            const body = selfClosing ? tag.slice(0, -1) : tag;
+            const nameEnd = body.search(/\s/);
+            const name = nameEnd === -1 ? body : body.slice(0, nameEnd);
+            const node: XmlNode = {
+                name,
+                attributes: nameEnd === -1 ? {} : parseAttributes(body.slice(nameEnd)),
+                text: '',
+                children: []
+            };
+
+            if (building.length > 0) {
+                building[building.length - 1].children.push(node);
+            }
+            const isChannelChild = building.length === 0 && openNames.length === 2;
+
+            if (selfClosing) {
+                if (isChannelChild) completed.push(node);
+                continue;
+            }
+            openNames.push(name);
+            if (building.length > 0 || isChannelChild) {
+                building.push(node);
+            }
+        }
+
+        buffer = buffer.slice(pos);
+        for (const node of completed) {
+            node.text = node.text.trim();
+            yield { node, bytesRead, totalBytes };
+        }
+    }
+}
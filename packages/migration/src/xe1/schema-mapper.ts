@@ -0,0 +1,270 @@
+/**
+ * XpressEngine 1.x → Angple 스키마 매핑
+ *
+ * 테이블 구조는 라이믹스와 같은 뿌리이지만 XE1에는 다음 차이가 있습니다:
+ * - 비밀번호: 1.7+ pbkdf2 (sha256:반복횟수:솔트:해시), 이전 버전 md5
+ * - xe_documents.extra_vars: PHP serialize 형식 — 사용자 확장 변수는 xe_document_extra_vars
+ * - 카테고리: xe_document_categories (category_srl → 이름)
+ * - 포인트: xe_point에 회원별 누적값만 있음 (내역 없음)
+ *
+ * 테이블 매핑:
+ * - xe_member → Angple member
+ * - xe_modules (module = 'board') → Angple board
+ * - xe_document_categories → Angple board categories (bo_category_list, ca_name)
+ * - xe_documents → Angple posts
+ * - xe_document_extra_vars → Angple post extra_1~extra_10
+ * - xe_comments → Angple comments
+ * - xe_point → Angple point (이관 내역 1건)
+ */
+
+/** XE1 회원 (xe_member) */
+export interface Xe1Member {
+    member_srl: number;
+    user_id: string;
+    email_address: string;
+    password: string;
+    user_name: string;
+    nick_name: string;
+    homepage: string;
+    blog: string;
+    birthday: string;
+    allow_mailing: string;
+    allow_message: string;
+    denied: string;
+    limit_date: string;
+    regdate: string;
+    last_login: string;
+    is_admin: string;
+    description: string;
+    extra_vars: string;
+    list_order: number;
+}
+
+/** XE1 모듈 (게시판) (xe_modules) */
+export interface Xe1Module {
+    module_srl: number;
+    module: string;
+    module_category_srl: number;
+    mid: string;
+    skin: string;
+    browser_title: string;
+    description: string;
+    regdate: string;
+}
+
+/** XE1 문서 분류 (xe_document_categories) */
+export interface Xe1DocumentCategory {
+    category_srl: number;
+    module_srl: number;
+    parent_srl: number;
+    title: string;
+    list_order: number;
+}
+
+/** XE1 문서 (xe_documents) */
+export interface Xe1Document {
+    document_srl: number;
+    module_srl: number;
+    category_srl: number;
+    is_notice: string;
+    title: string;
+    content: string;
+    readed_count: number;
+    voted_count: number;
+    blamed_count: number;
+    comment_count: number;
+    user_id: string;
+    user_name: string;
+    nick_name: string;
+    member_srl: number;
+    tags: string;
+    regdate: string;
+    ipaddress: string;
+    /** PUBLIC, SECRET, TEMP */
+    status: string;
+}
+
+/** XE1 확장 변수 값 (xe_document_extra_vars) */
+export interface Xe1DocumentExtraVar {
+    module_srl: number;
+    document_srl: number;
+    /** 1부터 시작 (음수는 다국어 제목/본문) */
+    var_idx: number;
+    lang_code: string;
+    value: string;
+    eid: string;
+}
+
+/** XE1 댓글 (xe_comments) */
+export interface Xe1Comment {
+    comment_srl: number;
+    module_srl: number;
+    document_srl: number;
+    parent_srl: number;
+    is_secret: string;
+    content: string;
+    voted_count: number;
+    blamed_count: number;
+    user_id: string;
+    user_name: string;
+    nick_name: string;
+    member_srl: number;
+    regdate: string;
+    ipaddress: string;
+    /** 1 = 공개 */
+    status: number;
+}
+
+/** XE1 포인트 (xe_point + xe_member.user_id) */
+export interface Xe1Point {
+    member_srl: number;
+    point: number;
+    user_id: string;
+}
+
+// ─── 변환 함수 ───
+
+/**
+ * XE1 regdate (YYYYMMDDHHmmss) → ISO 8601 변환
+ */
+function xe1DateToISO(regdate: string): string {
+    if (!regdate || regdate.length < 14) return regdate;
+    return `${regdate.slice(0, 4)}-${regdate.slice(4, 6)}-${regdate.slice(6, 8)}T${regdate.slice(8, 10)}:${regdate.slice(10, 12)}:${regdate.slice(12, 14)}`;
+}
+
+/**
+ * XE1 회원 → Angple 회원
+ */
+export function mapXe1MemberToAngple(m: Xe1Member) {
+    return {
+        mb_id: m.user_id,
+        mb_password: m.password, // bcrypt가 아니면 비밀번호 재설정 필요 (pbkdf2/md5)
+        mb_name: m.user_name,
+        mb_nick: m.nick_name,
+        mb_email: m.email_address,
+        mb_homepage: m.homepage || '',
+        mb_level: m.is_admin === 'Y' ? 10 : 2,
+        mb_point: 0, // xe_point에서 별도 반영
+        mb_ip: '',
+        mb_datetime: xe1DateToISO(m.regdate),
+        mb_leave_date: null,
+        mb_intercept_date: m.denied === 'Y' ? xe1DateToISO(m.limit_date) : null,
+        mb_memo: m.description || null
+    };
+}
+
+/**
+ * XE1 모듈(게시판) → Angple 게시판
+ *
+ * @param categories 게시판의 문서 분류 (list_order 순)
+ */
+export function mapXe1ModuleToAngple(m: Xe1Module, categories: Xe1DocumentCategory[]) {
+    return {
+        bo_table: m.mid,
+        bo_subject: m.browser_title,
+        bo_skin: m.skin || 'default',
+        gr_id: 'default', // XE1 모듈 분류는 게시판 그룹과 대응하지 않음 — 기본 그룹 사용
+        bo_list_level: 1,
+        bo_read_level: 1,
+        bo_write_level: 2,
+        bo_comment_level: 2,
+        bo_page_rows: 15,
+        bo_order: 0,
+        bo_category_list: categories.map((c) => c.title).join('|'),
+        description: m.description || ''
+    };
+}
+
+/**
+ * XE1 문서 → Angple 게시글
+ *
+ * @param categoryName category_srl에 해당하는 분류명
+ * @param extraVars 문서의 확장 변수 (var_idx 1~10 → extra_1~extra_10)
+ */
+export function mapXe1DocumentToAngple(
+    d: Xe1Document,
+    boTable: string,
+    categoryName: string | null,
+    extraVars: Xe1DocumentExtraVar[]
+) {
+    const extras: Array<string | null> = Array(10).fill(null);
+    for (const v of extraVars) {
+        if (v.var_idx >= 1 && v.var_idx <= 10) {
+            extras[v.var_idx - 1] = v.value;
+        }
+    }
+
+    const tags = d.tags
+        ? d.tags
+              .split(',')
+              .map((t) => t.trim())
+              .filter(Boolean)
+        : [];
+
+    return {
+        wr_id: d.document_srl,
+        bo_table: boTable,
+        wr_subject: d.title,
+        wr_content: d.content,
+        wr_name: d.nick_name || d.user_name,
+        mb_id: d.user_id || (d.member_srl > 0 ? `member_${d.member_srl}` : ''),
+        wr_datetime: xe1DateToISO(d.regdate),
+        wr_hit: d.readed_count || 0,
+        wr_good: d.voted_count || 0,
+        wr_nogood: Math.abs(d.blamed_count || 0), // XE1은 비추천을 음수로 저장
+        wr_comment: d.comment_count || 0,
+        wr_ip: d.ipaddress || '',
+        ca_name: categoryName,
+        is_secret: d.status === 'SECRET',
+        is_notice: d.is_notice === 'Y',
+        tags,
+        extra_1: extras[0],
+        extra_2: extras[1],
+        extra_3: extras[2],
+        extra_4: extras[3],
+        extra_5: extras[4],
+        extra_6: extras[5],
+        extra_7: extras[6],
+        extra_8: extras[7],
+        extra_9: extras[8],
+        extra_10: extras[9]
+    };
+}
+
+/**
+ * XE1 댓글 → Angple 댓글
+ */
+export function mapXe1CommentToAngple(c: Xe1Comment, boTable: string) {
+    return {
+        wr_id: c.comment_srl,
+        bo_table: boTable,
+        wr_parent: c.document_srl,
+        parent_comment_srl: c.parent_srl || null,
+        wr_content: c.content,
+        wr_name: c.nick_name || c.user_name,
+        mb_id: c.user_id || (c.member_srl > 0 ? `member_${c.member_srl}` : ''),
+        wr_datetime: xe1DateToISO(c.regdate),
+        wr_ip: c.ipaddress || '',
+        wr_good: c.voted_count || 0,
+        wr_nogood: Math.abs(c.blamed_count || 0),
+        is_secret: c.is_secret === 'Y'
+    };
+}
+
+/**
+ * XE1 누적 포인트 → Angple 포인트 내역 (이관 1건)
+ */
+export function mapXe1PointToAngple(p: Xe1Point) {
+    return {
+        mb_id: p.user_id,
+        point: p.point,
+        use_point: 0,
+        content: 'XE 포인트 이관',
+        datetime: new Date(),
+        rel_table: '@migration',
+        rel_id: String(p.member_srl),
+        rel_action: 'xe1_point',
+        expired: false,
+        mb_point: p.point
+    };
+}
@@ -5,19 +5,40 @@
  */
 
 export { PluginRegistry } from './plugin-registry.js';
-export { createExtensionContext } from './plugin-context.js';
+export { createExtensionContext, PluginHookManagerProxy } from './plugin-context.js';
+export { importPluginModule } from './plugin-loader.js';
+export {
+    PluginSandbox,
+    SandboxTerminatedError,
+    createSandboxedModule,
+    DEFAULT_SANDBOX_LIMITS,
+    DEFAULT_SANDBOX_BUILTINS,
+    FORBIDDEN_SANDBOX_BUILTINS
+} from './sandbox.js';
+export type {
+    PluginSandboxCapabilities,
+    PluginSandboxDatabase,
+    PluginSandboxLimits,
+    PluginSandboxOptions,
+    PluginSandboxWhere
+} from './sandbox.js';
 export {
     PermissionManager,
     PermissionDeniedError,
     DANGEROUS_PERMISSIONS,
     HOOK_PERMISSION_MAP
 } from './permission-manager.js';
-export type { AuditEntry } from './permission-manager.js';
+export type { AuditEntry, AuditListener } from './permission-manager.js';
 export type {
     ExtensionContext,
     PluginInitFunction,
     PluginCleanupFunction,
+    PluginEventBus,
+    PluginLifecycleEvent,
     PluginManifestInfo,
+    PluginManifestResolver,
+    PluginModule,
+    PluginModuleLoader,
     PluginPermission,
     PluginSettingField,
     PluginLogger,
@@ -82,6 +82,9 @@ export interface AuditEntry {
     granted: boolean;
 }
 
+/** 감사 로그 리스너 (영속화·알림용) */
+export type AuditListener = (entry: AuditEntry) => void;
+
 export class PermissionManager {
     /** 플러그인별 부여된 권한 */
     private grantedPermissions: Map<string, Set<PluginPermission>> = new Map();
@@ -89,6 +92,9 @@ export class PermissionManager {
     /** 감사 로그 (최근 1000건) */
     private auditLog: AuditEntry[] = [];
 
+    /** 감사 로그 리스너 */
+    private auditListeners: Set<AuditListener> = new Set();
+
     /** 감사 로그 최대 크기 */
     private static readonly MAX_AUDIT_LOG = 1000;
 
@@ -195,6 +201,17 @@ export class PermissionManager {
         return [...this.auditLog];
     }
 
+    /**
+     * 감사 로그 리스너 등록 (메모리 로그와 별도로 DB 등에 영속화할 때 사용)
+     * @returns 등록 해제 함수
+     */
+    onAudit(listener: AuditListener): () => void {
+        this.auditListeners.add(listener);
+        return () => {
+            this.auditListeners.delete(listener);
+        };
+    }
+
     /**
      * 모든 권한 초기화
      */
@@ -209,17 +226,27 @@ export class PermissionManager {
         action: string,
         granted: boolean
     ): void {
-        this.auditLog.push({
+        const entry: AuditEntry = {
             timestamp: new Date(),
             pluginId,
             permission,
             action,
             granted
-        });
+        };
+        this.auditLog.push(entry);
 
         // 최대 크기 제한
         if (this.auditLog.length > PermissionManager.MAX_AUDIT_LOG) {
             this.auditLog = this.auditLog.slice(-PermissionManager.MAX_AUDIT_LOG);
         }
+
+        // 리스너 오류가 권한 검사 흐름을 깨지 않도록 격리
+        for (const listener of this.auditListeners) {
+            try {
+                listener(entry);
+            } catch (error) {
+                console.error('[PermissionManager] 감사 로그 리스너 오류:', error);
+            }
+        }
     }
 }
@@ -6,6 +6,14 @@
  */
 
 import { HookManager } from '@angple/hook-system';
+import type {
+    ActionArgs,
+    ActionCallback,
+    FilterArgs,
+    FilterCallback,
+    FilterValue,
+    HookOptions
+} from '@angple/hook-system';
 import type { PermissionManager } from './permission-manager.js';
 import type {
     ExtensionContext,
@@ -15,17 +23,29 @@ import type {
     SlotRegistration
 } from './types.js';
 
+/**
+ * 플러그인이 전역 HookManager에 등록한 콜백 (teardown 추적용)
+ */
+interface OwnedHook {
+    type: 'action' | 'filter';
+    hookName: string;
+    callback: ActionCallback | FilterCallback;
+}
+
 /**
  * 플러그인별 격리된 HookManager 래퍼
  *
- * 전역 HookManager에 위임하되, 플러그인 ID를 추적하여
- * 비활성화 시 해당 플러그인의 모든 훅을 제거할 수 있습니다.
+ * 전역 HookManager에 위임하되, 플러그인이 등록한 콜백 참조를 추적하여
+ * 비활성화 시 해당 플러그인의 훅만 정확히 제거할 수 있습니다.
  */
-class PluginHookManagerProxy extends HookManager {
+export class PluginHookManagerProxy extends HookManager {
     private readonly globalHooks: HookManager;
     private readonly pluginId: string;
     private readonly permMgr: PermissionManager;
 
+    /** 이 플러그인이 전역에 등록한 콜백 목록 */
+    private owned: OwnedHook[] = [];
+
     constructor(globalHooks: HookManager, pluginId: string, permissionManager: PermissionManager) {
         super();
         this.globalHooks = globalHooks;
@@ -33,24 +53,54 @@ class PluginHookManagerProxy extends HookManager {
         this.permMgr = permissionManager;
     }
 
-    override addAction(hookName: string, callback: (...args: any[]) => void, priority = 10): void {
+    override addAction(
+        hookName: string,
+        callback: ActionCallback,
+        priority = 10,
+        options: HookOptions = {}
+    ): void {
         if (!this.permMgr.checkHookPermission(this.pluginId, hookName)) {
             return; // 권한 없으면 무시 (로그는 PermissionManager에서 출력)
         }
-        this.globalHooks.addAction(hookName, callback, priority);
-        super.addAction(hookName, callback, priority);
+        this.globalHooks.addAction(hookName, callback, priority, {
+            ...options,
+            source: this.pluginId
+        });
+        super.addAction(hookName, callback, priority, options);
+        this.owned.push({ type: 'action', hookName, callback });
     }
 
     override addFilter(
         hookName: string,
-        callback: (value: any, ...args: any[]) => any,
-        priority = 10
+        callback: FilterCallback,
+        priority = 10,
+        options: HookOptions = {}
     ): void {
         if (!this.permMgr.checkHookPermission(this.pluginId, hookName)) {
             return;
         }
-        this.globalHooks.addFilter(hookName, callback, priority);
-        super.addFilter(hookName, callback, priority);
+        this.globalHooks.addFilter(hookName, callback, priority, {
+            ...options,
+            source: this.pluginId
+        });
+        super.addFilter(hookName, callback, priority, options);
+        this.owned.push({ type: 'filter', hookName, callback });
+    }
+
+    override removeAction(hookName: string, callback: ActionCallback): void {
+        if (!this.releaseOwned('action', hookName, callback)) {
+            return; // 다른 플러그인의 콜백은 제거할 수 없음
+        }
+        this.globalHooks.removeAction(hookName, callback);
+        super.removeAction(hookName, callback);
+    }
+
+    override removeFilter(hookName: string, callback: FilterCallback): void {
+        if (!this.releaseOwned('filter', hookName, callback)) {
+            return;
+        }
+        this.globalHooks.removeFilter(hookName, callback);
+        super.removeFilter(hookName, callback);
     }
 
     override doAction(hookName: string, ...args: any[]): void {
@@ -61,16 +111,57 @@ class PluginHookManagerProxy extends HookManager {
         return this.globalHooks.applyFilters(hookName, value, ...args);
     }
 
+    override doActionAsync<K extends string>(hookName: K, ...args: ActionArgs<K>): Promise<void> {
+        return this.globalHooks.doActionAsync(hookName, ...args);
+    }
+
+    override applyFiltersAsync<K extends string>(
+        hookName: K,
+        value: FilterValue<K>,
+        ...args: FilterArgs<K>
+    ): Promise<FilterValue<K>> {
+        return this.globalHooks.applyFiltersAsync(hookName, value, ...args);
+    }
+
+    /**
+     * 이 플러그인이 전역에 등록 중인 훅 개수
+     */
+    getOwnedHookCount(): number {
+        return this.owned.length;
+    }
+
     /**
      * 이 플러그인이 등록한 모든 훅을 전역에서 제거
+     *
+     * 등록 시 추적한 콜백 참조로만 제거하므로 다른 플러그인/코어 훅은 유지됩니다.
      */
     removeAllFromGlobal(): void {
-        const registered = this.getRegisteredHooks();
-        // 부모 클래스(super)에 저장된 콜백 참조로 전역에서 제거
-        // HookManager에는 개별 callback 기반 remove만 있으므로
-        // 등록 시 super에도 저장한 콜백을 활용
+        for (const hook of this.owned) {
+            if (hook.type === 'action') {
+                this.globalHooks.removeAction(hook.hookName, hook.callback);
+            } else {
+                this.globalHooks.removeFilter(hook.hookName, hook.callback);
+            }
+        }
+        this.owned = [];
         this.clearAll();
     }
+
+    /**
+     * 추적 목록에서 콜백 1건 제거 (소유한 콜백이면 true)
+     */
+    private releaseOwned(
+        type: OwnedHook['type'],
+        hookName: string,
+        callback: ActionCallback | FilterCallback
+    ): boolean {
+        const index = this.owned.findIndex(
+            (h) => h.type === type && h.hookName === hookName && h.callback === callback
+        );
+        if (index === -1) return false;
+        this.owned.splice(index, 1);
+        return true;
+    }
 }
 
 /**
@@ -142,6 +233,9 @@ export function createExtensionContext(
             check(permission: PluginPermission): boolean {
                 return permissionManager.check(pluginId, permission);
             },
+            require(permission: PluginPermission, action: string): void {
+                permissionManager.require(pluginId, permission, action);
+            },
             getGranted(): PluginPermission[] {
                 return permissionManager.getGranted(pluginId);
             }
@@ -165,7 +259,11 @@ export function createExtensionContext(
                 const existing = slotRegistry.get(name);
                 if (existing) {
                     const filtered = existing.filter((r) => r.pluginId !== pluginId);
-                    slotRegistry.set(name, filtered);
+                    if (filtered.length > 0) {
+                        slotRegistry.set(name, filtered);
+                    } else {
+                        slotRegistry.delete(name);
+                    }
                 }
             }
         },
@@ -0,0 +1,33 @@
+/**
+ * 플러그인 엔트리 동적 import
+ *
+ * ESM 모듈 캐시는 URL 단위이므로 쿼리스트링을 바꿔 새 인스턴스를 로드합니다.
+ */
+
+import type { PluginModule } from './types.js';
+
+/**
+ * 캐시를 우회하여 플러그인 엔트리 모듈 import
+ * @param entryUrl - 엔트리 파일 URL (file:// 등)
+ * @param cacheKey - 리로드마다 달라지는 값 (타임스탬프 등)
+ */
+export async function importPluginModule(
+    entryUrl: string,
+    cacheKey: string
+): Promise<PluginModule> {
+    const separator = entryUrl.includes('?') ? '&' : '?';
+    const mod = await import(/* @vite-ignore */ `${entryUrl}${separator}v=${cacheKey}`);
+
+    // default export에 activate/deactivate를 담는 플러그인도 지원
+    const source = (mod.activate ? mod : (mod.default ?? mod)) as Record<string, unknown>;
+    return {
+        activate:
+            typeof source.activate === 'function'
+                ? (source.activate as PluginModule['activate'])
+                : undefined,
+        deactivate:
+            typeof source.deactivate === 'function'
+                ? (source.deactivate as PluginModule['deactivate'])
+                : undefined
+    };
+}
@@ -0,0 +1,313 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { HookManager } from '@angple/hook-system';
+import { PluginRegistry } from './plugin-registry.js';
+import type {
+    ExtensionContext,
+    PluginEventBus,
+    PluginLifecycleEvent,
+    PluginManifestInfo,
+    PluginModule
+} from './types.js';
+
+const manifest = (id: string): PluginManifestInfo => ({
+    id,
+    name: id,
+    version: '1.0.0',
+    permissions: ['posts:read']
+});
+
+/** 여러 레지스트리(pod)가 공유하는 인메모리 이벤트 버스 */
+function createMemoryBus(): PluginEventBus & { events: PluginLifecycleEvent[] } {
+    const handlers: Array<(event: PluginLifecycleEvent) => void> = [];
+    const events: PluginLifecycleEvent[] = [];
+    return {
+        events,
+        async publish(event) {
+            events.push(event);
+            handlers.forEach((handler) => handler(event));
+        },
+        async subscribe(handler) {
+            handlers.push(handler);
+        }
+    };
+}
+
+describe('PluginRegistry', () => {
+    let globalHooks: HookManager;
+    let registry: PluginRegistry;
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        globalHooks = new HookManager();
+        registry = new PluginRegistry(globalHooks);
+    });
+
+    describe('Hook teardown', () => {
+        it('should stop affecting filter output after deactivate', async () => {
+            registry.register(manifest('shout'));
+            await registry.activate('shout', (ctx) => {
+                ctx.hooks.addFilter('post_title', (title: string) => title.toUpperCase());
+            });
+
+            expect(globalHooks.applyFilters('post_title', 'hello')).toBe('HELLO');
+
+            await registry.deactivate('shout');
+
+            expect(globalHooks.applyFilters('post_title', 'hello')).toBe('hello');
+            expect(globalHooks.getHookCount('post_title', 'filter')).toBe(0);
+        });
+
+        it('should only remove callbacks owned by the deactivated plugin', async () => {
+            const core = (title: string) => `${title}!`;
+            globalHooks.addFilter('post_title', core, 1);
+
+            registry.register(manifest('a'));
+            registry.register(manifest('b'));
+            await registry.activate('a', (ctx) => {
+                ctx.hooks.addFilter('post_title', (title: string) => `[a] ${title}`);
+                ctx.hooks.addAction('page_loaded', () => {});
+            });
+            await registry.activate('b', (ctx) => {
+                ctx.hooks.addFilter('post_title', (title: string) => `[b] ${title}`);
+            });
+
+            await registry.deactivate('a');
+
+            expect(globalHooks.applyFilters('post_title', 'hi')).toBe('[b] hi!');
+            expect(globalHooks.getHookCount('page_loaded', 'action')).toBe(0);
+        });
+
+        it('should remove hooks registered before an init failure', async () => {
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+            registry.register(manifest('broken'));
+
+            const context = await registry.activate('broken', (ctx) => {
+                ctx.hooks.addFilter('post_title', () => 'broken');
+                throw new Error('init failed');
+            });
+
+            expect(context).toBeNull();
+            expect(globalHooks.applyFilters('post_title', 'hello')).toBe('hello');
+        });
+
+        it('should not let a plugin remove callbacks it does not own', async () => {
+            const core = (title: string) => `${title}!`;
+            globalHooks.addFilter('post_title', core);
+
+            registry.register(manifest('sneaky'));
+            await registry.activate('sneaky', (ctx) => {
+                ctx.hooks.removeFilter('post_title', core);
+            });
+
+            expect(globalHooks.applyFilters('post_title', 'hi')).toBe('hi!');
+        });
+    });
+
+    describe('Permission audit', () => {
+        it('should notify audit listeners of granted and denied hook registrations', async () => {
+            vi.spyOn(console, 'warn').mockImplementation(() => {});
+            const listener = vi.fn();
+            const unsubscribe = registry.getPermissionManager().onAudit(listener);
+
+            registry.register(manifest('reader'));
+            await registry.activate('reader', (ctx) => {
+                ctx.hooks.addFilter('post_title', (title: string) => title);
+                ctx.hooks.addFilter('comment_content', (content: string) => content);
+            });
+
+            expect(listener.mock.calls.map(([entry]) => [entry.permission, entry.granted])).toEqual(
+                [
+                    ['posts:read', true],
+                    ['comments:read', false]
+                ]
+            );
+            expect(listener).toHaveBeenLastCalledWith(
+                expect.objectContaining({ pluginId: 'reader', action: 'hook:comment_content' })
+            );
+
+            unsubscribe();
+            registry.getPermissionManager().checkHookPermission('reader', 'post_content');
+            expect(listener).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('Slot teardown', () => {
+        it('should remove slot registrations on deactivate', async () => {
+            registry.register(manifest('a'));
+            registry.register(manifest('b'));
+            await registry.activate('a', (ctx) => {
+                ctx.ui.registerSlot('sidebar', 'A');
+                ctx.ui.registerSlot('footer', 'A-footer');
+            });
+            await registry.activate('b', (ctx) => {
+                ctx.ui.registerSlot('sidebar', 'B');
+            });
+
+            await registry.deactivate('a');
+
+            expect(registry.getSlotComponents('sidebar').map((r) => r.component)).toEqual(['B']);
+            expect(registry.getRegisteredSlots()).toEqual(['sidebar']);
+        });
+
+        it('should allow re-activation after deactivate', async () => {
+            const init = (ctx: ExtensionContext) => {
+                ctx.hooks.addFilter('post_title', (title: string) => `* ${title}`);
+                ctx.ui.registerSlot('sidebar', 'A');
+            };
+            registry.register(manifest('a'));
+
+            await registry.activate('a', init);
+            await registry.deactivate('a');
+            await registry.activate('a', init);
+
+            expect(globalHooks.applyFilters('post_title', 'hi')).toBe('* hi');
+            expect(registry.getSlotComponents('sidebar')).toHaveLength(1);
+        });
+    });
+
+    describe('Reload', () => {
+        /** 리로드 때마다 suffix가 바뀌는 가짜 플러그인 모듈 */
+        function createVersionedLoader() {
+            let version = 0;
+            const cacheKeys: string[] = [];
+            const loadModule = vi.fn(
+                async (_id: string, cacheKey: string): Promise<PluginModule> => {
+                    cacheKeys.push(cacheKey);
+                    const suffix = ` v${++version}`;
+                    return {
+                        activate(ctx) {
+                            const prefix = (ctx.settings.get('prefix') as string) ?? '';
+                            ctx.hooks.addFilter(
+                                'post_title',
+                                (title: string) => `${prefix}${title}${suffix}`
+                            );
+                        }
+                    };
+                }
+            );
+            return { loadModule, cacheKeys };
+        }
+
+        it('should replace the old instance with a freshly imported module', async () => {
+            const { loadModule } = createVersionedLoader();
+            registry = new PluginRegistry(globalHooks, { loadModule });
+            registry.register(manifest('p'));
+
+            await registry.reload('p');
+            await registry.reload('p', { settings: { prefix: '> ' } });
+
+            expect(loadModule).toHaveBeenCalledTimes(2);
+            expect(globalHooks.applyFilters('post_title', 'hi')).toBe('> hi v2');
+            expect(globalHooks.getHookCount('post_title', 'filter')).toBe(1);
+        });
+
+        it('should unregister plugins that were uninstalled', async () => {
+            const { loadModule } = createVersionedLoader();
+            let installed = true;
+            registry = new PluginRegistry(globalHooks, {
+                loadModule,
+                resolveManifest: async (id) =>
+                    installed ? { manifest: manifest(id), settings: {} } : null
+            });
+
+            await registry.reload('p');
+            installed = false;
+            const context = await registry.reload('p');
+
+            expect(context).toBeNull();
+            expect(registry.getPlugin('p')).toBeUndefined();
+            expect(globalHooks.applyFilters('post_title', 'hi')).toBe('hi');
+        });
+
+        it('should converge other instances through the event bus', async () => {
+            const bus = createMemoryBus();
+            const podHooks = new HookManager();
+            const resolveManifest = async (id: string) => ({
+                manifest: manifest(id),
+                settings: {}
+            });
+            const podA = new PluginRegistry(globalHooks, {
+                ...createVersionedLoader(),
+                resolveManifest,
+                eventBus: bus,
+                instanceId: 'pod-a'
+            });
+            const podB = new PluginRegistry(podHooks, {
+                ...createVersionedLoader(),
+                resolveManifest,
+                eventBus: bus,
+                instanceId: 'pod-b'
+            });
+            await podA.connectEventBus();
+            await podB.connectEventBus();
+
+            await podA.reload('p');
+            await vi.waitFor(() => expect(podB.getPlugin('p')?.active).toBe(true));
+
+            expect(bus.events).toEqual([
+                expect.objectContaining({ pluginId: 'p', action: 'reload', origin: 'pod-a' })
+            ]);
+            expect(podHooks.applyFilters('post_title', 'hi')).toBe('hi v1');
+
+            await podA.disable('p');
+            await vi.waitFor(() => expect(podB.getPlugin('p')?.active).toBe(false));
+            expect(podHooks.applyFilters('post_title', 'hi')).toBe('hi');
+        });
+    });
+
+    describe('Plugin dependencies', () => {
+        const dependent = (range: string): PluginManifestInfo => ({
+            ...manifest('shop'),
+            pluginDependencies: { payments: range }
+        });
+
+        beforeEach(() => {
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+            vi.spyOn(console, 'warn').mockImplementation(() => {});
+        });
+
+        it('should not activate before its dependency is active', async () => {
+            registry.register(dependent('^1.0.0'));
+            const init = vi.fn();
+
+            expect(await registry.activate('shop', init)).toBeNull();
+            registry.register(manifest('payments'));
+            expect(await registry.activate('shop', init)).toBeNull();
+            expect(init).not.toHaveBeenCalled();
+
+            await registry.activate('payments');
+            expect(await registry.activate('shop', init)).not.toBeNull();
+            expect(init).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not activate when the dependency version is out of range', async () => {
+            registry.register(manifest('payments'));
+            registry.register(dependent('^2.0.0'));
+            await registry.activate('payments');
+
+            expect(await registry.activate('shop')).toBeNull();
+            expect(registry.getPlugin('shop')?.active).toBe(false);
+        });
+
+        it('should disable dependents before their dependency', async () => {
+            const order: string[] = [];
+            registry.register(manifest('payments'));
+            registry.register(dependent('*'));
+            registry.register({ ...manifest('coupon'), pluginDependencies: { shop: '*' } });
+            await registry.activate('payments', undefined, () => {
+                order.push('payments');
+            });
+            await registry.activate('shop', undefined, () => {
+                order.push('shop');
+            });
+            await registry.activate('coupon', undefined, () => {
+                order.push('coupon');
+            });
+
+            await registry.disable('payments');
+
+            expect(order).toEqual(['coupon', 'shop', 'payments']);
+            expect(registry.getActivePlugins()).toEqual([]);
+        });
+    });
+});
@@ -4,14 +4,19 @@
  * 전역 플러그인 레지스트리. 활성 플러그인, 훅 매핑, UI 슬롯을 관리합니다.
  */
 
+import semver from 'semver';
 import { HookManager } from '@angple/hook-system';
 import { PermissionManager } from './permission-manager.js';
-import { createExtensionContext } from './plugin-context.js';
+import { createExtensionContext, PluginHookManagerProxy } from './plugin-context.js';
 import type {
     ExtensionContext,
     PluginInitFunction,
     PluginCleanupFunction,
+    PluginEventBus,
+    PluginLifecycleEvent,
     PluginManifestInfo,
+    PluginManifestResolver,
+    PluginModuleLoader,
     PluginPermission,
     RegisteredPlugin,
     SlotRegistration
@@ -39,15 +44,39 @@ export class PluginRegistry {
     /** 설정 변경 콜백 */
     private onSettingsChange?: (pluginId: string, key: string, value: unknown) => void;
 
+    /** 플러그인 엔트리 로더 (리로드용) */
+    private loadModule?: PluginModuleLoader;
+
+    /** 최신 매니페스트/설정 조회 (리로드용) */
+    private resolveManifest?: PluginManifestResolver;
+
+    /** 인스턴스 간 이벤트 버스 */
+    private eventBus?: PluginEventBus;
+
+    /** 이 레지스트리 인스턴스 ID */
+    private readonly instanceId: string;
+
+    /** 플러그인별 진행 중인 생명주기 작업 (동시 리로드 직렬화) */
+    private lifecycleQueue: Map<string, Promise<unknown>> = new Map();
+
     constructor(
         globalHooks?: HookManager,
         options?: {
             onSettingsChange?: (pluginId: string, key: string, value: unknown) => void;
+            loadModule?: PluginModuleLoader;
+            resolveManifest?: PluginManifestResolver;
+            eventBus?: PluginEventBus;
+            instanceId?: string;
         }
     ) {
         this.globalHooks = globalHooks ?? new HookManager();
         this.permissionManager = new PermissionManager();
         this.onSettingsChange = options?.onSettingsChange;
+        this.loadModule = options?.loadModule;
+        this.resolveManifest = options?.resolveManifest;
+        this.eventBus = options?.eventBus;
+        this.instanceId =
+            options?.instanceId ?? `registry-${Date.now()}-${Math.random().toString(36).slice(2)}`;
     }
 
     /**
@@ -86,6 +115,17 @@ export class PluginRegistry {
             return this.contexts.get(pluginId) ?? null;
         }
 
+        // 의존 플러그인이 먼저 활성화되어 있어야 함
+        const unmet = this.getUnmetDependencies(plugin.manifest);
+        if (unmet.length > 0) {
+            console.error(
+                '[PluginRegistry] 의존 플러그인 조건 불충족: %s (%s)',
+                pluginId,
+                unmet.join(', ')
+            );
+            return null;
+        }
+
         // 권한 부여
         if (plugin.manifest.permissions) {
             this.permissionManager.grant(pluginId, plugin.manifest.permissions);
@@ -109,6 +149,8 @@ export class PluginRegistry {
                 await initFn(context);
             } catch (error) {
                 console.error('[PluginRegistry] 플러그인 초기화 실패: %s', pluginId, error);
+                // 실패 전까지 등록된 훅/슬롯도 함께 정리
+                this.teardownRegistrations(pluginId, context);
                 this.permissionManager.revoke(pluginId);
                 this.contexts.delete(pluginId);
                 return null;
@@ -146,10 +188,10 @@ export class PluginRegistry {
             }
         }
 
-        // UI 슬롯에서 해당 플러그인 컴포넌트 제거
-        for (const [slotName, registrations] of this.slotRegistry) {
-            const filtered = registrations.filter((r) => r.pluginId !== pluginId);
-            this.slotRegistry.set(slotName, filtered);
+        // 전역 훅과 UI 슬롯에서 해당 플러그인 등록분 제거
+        const context = this.contexts.get(pluginId);
+        if (context) {
+            this.teardownRegistrations(pluginId, context);
         }
 
         // 권한 회수
@@ -164,6 +206,229 @@ export class PluginRegistry {
         return true;
     }
 
+    /**
+     * 만족하지 못한 의존 플러그인 조건 (미등록·비활성·버전 불일치)
+     */
+    private getUnmetDependencies(manifest: PluginManifestInfo): string[] {
+        const unmet: string[] = [];
+        for (const [depId, range] of Object.entries(manifest.pluginDependencies ?? {})) {
+            const dep = this.plugins.get(depId);
+            if (!dep) {
+                unmet.push(`${depId} 미등록`);
+                continue;
+            }
+            if (!dep.active) {
+                unmet.push(`${depId} 비활성`);
+                continue;
+            }
+            const version =
+                semver.valid(dep.manifest.version) ?? semver.coerce(dep.manifest.version);
+            if (!version || !semver.satisfies(version, range, { includePrerelease: true })) {
+                unmet.push(`${depId} ${dep.manifest.version} (필요: ${range})`);
+            }
+        }
+        return unmet;
+    }
+
+    /**
+     * 이 플러그인에 (직간접적으로) 의존하는 활성 플러그인 (의존하는 쪽이 먼저 오는 순서)
+     */
+    private getActiveDependents(pluginId: string, visited: Set<string> = new Set()): string[] {
+        const dependents: string[] = [];
+        for (const plugin of this.plugins.values()) {
+            const id = plugin.manifest.id;
+            if (
+                !plugin.active ||
+                visited.has(id) ||
+                !plugin.manifest.pluginDependencies?.[pluginId]
+            ) {
+                continue;
+            }
+            visited.add(id);
+            dependents.push(...this.getActiveDependents(id, visited), id);
+        }
+        return dependents;
+    }
+
+    /**
+     * 플러그인이 전역 HookManager와 슬롯 레지스트리에 등록한 항목 제거
+     */
+    private teardownRegistrations(pluginId: string, context: ExtensionContext): void {
+        if (context.hooks instanceof PluginHookManagerProxy) {
+            context.hooks.removeAllFromGlobal();
+        }
+
+        for (const [slotName, registrations] of this.slotRegistry) {
+            const filtered = registrations.filter((r) => r.pluginId !== pluginId);
+            if (filtered.length > 0) {
+                this.slotRegistry.set(slotName, filtered);
+            } else {
+                this.slotRegistry.delete(slotName);
+            }
+        }
+    }
+
+    /**
+     * 플러그인 리로드 (서버 재시작 없이 최신 코드/설정 반영)
+     *
+     * 1. 활성 인스턴스 비활성화 (훅/슬롯 정리)
+     * 2. 최신 매니페스트/설정 조회
+     * 3. 엔트리 모듈을 캐시 우회하여 다시 import
+     * 4. activate 재실행
+     * 5. 다른 인스턴스에 이벤트 전파
+     *
+     * @returns 새 ExtensionContext (설치 제거/로드 실패 시 null)
+     */
+    async reload(
+        pluginId: string,
+        options: { settings?: Record<string, unknown>; broadcast?: boolean } = {}
+    ): Promise<ExtensionContext | null> {
+        if (!this.loadModule) {
+            console.error('[PluginRegistry] 모듈 로더가 없어 리로드할 수 없음: %s', pluginId);
+            return null;
+        }
+        const loadModule = this.loadModule;
+
+        const context = await this.runExclusive(pluginId, async () => {
+            await this.deactivate(pluginId);
+
+            if (this.resolveManifest) {
+                const resolved = await this.resolveManifest(pluginId);
+                if (!resolved) {
+                    // 설치 제거된 플러그인
+                    this.plugins.delete(pluginId);
+                    return null;
+                }
+                this.upsertManifest(resolved.manifest, resolved.settings);
+            }
+
+            const plugin = this.plugins.get(pluginId);
+            if (!plugin) {
+                console.error('[PluginRegistry] 등록되지 않은 플러그인: %s', pluginId);
+                return null;
+            }
+            if (options.settings) {
+                plugin.settings = { ...options.settings };
+            }
+
+            let mod;
+            try {
+                mod = await loadModule(pluginId, String(Date.now()));
+            } catch (error) {
+                console.error('[PluginRegistry] 플러그인 모듈 로드 실패: %s', pluginId, error);
+                return null;
+            }
+
+            return this.activate(pluginId, mod.activate, mod.deactivate);
+        });
+
+        if (options.broadcast !== false) {
+            await this.publish(pluginId, 'reload');
+        }
+        return context;
+    }
+
+    /**
+     * 플러그인 비활성화 + 다른 인스턴스에 전파
+     *
+     * 이 플러그인에 의존하는 활성 플러그인도 먼저 비활성화합니다.
+     * (각 인스턴스가 같은 규칙으로 처리하므로 대상 플러그인 이벤트만 전파)
+     */
+    async disable(pluginId: string, options: { broadcast?: boolean } = {}): Promise<boolean> {
+        for (const dependentId of this.getActiveDependents(pluginId)) {
+            console.warn(
+                '[PluginRegistry] 의존 플러그인 비활성화로 함께 비활성화: %s',
+                dependentId
+            );
+            await this.runExclusive(dependentId, () => this.deactivate(dependentId));
+        }
+        const result = await this.runExclusive(pluginId, () => this.deactivate(pluginId));
+        if (options.broadcast !== false) {
+            await this.publish(pluginId, 'deactivate');
+        }
+        return result;
+    }
+
+    /**
+     * 이벤트 버스 구독 시작 (다른 인스턴스의 리로드/비활성화를 로컬에 반영)
+     */
+    async connectEventBus(): Promise<void> {
+        if (!this.eventBus) return;
+
+        await this.eventBus.subscribe((event) => {
+            if (event.origin === this.instanceId) return;
+
+            const task =
+                event.action === 'deactivate'
+                    ? this.disable(event.pluginId, { broadcast: false })
+                    : this.reload(event.pluginId, { broadcast: false });
+
+            task.catch((error) => {
+                console.error(
+                    '[PluginRegistry] 원격 이벤트 처리 실패: %s (%s)',
+                    event.pluginId,
+                    event.action,
+                    error
+                );
+            });
+        });
+    }
+
+    /**
+     * 이 레지스트리 인스턴스 ID
+     */
+    getInstanceId(): string {
+        return this.instanceId;
+    }
+
+    /**
+     * 매니페스트 등록 또는 갱신 (활성 상태는 유지하지 않음)
+     */
+    private upsertManifest(manifest: PluginManifestInfo, settings: Record<string, unknown>): void {
+        const existing = this.plugins.get(manifest.id);
+        if (existing) {
+            existing.manifest = manifest;
+            existing.settings = settings;
+            return;
+        }
+        this.register(manifest, settings);
+    }
+
+    /**
+     * 생명주기 이벤트 발행 (실패해도 로컬 상태에는 영향 없음)
+     */
+    private async publish(pluginId: string, action: PluginLifecycleEvent['action']): Promise<void> {
+        if (!this.eventBus) return;
+
+        try {
+            await this.eventBus.publish({
+                pluginId,
+                action,
+                origin: this.instanceId,
+                timestamp: Date.now()
+            });
+        } catch (error) {
+            console.error('[PluginRegistry] 이벤트 발행 실패: %s', pluginId, error);
+        }
+    }
+
+    /**
+     * 같은 플러그인에 대한 생명주기 작업을 순서대로 실행
+     */
+    private async runExclusive<T>(pluginId: string, task: () => Promise<T>): Promise<T> {
+        const previous = this.lifecycleQueue.get(pluginId) ?? Promise.resolve();
+        const current = previous.catch(() => undefined).then(task);
+        this.lifecycleQueue.set(pluginId, current);
+
+        try {
+            return await current;
+        } finally {
+            if (this.lifecycleQueue.get(pluginId) === current) {
+                this.lifecycleQueue.delete(pluginId);
+            }
+        }
+    }
+
     /**
      * 플러그인 등록 해제 (완전 제거)
      */
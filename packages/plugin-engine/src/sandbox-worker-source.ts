@@ -0,0 +1,249 @@
+/**
+ * 샌드박스 Worker 소스
+ *
+ * 번들러(Vite 등)를 거쳐도 Worker 엔트리 경로가 깨지지 않도록
+ * Worker 부트스트랩과 모듈 로더 훅을 문자열로 보관하고 data: URL로 실행합니다.
+ * 메시지 형식은 sandbox.ts의 SandboxHostMessage / SandboxWorkerMessage와 일치해야 합니다.
+ */
+
+/**
+ * 모듈 로더 훅
+ *
+ * - 허용 목록에 없는 Node 내장 모듈 import 차단
+ * - 플러그인 디렉터리(allowedRoot) 밖의 파일 import 차단
+ * - CommonJS 모듈 차단 (require는 로더 훅을 거치지 않으므로)
+ */
+export const SANDBOX_LOADER_HOOKS_SOURCE = `
+let allowedRoot = '';
+let allowedBuiltins = new Set();
+
+export async function initialize(data) {
+    allowedRoot = data.allowedRoot;
+    allowedBuiltins = new Set(data.allowedBuiltins);
+}
+
+export async function resolve(specifier, context, nextResolve) {
+    const bare = specifier.startsWith('node:') ? specifier.slice(5) : specifier;
+    if (allowedBuiltins.has(bare)) {
+        return nextResolve(specifier, context);
+    }
+
+    const resolved = await nextResolve(specifier, context);
+    if (resolved.url.startsWith('file:') && resolved.url.startsWith(allowedRoot)) {
+        return resolved;
+    }
+    throw new Error('[sandbox] 허용되지 않은 모듈: ' + specifier);
+}
+
+export async function load(url, context, nextLoad) {
+    const result = await nextLoad(url, context);
+    if (result.format === 'commonjs') {
+        throw new Error('[sandbox] CommonJS 모듈은 지원하지 않습니다: ' + url);
+    }
+    return result;
+}
+`;
+
+/**
+ * Worker 부트스트랩
+ *
+ * 로더 훅과 전역 제한을 적용한 뒤 플러그인 엔트리를 import 하고,
+ * 호스트와 메시지로 통신하는 최소 ExtensionContext를 주입합니다.
+ */
+export const SANDBOX_WORKER_SOURCE = `
+import { register } from 'node:module';
+import { parentPort, workerData } from 'node:worker_threads';
+
+const { pluginId, pluginVersion, entryUrl, settings, granted } = workerData;
+
+register('data:text/javascript,' + encodeURIComponent(workerData.loaderHooks), {
+    data: { allowedRoot: workerData.allowedRoot, allowedBuiltins: workerData.allowedBuiltins }
+});
+
+// 로더 훅을 우회하는 내장 모듈 접근, 네이티브 바인딩, 프로세스 제어 차단
+// (getBuiltinModule은 import를 거치지 않아 허용 목록을 우회함)
+const LOCKED_PROCESS_KEYS = [
+    'getBuiltinModule', 'binding', '_linkedBinding', 'dlopen', 'loadEnvFile', 'report',
+    'kill', '_kill', 'reallyExit', 'abort', 'chdir', 'umask',
+    'setuid', 'setgid', 'seteuid', 'setegid', 'setgroups', 'initgroups',
+    '_debugProcess', '_debugEnd', '_startProfilerIdleNotifier', '_stopProfilerIdleNotifier'
+];
+for (const key of LOCKED_PROCESS_KEYS) {
+    try {
+        delete process[key];
+        if (key in process) {
+            Object.defineProperty(process, key, { value: undefined, configurable: false });
+        }
+    } catch {
+        // 아래에서 남아 있는지 확인
+    }
+}
+// 하나라도 지우지 못했으면 플러그인을 불러오지 않음 (fail closed)
+const unlocked = LOCKED_PROCESS_KEYS.filter((key) => process[key] !== undefined);
+if (unlocked.length > 0) {
+    throw new Error('[sandbox] process 제한 실패: ' + unlocked.join(', '));
+}
+
+const callbacks = new Map();
+const pendingRpc = new Map();
+let nextId = 1;
+let pluginModule = null;
+
+function serializeError(error) {
+    return error instanceof Error
+        ? { name: error.name, message: error.message }
+        : { name: 'Error', message: String(error) };
+}
+
+function deserializeError(error) {
+    const result = new Error(error.message);
+    result.name = error.name;
+    return result;
+}
+
+function call(method, args) {
+    const id = nextId++;
+    return new Promise((resolve, reject) => {
+        pendingRpc.set(id, { resolve, reject });
+        parentPort.postMessage({ type: 'rpc', id, method, args });
+    });
+}
+
+function log(level, message, args) {
+    let safeArgs;
+    try {
+        safeArgs = structuredClone(args);
+    } catch {
+        safeArgs = args.map((arg) => String(arg));
+    }
+    parentPort.postMessage({ type: 'log', level, message: String(message), args: safeArgs });
+}
+
+function addHook(hookType, hookName, callback, priority) {
+    if (typeof callback !== 'function') return;
+    const callbackId = nextId++;
+    callbacks.set(callbackId, { hookName, callback });
+    parentPort.postMessage({ type: 'register', hookType, hookName, callbackId, priority });
+}
+
+function unregister(hookName, callback) {
+    for (const [callbackId, entry] of callbacks) {
+        if (entry.hookName === hookName && entry.callback === callback) {
+            callbacks.delete(callbackId);
+            parentPort.postMessage({ type: 'unregister', callbackId });
+        }
+    }
+}
+
+async function sandboxFetch(input, init = {}) {
+    const headers = init.headers ? Object.fromEntries(new Headers(init.headers)) : undefined;
+    const body = typeof init.body === 'string' ? init.body : undefined;
+    const response = await call('fetch', [
+        String(input instanceof Request ? input.url : input),
+        { method: init.method, headers, body }
+    ]);
+    const nullBody = [101, 204, 205, 304].includes(response.status);
+    return new Response(nullBody ? null : response.body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers
+    });
+}
+
+globalThis.fetch = sandboxFetch;
+
+const context = {
+    pluginId,
+    pluginVersion,
+    hooks: {
+        addAction: (hookName, callback, priority = 10) =>
+            addHook('action', hookName, callback, priority),
+        addFilter: (hookName, callback, priority = 10) =>
+            addHook('filter', hookName, callback, priority),
+        removeAction: unregister,
+        removeFilter: unregister
+    },
+    settings: {
+        get: (key) => settings[key],
+        set(key, value) {
+            settings[key] = value;
+            call('settings.set', [key, value]).catch((error) =>
+                log('error', '설정 저장 실패', [serializeError(error)])
+            );
+        },
+        getAll: () => ({ ...settings })
+    },
+    permissions: {
+        check: (permission) => granted.includes(permission),
+        getGranted: () => [...granted]
+    },
+    db: {
+        select: (table, where = {}, options = {}) => call('db.select', [table, where, options]),
+        insert: (table, values) => call('db.insert', [table, values]),
+        update: (table, values, where = {}) => call('db.update', [table, values, where]),
+        delete: (table, where = {}) => call('db.delete', [table, where])
+    },
+    fetch: sandboxFetch,
+    ui: {
+        registerSlot: () => log('warn', '샌드박스 모드에서는 UI 슬롯을 등록할 수 없습니다.', []),
+        removeSlot: () => {}
+    },
+    logger: {
+        info: (message, ...args) => log('info', message, args),
+        warn: (message, ...args) => log('warn', message, args),
+        error: (message, ...args) => log('error', message, args)
+    }
+};
+
+parentPort.on('message', async (message) => {
+    switch (message.type) {
+        case 'ping':
+            parentPort.postMessage({ type: 'pong' });
+            break;
+
+        case 'rpc-result': {
+            const pending = pendingRpc.get(message.id);
+            if (!pending) break;
+            pendingRpc.delete(message.id);
+            if (message.ok) pending.resolve(message.value);
+            else pending.reject(deserializeError(message.error));
+            break;
+        }
+
+        case 'invoke': {
+            const entry = callbacks.get(message.callbackId);
+            try {
+                if (!entry) throw new Error('등록되지 않은 콜백입니다.');
+                const value = await entry.callback(...message.args);
+                parentPort.postMessage({ type: 'invoke-result', id: message.id, ok: true, value });
+            } catch (error) {
+                parentPort.postMessage({
+                    type: 'invoke-result',
+                    id: message.id,
+                    ok: false,
+                    error: serializeError(error)
+                });
+            }
+            break;
+        }
+
+        case 'deactivate':
+            try {
+                await pluginModule?.deactivate?.();
+            } catch (error) {
+                log('error', '플러그인 정리 실패', [serializeError(error)]);
+            }
+            parentPort.postMessage({ type: 'deactivated' });
+            break;
+    }
+});
+
+try {
+    const imported = await import(entryUrl);
+    pluginModule = imported.activate ? imported : (imported.default ?? imported);
+    await pluginModule.activate?.(context);
+    parentPort.postMessage({ type: 'ready' });
+} catch (error) {
+    parentPort.postMessage({ type: 'activate-error', error: serializeError(error) });
+}
+`;
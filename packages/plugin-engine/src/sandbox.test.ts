@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { HookManager } from '@angple/hook-system';
+import { PluginRegistry } from './plugin-registry.js';
+import { createSandboxedModule, type PluginSandboxOptions } from './sandbox.js';
+import type { PluginManifestInfo, PluginPermission } from './types.js';
+
+const manifest = (id: string, permissions: PluginPermission[] = []): PluginManifestInfo => ({
+    id,
+    name: id,
+    version: '1.0.0',
+    permissions
+});
+
+describe('PluginSandbox', () => {
+    let dir: string;
+    let globalHooks: HookManager;
+    let registry: PluginRegistry;
+
+    /** 임시 디렉터리에 ESM 플러그인 엔트리 작성 */
+    async function writePlugin(name: string, source: string): Promise<string> {
+        const file = join(dir, `${name}.mjs`);
+        await writeFile(file, source);
+        return pathToFileURL(file).href;
+    }
+
+    async function activateSandboxed(
+        id: string,
+        source: string,
+        options: Partial<PluginSandboxOptions> = {},
+        permissions: PluginPermission[] = []
+    ) {
+        const entryUrl = await writePlugin(id, source);
+        const module = createSandboxedModule({ entryUrl, ...options });
+        registry.register(manifest(id, permissions), { greeting: 'hi' });
+        return registry.activate(id, module.activate, module.deactivate);
+    }
+
+    beforeAll(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'angple-sandbox-'));
+    });
+
+    afterAll(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        globalHooks = new HookManager();
+        registry = new PluginRegistry(globalHooks);
+    });
+
+    it('should run filters in the worker and remove them on deactivate', async () => {
+        const context = await activateSandboxed(
+            'echo',
+            `export function activate(ctx) {
+                ctx.hooks.addFilter('sandbox_title', (title) => ctx.settings.get('greeting') + ' ' + title);
+            }`
+        );
+
+        expect(context).not.toBeNull();
+        expect(await globalHooks.applyFiltersAsync('sandbox_title', 'world')).toBe('hi world');
+        // 동기 applyFilters는 샌드박스 콜백을 건너뛰어 값이 Promise로 바뀌지 않음
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        expect(globalHooks.applyFilters('sandbox_title', 'world')).toBe('world');
+
+        await registry.deactivate('echo');
+
+        expect(globalHooks.getHookCount('sandbox_title', 'filter')).toBe(0);
+    });
+
+    it('should block Node built-ins outside the allow list', async () => {
+        const context = await activateSandboxed(
+            'reader',
+            `import { readFileSync } from 'node:fs';
+            export function activate() { readFileSync('/etc/passwd'); }`
+        );
+
+        expect(context).toBeNull();
+    });
+
+    it('should not reach child_process, fs or net through process.getBuiltinModule', async () => {
+        await activateSandboxed(
+            'escaper',
+            `export function activate(ctx) {
+                ctx.hooks.addFilter('sandbox_content', () =>
+                    ['child_process', 'fs', 'net'].map((name) => {
+                        try {
+                            const mod = process.getBuiltinModule?.(name) ?? process.binding?.(name);
+                            return mod ? name : 'blocked';
+                        } catch {
+                            return 'blocked';
+                        }
+                    }).join(',')
+                );
+            }`
+        );
+
+        expect(await globalHooks.applyFiltersAsync('sandbox_content', '')).toBe(
+            'blocked,blocked,blocked'
+        );
+    });
+
+    it('should not open forbidden built-ins even if the allow list names them', async () => {
+        const context = await activateSandboxed(
+            'spawner',
+            `import { execSync } from 'node:child_process';
+            export function activate() { execSync('id'); }`,
+            { allowedBuiltins: ['child_process', 'util'] }
+        );
+
+        expect(context).toBeNull();
+    });
+
+    it('should deny capabilities without the matching permission', async () => {
+        const fetchSpy = vi.fn(async () => new Response('ok'));
+        await activateSandboxed(
+            'caller',
+            `export function activate(ctx) {
+                ctx.hooks.addFilter('sandbox_content', async (content) => {
+                    try {
+                        await fetch('https://example.com');
+                        return 'fetched';
+                    } catch (error) {
+                        return error.name;
+                    }
+                });
+            }`,
+            { capabilities: { fetch: fetchSpy } }
+        );
+
+        expect(await globalHooks.applyFiltersAsync('sandbox_content', '')).toBe(
+            'PermissionDeniedError'
+        );
+        expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should proxy fetch when network:fetch is granted', async () => {
+        const fetchSpy = vi.fn(async () => new Response('remote body'));
+        await activateSandboxed(
+            'fetcher',
+            `export function activate(ctx) {
+                ctx.hooks.addFilter('sandbox_content', async () => (await fetch('https://example.com/a')).text());
+            }`,
+            { capabilities: { fetch: fetchSpy } },
+            ['network:fetch']
+        );
+
+        expect(await globalHooks.applyFiltersAsync('sandbox_content', '')).toBe('remote body');
+        expect(fetchSpy).toHaveBeenCalledWith('https://example.com/a', expect.anything());
+    });
+
+    it('should gate the DB facade by database permissions', async () => {
+        const db = {
+            select: vi.fn(async () => [{ id: 1 }]),
+            insert: vi.fn(async () => ({ insertId: 1 })),
+            update: vi.fn(async () => ({ affectedRows: 0 })),
+            delete: vi.fn(async () => ({ affectedRows: 0 }))
+        };
+        await activateSandboxed(
+            'reporter',
+            `export function activate(ctx) {
+                ctx.hooks.addFilter('sandbox_content', async () => {
+                    const rows = await ctx.db.select('logs', { level: 'error' });
+                    const inserted = await ctx.db.insert('logs', { level: 'info' }).catch((e) => e.name);
+                    return rows.length + ':' + inserted;
+                });
+            }`,
+            { capabilities: { db } },
+            ['database:read']
+        );
+
+        expect(await globalHooks.applyFiltersAsync('sandbox_content', '')).toBe(
+            '1:PermissionDeniedError'
+        );
+        expect(db.select).toHaveBeenCalledWith('reporter', 'logs', { level: 'error' }, {});
+        expect(db.insert).not.toHaveBeenCalled();
+    });
+
+    it('should kill a plugin that blocks the event loop', async () => {
+        const onTerminated = vi.fn();
+        await activateSandboxed(
+            'spinner',
+            `export function activate(ctx) {
+                ctx.hooks.addFilter('sandbox_title', (title) => { while (true) {} });
+            }`,
+            { limits: { cpuTimeLimitMs: 100, callTimeoutMs: 2000 }, onTerminated }
+        );
+
+        expect(await globalHooks.applyFiltersAsync('sandbox_title', 'safe')).toBe('safe');
+        expect(onTerminated).toHaveBeenCalledWith('spinner', expect.stringContaining('CPU'));
+        expect(globalHooks.getHookCount('sandbox_title', 'filter')).toBe(0);
+    });
+});
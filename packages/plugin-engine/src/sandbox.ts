@@ -0,0 +1,630 @@
+/**
+ * Plugin Sandbox
+ *
+ * 신뢰할 수 없는 플러그인의 서버 코드를 worker_threads Worker에서 실행합니다.
+ * 플러그인은 Node API 대신 권한이 검사되는 RPC(설정, DB, fetch)만 사용할 수 있고,
+ * 메모리/CPU 시간 제한을 넘으면 Worker가 강제 종료됩니다.
+ */
+
+import { Worker } from 'node:worker_threads';
+import type { ActionCallback, FilterCallback } from '@angple/hook-system';
+import { PluginHookManagerProxy } from './plugin-context.js';
+import { SANDBOX_LOADER_HOOKS_SOURCE, SANDBOX_WORKER_SOURCE } from './sandbox-worker-source.js';
+import type { ExtensionContext, PluginModule } from './types.js';
+
+/**
+ * 샌드박스 리소스 제한
+ */
+export interface PluginSandboxLimits {
+    /** Worker 힙 최대 크기 (MB) */
+    maxMemoryMb: number;
+    /** 이벤트 루프를 연속으로 점유할 수 있는 최대 시간 (ms) — 초과 시 강제 종료 */
+    cpuTimeLimitMs: number;
+    /** 훅 콜백 1회 호출 응답 대기 시간 (ms) */
+    callTimeoutMs: number;
+    /** activate/deactivate 완료 대기 시간 (ms) */
+    lifecycleTimeoutMs: number;
+}
+
+/** DB 조회 조건 (컬럼 = 값, AND 결합) */
+export type PluginSandboxWhere = Record<string, string | number | boolean | null>;
+
+/**
+ * 샌드박스 DB 파사드 (호스트가 구현, 권한 검사 후 호출됨)
+ *
+ * 임의 SQL 대신 테이블 단위 API만 제공하며, table은 플러그인 네임스페이스 안의 이름입니다.
+ */
+export interface PluginSandboxDatabase {
+    /** 조회 (database:read) */
+    select(
+        pluginId: string,
+        table: string,
+        where: PluginSandboxWhere,
+        options: { columns?: string[]; orderBy?: string; desc?: boolean; limit?: number }
+    ): Promise<Record<string, unknown>[]>;
+    /** 삽입 (database:write) */
+    insert(
+        pluginId: string,
+        table: string,
+        values: Record<string, unknown>
+    ): Promise<{ insertId: number }>;
+    /** 수정 (database:write) */
+    update(
+        pluginId: string,
+        table: string,
+        values: Record<string, unknown>,
+        where: PluginSandboxWhere
+    ): Promise<{ affectedRows: number }>;
+    /** 삭제 (database:write) */
+    delete(
+        pluginId: string,
+        table: string,
+        where: PluginSandboxWhere
+    ): Promise<{ affectedRows: number }>;
+}
+
+/**
+ * 샌드박스에 노출할 호스트 기능
+ */
+export interface PluginSandboxCapabilities {
+    db?: PluginSandboxDatabase;
+    /** network:fetch 권한 검사 후 호출되는 fetch (기본: 전역 fetch) */
+    fetch?: (url: string, init: RequestInit) => Promise<Response>;
+}
+
+/**
+ * 샌드박스 생성 옵션
+ */
+export interface PluginSandboxOptions {
+    /** 플러그인 엔트리 URL (file://, ESM) */
+    entryUrl: string;
+    /** import를 허용할 디렉터리 URL (기본: 엔트리 파일 디렉터리) */
+    allowedRoot?: string;
+    limits?: Partial<PluginSandboxLimits>;
+    capabilities?: PluginSandboxCapabilities;
+    /** 플러그인이 import 할 수 있는 Node 내장 모듈 */
+    allowedBuiltins?: string[];
+    /** Worker가 비정상 종료되었을 때 (메모리/CPU 제한 초과, 크래시) */
+    onTerminated?: (pluginId: string, reason: string) => void;
+}
+
+/**
+ * 호스트 → Worker 메시지
+ */
+export type SandboxHostMessage =
+    | { type: 'ping' }
+    | { type: 'invoke'; id: number; callbackId: number; args: unknown[] }
+    | { type: 'rpc-result'; id: number; ok: boolean; value?: unknown; error?: SandboxError }
+    | { type: 'deactivate' };
+
+/**
+ * Worker → 호스트 메시지
+ */
+export type SandboxWorkerMessage =
+    | { type: 'pong' }
+    | { type: 'ready' }
+    | { type: 'activate-error'; error: SandboxError }
+    | { type: 'deactivated' }
+    | {
+          type: 'register';
+          hookType: 'action' | 'filter';
+          hookName: string;
+          callbackId: number;
+          priority: number;
+      }
+    | { type: 'unregister'; callbackId: number }
+    | { type: 'invoke-result'; id: number; ok: boolean; value?: unknown; error?: SandboxError }
+    | { type: 'rpc'; id: number; method: string; args: unknown[] }
+    | { type: 'log'; level: 'info' | 'warn' | 'error'; message: string; args: unknown[] };
+
+/** Worker 경계를 넘는 에러 표현 */
+interface SandboxError {
+    name: string;
+    message: string;
+}
+
+/**
+ * 샌드박스가 종료되어 호출할 수 없을 때
+ */
+export class SandboxTerminatedError extends Error {
+    constructor(
+        public readonly pluginId: string,
+        public readonly reason: string
+    ) {
+        super(`[${pluginId}] 샌드박스 종료됨: ${reason}`);
+        this.name = 'SandboxTerminatedError';
+    }
+}
+
+export const DEFAULT_SANDBOX_LIMITS: PluginSandboxLimits = {
+    maxMemoryMb: 64,
+    cpuTimeLimitMs: 1000,
+    callTimeoutMs: 5000,
+    lifecycleTimeoutMs: 10_000
+};
+
+/**
+ * 부작용 없는 Node 내장 모듈 (파일/프로세스/네트워크 접근 불가)
+ */
+export const DEFAULT_SANDBOX_BUILTINS = [
+    'buffer',
+    'crypto',
+    'events',
+    'path',
+    'querystring',
+    'string_decoder',
+    'url',
+    'util'
+];
+
+/**
+ * 허용 목록에 넣어도 샌드박스에서 열지 않는 내장 모듈
+ * 프로세스 생성, 새 Worker, 로더 훅 재등록(module.register), 파일·네트워크 접근으로 격리를 벗어날 수 있습니다.
+ */
+export const FORBIDDEN_SANDBOX_BUILTINS = new Set([
+    'child_process',
+    'cluster',
+    'dgram',
+    'dns',
+    'fs',
+    'fs/promises',
+    'http',
+    'http2',
+    'https',
+    'inspector',
+    'module',
+    'net',
+    'os',
+    'process',
+    'tls',
+    'trace_events',
+    'v8',
+    'vm',
+    'wasi',
+    'worker_threads'
+]);
+
+interface PendingCall {
+    resolve: (value: unknown) => void;
+    reject: (error: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+interface HostCallback {
+    type: 'action' | 'filter';
+    hookName: string;
+    callback: ActionCallback | FilterCallback;
+}
+
+function toSandboxError(error: unknown): SandboxError {
+    return error instanceof Error
+        ? { name: error.name, message: error.message }
+        : { name: 'Error', message: String(error) };
+}
+
+function fromSandboxError(error: SandboxError | undefined): Error {
+    const result = new Error(error?.message ?? '알 수 없는 오류');
+    result.name = error?.name ?? 'Error';
+    return result;
+}
+
+/**
+ * Worker 1개에서 실행되는 플러그인 인스턴스
+ */
+export class PluginSandbox {
+    private readonly options: PluginSandboxOptions;
+    private readonly limits: PluginSandboxLimits;
+    private worker: Worker | null = null;
+    private context: ExtensionContext | null = null;
+    private terminatedReason: string | null = null;
+
+    /** Worker 콜백 ID → 전역 HookManager에 등록한 프록시 콜백 */
+    private callbacks: Map<number, HostCallback> = new Map();
+    private pending: Map<number, PendingCall> = new Map();
+    private nextCallId = 1;
+
+    private heartbeat: ReturnType<typeof setInterval> | null = null;
+    private awaitingPong = false;
+
+    /** activate/deactivate 완료 대기 */
+    private lifecycleWaiter: {
+        expect: 'ready' | 'deactivated';
+        resolve: () => void;
+        reject: (error: Error) => void;
+    } | null = null;
+
+    constructor(options: PluginSandboxOptions) {
+        this.options = options;
+        this.limits = { ...DEFAULT_SANDBOX_LIMITS };
+        // 값이 지정된 항목만 기본값을 덮어씀
+        for (const [key, value] of Object.entries(options.limits ?? {})) {
+            if (typeof value === 'number' && value > 0) {
+                this.limits[key as keyof PluginSandboxLimits] = value;
+            }
+        }
+    }
+
+    /** 실행 중 여부 */
+    isRunning(): boolean {
+        return this.worker !== null;
+    }
+
+    /**
+     * Worker를 띄우고 플러그인 activate 실행
+     *
+     * 플러그인이 등록한 훅은 context.hooks를 통해 전역 HookManager에 프록시로 연결되므로
+     * 기존 플러그인과 동일하게 권한 검사·소유권 추적·teardown이 적용됩니다.
+     */
+    async start(context: ExtensionContext): Promise<void> {
+        if (this.worker) {
+            throw new Error(`[${context.pluginId}] 샌드박스가 이미 실행 중입니다.`);
+        }
+
+        this.context = context;
+        this.terminatedReason = null;
+
+        const entryUrl = this.options.entryUrl;
+        const allowedRoot =
+            this.options.allowedRoot ?? entryUrl.slice(0, entryUrl.lastIndexOf('/') + 1);
+
+        const worker = new Worker(
+            new URL(`data:text/javascript,${encodeURIComponent(SANDBOX_WORKER_SOURCE)}`),
+            {
+                workerData: {
+                    pluginId: context.pluginId,
+                    pluginVersion: context.pluginVersion,
+                    entryUrl,
+                    allowedRoot: allowedRoot.endsWith('/') ? allowedRoot : `${allowedRoot}/`,
+                    allowedBuiltins: (
+                        this.options.allowedBuiltins ?? DEFAULT_SANDBOX_BUILTINS
+                    ).filter((name) => !FORBIDDEN_SANDBOX_BUILTINS.has(name.replace(/^node:/, ''))),
+                    loaderHooks: SANDBOX_LOADER_HOOKS_SOURCE,
+                    settings: context.settings.getAll(),
+                    granted: context.permissions.getGranted()
+                },
+                // 호스트 환경변수(DB 비밀번호 등) 비공개
+                env: {},
+                execArgv: [],
+                resourceLimits: {
+                    maxOldGenerationSizeMb: this.limits.maxMemoryMb,
+                    maxYoungGenerationSizeMb: Math.max(4, Math.floor(this.limits.maxMemoryMb / 8))
+                }
+            }
+        );
+
+        this.worker = worker;
+        worker.on('message', (message: SandboxWorkerMessage) => this.handleMessage(message));
+        worker.on('error', (error: unknown) =>
+            this.terminate(error instanceof Error ? error.message : String(error))
+        );
+        worker.on('exit', (code) => {
+            if (this.worker === worker) {
+                this.terminate(`Worker 종료 (code ${code})`);
+            }
+        });
+
+        this.startHeartbeat();
+
+        try {
+            await this.waitForLifecycle('ready');
+        } catch (error) {
+            await this.terminate(error instanceof Error ? error.message : String(error), false);
+            throw error;
+        }
+    }
+
+    /**
+     * 플러그인 deactivate 실행 후 Worker 종료
+     */
+    async stop(): Promise<void> {
+        if (!this.worker) return;
+
+        try {
+            this.post({ type: 'deactivate' });
+            await this.waitForLifecycle('deactivated');
+        } catch (error) {
+            this.context?.logger.warn('샌드박스 정리 중 오류', error);
+        }
+        await this.terminate('비활성화', false);
+    }
+
+    /**
+     * Worker 강제 종료 및 등록된 훅 해제
+     * @param notify - onTerminated 콜백 호출 여부 (비정상 종료일 때만)
+     */
+    private async terminate(reason: string, notify = true): Promise<void> {
+        const worker = this.worker;
+        if (!worker) return;
+
+        this.worker = null;
+        this.terminatedReason = reason;
+        this.stopHeartbeat();
+
+        for (const [id, call] of this.pending) {
+            clearTimeout(call.timer);
+            call.reject(new SandboxTerminatedError(this.context?.pluginId ?? 'unknown', reason));
+            this.pending.delete(id);
+        }
+
+        this.lifecycleWaiter?.reject(
+            new SandboxTerminatedError(this.context?.pluginId ?? 'unknown', reason)
+        );
+        this.lifecycleWaiter = null;
+
+        this.unregisterAll();
+
+        if (notify && this.context) {
+            this.context.logger.error(`샌드박스 강제 종료: ${reason}`);
+            this.options.onTerminated?.(this.context.pluginId, reason);
+        }
+
+        await worker.terminate();
+    }
+
+    private startHeartbeat(): void {
+        this.awaitingPong = false;
+        this.heartbeat = setInterval(() => {
+            // 이전 ping에 응답이 없으면 이벤트 루프가 cpuTimeLimitMs 이상 멈춘 것
+            if (this.awaitingPong) {
+                void this.terminate(`CPU 시간 제한 초과 (${this.limits.cpuTimeLimitMs}ms)`);
+                return;
+            }
+            this.awaitingPong = true;
+            this.post({ type: 'ping' });
+        }, this.limits.cpuTimeLimitMs);
+        this.heartbeat.unref?.();
+    }
+
+    private stopHeartbeat(): void {
+        if (this.heartbeat) {
+            clearInterval(this.heartbeat);
+            this.heartbeat = null;
+        }
+    }
+
+    private waitForLifecycle(expect: 'ready' | 'deactivated'): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.lifecycleWaiter = null;
+                reject(new Error(`${expect} 대기 시간 초과 (${this.limits.lifecycleTimeoutMs}ms)`));
+            }, this.limits.lifecycleTimeoutMs);
+
+            this.lifecycleWaiter = {
+                expect,
+                resolve: () => {
+                    clearTimeout(timer);
+                    resolve();
+                },
+                reject: (error) => {
+                    clearTimeout(timer);
+                    reject(error);
+                }
+            };
+        });
+    }
+
+    private post(message: SandboxHostMessage): void {
+        this.worker?.postMessage(message);
+    }
+
+    private handleMessage(message: SandboxWorkerMessage): void {
+        switch (message.type) {
+            case 'pong':
+                this.awaitingPong = false;
+                break;
+
+            case 'ready':
+            case 'deactivated':
+                if (this.lifecycleWaiter?.expect === message.type) {
+                    this.lifecycleWaiter.resolve();
+                    this.lifecycleWaiter = null;
+                }
+                break;
+
+            case 'activate-error':
+                this.lifecycleWaiter?.reject(fromSandboxError(message.error));
+                this.lifecycleWaiter = null;
+                break;
+
+            case 'register':
+                this.registerHook(
+                    message.hookType,
+                    message.hookName,
+                    message.callbackId,
+                    message.priority
+                );
+                break;
+
+            case 'unregister':
+                this.unregisterHook(message.callbackId);
+                break;
+
+            case 'invoke-result': {
+                const call = this.pending.get(message.id);
+                if (!call) break;
+                this.pending.delete(message.id);
+                clearTimeout(call.timer);
+                if (message.ok) call.resolve(message.value);
+                else call.reject(fromSandboxError(message.error));
+                break;
+            }
+
+            case 'rpc':
+                void this.handleRpc(message.id, message.method, message.args);
+                break;
+
+            case 'log':
+                this.context?.logger[message.level](message.message, ...message.args);
+                break;
+        }
+    }
+
+    /**
+     * Worker 콜백을 호출하는 프록시를 전역 HookManager에 등록
+     *
+     * 프록시는 항상 Promise를 반환하므로 asyncOnly로 등록합니다.
+     * 동기 applyFilters / doAction은 이 콜백을 건너뛰고(경고), applyFiltersAsync / doActionAsync에서만 실행됩니다.
+     */
+    private registerHook(
+        type: 'action' | 'filter',
+        hookName: string,
+        callbackId: number,
+        priority: number
+    ): void {
+        if (!this.context) return;
+
+        if (type === 'action') {
+            const callback: ActionCallback = async (...args) => {
+                await this.invoke(callbackId, args);
+            };
+            this.callbacks.set(callbackId, { type, hookName, callback });
+            this.context.hooks.addAction(hookName, callback, priority, {
+                timeout: this.limits.callTimeoutMs,
+                asyncOnly: true
+            });
+        } else {
+            const callback: FilterCallback = (value, ...args) =>
+                this.invoke(callbackId, [value, ...args]);
+            this.callbacks.set(callbackId, { type, hookName, callback });
+            this.context.hooks.addFilter(hookName, callback, priority, {
+                timeout: this.limits.callTimeoutMs,
+                asyncOnly: true
+            });
+        }
+    }
+
+    private unregisterHook(callbackId: number): void {
+        const entry = this.callbacks.get(callbackId);
+        if (!entry || !this.context) return;
+
+        if (entry.type === 'action') {
+            this.context.hooks.removeAction(entry.hookName, entry.callback as ActionCallback);
+        } else {
+            this.context.hooks.removeFilter(entry.hookName, entry.callback as FilterCallback);
+        }
+        this.callbacks.delete(callbackId);
+    }
+
+    private unregisterAll(): void {
+        if (this.context?.hooks instanceof PluginHookManagerProxy) {
+            this.context.hooks.removeAllFromGlobal();
+            this.callbacks.clear();
+            return;
+        }
+        for (const callbackId of [...this.callbacks.keys()]) {
+            this.unregisterHook(callbackId);
+        }
+    }
+
+    /**
+     * Worker 콜백 호출
+     */
+    private invoke(callbackId: number, args: unknown[]): Promise<unknown> {
+        const pluginId = this.context?.pluginId ?? 'unknown';
+        if (!this.worker) {
+            return Promise.reject(
+                new SandboxTerminatedError(pluginId, this.terminatedReason ?? '실행 중 아님')
+            );
+        }
+
+        const id = this.nextCallId++;
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.pending.delete(id);
+                reject(
+                    new Error(`[${pluginId}] 콜백 응답 시간 초과 (${this.limits.callTimeoutMs}ms)`)
+                );
+            }, this.limits.callTimeoutMs);
+
+            this.pending.set(id, { resolve, reject, timer });
+            try {
+                this.post({ type: 'invoke', id, callbackId, args });
+            } catch (error) {
+                // 함수·DOM 객체 등 복제할 수 없는 인자
+                clearTimeout(timer);
+                this.pending.delete(id);
+                reject(error instanceof Error ? error : new Error(String(error)));
+            }
+        });
+    }
+
+    /**
+     * Worker의 capability 호출 처리 (권한 검사 후 호스트 기능 실행)
+     */
+    private async handleRpc(id: number, method: string, args: unknown[]): Promise<void> {
+        try {
+            const value = await this.dispatchRpc(method, args);
+            this.post({ type: 'rpc-result', id, ok: true, value });
+        } catch (error) {
+            this.post({ type: 'rpc-result', id, ok: false, error: toSandboxError(error) });
+        }
+    }
+
+    private async dispatchRpc(method: string, args: unknown[]): Promise<unknown> {
+        const context = this.context;
+        if (!context) throw new Error('컨텍스트가 없습니다.');
+        const { db, fetch: hostFetch } = this.options.capabilities ?? {};
+
+        switch (method) {
+            case 'settings.set': {
+                const [key, value] = args as [string, unknown];
+                context.settings.set(key, value);
+                return undefined;
+            }
+
+            case 'db.select':
+            case 'db.insert':
+            case 'db.update':
+            case 'db.delete': {
+                const action = method.slice(3) as 'select' | 'insert' | 'update' | 'delete';
+                context.permissions.require(
+                    action === 'select' ? 'database:read' : 'database:write',
+                    `sandbox:db.${action} ${String(args[0])}`
+                );
+                if (!db) throw new Error('DB 기능을 사용할 수 없습니다.');
+                const run = db[action] as (...a: unknown[]) => Promise<unknown>;
+                return run.call(db, context.pluginId, ...args);
+            }
+
+            case 'fetch': {
+                const [url, init] = args as [string, RequestInit];
+                const target = new URL(url);
+                context.permissions.require('network:fetch', `sandbox:fetch ${target.host}`);
+                if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+                    throw new Error(`허용되지 않은 프로토콜: ${target.protocol}`);
+                }
+                const response = await (hostFetch ?? fetch)(target.href, {
+                    ...init,
+                    redirect: 'manual',
+                    signal: AbortSignal.timeout(this.limits.callTimeoutMs)
+                });
+                const headers: Record<string, string> = {};
+                response.headers.forEach((value, key) => {
+                    headers[key] = value;
+                });
+                return {
+                    status: response.status,
+                    statusText: response.statusText,
+                    headers,
+                    body: await response.text()
+                };
+            }
+
+            default:
+                throw new Error(`알 수 없는 샌드박스 호출: ${method}`);
+        }
+    }
+}
+
+/**
+ * 샌드박스에서 실행되는 PluginModule 생성
+ *
+ * PluginRegistry의 loadModule에서 반환하면 activate/deactivate가 Worker에서 실행됩니다.
+ */
+export function createSandboxedModule(options: PluginSandboxOptions): PluginModule {
+    const sandbox = new PluginSandbox(options);
+    return {
+        activate: (context) => sandbox.start(context),
+        deactivate: () => sandbox.stop()
+    };
+}
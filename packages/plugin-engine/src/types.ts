@@ -38,6 +38,11 @@ export interface PluginManifestInfo {
     description?: string;
     permissions?: PluginPermission[];
     settings?: Record<string, PluginSettingField>;
+    /**
+     * 의존 플러그인 (플러그인 ID → semver 범위)
+     * 의존 플러그인이 먼저 활성화되어 있어야 활성화할 수 있음
+     */
+    pluginDependencies?: Record<string, string>;
 }
 
 /**
@@ -102,6 +107,8 @@ export interface ExtensionContext {
     /** 권한 검증 */
     permissions: {
         check(permission: PluginPermission): boolean;
+        /** 권한이 없으면 PermissionDeniedError를 throw (감사 로그 기록) */
+        require(permission: PluginPermission, action: string): void;
         getGranted(): PluginPermission[];
     };
 
@@ -128,3 +135,44 @@ export type PluginInitFunction = (context: ExtensionContext) => void | Promise<v
  * 플러그인 정리 함수 시그니처
  */
 export type PluginCleanupFunction = () => void | Promise<void>;
+
+/**
+ * 플러그인 엔트리 모듈 (main 파일의 export)
+ */
+export interface PluginModule {
+    activate?: PluginInitFunction;
+    deactivate?: PluginCleanupFunction;
+}
+
+/**
+ * 플러그인 엔트리 로더
+ *
+ * cacheKey가 바뀔 때마다 모듈 캐시를 우회하여 새로 import 해야 합니다.
+ */
+export type PluginModuleLoader = (pluginId: string, cacheKey: string) => Promise<PluginModule>;
+
+/**
+ * 리로드 시 최신 매니페스트/설정 조회 (null이면 설치 제거된 플러그인)
+ */
+export type PluginManifestResolver = (
+    pluginId: string
+) => Promise<{ manifest: PluginManifestInfo; settings: Record<string, unknown> } | null>;
+
+/**
+ * 인스턴스 간 전파되는 플러그인 생명주기 이벤트
+ */
+export interface PluginLifecycleEvent {
+    pluginId: string;
+    action: 'reload' | 'deactivate';
+    /** 이벤트를 발행한 인스턴스 ID (자기 자신이 보낸 이벤트 무시용) */
+    origin: string;
+    timestamp: number;
+}
+
+/**
+ * 플러그인 이벤트 버스 (Redis pub/sub 등)
+ */
+export interface PluginEventBus {
+    publish(event: PluginLifecycleEvent): Promise<void>;
+    subscribe(handler: (event: PluginLifecycleEvent) => void): Promise<void>;
+}
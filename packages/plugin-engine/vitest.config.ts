@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+import { fileURLToPath } from 'url';
+
+export default defineConfig({
+    resolve: {
+        alias: {
+            // 빌드(dist) 없이 워크스페이스 소스를 직접 사용
+            '@angple/hook-system': fileURLToPath(
+                new URL('../hook-system/src/index.ts', import.meta.url)
+            )
+        }
+    }
+});
@@ -32,15 +32,36 @@ export const ExtensionRepositorySchema = z.object({
     directory: z.string().optional()
 });
 
+/**
+ * semver 버전 범위 (예: ">=0.3.0", "^1.2", "~1.2.3", ">=1.0.0 <2.0.0", "1.x || 2.x")
+ */
+export const SemverRangeSchema = z
+    .string()
+    .trim()
+    .min(1, '버전 범위는 비어 있을 수 없습니다')
+    .regex(
+        /^(\*|[<>=~^]*\s*v?(\d+|[xX*])(\.(\d+|[xX*])){0,2}(-[0-9A-Za-z.-]+)?)(\s+(\|\|\s+)?(\*|[<>=~^]*\s*v?(\d+|[xX*])(\.(\d+|[xX*])){0,2}(-[0-9A-Za-z.-]+)?))*$/,
+        '유효한 semver 범위 형식이어야 합니다 (예: >=0.3.0, ^1.2.0)'
+    );
+
 /**
  * Extension 엔진 요구사항
  */
 export const ExtensionEnginesSchema = z.object({
     node: z.string().optional(),
     sveltekit: z.string().optional(),
-    angple: z.string().optional()
+    angple: SemverRangeSchema.optional()
 });
 
+/**
+ * 의존 플러그인 (플러그인 ID → semver 범위)
+ * npm 패키지 의존성(dependencies)과 구분하기 위해 pluginDependencies 필드를 사용합니다.
+ */
+export const ExtensionPluginDependenciesSchema = z.record(
+    z.string().regex(/^[a-z0-9-]+$/, '의존 플러그인 ID는 소문자, 숫자, 하이픈만 사용 가능합니다'),
+    SemverRangeSchema
+);
+
 // ============================================================================
 // 설정 필드 스키마
 // ============================================================================
@@ -258,6 +279,7 @@ const BaseExtensionManifestSchema = z.object({
     ui: ExtensionUISchema.optional(),
     settings: z.record(z.string(), ExtensionSettingFieldSchema).optional(),
     dependencies: z.record(z.string(), z.string()).optional(),
+    pluginDependencies: ExtensionPluginDependenciesSchema.optional(),
     devDependencies: z.record(z.string(), z.string()).optional(),
     homepage: z.string().url().optional(),
     repository: ExtensionRepositorySchema.optional(),
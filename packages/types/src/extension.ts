@@ -360,7 +360,7 @@ export interface ExtensionEngines {
     /** SvelteKit 버전 */
     sveltekit?: string;
 
-    /** Angple 버전 */
+    /** Angple 버전 범위 (semver, 예: ">=0.3.0") — 만족하지 않으면 활성화 거부 */
     angple?: string;
 }
 
@@ -439,6 +439,12 @@ export interface ExtensionManifest {
     /** npm 의존성 (package.json처럼) */
     dependencies?: Record<string, string>;
 
+    /**
+     * 의존 플러그인 (플러그인 ID → semver 범위, 예: { "affiliate-link": "^1.2.0" })
+     * 의존 플러그인이 먼저 활성화되어 있어야 활성화할 수 있음
+     */
+    pluginDependencies?: Record<string, string>;
+
     /** 개발 의존성 */
     devDependencies?: Record<string, string>;
 
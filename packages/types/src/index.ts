@@ -59,6 +59,8 @@ export {
     ExtensionAuthorSchema,
     ExtensionRepositorySchema,
     ExtensionEnginesSchema,
+    ExtensionPluginDependenciesSchema,
+    SemverRangeSchema,
     ExtensionSettingFieldSchema,
     ExtensionHookSchema,
     ExtensionComponentSchema,